@@ -10,16 +10,18 @@ import {
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { StatusBar } from "expo-status-bar";
-import { useRouter } from "expo-router";
+import { useRouter, useLocalSearchParams } from "expo-router";
 import { useAuth } from "../../contexts/AuthContext";
 import { colors } from "../../lib/theme";
 import Header from "@components/Header";
 
 export default function LoginScreen() {
   const router = useRouter();
+  const params = useLocalSearchParams<{ email?: string; reason?: string }>();
   const { checkEmail, signup, login, setIsSigningUp } = useAuth();
+  const isSessionExpired = params.reason === "session-expired";
 
-  const [email, setEmail] = useState("");
+  const [email, setEmail] = useState(params.email ?? "");
   const [name, setName] = useState("");
   const [showNameField, setShowNameField] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -123,7 +125,9 @@ export default function LoginScreen() {
           <Text className="text-sm text-text-muted leading-5">
             {showNameField
               ? "Please enter your name to continue"
-              : "Enter your email to continue"}
+              : isSessionExpired
+                ? "Your session has expired. Sign in again to pick up where you left off."
+                : "Enter your email to continue"}
           </Text>
         </View>
 
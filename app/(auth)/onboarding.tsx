@@ -7,6 +7,7 @@ import { getCurrentUser, getPendingEmail, getPendingUserId } from "@lib/auth";
 import { apiRequest } from "@lib/api";
 import { useRouter } from "expo-router";
 import { generateWorkoutPlanAsync } from "@lib/workouts";
+import { getUnitSystem, saveUnitSystem } from "@lib/units";
 import OnboardingForm, { FormData } from "../../components/OnboardingForm";
 import * as SecureStore from "expo-secure-store";
 import { colors } from "../../lib/theme";
@@ -202,6 +203,9 @@ export default function OnboardingScreen() {
         profileData.workoutDuration
       );
 
+      // Units are kept on this device rather than in the profile
+      await saveUnitSystem(getUnitSystem(formData));
+
       // Step 1: Complete onboarding (update profile)
       if (!userIdToUse || isNaN(parseInt(userIdToUse, 10))) {
         throw new Error("Invalid User ID");
@@ -14,6 +14,7 @@ import { useRouter, useLocalSearchParams, usePathname } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { StatusBar } from "expo-status-bar";
 import { verify, generateAuthCode } from "../../lib/auth";
+import { takePostLoginRedirect } from "../../lib/session";
 import { useAuth } from "../../contexts/AuthContext";
 import { Ionicons } from "@expo/vector-icons";
 import * as SecureStore from "expo-secure-store";
@@ -26,7 +27,13 @@ export default function VerifyScreen() {
   const { email } = useLocalSearchParams<{ email: string }>();
   const [otp, setOtp] = useState(["", "", "", ""]);
   const [isLoading, setIsLoading] = useState(false);
-  const { isSigningUp, setUserData, setIsPreloadingData } = useAuth();
+  const {
+    isSigningUp,
+    setUserData,
+    setIsPreloadingData,
+    sessionExpired,
+    completeReauthentication,
+  } = useAuth();
 
   const inputs = useRef<TextInput[]>([]);
 
@@ -126,6 +133,14 @@ export default function VerifyScreen() {
           );
         }
 
+        // Signed back in after the session expired: return to the screen
+        // they were on, which is still mounted underneath the auth stack
+        if (sessionExpired && !isSigningUp && !response.needsOnboarding) {
+          await completeReauthentication(response.user ?? null);
+          router.dismissTo(takePostLoginRedirect() ?? "/");
+          return;
+        }
+
         // If user is signing up or response indicates onboarding is needed, store email and user ID
         if (isSigningUp || response.needsOnboarding) {
           await Promise.all([
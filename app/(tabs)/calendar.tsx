@@ -14,8 +14,9 @@ import {
   regenerateWorkoutPlanAsync,
   regenerateDailyWorkoutAsync,
   generateWorkoutPlanAsync,
-  invalidateActiveWorkoutCache,
 } from "@lib/workouts";
+import { invalidateQueries } from "@lib/queryCache";
+import { QUERY_TAGS } from "@/constants";
 import { registerForPushNotifications } from "@/lib/notifications";
 import { useAppDataContext } from "@contexts/AppDataContext";
 import { useAuth } from "@contexts/AuthContext";
@@ -31,6 +32,7 @@ import WorkoutRegenerationModal from "@components/WorkoutRegenerationModal";
 import WorkoutRepeatModal from "@components/WorkoutRepeatModal";
 import { useBackgroundJobs } from "@contexts/BackgroundJobContext";
 import WorkoutBlock from "@components/WorkoutBlock";
+import HeartRateCard from "@components/HeartRateCard";
 import {
   calculatePlanDayDuration,
   formatWorkoutDuration,
@@ -766,6 +768,44 @@ export default function CalendarScreen() {
                       </View>
                     </View>
                     <View className="flex-row items-center space-x-sm">
+                      {currentSelectedPlanDay.isComplete && (
+                        <TouchableOpacity
+                          className="bg-primary py-2 px-4 rounded-xl flex-row items-center"
+                          onPress={() =>
+                            router.push(
+                              `/workout-summary/${currentSelectedPlanDay.id}`
+                            )
+                          }
+                        >
+                          <Ionicons
+                            name="stats-chart"
+                            size={14}
+                            color={colors.text.secondary}
+                          />
+                          <Text className="text-secondary font-semibold text-sm ml-1">
+                            Summary
+                          </Text>
+                        </TouchableOpacity>
+                      )}
+                      {currentSelectedPlanDay.isComplete && (
+                        <TouchableOpacity
+                          className="bg-neutral-light-2 py-2 px-3 rounded-xl flex-row items-center"
+                          onPress={() =>
+                            router.push(
+                              `/workout-history/${currentSelectedPlanDay.id}`
+                            )
+                          }
+                        >
+                          <Ionicons
+                            name="create-outline"
+                            size={14}
+                            color={colors.text.primary}
+                          />
+                          <Text className="text-text-primary font-semibold text-sm ml-1">
+                            Edit
+                          </Text>
+                        </TouchableOpacity>
+                      )}
                       {isToday() && !isHistoricalWorkout && workoutPlan && (
                         <TouchableOpacity
                           className="bg-secondary py-2 px-4 rounded-xl"
@@ -787,6 +827,12 @@ export default function CalendarScreen() {
                   )}
                 </View>
 
+                {currentSelectedPlanDay.isComplete && (
+                  <View className="mb-md">
+                    <HeartRateCard planDayId={currentSelectedPlanDay.id} />
+                  </View>
+                )}
+
                 {/* Workout Blocks */}
                 <View className="space-y-sm">
                   {currentSelectedPlanDay.blocks &&
@@ -847,7 +893,7 @@ export default function CalendarScreen() {
         }
         selectedDate={selectedDate}
         onSuccess={() => {
-          invalidateActiveWorkoutCache();
+          invalidateQueries(QUERY_TAGS.WORKOUT);
         }}
       />
 
@@ -13,6 +13,7 @@ import { useRouter } from "expo-router";
 import { useFocusEffect } from "@react-navigation/native";
 import { useAuth } from "../../contexts/AuthContext";
 import { useAppDataContext } from "@contexts/AppDataContext";
+import { useUnits } from "@hooks/useUnits";
 import {
   TotalVolumeMetrics,
   WeightAccuracyMetrics,
@@ -39,6 +40,7 @@ import { fetchActiveWorkout } from "@lib/workouts";
 import { Ionicons } from "@expo/vector-icons";
 import { colors } from "../../lib/theme";
 import { DONUT_COLORS } from "@/constants";
+import { CHECK_IN_DIFFICULTIES, getMoodEmoji } from "@/lib/checkIn";
 import { PlanDayWithBlocks } from "@/types/api";
 import {
   WorkoutBlockWithExercises,
@@ -134,6 +136,8 @@ export default function DashboardScreen() {
       workoutConsistency,
       weightMetrics,
       totalVolumeMetrics,
+      effortMetrics,
+      checkInMetrics,
       dailyWorkoutProgress,
     },
 
@@ -150,6 +154,7 @@ export default function DashboardScreen() {
       reset,
     },
   } = useAppDataContext();
+  const { weightUnit, toDisplayWeight } = useUnits();
 
   const fetchTodaysWorkout = async () => {
     try {
@@ -160,8 +165,12 @@ export default function DashboardScreen() {
         setWorkoutInfo({
           name: workoutPlan.name || "Workout Plan",
           description: workoutPlan.description || "A plan for your workouts.",
-          startDate: workoutPlan.startDate?.toString(),
-          endDate: workoutPlan.endDate?.toString(),
+          startDate: workoutPlan.startDate
+            ? formatDateAsString(workoutPlan.startDate)
+            : undefined,
+          endDate: workoutPlan.endDate
+            ? formatDateAsString(workoutPlan.endDate)
+            : undefined,
           planDays: workoutPlan.planDays,
         });
 
@@ -818,7 +827,28 @@ export default function DashboardScreen() {
       metric.name.length > 10
         ? metric.name.substring(0, 10) + "..."
         : metric.name,
-    value: metric.totalWeight,
+    value: toDisplayWeight(metric.totalWeight),
+  }));
+
+  // Post-workout check-ins, oldest first
+  const ratedCheckIns = checkInMetrics.filter(
+    (item): item is typeof item & { rating: number } => item.rating !== null
+  );
+  const averageCheckInRating =
+    ratedCheckIns.length > 0
+      ? Math.round(
+          (ratedCheckIns.reduce((total, item) => total + item.rating, 0) /
+            ratedCheckIns.length) *
+            10
+        ) / 10
+      : null;
+  const recentMoods = checkInMetrics
+    .filter((item) => getMoodEmoji(item.mood))
+    .slice(-7);
+  const difficultyCounts = CHECK_IN_DIFFICULTIES.map((option) => ({
+    ...option,
+    count: checkInMetrics.filter((item) => item.difficulty === option.value)
+      .length,
   }));
 
   // Compute weekly progress data (will update when dependencies change)
@@ -1414,7 +1444,7 @@ export default function DashboardScreen() {
                   </Text>
 
                   <Text className="text-xs text-text-muted mb-3">
-                    Your weight progression over time (
+                    Your weight progression over time in {weightUnit} (
                     {strengthFilter === "3M"
                       ? "Last 3 months"
                       : strengthFilter === "1M"
@@ -1487,7 +1517,7 @@ export default function DashboardScreen() {
 
                         return {
                           label: displayLabel,
-                          value: item.avgWeight,
+                          value: toDisplayWeight(item.avgWeight),
                           date: item.date,
                         };
                       })}
@@ -1504,12 +1534,14 @@ export default function DashboardScreen() {
                       <Text className="text-base font-bold text-text-primary">
                         {weightProgressionData.length > 0
                           ? Math.round(
-                              weightProgressionData[
-                                weightProgressionData.length - 1
-                              ]?.avgWeight || 0
+                              toDisplayWeight(
+                                weightProgressionData[
+                                  weightProgressionData.length - 1
+                                ]?.avgWeight || 0
+                              )
                             )
                           : 0}{" "}
-                        lbs
+                        {weightUnit}
                       </Text>
                       <Text className="text-xs text-text-muted">
                         Latest Avg
@@ -1518,11 +1550,15 @@ export default function DashboardScreen() {
                     <View className="items-center">
                       <Text className="text-base font-bold text-accent">
                         {weightProgressionData.length > 0
-                          ? Math.max(
-                              ...weightProgressionData.map((d) => d.maxWeight)
+                          ? toDisplayWeight(
+                              Math.max(
+                                ...weightProgressionData.map(
+                                  (d) => d.maxWeight
+                                )
+                              )
                             )
                           : 0}{" "}
-                        lbs
+                        {weightUnit}
                       </Text>
                       <Text className="text-xs text-text-muted">
                         Peak Weight
@@ -1577,6 +1613,143 @@ export default function DashboardScreen() {
               </View>
             )}
 
+            {/* Average Effort Chart */}
+            {effortMetrics && effortMetrics.length > 0 && (
+              <View className="px-4 mb-6">
+                <View className="px-4">
+                  <Text className="text-base font-semibold text-text-primary mb-1">
+                    Average Effort
+                  </Text>
+                  <Text className="text-xs text-text-muted mb-3">
+                    Average RPE of the sets you rated each session
+                  </Text>
+                </View>
+
+                <View className="bg-white rounded-2xl p-4 shadow-sm">
+                  <View className="mb-4">
+                    <LineChart
+                      data={effortMetrics.map((item) => ({
+                        label: item.label,
+                        value: item.averageRpe,
+                        date: item.date,
+                      }))}
+                      height={180}
+                      color={colors.brand.dark[1]}
+                      showValues={true}
+                      showLabels={effortMetrics.length <= 7}
+                    />
+                  </View>
+
+                  <View className="flex-row justify-around pt-4 border-t border-neutral-light-2">
+                    <View className="items-center">
+                      <Text className="text-base font-bold text-text-primary">
+                        {effortMetrics[effortMetrics.length - 1].averageRpe}
+                      </Text>
+                      <Text className="text-xs text-text-muted">
+                        Latest RPE
+                      </Text>
+                    </View>
+                    <View className="items-center">
+                      <Text className="text-base font-bold text-accent">
+                        {Math.round(
+                          (effortMetrics.reduce(
+                            (total, item) => total + item.averageRpe,
+                            0
+                          ) /
+                            effortMetrics.length) *
+                            10
+                        ) / 10}
+                      </Text>
+                      <Text className="text-xs text-text-muted">
+                        Average RPE
+                      </Text>
+                    </View>
+                    <View className="items-center">
+                      <Text className="text-base font-bold text-primary">
+                        {effortMetrics.reduce(
+                          (total, item) => total + item.setCount,
+                          0
+                        )}
+                      </Text>
+                      <Text className="text-xs text-text-muted">
+                        Rated Sets
+                      </Text>
+                    </View>
+                  </View>
+                </View>
+              </View>
+            )}
+
+            {/* Check-in Trends */}
+            {checkInMetrics && checkInMetrics.length > 0 && (
+              <View className="px-4 mb-6">
+                <View className="px-4">
+                  <Text className="text-base font-semibold text-text-primary mb-1">
+                    How Workouts Felt
+                  </Text>
+                  <Text className="text-xs text-text-muted mb-3">
+                    From your post-workout check-ins
+                  </Text>
+                </View>
+
+                <View className="bg-white rounded-2xl p-4 shadow-sm">
+                  {ratedCheckIns.length > 0 && (
+                    <View className="mb-4">
+                      <LineChart
+                        data={ratedCheckIns.map((item) => ({
+                          label: item.label,
+                          value: item.rating,
+                          date: item.date,
+                        }))}
+                        height={180}
+                        color={colors.brand.primary}
+                        showValues={true}
+                        showLabels={ratedCheckIns.length <= 7}
+                      />
+                    </View>
+                  )}
+
+                  {recentMoods.length > 0 && (
+                    <View className="flex-row justify-around mb-4">
+                      {recentMoods.map((item) => (
+                        <View key={item.planDayId} className="items-center">
+                          <Text className="text-2xl">
+                            {getMoodEmoji(item.mood)}
+                          </Text>
+                          <Text className="text-[10px] text-text-muted mt-1">
+                            {item.label}
+                          </Text>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+
+                  <View className="flex-row justify-around pt-4 border-t border-neutral-light-2">
+                    <View className="items-center">
+                      <Text className="text-base font-bold text-text-primary">
+                        {averageCheckInRating !== null
+                          ? `${averageCheckInRating}/10`
+                          : "—"}
+                      </Text>
+                      <Text className="text-xs text-text-muted">
+                        Avg Rating
+                      </Text>
+                    </View>
+                    {difficultyCounts.map((option) => (
+                      <View key={option.value} className="items-center">
+                        <Text className="text-base font-bold text-text-primary">
+                          {option.count}
+                        </Text>
+                        <Text className="text-xs text-text-muted">
+                          {option.label}
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+                </View>
+              </View>
+            )}
+
             {/* Workout Type Progress/Distribution Chart */}
             {filteredWorkoutTypeMetrics &&
               filteredWorkoutTypeMetrics.hasData &&
@@ -10,6 +10,7 @@ import {
   Modal,
 } from "react-native";
 import { useFocusEffect } from "@react-navigation/native";
+import { useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import DateTimePicker, {
   DateTimePickerEvent,
@@ -17,6 +18,8 @@ import DateTimePicker, {
 import { useAuth } from "@contexts/AuthContext";
 import ExerciseLink from "@components/ExerciseLink";
 import ExerciseLinkModal from "@components/ExerciseLinkModal";
+import AddToWorkoutModal from "@components/AddToWorkoutModal";
+import PersonalRecordTimeline from "@components/PersonalRecordTimeline";
 import {
   Exercise,
   DateSearchWorkout,
@@ -28,10 +31,12 @@ import {
   DateSearchExercise,
 } from "@/types/api/search.types";
 import { useAppDataContext } from "@contexts/AppDataContext";
+import { useUnits } from "@hooks/useUnits";
 import { updateExerciseLink } from "@lib/exercises";
 import { SkeletonLoader } from "@/components/skeletons/SkeletonLoader";
 
 import { colors } from "@/lib/theme";
+import { TIMEOUTS } from "@/constants";
 
 type SearchType = "date" | "exercise" | "general";
 
@@ -43,9 +48,16 @@ export default function SearchScreen() {
     refresh: { searchByDate, searchExercise, searchExercises },
     loading,
   } = useAppDataContext();
+  const { formatWeight } = useUnits();
+  const router = useRouter();
 
   // Scroll to top ref
   const scrollViewRef = useRef<ScrollView>(null);
+  // Only the latest search may update results; older ones are cancelled
+  const searchControllerRef = useRef<AbortController | null>(null);
+  const debounceTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(
+    null
+  );
   const [exerciseQuery, setExerciseQuery] = useState("");
   const [dateQuery, setDateQuery] = useState("");
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
@@ -75,6 +87,8 @@ export default function SearchScreen() {
     link?: string;
   } | null>(null);
 
+  const [addModalVisible, setAddModalVisible] = useState(false);
+
   // Scroll to top when tab is focused
   useFocusEffect(
     useCallback(() => {
@@ -96,6 +110,22 @@ export default function SearchScreen() {
     };
   }, []);
 
+  // Cancel pending searches when leaving the screen
+  useEffect(() => {
+    return () => {
+      if (debounceTimeoutRef.current) clearTimeout(debounceTimeoutRef.current);
+      searchControllerRef.current?.abort();
+    };
+  }, []);
+
+  // Cancel any in-flight search and return the signal for a new one
+  const startSearchRequest = () => {
+    searchControllerRef.current?.abort();
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
+    return controller.signal;
+  };
+
   // Handle date selection from DateTimePicker
   const handleDateChange = (event: DateTimePickerEvent, date?: Date) => {
     // Hide picker after date selection on both platforms
@@ -134,9 +164,12 @@ export default function SearchScreen() {
     setGeneralResults([]);
 
     // Loading state is handled by useAppData
+    const signal = startSearchRequest();
 
     try {
-      const result = await searchByDate(dateString);
+      const result = await searchByDate(dateString, signal);
+      if (signal.aborted) return;
+      if (!result) throw new Error("Search request failed");
       if (result.success) {
         setDateResult(result.workout);
         setSearchType("date");
@@ -151,17 +184,14 @@ export default function SearchScreen() {
 
   // Debounced search function
   const debouncedSearch = useCallback(
-    (() => {
-      let timeoutId: NodeJS.Timeout;
-      return (query: string) => {
-        clearTimeout(timeoutId);
-        timeoutId = setTimeout(() => {
-          if (query.trim() && user) {
-            performExerciseSearchInternal(query);
-          }
-        }, 300); // 300ms delay
-      };
-    })(),
+    (query: string) => {
+      if (debounceTimeoutRef.current) clearTimeout(debounceTimeoutRef.current);
+      debounceTimeoutRef.current = setTimeout(() => {
+        if (query.trim() && user) {
+          performExerciseSearchInternal(query);
+        }
+      }, TIMEOUTS.DEBOUNCE_DELAY);
+    },
     [user]
   );
 
@@ -174,9 +204,12 @@ export default function SearchScreen() {
 
     // Loading state is handled by useAppData
     setDateQuery(""); // Clear date query
+    const signal = startSearchRequest();
 
     try {
-      const result = await searchExercises(query);
+      const result = await searchExercises(query, signal);
+      if (signal.aborted) return;
+      if (!result) throw new Error("Search request failed");
       if (result.success) {
         setGeneralResults(result.exercises);
         setSearchType("general");
@@ -212,8 +245,11 @@ export default function SearchScreen() {
     setGeneralResults([]);
 
     // Loading state is handled by useAppData
+    const signal = startSearchRequest();
     try {
-      const result = await searchExercise(exercise.id);
+      const result = await searchExercise(exercise.id, signal);
+      if (signal.aborted) return;
+      if (!result) throw new Error("Search request failed");
       if (result.success) {
         setExerciseResult({
           exercise: result.exercise,
@@ -234,6 +270,8 @@ export default function SearchScreen() {
 
   // Clear all search results
   const clearSearch = () => {
+    if (debounceTimeoutRef.current) clearTimeout(debounceTimeoutRef.current);
+    searchControllerRef.current?.abort();
     setExerciseQuery("");
     setDateQuery("");
     setSelectedDate(null);
@@ -266,6 +304,17 @@ export default function SearchScreen() {
     setSelectedExerciseForLink(null);
   };
 
+  const handleExerciseAdded = () => {
+    setAddModalVisible(false);
+    Alert.alert("Added", "The exercise is now part of today's workout.", [
+      { text: "OK" },
+      {
+        text: "Go to Workout",
+        onPress: () => router.push("/(tabs)/workout"),
+      },
+    ]);
+  };
+
   const handleSaveExerciseLink = async (
     exerciseId: number,
     link: string | null
@@ -744,10 +793,20 @@ export default function SearchScreen() {
               </View>
 
               {/* Description */}
-              <Text className="text-sm text-text-muted mb-6">
+              <Text className="text-sm text-text-muted mb-4">
                 {formatDescription(exerciseResult.exercise.description)}
               </Text>
 
+              <TouchableOpacity
+                className="flex-row items-center justify-center bg-primary rounded-xl py-3 mb-6"
+                onPress={() => setAddModalVisible(true)}
+              >
+                <Ionicons name="add" size={18} color={colors.text.secondary} />
+                <Text className="text-sm font-semibold text-secondary ml-1">
+                  Add to Today's Workout
+                </Text>
+              </TouchableOpacity>
+
               {/* Muscle Groups */}
               <View className="mb-5">
                 <Text className="text-sm font-semibold text-text-primary mb-3">
@@ -874,7 +933,7 @@ export default function SearchScreen() {
                     <View className="items-center justify-center w-20 h-20 rounded-full bg-brand-primary mb-3 shadow-sm">
                       <Text className="text-s font-bold text-neutral-light-1 mb-1">
                         {exerciseResult.userStats.averageWeight
-                          ? `${exerciseResult.userStats.averageWeight}`
+                          ? formatWeight(exerciseResult.userStats.averageWeight)
                           : "N/A"}
                       </Text>
                       <Text className="text-[10px] font-medium text-neutral-light-1 text-center max-w-12 leading-[10px]">
@@ -911,10 +970,10 @@ export default function SearchScreen() {
                       </View>
                       <View className="items-center justify-center w-20 h-20 rounded-full bg-brand-primary shadow-sm">
                         <Text className="text-s font-bold text-neutral-light-1 mb-1">
-                          {`${
+                          {formatWeight(
                             exerciseResult.userStats.personalRecord.maxWeight ||
-                            0
-                          }`}
+                              0
+                          )}
                         </Text>
                         <Text className="text-[10px] font-medium text-neutral-light-1 text-center max-w-12 leading-[10px]">
                           Max Weight
@@ -936,6 +995,13 @@ export default function SearchScreen() {
                   ) : null}
                 </View>
               ) : null}
+
+              {/* Records set on this device, newest first */}
+              <View className="mt-6 pt-1 border-t border-neutral-light-2">
+                <PersonalRecordTimeline
+                  exerciseId={exerciseResult.exercise.id}
+                />
+              </View>
             </View>
           </View>
         ) : null}
@@ -1154,7 +1220,7 @@ export default function SearchScreen() {
                                     {exercise.weight ? (
                                       <View className="bg-brand-light-2 rounded-full px-2 py-1 mr-1 mb-1">
                                         <Text className="text-xs font-medium text-text-primary">
-                                          {exercise.weight} lbs
+                                          {formatWeight(exercise.weight)}
                                         </Text>
                                       </View>
                                     ) : null}
@@ -1307,7 +1373,7 @@ export default function SearchScreen() {
                               {exercise.weight ? (
                                 <View className="bg-brand-light-2 rounded-full px-2 py-1 mr-1 mb-1">
                                   <Text className="text-xs font-medium text-text-primary">
-                                    {exercise.weight} lbs
+                                    {formatWeight(exercise.weight)}
                                   </Text>
                                 </View>
                               ) : null}
@@ -1533,6 +1599,14 @@ export default function SearchScreen() {
         onClose={handleCloseLinkModal}
         onSave={handleSaveExerciseLink}
       />
+
+      <AddToWorkoutModal
+        visible={addModalVisible}
+        onClose={() => setAddModalVisible(false)}
+        exercise={exerciseResult?.exercise ?? null}
+        defaultWeight={exerciseResult?.userStats?.averageWeight ?? 0}
+        onAdded={handleExerciseAdded}
+      />
     </View>
   );
 }
@@ -14,7 +14,9 @@ import { useAuth } from "@contexts/AuthContext";
 import { useRouter } from "expo-router";
 import { useAppDataContext } from "@contexts/AppDataContext";
 import { formatEnumValue, getIntensityText } from "@utils/index";
-import { formatHeight } from "@/components/onboarding/utils/formatters";
+import { saveUnitSystem } from "@lib/units";
+import { useUnits } from "@hooks/useUnits";
+import { UnitSystem } from "@/types/api";
 import { colors } from "../../lib/theme";
 import { SettingsSkeleton } from "../../components/skeletons/SkeletonScreens";
 
@@ -33,6 +35,8 @@ export default function SettingsScreen() {
   // Settings state
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
   const [darkModeEnabled, setDarkModeEnabled] = useState(false);
+  const [isSavingUnits, setIsSavingUnits] = useState(false);
+  const { unitSystem, formatWeight, formatHeight } = useUnits();
 
   // Use profile data from the centralized store
   const profile = profileData;
@@ -81,6 +85,24 @@ export default function SettingsScreen() {
     }
   }, [user?.id, profileData]);
 
+  // Units are kept on this device; the profile has no place for them
+  const handleUnitSystemChange = async (nextUnitSystem: UnitSystem) => {
+    if (nextUnitSystem === unitSystem || isSavingUnits) return;
+
+    setIsSavingUnits(true);
+    try {
+      const saved = await saveUnitSystem(nextUnitSystem);
+      if (!saved) {
+        throw new Error("Failed to update units");
+      }
+    } catch (error) {
+      console.error("Error updating units:", error);
+      Alert.alert("Error", "Failed to update your units. Please try again.");
+    } finally {
+      setIsSavingUnits(false);
+    }
+  };
+
   // Handle logout
   const handleLogout = async () => {
     Alert.alert(
@@ -304,7 +326,9 @@ export default function SettingsScreen() {
               <View className="flex-row justify-between items-center">
                 <Text className="text-sm text-text-primary">Weight</Text>
                 <Text className="text-sm text-text-muted">
-                  {profile.weight ? `${profile.weight} lbs` : "Not specified"}
+                  {profile.weight
+                    ? formatWeight(profile.weight)
+                    : "Not specified"}
                 </Text>
               </View>
             </View>
@@ -543,6 +567,44 @@ export default function SettingsScreen() {
             />
           </View>
 
+          <View className="flex-row items-center justify-between px-4 py-3 border-t border-neutral-light-2">
+            <View className="flex-row items-center flex-1">
+              <Ionicons
+                name="speedometer-outline"
+                size={20}
+                color={colors.text.muted}
+              />
+              <Text className="text-sm text-text-primary ml-3">Units</Text>
+            </View>
+            <View className="flex-row bg-neutral-light-2 rounded-lg p-1">
+              {(
+                [
+                  ["imperial", "lbs / in"],
+                  ["metric", "kg / cm"],
+                ] as const
+              ).map(([option, label]) => (
+                <TouchableOpacity
+                  key={option}
+                  className={`px-3 py-1 rounded-md ${
+                    unitSystem === option ? "bg-primary" : "bg-transparent"
+                  }`}
+                  disabled={isSavingUnits}
+                  onPress={() => handleUnitSystemChange(option)}
+                >
+                  <Text
+                    className={`text-xs font-medium ${
+                      unitSystem === option
+                        ? "text-text-primary"
+                        : "text-text-muted"
+                    }`}
+                  >
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
           <View className="flex-row items-center justify-between px-4 py-3 border-t border-neutral-light-2">
             <View className="flex-row items-center flex-1">
               <Ionicons
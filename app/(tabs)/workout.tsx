@@ -1,4 +1,10 @@
-import React, { useEffect, useState, useRef, useCallback } from "react";
+import React, {
+  useEffect,
+  useState,
+  useRef,
+  useCallback,
+  useMemo,
+} from "react";
 import {
   View,
   Text,
@@ -9,6 +15,7 @@ import {
   ActivityIndicator,
   TextInput,
   RefreshControl,
+  Switch,
   AppStateStatus,
   ViewStyle,
 } from "react-native";
@@ -23,8 +30,14 @@ import {
   getPlanDayLog,
   skipExercise,
 } from "@/lib/workouts";
+import { isContractViolationError } from "@/lib/apiErrors";
 import { getCurrentUser } from "@/lib/auth";
-import { formatEquipment, getCurrentDate, formatDateAsString } from "@/utils";
+import {
+  formatEquipment,
+  getCurrentDate,
+  formatDateAsString,
+  formatClockTime,
+} from "@/utils";
 import ExerciseLink from "@/components/ExerciseLink";
 import ExerciseVideoCarousel from "@/components/ExerciseVideoCarousel";
 import { ExerciseSet } from "@/components/SetTracker";
@@ -32,6 +45,8 @@ import AdaptiveSetTracker from "@/components/AdaptiveSetTracker";
 import CircularTimerDisplay from "@/components/CircularTimerDisplay";
 import CircuitTracker from "@/components/CircuitTracker";
 import CircuitTimer from "@/components/CircuitTimer";
+import ExerciseSwapModal from "@/components/ExerciseSwapModal";
+import ExerciseQueueModal from "@/components/ExerciseQueueModal";
 import { colors } from "@/lib/theme";
 import {
   WorkoutBlockWithExercises,
@@ -45,21 +60,82 @@ import {
   CircuitRound,
   CircuitExerciseLog as CircuitExercise,
 } from "@/types/api/circuit.types";
-import { isCircuitBlock, getLoggingInterface } from "@/utils/circuitUtils";
+import {
+  isCircuitBlock,
+  getLoggingInterface,
+  getCircuitTargetRounds,
+} from "@/utils/circuitUtils";
 import { useCircuitSession } from "@/hooks/useCircuitSession";
+import { useOfflineQueue } from "@/hooks/useOfflineQueue";
+import { useRestTimer } from "@/hooks/useRestTimer";
+import { REST_ADJUST_SECONDS } from "@/lib/restTimer";
+import OfflineQueueBanner from "@/components/OfflineQueueBanner";
+import PersonalRecordCelebration from "@/components/PersonalRecordCelebration";
+import WorkoutCheckInModal from "@/components/WorkoutCheckInModal";
+import CheckInForm from "@/components/CheckInForm";
+import {
+  CheckIn,
+  saveWorkoutCheckIn,
+  toCheckInFields,
+} from "@/lib/checkIn";
+import {
+  PersonalRecordEntry,
+  checkForRecords,
+  checkForTimeRecord,
+} from "@/lib/personalRecords";
 import {
   logCircuitSession,
   logCircuitRound,
   markBlockExercisesComplete,
 } from "@/lib/circuits";
 import { useWorkout } from "@/contexts/WorkoutContext";
+import {
+  WorkoutSnapshot,
+  saveWorkoutSnapshot,
+  clearWorkoutSnapshot,
+} from "@/lib/workoutSnapshot";
 import { useAppDataContext } from "@/contexts/AppDataContext";
+import { useUnits } from "@/hooks/useUnits";
+import {
+  needsWarmup,
+  buildWarmupSets,
+  getWorkingSets,
+} from "@/lib/warmup";
+import {
+  isSupersetBlock,
+  getNextSupersetStep,
+  isSupersetRestDue,
+  getSupersetRestTime,
+  getSupersetLetter,
+  getSupersetTargetSets,
+} from "@/lib/superset";
+import {
+  QueueUnit,
+  getPlanOrder,
+  syncExerciseOrder,
+  getQueueUnits,
+  getNextPendingExerciseId,
+  reorderRemaining,
+  moveUnitBefore,
+  deferExercise,
+} from "@/lib/exerciseQueue";
+import { restoreSessionFromLogs } from "@/lib/sessionRestore";
+import {
+  applyExerciseSwaps,
+  swapPlanDayExercise,
+  withSwapNote,
+} from "@/lib/exerciseSwaps";
+import { SubstituteCandidate } from "@/lib/substitutions";
+import {
+  EXTRA_BLOCK_ID,
+  applyExtraExercises,
+  isExtraExercise,
+  logExtraExercise,
+  withExtraWorkNotes,
+} from "@/lib/extraExercises";
 import { WorkoutSkeleton } from "../../components/skeletons/SkeletonScreens";
 import WorkoutRepeatModal from "@/components/WorkoutRepeatModal";
-import {
-  generateWorkoutPlanAsync,
-  invalidateActiveWorkoutCache,
-} from "@/lib/workouts";
+import { generateWorkoutPlanAsync } from "@/lib/workouts";
 import { registerForPushNotifications } from "@/lib/notifications";
 import { useAuth } from "@/contexts/AuthContext";
 import { useBackgroundJobs } from "@contexts/BackgroundJobContext";
@@ -165,7 +241,13 @@ function CircuitLoggingInterface({
 
 export default function WorkoutScreen() {
   // Get workout context for tab disabling
-  const { setWorkoutInProgress, isWorkoutInProgress } = useWorkout();
+  const {
+    setWorkoutInProgress,
+    isWorkoutInProgress,
+    resumableWorkout,
+    acceptResumableWorkout,
+    discardResumableWorkout,
+  } = useWorkout();
 
   // Get user from auth context
   const { user, isLoading: authLoading } = useAuth();
@@ -174,10 +256,14 @@ export default function WorkoutScreen() {
   // Background job tracking
   const { isGenerating, addJob } = useBackgroundJobs();
 
+  // Logs captured while offline and still waiting to sync
+  const offlineQueue = useOfflineQueue();
+
   // Get data refresh functions
   const {
     refresh: { refreshDashboard, reset, refreshAll },
   } = useAppDataContext();
+  const { formatWeight, unitSystem } = useUnits();
 
   // Core state
   const [loading, setLoading] = useState(true);
@@ -207,6 +293,18 @@ export default function WorkoutScreen() {
   const [skippedExercises, setSkippedExercises] = useState<number[]>([]);
   const [skippedBlocks, setSkippedBlocks] = useState<number[]>([]);
 
+  // Order the session works through exercises in, and the ones it finished.
+  // Both hold plan day exercise ids so they survive reordering.
+  const [exerciseOrder, setExerciseOrder] = useState<number[]>([]);
+  const [completedExerciseIds, setCompletedExerciseIds] = useState<number[]>(
+    []
+  );
+  // Circuit rounds by block id that a session picked up from its logs had
+  // already logged
+  const [restoredRounds, setRestoredRounds] = useState<Record<number, number>>(
+    {}
+  );
+
   // Timer visibility state
   const [showRestTimer, setShowRestTimer] = useState(false);
 
@@ -221,22 +319,52 @@ export default function WorkoutScreen() {
   const [showCompleteModal, setShowCompleteModal] = useState(false);
   const [showRestCompleteModal, setShowRestCompleteModal] = useState(false);
   const [showSkipModal, setShowSkipModal] = useState(false);
+  const [showSwapModal, setShowSwapModal] = useState(false);
+  const [showQueueModal, setShowQueueModal] = useState(false);
   const [isCompletingExercise, setIsCompletingExercise] = useState(false);
   const [isSkippingExercise, setIsSkippingExercise] = useState(false);
 
   // New modal states for repeat workout
   const [showRepeatModal, setShowRepeatModal] = useState(false);
 
-  // Rest timer state
-  const [isRestTimerActive, setIsRestTimerActive] = useState(false);
-  const [isRestTimerPaused, setIsRestTimerPaused] = useState(false);
-  const [restTimerCountdown, setRestTimerCountdown] = useState(0);
-  const restTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const restTimerStartTime = useRef<number | null>(null);
+  // Personal records set since the celebration was last dismissed
+  const [newRecords, setNewRecords] = useState<PersonalRecordEntry[]>([]);
+
+  // Plan day waiting on the post-workout check-in before it's completed
+  const [pendingCompletion, setPendingCompletion] = useState<{
+    totalTimeSeconds: number;
+    exercisesCompleted: number;
+  } | null>(null);
+  const [isSavingCheckIn, setIsSavingCheckIn] = useState(false);
+  // Optional check-in for the exercise being completed
+  const [exerciseCheckIn, setExerciseCheckIn] = useState<CheckIn>({});
+  const [showExerciseCheckIn, setShowExerciseCheckIn] = useState(false);
+
+  // Rest timer, which keeps running (and notifies) while the app is
+  // backgrounded. Its length is fixed when rest starts, so moving to another
+  // exercise mid-rest doesn't change it.
+  const [completedRestDuration, setCompletedRestDuration] = useState(0);
+  const restTimer = useRestTimer((duration) => {
+    try {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.log("Haptic feedback error:", error);
+    }
+    setCompletedRestDuration(duration);
+    setShowRestCompleteModal(true);
+  });
   const workoutStartTime = useRef<number | null>(null);
   const exerciseStartTime = useRef<number | null>(null);
   const appStateRef = useRef(AppState.currentState);
 
+  // Crash recovery state
+  const isSessionActiveRef = useRef(false);
+  const hasPromptedResumeRef = useRef(false);
+  // Plan day whose session was last picked up from its logs
+  const restoredPlanDayIdRef = useRef<number | null>(null);
+  // Only the latest load may update the screen; older ones are cancelled
+  const loadControllerRef = useRef<AbortController | null>(null);
+
   // UI state
   const scrollViewRef = useRef<ScrollView>(null);
   const exerciseHeadingRef = useRef<View>(null);
@@ -289,14 +417,51 @@ export default function WorkoutScreen() {
   const currentExercise = exercises[currentExerciseIndex];
   const currentProgress = exerciseProgress[currentExerciseIndex];
 
+  // Supersets rest once per pass through the pair rather than per exercise
+  const currentSupersetBlock = workout?.blocks.find(
+    (block) =>
+      isSupersetBlock(block.blockType) &&
+      block.exercises.some((exercise) => exercise.id === currentExercise?.id)
+  );
+  const currentRestTime = currentSupersetBlock
+    ? getSupersetRestTime(currentSupersetBlock)
+    : currentExercise?.restTime || 0;
+  // Time left in the running rest, or the rest to come when there is none
+  const restTimerCountdown = restTimer.isActive
+    ? restTimer.remaining
+    : currentRestTime;
+
+  // Exercises that are finished one way or another
+  const doneExerciseIds = [...completedExerciseIds, ...skippedExercises];
+
   // Calculate overall workout progress (0 - 100) including skipped exercises
-  const completedAndSkippedCount =
-    currentExerciseIndex + skippedExercises.length;
+  const completedAndSkippedCount = doneExerciseIds.length;
   const progressPercent =
     exercises.length > 0
       ? (completedAndSkippedCount / exercises.length) * 100
       : 0;
 
+  // Today's exercises grouped into the units the queue moves around
+  const queueUnits = useMemo(
+    () => getQueueUnits(exerciseOrder, workout?.blocks ?? []),
+    [exerciseOrder, workout?.blocks]
+  );
+  const queueUnitFor = (exerciseId: number) =>
+    queueUnits.find((unit) => unit.exerciseIds.includes(exerciseId));
+  const currentQueueUnit = currentExercise
+    ? queueUnitFor(currentExercise.id) ?? null
+    : null;
+  const remainingQueueUnits = useMemo(
+    () =>
+      queueUnits.filter(
+        (unit) =>
+          unit !== currentQueueUnit &&
+          unit.exerciseIds.some((id) => !doneExerciseIds.includes(id))
+      ),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [queueUnits, currentQueueUnit, completedExerciseIds, skippedExercises]
+  );
+
   // Timer management with timestamp-based calculation
   useEffect(() => {
     if (isWorkoutStarted && !isPaused && !isWorkoutCompleted) {
@@ -339,96 +504,15 @@ export default function WorkoutScreen() {
     };
   }, [isWorkoutStarted, isPaused, isWorkoutCompleted]);
 
-  // Rest timer management with timestamp-based calculation
+  // Keep the screen on while resting
   useEffect(() => {
-    if (isRestTimerActive && !isRestTimerPaused && restTimerCountdown > 0) {
-      // Activate keep awake for rest timer
-      activateKeepAwake("rest-timer");
-
-      // Initialize start time if not set
-      if (!restTimerStartTime.current) {
-        const targetDuration = currentExercise?.restTime || 0;
-        restTimerStartTime.current =
-          Date.now() - (targetDuration - restTimerCountdown) * 1000;
-      }
-
-      restTimerRef.current = setInterval(() => {
-        const now = Date.now();
-        const targetDuration = currentExercise?.restTime || 0;
-
-        if (restTimerStartTime.current) {
-          const elapsed = Math.floor((now - restTimerStartTime.current) / 1000);
-          const remaining = Math.max(0, targetDuration - elapsed);
-
-          setRestTimerCountdown(remaining);
-
-          if (remaining <= 0) {
-            // Timer finished - add notification + haptic feedback
-            try {
-              // Send local notification with sound (no banner will show)
-              Notifications.scheduleNotificationAsync({
-                content: {
-                  title: "Rest Complete!",
-                  body: "Your rest period has ended. Ready for the next set?",
-                  sound: "tri-tone", // Different iOS notification sound
-                },
-                trigger: null, // Show immediately
-              });
-
-              // Add haptic feedback
-              Haptics.notificationAsync(
-                Haptics.NotificationFeedbackType.Success
-              );
-            } catch (error) {
-              console.log("Notification/haptic feedback error:", error);
-            }
-
-            setIsRestTimerActive(false);
-            setIsRestTimerPaused(false);
-            restTimerStartTime.current = null;
-            deactivateKeepAwake("rest-timer");
-
-            if (restTimerRef.current) {
-              clearInterval(restTimerRef.current);
-            }
-
-            // Show rest completion modal when rest timer finishes
-            setShowRestCompleteModal(true);
-          }
-        }
-      }, 1000);
-    } else {
-      if (!isRestTimerActive) {
-        deactivateKeepAwake("rest-timer");
-        restTimerStartTime.current = null;
-      }
-
-      if (restTimerRef.current) {
-        clearInterval(restTimerRef.current);
-      }
-    }
+    if (!restTimer.isActive || restTimer.isPaused) return;
 
+    activateKeepAwake("rest-timer");
     return () => {
       deactivateKeepAwake("rest-timer");
-      if (restTimerRef.current) {
-        clearInterval(restTimerRef.current);
-      }
     };
-  }, [
-    isRestTimerActive,
-    isRestTimerPaused,
-    restTimerCountdown,
-    currentExercise?.restTime,
-  ]);
-
-  // Reset rest timer countdown when not active or exercise changes
-  useEffect(() => {
-    if (!isRestTimerActive) {
-      const restTime = currentExercise?.restTime || 0;
-      setRestTimerCountdown(restTime);
-      restTimerStartTime.current = null;
-    }
-  }, [isRestTimerActive, currentExercise?.restTime]);
+  }, [restTimer.isActive, restTimer.isPaused]);
 
   // Handle app state changes to manage timers during background/foreground transitions
   useEffect(() => {
@@ -454,37 +538,6 @@ export default function WorkoutScreen() {
             );
           }
         }
-
-        // Recalculate rest timer
-        if (isRestTimerActive && !isRestTimerPaused) {
-          const now = Date.now();
-          const targetDuration = currentExercise?.restTime || 0;
-
-          if (restTimerStartTime.current) {
-            const elapsed = Math.floor(
-              (now - restTimerStartTime.current) / 1000
-            );
-            const remaining = Math.max(0, targetDuration - elapsed);
-            setRestTimerCountdown(remaining);
-
-            // If timer finished while in background, trigger completion
-            if (remaining <= 0) {
-              setIsRestTimerActive(false);
-              setIsRestTimerPaused(false);
-              restTimerStartTime.current = null;
-              setShowRestCompleteModal(true);
-
-              // Add haptic feedback for completion
-              try {
-                Haptics.notificationAsync(
-                  Haptics.NotificationFeedbackType.Success
-                );
-              } catch (error) {
-                console.log("Haptic feedback error:", error);
-              }
-            }
-          }
-        }
       } else if (nextAppState.match(/inactive|background/)) {
         // App going to background - timers will continue based on timestamps
         console.log(
@@ -500,14 +553,7 @@ export default function WorkoutScreen() {
       handleAppStateChange
     );
     return () => subscription?.remove();
-  }, [
-    isWorkoutStarted,
-    isPaused,
-    isWorkoutCompleted,
-    isRestTimerActive,
-    isRestTimerPaused,
-    currentExercise?.restTime,
-  ]);
+  }, [isWorkoutStarted, isPaused, isWorkoutCompleted]);
 
   // Sync context with workout state
   useEffect(() => {
@@ -515,10 +561,69 @@ export default function WorkoutScreen() {
       setWorkoutInProgress(false);
     } else if (isWorkoutStarted) {
       setWorkoutInProgress(true);
-    } else {
+    } else if (!resumableWorkout) {
+      // A restored session keeps the tabs locked until the user decides
       setWorkoutInProgress(false);
     }
-  }, [isWorkoutStarted, isWorkoutCompleted, setWorkoutInProgress]);
+    isSessionActiveRef.current = isWorkoutStarted && !isWorkoutCompleted;
+  }, [
+    isWorkoutStarted,
+    isWorkoutCompleted,
+    resumableWorkout,
+    setWorkoutInProgress,
+  ]);
+
+  // Snapshot the live session so it survives the OS killing the app
+  useEffect(() => {
+    if (!workout || !isWorkoutStarted) return;
+
+    if (isWorkoutCompleted) {
+      clearWorkoutSnapshot();
+      return;
+    }
+
+    saveWorkoutSnapshot<ExerciseProgress>({
+      planDayId: workout.id,
+      currentExerciseIndex,
+      exerciseProgress,
+      skippedExercises,
+      skippedBlocks,
+      exerciseOrder,
+      completedExercises: completedExerciseIds,
+      isPaused,
+      workoutTimer,
+      exerciseTimer,
+      workoutStartedAt: workoutStartTime.current,
+      exerciseStartedAt: exerciseStartTime.current,
+      restTimer: restTimer.isActive
+        ? {
+            startedAt:
+              restTimer.endsAt !== null
+                ? restTimer.endsAt - restTimer.duration * 1000
+                : null,
+            remaining: restTimer.remaining,
+            isPaused: restTimer.isPaused,
+            duration: restTimer.duration,
+          }
+        : null,
+    });
+    // Timer ticks are recomputed from the start timestamps on restore
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    workout?.id,
+    isWorkoutStarted,
+    isWorkoutCompleted,
+    currentExerciseIndex,
+    exerciseProgress,
+    skippedExercises,
+    skippedBlocks,
+    exerciseOrder,
+    completedExerciseIds,
+    isPaused,
+    restTimer.isActive,
+    restTimer.isPaused,
+    restTimer.endsAt,
+  ]);
 
   // Handle workout abandonment - reset workout state when context says no workout in progress
   // but local state thinks workout is started
@@ -529,14 +634,15 @@ export default function WorkoutScreen() {
       setWorkoutTimer(0);
       setExerciseTimer(0);
       setCurrentExerciseIndex(0);
-      setIsRestTimerActive(false);
-      setIsRestTimerPaused(false);
-      setRestTimerCountdown(0);
+      setCompletedExerciseIds([]);
+      setExerciseOrder(getPlanOrder(workout?.blocks ?? []));
+      restTimer.cancel();
+      // The next load picks the session up from its logs again
+      restoredPlanDayIdRef.current = null;
 
       // Reset timestamp references
       workoutStartTime.current = null;
       exerciseStartTime.current = null;
-      restTimerStartTime.current = null;
 
       // Deactivate keep awake
       deactivateKeepAwake("workout-timer");
@@ -546,9 +652,6 @@ export default function WorkoutScreen() {
       if (timerRef.current) {
         clearInterval(timerRef.current);
       }
-      if (restTimerRef.current) {
-        clearInterval(restTimerRef.current);
-      }
     }
   }, [isWorkoutInProgress, isWorkoutStarted, isWorkoutCompleted]);
 
@@ -567,13 +670,25 @@ export default function WorkoutScreen() {
         const targetReps = currentExercise.reps || 10;
         const targetWeight = currentExercise.weight || 0;
 
+        // Heavy strength work starts with a ramp of lighter warm-up sets
+        const warmupSets: ExerciseSet[] = needsWarmup(
+          currentExercise,
+          getCurrentBlock()?.blockType
+        )
+          ? buildWarmupSets(targetWeight, unitSystem).map((set, index) => ({
+              ...set,
+              roundNumber: 1,
+              setNumber: index + 1,
+            }))
+          : [];
+
         const firstSet = {
           roundNumber: 1,
-          setNumber: 1,
+          setNumber: warmupSets.length + 1,
           weight: targetWeight,
           reps: targetReps,
         };
-        updateProgress("sets", [firstSet]);
+        updateProgress("sets", [...warmupSets, firstSet]);
       }
     }
   }, [currentExerciseIndex, isWorkoutStarted, isWorkoutCompleted]);
@@ -585,16 +700,124 @@ export default function WorkoutScreen() {
       // Cleanup keep awake on unmount
       deactivateKeepAwake("workout-timer");
       deactivateKeepAwake("rest-timer");
-      // Clear timers
+      // Clear timers, including any rest notification still to come
       if (timerRef.current) {
         clearInterval(timerRef.current);
       }
-      if (restTimerRef.current) {
-        clearInterval(restTimerRef.current);
-      }
+      restTimer.cancel();
+      loadControllerRef.current?.abort();
     };
   }, [setWorkoutInProgress]);
 
+  // Rebuild the session saved before the app was killed
+  const restoreSession = (snapshot: WorkoutSnapshot<ExerciseProgress>) => {
+    const now = Date.now();
+    const workoutStart =
+      snapshot.workoutStartedAt ?? now - snapshot.workoutTimer * 1000;
+    const exerciseStart =
+      snapshot.exerciseStartedAt ?? now - snapshot.exerciseTimer * 1000;
+
+    workoutStartTime.current = workoutStart;
+    exerciseStartTime.current = exerciseStart;
+    setWorkoutTimer(
+      snapshot.isPaused
+        ? snapshot.workoutTimer
+        : Math.floor((now - workoutStart) / 1000)
+    );
+    setExerciseTimer(
+      snapshot.isPaused
+        ? snapshot.exerciseTimer
+        : Math.floor((now - exerciseStart) / 1000)
+    );
+
+    setExerciseProgress(snapshot.exerciseProgress);
+    setCurrentExerciseIndex(snapshot.currentExerciseIndex);
+    setSkippedExercises(snapshot.skippedExercises);
+    setSkippedBlocks(snapshot.skippedBlocks);
+    setIsPaused(snapshot.isPaused);
+
+    // Sessions saved before exercises could be reordered went in plan order
+    setExerciseOrder(
+      syncExerciseOrder(snapshot.exerciseOrder ?? [], workout?.blocks ?? [])
+    );
+    setCompletedExerciseIds(
+      snapshot.completedExercises ??
+        exercises
+          .slice(0, snapshot.currentExerciseIndex)
+          .map((exercise) => exercise.id)
+          .filter((id) => !snapshot.skippedExercises.includes(id))
+    );
+
+    // Resume the rest period only if it has not run out in the meantime
+    const rest = snapshot.restTimer;
+    if (rest) {
+      const restTime =
+        rest.duration ??
+        (exercises[snapshot.currentExerciseIndex]?.restTime || 0);
+      restTimer.restore({
+        duration: restTime,
+        remaining: rest.remaining,
+        isPaused: rest.isPaused,
+        endsAt:
+          rest.startedAt !== null ? rest.startedAt + restTime * 1000 : null,
+      });
+    }
+
+    setIsWorkoutStarted(true);
+    setWorkoutInProgress(true);
+
+    setTimeout(() => {
+      scrollToExerciseHeading(snapshot.currentExerciseIndex);
+    }, 100);
+  };
+
+  // Offer to resume a session restored from storage on launch
+  useEffect(() => {
+    if (!resumableWorkout || loading || error) return;
+
+    // Today's plan changed or was finished elsewhere; nothing to resume
+    if (
+      !workout ||
+      isWorkoutCompleted ||
+      workout.id !== resumableWorkout.planDayId
+    ) {
+      discardResumableWorkout();
+      return;
+    }
+
+    if (isWorkoutStarted || hasPromptedResumeRef.current) return;
+    hasPromptedResumeRef.current = true;
+
+    Alert.alert(
+      "Workout In Progress",
+      `Resume workout from ${formatClockTime(resumableWorkout.savedAt)}?`,
+      [
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: () => discardResumableWorkout(),
+        },
+        {
+          text: "Resume",
+          onPress: () => {
+            restoreSession(
+              resumableWorkout as WorkoutSnapshot<ExerciseProgress>
+            );
+            acceptResumableWorkout();
+          },
+        },
+      ],
+      { cancelable: false }
+    );
+  }, [
+    resumableWorkout,
+    loading,
+    error,
+    workout,
+    isWorkoutCompleted,
+    isWorkoutStarted,
+  ]);
+
   // Load completed workout duration from plan day log
   const loadCompletedWorkoutDuration = async (planDayId: number) => {
     try {
@@ -625,13 +848,19 @@ export default function WorkoutScreen() {
 
   // Load workout data
   const loadWorkout = async (forceRefresh = false) => {
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+    const { signal } = controller;
+
     try {
       if (!forceRefresh) {
         setLoading(true);
       }
       setError(null);
 
-      const response = await fetchActiveWorkout(forceRefresh);
+      const response = await fetchActiveWorkout(forceRefresh, signal);
+      if (signal.aborted) return;
 
       if (!response?.planDays?.length) {
         setWorkout(null);
@@ -645,17 +874,25 @@ export default function WorkoutScreen() {
       // Find today's workout using string comparison to avoid timezone issues
       const today = getCurrentDate(); // Use the same function as other parts of the app
 
-      const todaysWorkout = response.planDays.find((day: PlanDayWithBlocks) => {
-        // Use the formatDateAsString function to normalize dates consistently
-        const normalizedDayDate = formatDateAsString(day.date);
-        return normalizedDayDate === today;
-      });
+      const plannedWorkout = response.planDays.find(
+        (day: PlanDayWithBlocks) => {
+          // Use the formatDateAsString function to normalize dates consistently
+          const normalizedDayDate = formatDateAsString(day.date);
+          return normalizedDayDate === today;
+        }
+      );
 
-      if (!todaysWorkout) {
+      if (!plannedWorkout) {
         setWorkout(null);
         return;
       }
 
+      // Swaps and exercises added on top of the plan are kept on this device
+      const todaysWorkout = await applyExtraExercises(
+        await applyExerciseSwaps(plannedWorkout)
+      );
+      if (signal.aborted) return;
+
       // If the plan day is already marked as complete, show the completed screen.
       if (todaysWorkout.isComplete) {
         setWorkout(todaysWorkout);
@@ -669,31 +906,78 @@ export default function WorkoutScreen() {
 
       setWorkout(todaysWorkout);
 
-      // Check if there's an existing workout session in progress
-      // (You might need to add logic here to detect if a workout was previously started)
+      // Keep sets logged in the running (or restored) session, and the
+      // progress already picked up for this plan day
+      if (
+        isSessionActiveRef.current ||
+        restoredPlanDayIdRef.current === todaysWorkout.id
+      ) {
+        setExerciseOrder((prev) =>
+          syncExerciseOrder(prev, todaysWorkout.blocks)
+        );
+        return;
+      }
+
+      // Pick up a session left part way, e.g. started on another device
+      const restored = await restoreSessionFromLogs(todaysWorkout);
+      // A session started while the logs loaded keeps its own progress
+      if (signal.aborted || isSessionActiveRef.current) return;
+      restoredPlanDayIdRef.current = todaysWorkout.id;
+
+      setExerciseOrder(getPlanOrder(todaysWorkout.blocks));
+      setCompletedExerciseIds(restored.completedExerciseIds);
+      setSkippedExercises(restored.skippedExercises);
+      setSkippedBlocks(restored.skippedBlocks);
+      setRestoredRounds(
+        Object.fromEntries(
+          todaysWorkout.blocks.map((block) => [
+            block.id,
+            restored.exercises[block.exercises[0]?.id]?.roundsCompleted ?? 0,
+          ])
+        )
+      );
 
       // Initialize exercise progress
       const flatExercises = todaysWorkout.blocks.flatMap(
         (block: WorkoutBlockWithExercises) => block.exercises
       );
       const initialProgress: ExerciseProgress[] = flatExercises.map(
-        (exercise: WorkoutBlockWithExercise) => ({
-          setsCompleted: 0,
-          repsCompleted: 0,
-          roundsCompleted: 0,
-          weightUsed: exercise.weight || 0,
-          sets: [],
-          duration: exercise.duration || 0,
-          restTime: exercise.restTime || 0,
-          notes: "",
-        })
+        (exercise: WorkoutBlockWithExercise) => {
+          const logged = restored.exercises[exercise.id];
+          return {
+            setsCompleted: logged?.setsCompleted ?? 0,
+            repsCompleted: logged?.repsCompleted ?? 0,
+            roundsCompleted: logged?.roundsCompleted ?? 0,
+            weightUsed: logged?.weightUsed || exercise.weight || 0,
+            sets: logged?.sets ?? [],
+            duration: exercise.duration || 0,
+            restTime: exercise.restTime || 0,
+            notes: logged?.notes ?? "",
+            isSkipped: restored.skippedExercises.includes(exercise.id),
+          };
+        }
       );
       setExerciseProgress(initialProgress);
+      setCurrentExerciseIndex(
+        Math.max(
+          0,
+          flatExercises.findIndex(
+            (exercise: WorkoutBlockWithExercise) =>
+              exercise.id === restored.nextExerciseId
+          )
+        )
+      );
     } catch (err) {
+      if (signal.aborted) return;
       console.error("Error loading workout:", err);
-      setError("Failed to load workout. Please try again.");
+      setError(
+        isContractViolationError(err)
+          ? "Your workout plan came back in a format this version of the app can't read. Please try again later."
+          : "Failed to load workout. Please try again."
+      );
     } finally {
-      setLoading(false);
+      // A superseded load leaves the loading flag to the one that replaced it
+      if (!signal.aborted) setLoading(false);
       if (forceRefresh) {
         setRefreshing(false);
       }
@@ -840,9 +1124,9 @@ export default function WorkoutScreen() {
     exerciseStartTime.current = now;
     setWorkoutInProgress(true); // Notify context that workout started
 
-    // Scroll to first exercise heading after starting
+    // Scroll to the first exercise still to do after starting
     setTimeout(() => {
-      scrollToExerciseHeading(0);
+      scrollToExerciseHeading(currentExerciseIndex);
     }, 100);
   };
 
@@ -853,80 +1137,77 @@ export default function WorkoutScreen() {
 
   // Start rest timer
   const startRestTimer = () => {
-    const restTime = currentExercise?.restTime || 0;
-    if (restTime > 0) {
-      setRestTimerCountdown(restTime);
-      setIsRestTimerActive(true);
-      setIsRestTimerPaused(false);
-      restTimerStartTime.current = Date.now();
-    }
-  };
-
-  // Pause/Resume rest timer
-  const toggleRestTimerPause = () => {
-    if (isRestTimerPaused) {
-      // Resuming - adjust start time based on current countdown
-      const targetDuration = currentExercise?.restTime || 0;
-      const elapsed = targetDuration - restTimerCountdown;
-      restTimerStartTime.current = Date.now() - elapsed * 1000;
-    }
-    setIsRestTimerPaused(!isRestTimerPaused);
-  };
-
-  // Reset rest timer
-  const resetRestTimer = () => {
-    const restTime = currentExercise?.restTime || 0;
-    setRestTimerCountdown(restTime);
-    setIsRestTimerPaused(false);
-    restTimerStartTime.current = null;
-  };
-
-  // Cancel rest timer
-  const cancelRestTimer = () => {
-    setIsRestTimerActive(false);
-    setIsRestTimerPaused(false);
-    setRestTimerCountdown(0);
-    restTimerStartTime.current = null;
-    deactivateKeepAwake("rest-timer");
-    if (restTimerRef.current) {
-      clearInterval(restTimerRef.current);
-    }
+    restTimer.start(currentRestTime);
   };
 
   // Handle rest timer start/pause for CircularTimerDisplay
   const handleRestTimerStartPause = () => {
     if (restTimerCountdown === 0) return; // Don't allow start/pause when completed
-    if (isRestTimerActive) {
-      toggleRestTimerPause();
+    if (restTimer.isActive) {
+      restTimer.togglePause();
     } else {
       startRestTimer();
     }
   };
 
-  // Handle rest timer reset for CircularTimerDisplay
-  const handleRestTimerReset = () => {
-    // Reset timer to beginning and restart automatically
-    const restTime = currentExercise?.restTime || 0;
-    setRestTimerCountdown(restTime);
-    setIsRestTimerActive(true);
-    setIsRestTimerPaused(false);
-    restTimerStartTime.current = Date.now();
+  const celebrateRecords = (records: PersonalRecordEntry[]) => {
+    if (records.length === 0) return;
+    try {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.log("Haptic feedback error:", error);
+    }
+    // A record beaten again replaces the one already waiting to be shown
+    setNewRecords((prev) => [
+      ...prev.filter(
+        (shown) =>
+          !records.some(
+            (record) =>
+              record.planDayExerciseId === shown.planDayExerciseId &&
+              record.type === shown.type &&
+              record.weight === shown.weight
+          )
+      ),
+      ...records,
+    ]);
+  };
+
+  // Look for personal records in an exercise's sets so far
+  const checkRecords = (
+    exercise: WorkoutBlockWithExercise,
+    sets: ExerciseSet[]
+  ) => {
+    checkForRecords(
+      {
+        exerciseId: exercise.exerciseId,
+        planDayExerciseId: exercise.id,
+        name: exercise.exercise.name,
+      },
+      sets
+    ).then(celebrateRecords);
   };
 
-  // Handle rest timer cancel for CircularTimerDisplay
-  const handleRestTimerCancel = () => {
-    // Cancel timer and return to initial state (not active, full duration)
-    const restTime = currentExercise?.restTime || 0;
-    setIsRestTimerActive(false);
-    setIsRestTimerPaused(false);
-    setRestTimerCountdown(restTime);
-    restTimerStartTime.current = null;
-    deactivateKeepAwake("rest-timer");
-    if (restTimerRef.current) {
-      clearInterval(restTimerRef.current);
+  // Rest starts by itself after each set for exercises the member chose;
+  // supersets rest after each pass instead
+  const handleSetLogged = (sets: ExerciseSet[]) => {
+    if (!currentExercise) return;
+    checkRecords(currentExercise, sets);
+    if (
+      !currentSupersetBlock &&
+      restTimer.isAutoStartEnabled(currentExercise.exerciseId)
+    ) {
+      startRestTimer();
     }
   };
 
+  // Each exercise starts with a blank check-in
+  useEffect(() => {
+    if (showCompleteModal) {
+      setExerciseCheckIn({});
+      setShowExerciseCheckIn(false);
+    }
+  }, [showCompleteModal]);
+
   // Complete current exercise
   const completeExercise = async () => {
     if (!currentExercise || !currentProgress) return;
@@ -945,9 +1226,32 @@ export default function WorkoutScreen() {
         }
 
         const session = circuitSession?.sessionData;
+
+        // A For Time score only counts when every round was finished
+        const targetRounds = getCircuitTargetRounds(currentBlock);
+        if (
+          currentBlock.blockType === "for_time" &&
+          session &&
+          targetRounds &&
+          session.rounds.filter((round) => round.isCompleted).length >=
+            targetRounds
+        ) {
+          checkForTimeRecord(
+            currentBlock.exercises.map((exercise) => ({
+              exerciseId: exercise.exerciseId,
+              planDayExerciseId: exercise.id,
+              name: exercise.exercise.name,
+            })),
+            currentBlock.blockName || getBlockTypeDisplayName("for_time"),
+            session.timer.currentTime
+          ).then(celebrateRecords);
+        }
         if (workout?.workoutId && session) {
-          // Log each round that has any reps or is marked completed
+          // Log each round that has any reps or is marked completed, apart
+          // from the ones that were logged before the session was restored
+          const loggedRounds = restoredRounds[currentBlock.id] ?? 0;
           for (const round of session.rounds) {
+            if (round.roundNumber <= loggedRounds) continue;
             const hasReps = round.exercises?.some(
               (ex: CircuitExercise) => (ex.actualReps || 0) > 0
             );
@@ -981,59 +1285,52 @@ export default function WorkoutScreen() {
           };
         });
         setExerciseProgress(updatedProgress);
+        setCompletedExerciseIds((prev) => [...prev, ...circuitExerciseIds]);
 
-        const maxCircuitIndex = Math.max(...exerciseIndices);
-        const nextExerciseIndex = maxCircuitIndex + 1;
+        const nextExerciseId = getNextPendingExerciseId(
+          exerciseOrder,
+          currentExercise.id,
+          [...doneExerciseIds, ...circuitExerciseIds]
+        );
 
-        if (nextExerciseIndex < exercises.length) {
-          setCurrentExerciseIndex(nextExerciseIndex);
-          setExerciseTimer(0);
-          exerciseStartTime.current = Date.now();
-          scrollToExerciseHeading(nextExerciseIndex);
+        if (nextExerciseId !== null) {
+          goToExercise(nextExerciseId);
         } else {
           // All exercises completed, complete the workout day
-          if (workout?.id) {
-            const completedExerciseCount = exercises.length;
-            const completedBlockCount = workout.blocks.length;
-
-            await markPlanDayAsComplete(workout.id, {
-              totalTimeSeconds: workoutTimer,
-              exercisesCompleted: completedExerciseCount,
-              blocksCompleted: completedBlockCount,
-            });
-
-            const today = new Date();
-            const startDate = new Date(today);
-            startDate.setDate(today.getDate() - 30);
-            const endDate = new Date(today);
-            endDate.setDate(today.getDate() + 7);
-
-            await refreshDashboard({
-              startDate: startDate.toISOString().split("T")[0],
-              endDate: endDate.toISOString().split("T")[0],
-            });
-          }
-
-          setCurrentExerciseIndex(exercises.length);
-          setIsWorkoutCompleted(true);
-          setWorkoutInProgress(false);
+          finishWorkout(completedExerciseIds.length + circuitExerciseIds.length);
         }
 
         setShowCompleteModal(false);
         return;
       }
 
-      // Regular exercise completion logic for non-circuits
+      // Regular exercise completion logic for non-circuits. A superset is
+      // completed as a whole, each exercise logged with its own sets.
+      const exercisesToLog = currentSupersetBlock
+        ? currentSupersetBlock.exercises.filter(
+            (exercise) => !doneExerciseIds.includes(exercise.id)
+          )
+        : [currentExercise];
+      const getProgress = (exercise: WorkoutBlockWithExercise) =>
+        exerciseProgress[
+          exercises.findIndex((entry) => entry.id === exercise.id)
+        ];
+      const isDurationBasedExercise = (exercise: WorkoutBlockWithExercise) =>
+        Boolean(
+          exercise.duration &&
+            exercise.duration > 0 &&
+            (!exercise.reps || exercise.reps === 0)
+        );
+
       // Check if we have valid progress - either sets or duration
-      const hasSets = currentProgress.sets && currentProgress.sets.length > 0;
-      const hasDuration =
-        currentProgress.duration && currentProgress.duration > 0;
-      const isDurationBasedExercise =
-        currentExercise.duration &&
-        currentExercise.duration > 0 &&
-        (!currentExercise.reps || currentExercise.reps === 0);
-
-      if (!hasSets && !hasDuration && !isDurationBasedExercise) {
+      const hasProgress = exercisesToLog.some((exercise) => {
+        const progress = getProgress(exercise);
+        const hasSets = progress?.sets && progress.sets.length > 0;
+        const hasDuration = progress?.duration && progress.duration > 0;
+        return hasSets || hasDuration || isDurationBasedExercise(exercise);
+      });
+
+      if (!hasProgress) {
         Alert.alert(
           "No Progress Logged",
           "Please log your exercise progress before completing this exercise.",
@@ -1042,77 +1339,70 @@ export default function WorkoutScreen() {
         return;
       }
 
-      // For duration-based exercises, ensure we have proper sets structure
-      let setsToLog = currentProgress.sets;
-      if (isDurationBasedExercise && (!setsToLog || setsToLog.length === 0)) {
-        // Create a default set for duration-based exercises
-        setsToLog = [
-          {
-            roundNumber: 1,
-            setNumber: 1,
-            weight: currentExercise.weight || 0,
-            reps: 0, // No reps for duration-based exercises
-          },
-        ];
+      for (const exercise of exercisesToLog) {
+        const progress = getProgress(exercise);
+
+        // For duration-based exercises, ensure we have proper sets structure
+        let setsToLog = progress?.sets ?? [];
+        if (isDurationBasedExercise(exercise) && setsToLog.length === 0) {
+          // Create a default set for duration-based exercises
+          setsToLog = [
+            {
+              roundNumber: 1,
+              setNumber: 1,
+              weight: exercise.weight || 0,
+              reps: 0, // No reps for duration-based exercises
+            },
+          ];
+        }
+
+        // Exercises added on top of the plan are kept on this device
+        if (workout && isExtraExercise(exercise.id)) {
+          const kept = await logExtraExercise(workout.id, exercise.id, {
+            sets: setsToLog,
+            isSkipped: false,
+          });
+          if (!kept) throw new Error(`Failed to keep exercise ${exercise.id}`);
+          setCompletedExerciseIds((prev) => [...prev, exercise.id]);
+          checkRecords(exercise, setsToLog);
+          continue;
+        }
+
+        const log = await createExerciseLog({
+          planDayExerciseId: exercise.id,
+          sets: setsToLog,
+          durationCompleted: progress?.duration,
+          isComplete: true,
+          // Actual time spent, shared evenly between a superset's exercises
+          timeTaken: Math.round(exerciseTimer / exercisesToLog.length),
+          notes: workout
+            ? await withSwapNote(workout.id, exercise.id, progress?.notes)
+            : progress?.notes,
+          difficulty: exerciseCheckIn.difficulty,
+          rating: exerciseCheckIn.rating,
+        });
+        // A log kept for offline replay counts; one the server refused doesn't
+        if (!log) throw new Error(`Failed to log exercise ${exercise.id}`);
+        // Done as soon as it's logged, so retrying a superset that failed
+        // part way only logs the exercises still to go
+        setCompletedExerciseIds((prev) => [...prev, exercise.id]);
+        checkRecords(exercise, setsToLog);
       }
 
-      await createExerciseLog({
-        planDayExerciseId: currentExercise.id,
-        sets: setsToLog,
-        durationCompleted: currentProgress.duration,
-        isComplete: true,
-        timeTaken: exerciseTimer, // This logs the actual time spent on exercise
-        notes: currentProgress.notes,
-      });
+      const loggedExerciseIds = exercisesToLog.map((exercise) => exercise.id);
+
+      // Move to the next exercise still to do or complete workout
+      const nextExerciseId = getNextPendingExerciseId(
+        exerciseOrder,
+        currentExercise.id,
+        [...doneExerciseIds, ...loggedExerciseIds]
+      );
 
-      // Move to next exercise or complete workout
-      if (currentExerciseIndex < exercises.length - 1) {
-        setCurrentExerciseIndex((prev) => prev + 1);
-        setExerciseTimer(0);
-        exerciseStartTime.current = Date.now(); // Reset exercise timer timestamp
-        scrollToExerciseHeading(currentExerciseIndex + 1);
+      if (nextExerciseId !== null) {
+        goToExercise(nextExerciseId);
       } else {
         // All exercises completed, so mark the plan day as complete
-        if (workout?.id) {
-          // Calculate completion data
-          const completedExerciseCount = currentExerciseIndex + 1; // +1 because we just completed this exercise
-          const completedBlockCount = workout.blocks.length; // All blocks completed
-
-          console.log("Workout completion data:", {
-            workoutTimer,
-            totalTimeSeconds: workoutTimer,
-            exercisesCompleted: completedExerciseCount,
-            blocksCompleted: completedBlockCount,
-          });
-
-          // Mark plan day as complete with detailed timing in seconds
-          await markPlanDayAsComplete(workout.id, {
-            totalTimeSeconds: workoutTimer,
-            exercisesCompleted: completedExerciseCount,
-            blocksCompleted: completedBlockCount,
-          });
-          // Refresh dashboard data with current date range to ensure today's data is included
-          // Include both past workouts and upcoming planned workouts for weekly progress
-          const today = new Date();
-          const startDate = new Date(today);
-          startDate.setDate(today.getDate() - 30); // 30 days back for historical data
-          const endDate = new Date(today);
-          endDate.setDate(today.getDate() + 7); // 7 days forward for planned workouts
-
-          await refreshDashboard({
-            startDate: startDate.toISOString().split("T")[0],
-            endDate: endDate.toISOString().split("T")[0],
-          });
-        }
-
-        setCurrentExerciseIndex(exercises.length); // This will make progress show 100%
-        setIsWorkoutCompleted(true);
-        setWorkoutInProgress(false); // Notify context that workout ended
-        Alert.alert(
-          "Workout Complete!",
-          "Congratulations! You've completed today's workout.",
-          [{ text: "OK" }]
-        );
+        finishWorkout(completedExerciseIds.length + loggedExerciseIds.length);
       }
 
       setShowCompleteModal(false);
@@ -1141,8 +1431,15 @@ export default function WorkoutScreen() {
     setIsSkippingExercise(true);
 
     try {
-      // Call skip API
-      await skipExercise(workout.workoutId, currentExercise.id);
+      // Call skip API; exercises added on top of the plan are skipped here
+      if (isExtraExercise(currentExercise.id)) {
+        await logExtraExercise(workout.id, currentExercise.id, {
+          sets: [],
+          isSkipped: true,
+        });
+      } else {
+        await skipExercise(workout.workoutId, currentExercise.id);
+      }
 
       // Update local state
       setSkippedExercises((prev) => [...prev, currentExercise.id]);
@@ -1157,49 +1454,21 @@ export default function WorkoutScreen() {
         return updated;
       });
 
-      // Move to next exercise or complete workout
-      if (currentExerciseIndex < exercises.length - 1) {
-        setCurrentExerciseIndex((prev) => prev + 1);
-        setExerciseTimer(0);
-        exerciseStartTime.current = Date.now(); // Reset exercise timer timestamp
-        scrollToExerciseHeading(currentExerciseIndex + 1);
+      // Move to the next exercise still to do or complete workout
+      const nextExerciseId = getNextPendingExerciseId(
+        exerciseOrder,
+        currentExercise.id,
+        [...doneExerciseIds, currentExercise.id]
+      );
+
+      if (nextExerciseId !== null) {
+        goToExercise(nextExerciseId);
       } else {
-        // Check if all exercises are completed or skipped
-        const allProcessed = exercises.every(
-          (ex, index) =>
-            index < currentExerciseIndex ||
-            skippedExercises.includes(ex.id) ||
-            index === currentExerciseIndex
+        // Everything else is already completed or skipped; skipped exercises
+        // count as processed (+1 for the one just skipped)
+        finishWorkout(
+          completedExerciseIds.length + skippedExercises.length + 1
         );
-
-        if (allProcessed && workout?.id) {
-          // Calculate completion data (including skipped exercises/blocks)
-          const completedExerciseCount = currentExerciseIndex; // Current index is number of completed
-          const skippedExerciseCount = skippedExercises.length;
-          const totalProcessedExercises =
-            completedExerciseCount + skippedExerciseCount;
-          const completedBlockCount = workout.blocks.length; // All blocks processed
-
-          console.log("Workout skip completion data:", {
-            workoutTimer,
-            totalTimeSeconds: workoutTimer,
-            exercisesCompleted: totalProcessedExercises,
-            blocksCompleted: completedBlockCount,
-          });
-
-          // Mark plan day as complete with detailed timing in seconds
-          await markPlanDayAsComplete(workout.id, {
-            totalTimeSeconds: workoutTimer,
-            exercisesCompleted: totalProcessedExercises,
-            blocksCompleted: completedBlockCount,
-          });
-          setCurrentExerciseIndex(exercises.length);
-          setIsWorkoutCompleted(true);
-          setWorkoutInProgress(false);
-          Alert.alert("Workout Complete!", "You've finished today's workout.", [
-            { text: "OK" },
-          ]);
-        }
       }
 
       setShowSkipModal(false);
@@ -1211,6 +1480,222 @@ export default function WorkoutScreen() {
     }
   };
 
+  // Every exercise is done or skipped: ask how it went before the plan day is
+  // completed, keeping the workout time from this moment
+  const finishWorkout = (exercisesCompleted: number) => {
+    setPendingCompletion({
+      totalTimeSeconds: workoutTimer,
+      exercisesCompleted,
+    });
+  };
+
+  // Complete the plan day, with whatever the member filled in of the check-in
+  const completePlanDay = async (checkIn: CheckIn) => {
+    if (!pendingCompletion) return;
+    setIsSavingCheckIn(true);
+
+    try {
+      if (workout?.id) {
+        // Mark plan day as complete with detailed timing in seconds
+        const checkInFields = toCheckInFields(checkIn);
+        const completed = await markPlanDayAsComplete(workout.id, {
+          ...pendingCompletion,
+          // All planned blocks processed
+          blocksCompleted: workout.blocks.filter(
+            (block) => block.id !== EXTRA_BLOCK_ID
+          ).length,
+          ...checkInFields,
+          notes: await withExtraWorkNotes(workout.id, checkInFields.notes),
+        });
+        // Keep the check-in open so completing can be retried
+        if (!completed) {
+          throw new Error(`Failed to complete plan day ${workout.id}`);
+        }
+        await saveWorkoutCheckIn(workout.id, workout.date, checkIn);
+        // Refresh dashboard data with current date range to ensure today's data is included
+        // Include both past workouts and upcoming planned workouts for weekly progress
+        const today = new Date();
+        const startDate = new Date(today);
+        startDate.setDate(today.getDate() - 30); // 30 days back for historical data
+        const endDate = new Date(today);
+        endDate.setDate(today.getDate() + 7); // 7 days forward for planned workouts
+
+        await refreshDashboard({
+          startDate: startDate.toISOString().split("T")[0],
+          endDate: endDate.toISOString().split("T")[0],
+        });
+      }
+
+      setPendingCompletion(null);
+      setCurrentExerciseIndex(exercises.length); // This will make progress show 100%
+      setIsWorkoutCompleted(true);
+      setWorkoutInProgress(false); // Notify context that workout ended
+      openWorkoutSummary();
+    } catch (err) {
+      console.error("Error completing workout:", err);
+      Alert.alert("Error", "Failed to complete workout. Please try again.");
+    } finally {
+      setIsSavingCheckIn(false);
+    }
+  };
+
+  // Show what the finished workout added up to
+  const openWorkoutSummary = () => {
+    if (!workout) return;
+    router.push(`/workout-summary/${workout.id}`);
+  };
+
+  // Make a plan day exercise the current one and restart its timer
+  const goToExercise = (exerciseId: number) => {
+    const index = exercises.findIndex((exercise) => exercise.id === exerciseId);
+    if (index === -1) return;
+    setCurrentExerciseIndex(index);
+    setExerciseTimer(0);
+    exerciseStartTime.current = Date.now(); // Reset exercise timer timestamp
+    scrollToExerciseHeading(index);
+  };
+
+  // Start a pending exercise ahead of its turn. The one it interrupts moves up
+  // to come straight after it; sets already logged there are kept.
+  const jumpToExercise = (exerciseId: number) => {
+    if (!currentExercise || doneExerciseIds.includes(exerciseId)) return;
+
+    setExerciseOrder((prev) =>
+      moveUnitBefore(
+        prev,
+        workout?.blocks ?? [],
+        exerciseId,
+        currentExercise.id
+      )
+    );
+    goToExercise(queueUnitFor(exerciseId)?.exerciseIds[0] ?? exerciseId);
+    setShowQueueModal(false);
+  };
+
+  // Put the current exercise to the back of the queue and move on
+  const deferCurrentExercise = () => {
+    if (!currentExercise) return;
+
+    const order = deferExercise(
+      exerciseOrder,
+      workout?.blocks ?? [],
+      currentExercise.id
+    );
+    const currentIds = queueUnitFor(currentExercise.id)?.exerciseIds ?? [
+      currentExercise.id,
+    ];
+    const nextExerciseId = getNextPendingExerciseId(order, undefined, [
+      ...doneExerciseIds,
+      ...currentIds,
+    ]);
+    setExerciseOrder(order);
+    if (nextExerciseId !== null) goToExercise(nextExerciseId);
+    setShowQueueModal(false);
+  };
+
+  // Working sets each exercise in a block has logged so far
+  const getLoggedSets = (block: WorkoutBlockWithExercises) =>
+    block.exercises.reduce<Record<number, number>>((logged, exercise) => {
+      const index = exercises.findIndex((entry) => entry.id === exercise.id);
+      logged[exercise.id] = getWorkingSets(
+        exerciseProgress[index]?.sets ?? []
+      ).length;
+      return logged;
+    }, {});
+
+  // Where the superset goes once the set on screen is done
+  const supersetLoggedSets = currentSupersetBlock
+    ? getLoggedSets(currentSupersetBlock)
+    : {};
+  const supersetNextStep = currentSupersetBlock
+    ? getNextSupersetStep(currentSupersetBlock, supersetLoggedSets)
+    : null;
+  const isSupersetRestNext =
+    !!currentExercise &&
+    isSupersetRestDue(
+      supersetNextStep,
+      supersetLoggedSets[currentExercise.id] ?? 0
+    );
+
+  // Move to the partner exercise for its next set, resting after each pass
+  const advanceSuperset = () => {
+    if (!currentSupersetBlock) return;
+
+    if (currentExercise && currentProgress) {
+      checkRecords(currentExercise, currentProgress.sets);
+    }
+    if (!supersetNextStep) {
+      setShowCompleteModal(true);
+      return;
+    }
+    if (isSupersetRestNext) startRestTimer();
+
+    const index = exercises.findIndex(
+      (exercise) => exercise.id === supersetNextStep.exerciseId
+    );
+    const nextExercise = exercises[index];
+    setExerciseProgress((prev) => {
+      const updated = [...prev];
+      const sets = updated[index]?.sets ?? [];
+      // Carry the last set's weight and reps forward, like adding a set does
+      const workingSets = getWorkingSets(sets);
+      const lastSet = workingSets[workingSets.length - 1];
+      updated[index] = {
+        ...updated[index],
+        sets: [
+          ...sets,
+          {
+            roundNumber: 1,
+            setNumber: (sets[sets.length - 1]?.setNumber || 0) + 1,
+            weight: lastSet ? lastSet.weight : nextExercise.weight || 0,
+            reps: lastSet ? lastSet.reps : nextExercise.reps || 10,
+          },
+        ],
+      };
+      return updated;
+    });
+    setCurrentExerciseIndex(index);
+    scrollToExerciseHeading(index);
+  };
+
+  // Switch between the exercises of the current superset
+  const showSupersetExercise = (exerciseId: number) => {
+    const index = exercises.findIndex((exercise) => exercise.id === exerciseId);
+    if (index === -1) return;
+    setCurrentExerciseIndex(index);
+    scrollToExerciseHeading(index);
+  };
+
+  // Replace the current exercise for today, keeping its sets, reps and weight
+  const swapCurrentExercise = async (replacement: SubstituteCandidate) => {
+    if (!currentExercise || !workout) return;
+
+    const swapped = await swapPlanDayExercise(
+      workout.id,
+      currentExercise,
+      replacement
+    );
+    if (!swapped) {
+      Alert.alert("Error", "Failed to swap exercise. Please try again.");
+      return;
+    }
+
+    setWorkout((prev) =>
+      prev
+        ? {
+            ...prev,
+            blocks: prev.blocks.map((block) => ({
+              ...block,
+              exercises: block.exercises.map((exercise) =>
+                exercise.id === swapped.id ? swapped : exercise
+              ),
+            })),
+          }
+        : prev
+    );
+    setShowSwapModal(false);
+  };
+
   // Get current block for the current exercise
   const getCurrentBlock = (): WorkoutBlockWithExercises | null => {
     if (!workout?.blocks || !currentExercise) return null;
@@ -1245,6 +1730,7 @@ export default function WorkoutScreen() {
     block: currentBlock || dummyBlock,
     autoStartTimer: false,
     allowPartialRounds: true,
+    roundsCompleted: currentBlock ? restoredRounds[currentBlock.id] ?? 0 : 0,
   };
 
   const circuitSession = useCircuitSession(circuitConfig);
@@ -1392,7 +1878,7 @@ export default function WorkoutScreen() {
           Amazing work! You completed{" "}
           {hasCompletedWorkoutDuration
             ? completedExercisesCount
-            : currentExerciseIndex}{" "}
+            : completedExerciseIds.length}{" "}
           exercises
           {!hasCompletedWorkoutDuration &&
             skippedExercises.length > 0 &&
@@ -1404,6 +1890,27 @@ export default function WorkoutScreen() {
         <Text className="text-text-muted text-center mb-8 leading-6">
           Check back tomorrow for your next workout.
         </Text>
+        <TouchableOpacity
+          className="bg-primary rounded-2xl py-4 px-8 flex-row items-center mb-6"
+          onPress={openWorkoutSummary}
+        >
+          <Ionicons
+            name="stats-chart"
+            size={18}
+            color={colors.text.secondary}
+          />
+          <Text className="text-secondary font-semibold ml-2">
+            View Summary
+          </Text>
+        </TouchableOpacity>
+        <OfflineQueueBanner
+          pendingCount={offlineQueue.pendingCount}
+          failed={offlineQueue.failed}
+          lastError={offlineQueue.lastError}
+          isReplaying={offlineQueue.isReplaying}
+          onRetry={offlineQueue.replay}
+          onDismissFailed={offlineQueue.dismissFailed}
+        />
       </View>
     );
   }
@@ -1467,6 +1974,15 @@ export default function WorkoutScreen() {
             ) : null}
           </View>
 
+          <OfflineQueueBanner
+            pendingCount={offlineQueue.pendingCount}
+            failed={offlineQueue.failed}
+            lastError={offlineQueue.lastError}
+            isReplaying={offlineQueue.isReplaying}
+            onRetry={offlineQueue.replay}
+            onDismissFailed={offlineQueue.dismissFailed}
+          />
+
           {/* Current Block Info */}
           {currentBlock ? (
             <View className="bg-brand-light-1 rounded-2xl p-4 mb-6">
@@ -1506,9 +2022,27 @@ export default function WorkoutScreen() {
               className="bg-card rounded-2xl mb-6 p-6 border shadow-sm font-bold border-neutral-light-2"
             >
               <View className="flex-row items-center justify-between mb-3">
-                <Text className="text-xl font-bold text-text-primary">
-                  {currentExercise.exercise.name}
-                </Text>
+                <View className="flex-1 mr-2">
+                  <Text className="text-xl font-bold text-text-primary">
+                    {currentExercise.exercise.name}
+                  </Text>
+                  {currentExercise.originalExerciseId ? (
+                    <Text className="text-xs text-text-muted mt-1">
+                      Swapped in for today
+                    </Text>
+                  ) : null}
+                </View>
+                <TouchableOpacity
+                  onPress={() => setShowSwapModal(true)}
+                  className="flex-row items-center gap-1 px-2 py-1 mr-2 bg-neutral-light-2 rounded-full"
+                >
+                  <Ionicons
+                    name="swap-horizontal"
+                    size={14}
+                    color={colors.text.primary}
+                  />
+                  <Text className="text-xs text-text-primary">Swap</Text>
+                </TouchableOpacity>
                 {currentExercise.exercise.link && (
                   <TouchableOpacity
                     onPress={() =>
@@ -1569,8 +2103,90 @@ export default function WorkoutScreen() {
 
               {isWorkoutStarted && currentProgress ? (
                 <View className="space-y-4">
+                  {/* Superset - the paired exercises, alternated set by set */}
+                  {currentSupersetBlock ? (
+                    <View className="rounded-2xl p-4 border border-neutral-light-2 bg-card">
+                      <View className="flex-row items-center justify-between mb-3">
+                        <Text className="text-sm font-semibold text-text-primary">
+                          Superset
+                        </Text>
+                        <Text className="text-xs text-text-muted">
+                          {currentRestTime > 0
+                            ? `Rest ${currentRestTime}s after each pass`
+                            : "No rest between passes"}
+                        </Text>
+                      </View>
+                      {currentSupersetBlock.exercises.map((exercise) => {
+                        const isActive = exercise.id === currentExercise.id;
+                        const letter = getSupersetLetter(
+                          currentSupersetBlock,
+                          exercise.id
+                        );
+                        return (
+                          <TouchableOpacity
+                            key={exercise.id}
+                            className={`flex-row items-center p-3 rounded-xl mb-2 border ${
+                              isActive
+                                ? "bg-brand-light-1 border-brand-light-1"
+                                : "bg-background border-neutral-light-2"
+                            }`}
+                            disabled={isActive}
+                            onPress={() => showSupersetExercise(exercise.id)}
+                          >
+                            <Text className="text-sm font-bold text-text-primary w-6">
+                              {letter}
+                            </Text>
+                            <Text
+                              className="text-sm text-text-primary flex-1"
+                              numberOfLines={1}
+                            >
+                              {exercise.exercise.name}
+                            </Text>
+                            <Text className="text-xs text-text-muted ml-2">
+                              {supersetLoggedSets[exercise.id] ?? 0} /{" "}
+                              {getSupersetTargetSets(
+                                currentSupersetBlock,
+                                exercise.id
+                              )}{" "}
+                              sets
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                      <TouchableOpacity
+                        className="bg-primary rounded-xl py-3 mt-1 flex-row items-center justify-center"
+                        onPress={advanceSuperset}
+                      >
+                        <Ionicons
+                          name={
+                            !supersetNextStep
+                              ? "checkmark"
+                              : isSupersetRestNext && currentRestTime > 0
+                              ? "timer-outline"
+                              : "arrow-forward"
+                          }
+                          size={18}
+                          color={colors.text.secondary}
+                        />
+                        <Text className="text-secondary font-semibold ml-2">
+                          {!supersetNextStep
+                            ? "Finish Superset"
+                            : `${
+                                isSupersetRestNext && currentRestTime > 0
+                                  ? "Rest, then"
+                                  : "Next:"
+                              } ${getSupersetLetter(
+                                currentSupersetBlock,
+                                supersetNextStep.exerciseId
+                              )}${supersetNextStep.setNumber}`}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  ) : null}
+
                   {/* Rounds - Show if block has multiple rounds */}
-                  {currentBlock &&
+                  {!currentSupersetBlock &&
+                  currentBlock &&
                   currentBlock.rounds &&
                   currentBlock.rounds > 1 ? (
                     <View className="rounded-2xl p-4">
@@ -1622,17 +2238,26 @@ export default function WorkoutScreen() {
                       exercise={currentExercise}
                       sets={currentProgress.sets}
                       onSetsChange={(sets) => updateProgress("sets", sets)}
+                      onSetLogged={handleSetLogged}
                       onProgressUpdate={(progress) => {
                         updateProgress("setsCompleted", progress.setsCompleted);
                         updateProgress("duration", progress.duration);
                         // Note: Removed auto-completion - user now manually completes exercise
                       }}
                       blockType={currentBlock?.blockType}
+                      supersetLetter={
+                        currentSupersetBlock
+                          ? getSupersetLetter(
+                              currentSupersetBlock,
+                              currentExercise.id
+                            )
+                          : undefined
+                      }
                     />
                   </View>
 
                   {/* Rest Timer - Only show if exercise has rest time */}
-                  {currentExercise.restTime && currentExercise.restTime > 0 ? (
+                  {currentRestTime > 0 ? (
                     <View className="mt-2 px-3 mb-3">
                       {/* Timer Toggle Button */}
                       <TouchableOpacity
@@ -1664,15 +2289,65 @@ export default function WorkoutScreen() {
                         <View className="rounded-2xl p-4 border shadow-sm border-neutral-light-2 bg-card">
                           <CircularTimerDisplay
                             countdown={restTimerCountdown}
-                            targetDuration={currentExercise?.restTime || 0}
-                            isActive={isRestTimerActive}
-                            isPaused={isRestTimerPaused}
+                            targetDuration={
+                              restTimer.isActive
+                                ? restTimer.duration
+                                : currentRestTime
+                            }
+                            isActive={restTimer.isActive}
+                            isPaused={restTimer.isPaused}
                             isCompleted={restTimerCountdown === 0}
                             startButtonText={`Start Rest`}
                             onStartPause={handleRestTimerStartPause}
-                            onReset={handleRestTimerReset}
-                            onCancel={handleRestTimerCancel}
+                            onReset={startRestTimer}
+                            onCancel={restTimer.cancel}
                           />
+
+                          {restTimer.isActive && (
+                            <View className="flex-row gap-2 mb-3">
+                              <TouchableOpacity
+                                className="flex-1 rounded-xl py-2 items-center border border-neutral-light-2"
+                                onPress={restTimer.removeTime}
+                              >
+                                <Text className="text-xs font-semibold text-text-primary">
+                                  −{REST_ADJUST_SECONDS}s
+                                </Text>
+                              </TouchableOpacity>
+                              <TouchableOpacity
+                                className="flex-1 rounded-xl py-2 items-center border border-neutral-light-2"
+                                onPress={restTimer.addTime}
+                              >
+                                <Text className="text-xs font-semibold text-text-primary">
+                                  +{REST_ADJUST_SECONDS}s
+                                </Text>
+                              </TouchableOpacity>
+                            </View>
+                          )}
+
+                          {!currentSupersetBlock && (
+                            <View className="flex-row items-center justify-between">
+                              <Text className="text-xs text-text-muted flex-1 mr-3">
+                                Start rest automatically after each set of this
+                                exercise
+                              </Text>
+                              <Switch
+                                value={restTimer.isAutoStartEnabled(
+                                  currentExercise.exerciseId
+                                )}
+                                onValueChange={(enabled) =>
+                                  restTimer.setAutoStart(
+                                    currentExercise.exerciseId,
+                                    enabled
+                                  )
+                                }
+                                trackColor={{
+                                  false: colors.neutral.medium[1],
+                                  true: colors.brand.primary,
+                                }}
+                                thumbColor={colors.neutral.white}
+                              />
+                            </View>
+                          )}
                         </View>
                       )}
                     </View>
@@ -1762,13 +2437,23 @@ export default function WorkoutScreen() {
                   const globalIndex = exercises.findIndex(
                     (ex) => ex.id === exercise.id
                   );
-                  const isCompleted = globalIndex < currentExerciseIndex;
+                  const isCompleted = completedExerciseIds.includes(
+                    exercise.id
+                  );
                   const isCurrent = globalIndex === currentExerciseIndex;
                   const isSkipped = skippedExercises.includes(exercise.id);
+                  // Pending exercises can be started early once under way
+                  const canJump =
+                    isWorkoutStarted &&
+                    !isCurrent &&
+                    !isCompleted &&
+                    !isSkipped;
 
                   return (
-                    <View
+                    <TouchableOpacity
                       key={exercise.id}
+                      disabled={!canJump}
+                      onPress={() => jumpToExercise(exercise.id)}
                       className={`flex-row items-center p-3 rounded-xl mb-2 ${
                         isCurrent
                           ? "bg-brand-light-1 border border-brand-light-1"
@@ -1826,7 +2511,7 @@ export default function WorkoutScreen() {
                           ) : null}
                           {exercise.weight ? (
                             <Text className="text-xs text-text-muted mr-3">
-                              {exercise.weight} lbs
+                              {formatWeight(exercise.weight)}
                             </Text>
                           ) : null}
                           {exercise.duration ? (
@@ -1836,7 +2521,15 @@ export default function WorkoutScreen() {
                           ) : null}
                         </View>
                       </View>
-                    </View>
+
+                      {canJump && (
+                        <Ionicons
+                          name="arrow-forward-circle-outline"
+                          size={20}
+                          color={colors.text.muted}
+                        />
+                      )}
+                    </TouchableOpacity>
                   );
                 })}
               </View>
@@ -1878,6 +2571,13 @@ export default function WorkoutScreen() {
                 </TouchableOpacity>
               )}
 
+            <TouchableOpacity
+              className="bg-neutral-light-2 rounded-2xl py-4 px-4 items-center justify-center"
+              onPress={() => setShowQueueModal(true)}
+            >
+              <Ionicons name="list" size={20} color={colors.text.primary} />
+            </TouchableOpacity>
+
             <TouchableOpacity
               className="bg-neutral-light-2 rounded-2xl py-4 flex-1 flex-row items-center justify-center"
               onPress={togglePause}
@@ -1908,7 +2608,11 @@ export default function WorkoutScreen() {
                 color={colors.text.secondary}
               />
               <Text className="text-secondary font-semibold ml-2">
-                {isCurrentBlockCircuit ? "Complete Circuit" : "Complete"}
+                {isCurrentBlockCircuit
+                  ? "Complete Circuit"
+                  : currentSupersetBlock
+                  ? "Complete Superset"
+                  : "Complete"}
               </Text>
             </TouchableOpacity>
           </View>
@@ -1920,16 +2624,58 @@ export default function WorkoutScreen() {
         <View className="flex-1 bg-black/50 justify-center items-center px-6">
           <View className="bg-white rounded-2xl p-6 w-full max-w-sm shadow-xl">
             <Text className="text-xl font-bold text-text-primary mb-4 text-center">
-              {isCurrentBlockCircuit ? "Complete Circuit" : "Complete Exercise"}
+              {isCurrentBlockCircuit
+                ? "Complete Circuit"
+                : currentSupersetBlock
+                ? "Complete Superset"
+                : "Complete Exercise"}
             </Text>
             <Text className="text-base text-text-secondary text-center mb-6 leading-6">
               {isCurrentBlockCircuit
                 ? `Complete "${
                     currentBlock?.blockName || "Circuit Block"
                   }"? All rounds and exercises will be logged.`
+                : currentSupersetBlock
+                ? `Complete "${
+                    currentSupersetBlock.blockName || "Superset"
+                  }"? The sets of each exercise will be logged.`
                 : `Mark "${currentExercise?.exercise.name}" as complete? Your progress will be saved.`}
             </Text>
 
+            {/* Optional exercise check-in, saved with the log */}
+            {!isCurrentBlockCircuit && (
+              <View className="mb-6">
+                <TouchableOpacity
+                  className="flex-row items-center justify-center"
+                  onPress={() => setShowExerciseCheckIn(!showExerciseCheckIn)}
+                >
+                  <Text
+                    className="text-sm font-semibold"
+                    style={{ color: colors.brand.primary }}
+                  >
+                    {currentSupersetBlock
+                      ? "Rate this superset"
+                      : "Rate this exercise"}
+                  </Text>
+                  <Ionicons
+                    name={showExerciseCheckIn ? "chevron-up" : "chevron-down"}
+                    size={16}
+                    color={colors.brand.primary}
+                  />
+                </TouchableOpacity>
+                {showExerciseCheckIn && (
+                  <View className="mt-4">
+                    <CheckInForm
+                      value={exerciseCheckIn}
+                      onChange={setExerciseCheckIn}
+                      showMood={false}
+                      showNotes={false}
+                    />
+                  </View>
+                )}
+              </View>
+            )}
+
             <View className="flex-row gap-3">
               <TouchableOpacity
                 className="bg-neutral-light-2 rounded-xl py-3 px-6 flex-1"
@@ -2018,6 +2764,39 @@ export default function WorkoutScreen() {
         </View>
       </Modal>
 
+      {/* Swap Exercise Modal */}
+      <ExerciseSwapModal
+        visible={showSwapModal}
+        onClose={() => setShowSwapModal(false)}
+        exercise={currentExercise}
+        excludeIds={exercises.map((exercise) => exercise.exerciseId)}
+        onSwap={swapCurrentExercise}
+      />
+
+      <ExerciseQueueModal
+        visible={showQueueModal}
+        onClose={() => setShowQueueModal(false)}
+        blocks={workout.blocks}
+        current={currentQueueUnit}
+        remaining={remainingQueueUnits}
+        onJump={jumpToExercise}
+        onReorder={(remaining) =>
+          setExerciseOrder((prev) => reorderRemaining(prev, remaining))
+        }
+        onDefer={deferCurrentExercise}
+      />
+
+      <PersonalRecordCelebration
+        records={newRecords}
+        onDismiss={() => setNewRecords([])}
+      />
+
+      <WorkoutCheckInModal
+        visible={pendingCompletion !== null}
+        isSaving={isSavingCheckIn}
+        onSubmit={completePlanDay}
+      />
+
       {/* Rest Complete Modal */}
       <Modal visible={showRestCompleteModal} transparent animationType="fade">
         <View className="flex-1 bg-black/50 justify-center items-center px-6">
@@ -2029,7 +2808,7 @@ export default function WorkoutScreen() {
               Rest Complete!
             </Text>
             <Text className="text-base text-text-secondary text-center mb-6 leading-6">
-              Your {currentExercise?.restTime}s rest is finished. What would you
+              Your {completedRestDuration}s rest is finished. What would you
               like to do next?
             </Text>
 
@@ -2042,7 +2821,7 @@ export default function WorkoutScreen() {
                 <View className="flex-row justify-center items-center space-x-4">
                   <View className="items-center">
                     <Text className="text-lg font-bold text-text-primary">
-                      {currentProgress.sets?.length || 0}
+                      {getWorkingSets(currentProgress.sets || []).length}
                     </Text>
                     <Text className="text-xs text-text-muted">
                       of {currentExercise.sets || 3} sets
@@ -2056,8 +2835,10 @@ export default function WorkoutScreen() {
               {/* Continue button - only show if more sets are needed */}
               {currentProgress &&
                 currentExercise &&
-                (currentProgress.sets?.length || 0) <
-                  (currentExercise.sets || 3) && (
+                (currentSupersetBlock
+                  ? supersetNextStep !== null
+                  : getWorkingSets(currentProgress.sets || []).length <
+                    (currentExercise.sets || 3)) && (
                   <TouchableOpacity
                     className="bg-primary rounded-xl py-3 mb-3 px-6"
                     onPress={() => {
@@ -2066,7 +2847,9 @@ export default function WorkoutScreen() {
                     }}
                   >
                     <Text className="text-secondary font-semibold text-center">
-                      Continue Exercise
+                      {currentSupersetBlock
+                        ? "Continue Superset"
+                        : "Continue Exercise"}
                     </Text>
                   </TouchableOpacity>
                 )}
@@ -2082,6 +2865,8 @@ export default function WorkoutScreen() {
                 <Text className="text-text-primary font-semibold text-center">
                   {isCurrentBlockCircuit
                     ? "Complete Circuit"
+                    : currentSupersetBlock
+                    ? "Complete Superset"
                     : "Complete Exercise"}
                 </Text>
               </TouchableOpacity>
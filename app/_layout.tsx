@@ -17,7 +17,10 @@ import {
 } from "@expo-google-fonts/inter";
 import { useEffect, useState } from "react";
 import WarmingUpScreen from "@/components/ui/WarmingUpScreen";
-import { invalidateActiveWorkoutCache } from "@lib/workouts";
+import { useOfflineQueue } from "@/hooks/useOfflineQueue";
+import { useSessionExpiry } from "@/hooks/useSessionExpiry";
+import { invalidateQueries } from "@/lib/queryCache";
+import { QUERY_TAGS } from "@/constants";
 import {
   registerForPushNotifications,
   addNotificationResponseListener,
@@ -43,6 +46,12 @@ function AppContent() {
   } = useAppDataContext();
   const { hasActiveJobs } = useBackgroundJobs();
 
+  // Keep replaying workout logs captured while offline, whichever tab is open
+  useOfflineQueue();
+
+  // Ask for a new login code when the token expires, then come back here
+  useSessionExpiry();
+
   // State to track notification-triggered refreshes
   const [isNotificationRefresh, setIsNotificationRefresh] = useState(false);
 
@@ -136,7 +145,7 @@ function AppContent() {
       });
 
       // Immediately invalidate cache and trigger refresh
-      invalidateActiveWorkoutCache();
+      invalidateQueries(QUERY_TAGS.WORKOUT);
       setNeedsFullAppRefresh(true);
       setIsNotificationRefresh(true); // Track that this is a notification refresh
 
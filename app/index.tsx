@@ -4,6 +4,7 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { StatusBar } from "expo-status-bar";
 import { useRouter, usePathname } from "expo-router";
 import { useAuth } from "@/contexts/AuthContext";
+import { useWorkout } from "@/contexts/WorkoutContext";
 import { useEffect, useRef, useState } from "react";
 import { Ionicons } from "@expo/vector-icons";
 import * as SecureStore from "expo-secure-store";
@@ -22,7 +23,12 @@ export default function GetStarted() {
     isGeneratingWorkout,
     isPreloadingData,
     setIsPreloadingData,
+    sessionExpired,
   } = useAuth();
+  const { resumableWorkout } = useWorkout();
+  // Read after preloading, by which time the snapshot has been loaded
+  const resumableWorkoutRef = useRef(resumableWorkout);
+  resumableWorkoutRef.current = resumableWorkout;
   const { preloadAllData } = useDataPreload();
   const hasRedirected = useRef(false);
   const [isVerifyingUser, setIsVerifyingUser] = useState<boolean | null>(null);
@@ -47,7 +53,10 @@ export default function GetStarted() {
         await preloadAllData();
         setIsPreloadingData(false);
         hasRedirected.current = true;
-        router.replace("/(tabs)/dashboard");
+        // A workout interrupted by the app being killed picks up where it was
+        router.replace(
+          resumableWorkoutRef.current ? "/(tabs)/workout" : "/(tabs)/dashboard"
+        );
       };
 
       handlePreloadComplete();
@@ -68,6 +77,11 @@ export default function GetStarted() {
       return;
     }
 
+    // The stored token has expired; useSessionExpiry is sending them to login
+    if (sessionExpired) {
+      return;
+    }
+
     // Don't redirect if we already have
     if (hasRedirected.current) {
       return;
@@ -98,6 +112,7 @@ export default function GetStarted() {
     isGeneratingWorkout,
     isPreloadingData,
     isVerifyingUser,
+    sessionExpired,
     pathname,
     router,
     setIsPreloadingData,
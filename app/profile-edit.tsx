@@ -12,6 +12,8 @@ import { Ionicons } from "@expo/vector-icons";
 import { useAuth } from "@contexts/AuthContext";
 import { useAppDataContext } from "@contexts/AppDataContext";
 import { fetchUserProfile, updateUserProfile, Profile } from "@lib/profile";
+import { getUnitSystem, saveUnitSystem } from "@lib/units";
+import { useUnits } from "@hooks/useUnits";
 import OnboardingForm, { FormData } from "@components/OnboardingForm";
 import { colors } from "../lib/theme";
 
@@ -124,6 +126,7 @@ export default function ProfileEditScreen() {
   const {
     refresh: { refreshProfile },
   } = useAppDataContext();
+  const { unitSystem } = useUnits();
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -257,7 +260,8 @@ export default function ProfileEditScreen() {
       email: user?.email || "",
       age: profile.age || 25,
       height: profile.height || 170,
-      weight: profile.weight || 70,
+      weight: profile.weight || 150,
+      unitSystem,
       gender: gender,
       goals: convertStringArrayToEnum(profile.goals, FitnessGoals),
       limitations: convertStringArrayToEnum(
@@ -321,6 +325,9 @@ export default function ProfileEditScreen() {
         includeCooldown: formData.includeCooldown ?? true,
       };
 
+      // Units are kept on this device rather than in the profile
+      await saveUnitSystem(getUnitSystem(formData));
+
       // Update the profile
       const updatedProfile = await updateUserProfile(profileData as any);
 
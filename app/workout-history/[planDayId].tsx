@@ -0,0 +1,366 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { useUnits } from "@/hooks/useUnits";
+import { colors } from "@/lib/theme";
+import {
+  EditableExercise,
+  EditableLog,
+  EditablePlanDay,
+  EditableSet,
+  fetchEditablePlanDay,
+  saveExerciseCorrections,
+} from "@/lib/logCorrections";
+import { formatDateForDisplay } from "@/utils";
+
+export default function WorkoutHistoryScreen() {
+  const router = useRouter();
+  const { planDayId } = useLocalSearchParams<{ planDayId: string }>();
+  const { toDisplayWeight, fromDisplayWeight, weightUnit } = useUnits();
+  const [planDay, setPlanDay] = useState<EditablePlanDay | null>(null);
+  // Unsaved edits, by plan day exercise
+  const [edits, setEdits] = useState<Record<number, EditableExercise>>({});
+  const [savingId, setSavingId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadPlanDay = useCallback(
+    async (signal?: AbortSignal) => {
+      const result = await fetchEditablePlanDay(Number(planDayId), signal);
+      if (signal?.aborted) return;
+      setPlanDay(result);
+      setEdits({});
+      setLoading(false);
+    },
+    [planDayId]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadPlanDay(controller.signal);
+    return () => controller.abort();
+  }, [loadPlanDay]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadPlanDay();
+    setRefreshing(false);
+  };
+
+  const editLog = (
+    exercise: EditableExercise,
+    logId: number,
+    change: (log: EditableLog) => EditableLog
+  ) => {
+    const current = edits[exercise.planDayExerciseId] ?? exercise;
+    setEdits({
+      ...edits,
+      [exercise.planDayExerciseId]: {
+        ...current,
+        logs: current.logs.map((log) =>
+          log.id === logId ? change(log) : log
+        ),
+      },
+    });
+  };
+
+  const editSet = (
+    exercise: EditableExercise,
+    logId: number,
+    index: number,
+    updates: Partial<EditableSet>
+  ) =>
+    editLog(exercise, logId, (log) => ({
+      ...log,
+      sets: log.sets.map((set, setIndex) =>
+        setIndex === index ? { ...set, ...updates } : set
+      ),
+    }));
+
+  const addSet = (exercise: EditableExercise, logId: number) =>
+    editLog(exercise, logId, (log) => {
+      const last = log.sets[log.sets.length - 1];
+      return {
+        ...log,
+        sets: [
+          ...log.sets,
+          {
+            id: null,
+            roundNumber: last?.roundNumber ?? 1,
+            setNumber:
+              Math.max(0, ...log.sets.map((set) => set.setNumber)) + 1,
+            // Start from the last set, as the workout screen does
+            weight: last?.weight ?? 0,
+            reps: last?.reps ?? 0,
+            isWarmup: false,
+          },
+        ],
+      };
+    });
+
+  const removeSet = (
+    exercise: EditableExercise,
+    logId: number,
+    index: number
+  ) =>
+    editLog(exercise, logId, (log) => ({
+      ...log,
+      sets: log.sets.filter((_, setIndex) => setIndex !== index),
+    }));
+
+  const discardEdits = (exercise: EditableExercise) => {
+    const remaining = { ...edits };
+    delete remaining[exercise.planDayExerciseId];
+    setEdits(remaining);
+  };
+
+  const saveEdits = async (exercise: EditableExercise) => {
+    const edited = edits[exercise.planDayExerciseId];
+    if (!edited) return;
+
+    setSavingId(exercise.planDayExerciseId);
+    const result = await saveExerciseCorrections(exercise, edited);
+    setSavingId(null);
+
+    if (!result.success) {
+      Alert.alert("Error", result.error || "Failed to save changes.");
+    }
+    // Reload either way so the screen shows what was actually saved
+    await loadPlanDay();
+  };
+
+  const renderSet = (
+    exercise: EditableExercise,
+    log: EditableLog,
+    set: EditableSet,
+    index: number
+  ) => (
+    <View
+      key={set.id ?? `new-${index}`}
+      className="flex-row items-center py-2 border-t border-neutral-light-2"
+    >
+      <Text className="text-xs text-text-muted w-12">
+        {set.isWarmup ? "W" : `Set ${index + 1}`}
+      </Text>
+      <View className="flex-1 flex-row items-center bg-background rounded-lg px-2 py-1 mr-2">
+        <TextInput
+          className="flex-1 text-sm font-semibold text-text-primary"
+          value={toDisplayWeight(set.weight).toString()}
+          onChangeText={(text) =>
+            editSet(exercise, log.id, index, {
+              weight: fromDisplayWeight(parseFloat(text) || 0),
+            })
+          }
+          keyboardType="numeric"
+          placeholder="0"
+          placeholderTextColor={colors.text.muted}
+        />
+        <Text className="text-xs text-text-muted">{weightUnit}</Text>
+      </View>
+      <View className="flex-1 flex-row items-center bg-background rounded-lg px-2 py-1 mr-2">
+        <TextInput
+          className="flex-1 text-sm font-semibold text-text-primary"
+          value={set.reps.toString()}
+          onChangeText={(text) =>
+            editSet(exercise, log.id, index, { reps: parseInt(text) || 0 })
+          }
+          keyboardType="numeric"
+          placeholder="0"
+          placeholderTextColor={colors.text.muted}
+        />
+        <Text className="text-xs text-text-muted">reps</Text>
+      </View>
+      <TouchableOpacity
+        onPress={() => removeSet(exercise, log.id, index)}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      >
+        <Ionicons name="trash-outline" size={18} color={colors.text.muted} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderLog = (
+    exercise: EditableExercise,
+    log: EditableLog,
+    logIndex: number
+  ) => (
+    <View key={log.id} className={logIndex > 0 ? "mt-3" : ""}>
+      {exercise.isCircuit && !log.isSkipped && (
+        <Text className="text-xs font-semibold text-text-muted mb-1">
+          Round {log.sets[0]?.roundNumber ?? logIndex + 1}
+        </Text>
+      )}
+      {log.isSkipped ? (
+        <View className="flex-row items-center justify-between py-2">
+          <Text className="text-sm text-text-muted">Skipped</Text>
+          <TouchableOpacity
+            className="flex-row items-center"
+            onPress={() =>
+              editLog(exercise, log.id, (current) => ({
+                ...current,
+                isSkipped: false,
+              }))
+            }
+          >
+            <Ionicons
+              name="arrow-undo-outline"
+              size={14}
+              color={colors.brand.primary}
+            />
+            <Text className="text-xs font-semibold text-brand-primary ml-1">
+              Un-skip
+            </Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <>
+          {log.sets.map((set, index) => renderSet(exercise, log, set, index))}
+          <TouchableOpacity
+            className="flex-row items-center py-2"
+            onPress={() => addSet(exercise, log.id)}
+          >
+            <Ionicons
+              name="add-circle-outline"
+              size={16}
+              color={colors.brand.primary}
+            />
+            <Text className="text-xs font-semibold text-brand-primary ml-1">
+              Add Set
+            </Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+
+  const renderExercise = (exercise: EditableExercise) => {
+    const edited = edits[exercise.planDayExerciseId];
+    const shown = edited ?? exercise;
+    const isSaving = savingId === exercise.planDayExerciseId;
+
+    return (
+      <View
+        key={exercise.planDayExerciseId}
+        className="bg-card rounded-2xl p-4 mb-3 border border-neutral-light-2"
+      >
+        <Text className="text-base font-semibold text-text-primary">
+          {exercise.name}
+        </Text>
+        {exercise.blockName ? (
+          <Text className="text-xs text-text-muted mb-2">
+            {exercise.blockName}
+          </Text>
+        ) : null}
+
+        {shown.logs.length > 0 ? (
+          shown.logs.map((log, index) => renderLog(exercise, log, index))
+        ) : (
+          <Text className="text-xs text-text-muted mt-1">Nothing logged</Text>
+        )}
+
+        {edited && (
+          <View className="flex-row gap-3 mt-3">
+            <TouchableOpacity
+              className="bg-neutral-light-2 rounded-xl py-2.5 flex-1"
+              onPress={() => discardEdits(exercise)}
+              disabled={isSaving}
+            >
+              <Text className="text-text-primary font-semibold text-center text-sm">
+                Discard
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              className={`bg-primary rounded-xl py-2.5 flex-1 ${
+                isSaving ? "opacity-75" : ""
+              }`}
+              onPress={() => saveEdits(exercise)}
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator
+                  size="small"
+                  color={colors.text.secondary}
+                />
+              ) : (
+                <Text className="text-secondary font-semibold text-center text-sm">
+                  Save
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView className="flex-1 bg-background justify-center items-center">
+        <ActivityIndicator size="large" color={colors.brand.primary} />
+        <Text className="text-text-muted mt-4">Loading your logs...</Text>
+      </SafeAreaView>
+    );
+  }
+
+  if (!planDay) {
+    return (
+      <SafeAreaView className="flex-1 bg-background justify-center items-center">
+        <Text className="text-text-muted">Failed to load workout logs</Text>
+        <TouchableOpacity
+          className="mt-4 bg-primary px-6 py-3 rounded-xl"
+          onPress={() => router.back()}
+        >
+          <Text className="text-secondary font-semibold">Go Back</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-background">
+      {/* Header */}
+      <View className="flex-row items-center justify-between px-4 py-3 bg-background border-b border-neutral-light-2">
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text className="text-lg font-semibold text-text-primary">
+          Edit Logs
+        </Text>
+        <View className="w-6" />
+      </View>
+
+      <ScrollView
+        className="flex-1 px-5"
+        contentContainerStyle={{ paddingVertical: 20 }}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+      >
+        <Text className="text-2xl font-bold text-text-primary">
+          {planDay.name}
+        </Text>
+        <Text className="text-sm text-text-muted mt-1 mb-5">
+          {formatDateForDisplay(planDay.date, {
+            weekday: "long",
+            month: "long",
+            day: "numeric",
+          })}
+        </Text>
+
+        {planDay.exercises.map(renderExercise)}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,315 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { useUnits } from "@/hooks/useUnits";
+import { colors } from "@/lib/theme";
+import {
+  BlockSummary,
+  WorkoutSummary,
+  fetchWorkoutSummary,
+} from "@/lib/workoutSummary";
+import { formatRecordValue, getRecordLabel } from "@/lib/personalRecords";
+import HeartRateCard from "@/components/HeartRateCard";
+import { getBlockTypeDisplayName } from "@/types/api/workout.types";
+import { formatDateForDisplay, formatDuration } from "@/utils";
+
+export default function WorkoutSummaryScreen() {
+  const router = useRouter();
+  const { planDayId } = useLocalSearchParams<{ planDayId: string }>();
+  const { toDisplayWeight, weightUnit, formatWeight } = useUnits();
+  const [summary, setSummary] = useState<WorkoutSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadSummary = useCallback(
+    async (forceRefresh = false, signal?: AbortSignal) => {
+      const result = await fetchWorkoutSummary(Number(planDayId), {
+        forceRefresh,
+        signal,
+      });
+      if (signal?.aborted) return;
+      setSummary(result);
+      setLoading(false);
+    },
+    [planDayId]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadSummary(false, controller.signal);
+    return () => controller.abort();
+  }, [loadSummary]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadSummary(true);
+    setRefreshing(false);
+  };
+
+  const formatVolume = (lbs: number) =>
+    `${Math.round(toDisplayWeight(lbs)).toLocaleString()} ${weightUnit}`;
+
+  const formatMinutes = (seconds: number) =>
+    formatDuration(Math.round(seconds / 60));
+
+  // Change against the last time this plan day was done
+  const renderChange = (
+    current: number | null,
+    previous: number | null | undefined,
+    format: (value: number) => string,
+    // Less is better for time
+    lowerIsBetter = false
+  ) => {
+    if (current === null || previous == null) return null;
+    const difference = current - previous;
+    if (difference === 0) {
+      return <Text className="text-xs text-text-muted mt-1">Same as last</Text>;
+    }
+    const isBetter = lowerIsBetter ? difference < 0 : difference > 0;
+    return (
+      <Text
+        className="text-xs font-semibold mt-1"
+        style={{ color: isBetter ? colors.brand.primary : colors.text.muted }}
+      >
+        {difference > 0 ? "+" : "−"}
+        {format(Math.abs(difference))}
+      </Text>
+    );
+  };
+
+  const renderStat = (
+    icon: keyof typeof Ionicons.glyphMap,
+    label: string,
+    value: string,
+    change: React.ReactNode
+  ) => (
+    <View className="w-[48%] bg-card rounded-2xl p-4 mb-3 border border-neutral-light-2">
+      <View className="flex-row items-center mb-2">
+        <Ionicons name={icon} size={14} color={colors.text.muted} />
+        <Text className="text-xs text-text-muted ml-1">{label}</Text>
+      </View>
+      <Text className="text-xl font-bold text-text-primary">{value}</Text>
+      {change}
+    </View>
+  );
+
+  const renderBlock = (block: BlockSummary) => (
+    <View
+      key={block.blockId}
+      className="bg-card rounded-2xl p-4 mb-3 border border-neutral-light-2"
+    >
+      <View className="flex-row items-center justify-between mb-1">
+        <Text className="text-base font-semibold text-text-primary flex-1">
+          {block.name || getBlockTypeDisplayName(block.blockType)}
+        </Text>
+        {block.circuit && (
+          <View
+            className="px-2 py-0.5 rounded-full"
+            style={{ backgroundColor: colors.brand.primary + "30" }}
+          >
+            <Text className="text-xs font-semibold text-text-primary">
+              {block.circuit.score}
+            </Text>
+          </View>
+        )}
+      </View>
+      <Text className="text-xs text-text-muted mb-3">
+        {block.circuit
+          ? `${block.circuit.roundsCompleted} rounds · ${block.circuit.totalReps} reps`
+          : `${block.sets} sets · ${block.reps} reps`}
+        {block.volume > 0 ? ` · ${formatVolume(block.volume)}` : ""}
+      </Text>
+
+      {block.exercises.length > 0 ? (
+        block.exercises.map((exercise) => (
+          <View
+            key={exercise.planDayExerciseId}
+            className="flex-row items-center justify-between py-2 border-t border-neutral-light-2"
+          >
+            <Text className="text-sm text-text-primary flex-1 mr-3">
+              {exercise.name}
+            </Text>
+            <Text className="text-xs text-text-muted">
+              {exercise.sets} × {Math.round(exercise.reps / exercise.sets)}
+              {exercise.topWeight > 0
+                ? ` · ${formatWeight(exercise.topWeight)}`
+                : ""}
+            </Text>
+          </View>
+        ))
+      ) : (
+        <Text className="text-xs text-text-muted">Nothing logged</Text>
+      )}
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView className="flex-1 bg-background justify-center items-center">
+        <ActivityIndicator size="large" color={colors.brand.primary} />
+        <Text className="text-text-muted mt-4">Loading your summary...</Text>
+      </SafeAreaView>
+    );
+  }
+
+  if (!summary) {
+    return (
+      <SafeAreaView className="flex-1 bg-background justify-center items-center">
+        <Text className="text-text-muted">Failed to load workout summary</Text>
+        <TouchableOpacity
+          className="mt-4 bg-primary px-6 py-3 rounded-xl"
+          onPress={() => router.back()}
+        >
+          <Text className="text-secondary font-semibold">Go Back</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
+  const { previous } = summary;
+
+  return (
+    <SafeAreaView className="flex-1 bg-background">
+      {/* Header */}
+      <View className="flex-row items-center justify-between px-4 py-3 bg-background border-b border-neutral-light-2">
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text className="text-lg font-semibold text-text-primary">
+          Workout Summary
+        </Text>
+        <View className="w-6" />
+      </View>
+
+      <ScrollView
+        className="flex-1 px-5"
+        contentContainerStyle={{ paddingVertical: 20 }}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+      >
+        <Text className="text-2xl font-bold text-text-primary">
+          {summary.name}
+        </Text>
+        <Text className="text-sm text-text-muted mt-1 mb-5">
+          {formatDateForDisplay(summary.date, {
+            weekday: "long",
+            month: "long",
+            day: "numeric",
+          })}
+        </Text>
+
+        {/* Totals */}
+        <View className="flex-row flex-wrap justify-between">
+          {renderStat(
+            "time-outline",
+            "Time",
+            summary.totalTimeSeconds !== null
+              ? formatMinutes(summary.totalTimeSeconds)
+              : "—",
+            renderChange(
+              summary.totalTimeSeconds,
+              previous?.totalTimeSeconds,
+              formatMinutes,
+              true
+            )
+          )}
+          {renderStat(
+            "barbell-outline",
+            "Volume",
+            formatVolume(summary.totalVolume),
+            renderChange(summary.totalVolume, previous?.totalVolume, (value) =>
+              formatVolume(value)
+            )
+          )}
+          {renderStat(
+            "layers-outline",
+            "Sets",
+            String(summary.totalSets),
+            renderChange(summary.totalSets, previous?.totalSets, String)
+          )}
+          {renderStat(
+            "repeat-outline",
+            "Reps",
+            String(summary.totalReps),
+            renderChange(summary.totalReps, previous?.totalReps, String)
+          )}
+        </View>
+        <Text className="text-xs text-text-muted mb-6">
+          {previous
+            ? `Compared with ${formatDateForDisplay(previous.date, {
+                month: "short",
+                day: "numeric",
+              })}, the last time you did this workout.`
+            : "This is the first time you've done this workout."}
+        </Text>
+
+        {/* Personal records */}
+        {summary.personalRecords.length > 0 && (
+          <View className="mb-6">
+            <Text className="text-xs font-semibold text-text-muted mb-2">
+              PERSONAL RECORDS
+            </Text>
+            {summary.personalRecords.map((record) => (
+              <View
+                key={`${record.planDayExerciseId}-${record.type}-${
+                  record.weight ?? 0
+                }`}
+                className="flex-row items-center rounded-xl p-3 mb-2 bg-brand-light-1"
+              >
+                <Ionicons
+                  name="trophy"
+                  size={18}
+                  color={colors.brand.primary}
+                />
+                <View className="flex-1 ml-3">
+                  <Text className="text-sm font-semibold text-text-primary">
+                    {record.exerciseName}
+                  </Text>
+                  <Text className="text-xs text-text-muted mt-0.5">
+                    {getRecordLabel(record, formatWeight)}:{" "}
+                    {formatRecordValue(record, formatWeight)}
+                    {record.previous !== null
+                      ? ` (was ${formatRecordValue(
+                          record,
+                          formatWeight,
+                          record.previous
+                        )})`
+                      : ""}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Heart rate */}
+        <View className="mb-6">
+          <HeartRateCard planDayId={summary.planDayId} />
+        </View>
+
+        {/* Blocks */}
+        <Text className="text-xs font-semibold text-text-muted mb-2">
+          BLOCKS
+        </Text>
+        {summary.blocks.map(renderBlock)}
+
+        <TouchableOpacity
+          className="bg-primary rounded-2xl py-4 items-center mt-4 mb-6"
+          onPress={() => router.back()}
+        >
+          <Text className="text-secondary font-semibold">Done</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -1,16 +1,26 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
 import { View, Text, TextInput, TouchableOpacity } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import * as Notifications from "expo-notifications";
 import { colors } from "@/lib/theme";
 import { WorkoutBlockWithExercise } from "@/types/api/workout.types";
+import { ExerciseSession } from "@/lib/exerciseHistory";
+import { suggestNextWeight } from "@/lib/progression";
+import { useUnits } from "@/hooks/useUnits";
+import { getWorkingSets } from "@/lib/warmup";
+import { useExerciseHistory } from "@/hooks/useExerciseHistory";
 import { ExerciseSet } from "./SetTracker";
+import PreviousPerformance, { formatLoggedSet } from "./PreviousPerformance";
+import WeightSuggestionCard from "./WeightSuggestionCard";
+import EffortInput from "./EffortInput";
 import CircularTimerDisplay from "./CircularTimerDisplay";
+import PlateCalculator from "./PlateCalculator";
 import {
   getExerciseLoggingType,
   getExerciseRequirementsText,
   shouldShowWeightInput,
+  isBarbellExercise,
 } from "@/utils/exerciseHelpers";
 
 interface AdaptiveSetTrackerProps {
@@ -23,6 +33,11 @@ interface AdaptiveSetTrackerProps {
     isComplete: boolean;
   }) => void;
   blockType?: string;
+  // Letter of the exercise within its superset; set badges then read A1, A2
+  supersetLetter?: string;
+  // Called with the sets so far when a set is done: another set is added
+  // after a working set, or a timed set runs out
+  onSetLogged?: (sets: ExerciseSet[]) => void;
 }
 
 interface DurationSet extends ExerciseSet {
@@ -36,9 +51,56 @@ export default function AdaptiveSetTracker({
   onSetsChange,
   onProgressUpdate,
   blockType = "traditional",
+  supersetLetter,
+  onSetLogged,
 }: AdaptiveSetTrackerProps) {
   const loggingType = getExerciseLoggingType(exercise);
   const showWeightInput = shouldShowWeightInput(exercise);
+  const isBarbell = isBarbellExercise(exercise.exercise?.equipment);
+  const isDurationInterface =
+    loggingType === "duration_only" || loggingType === "sets_duration";
+  // Set whose weight the plate calculator is open for
+  const [plateSetIndex, setPlateSetIndex] = useState<number | null>(null);
+  const warmupSets = sets.filter((set) => set.isWarmup);
+  const workingSets = getWorkingSets(sets);
+  const {
+    sessions,
+    previous,
+    isLoading: isHistoryLoading,
+  } = useExerciseHistory(exercise.exerciseId, exercise.id);
+  const {
+    unitSystem,
+    weightUnit,
+    weightSteps: [weightStep],
+    toDisplayWeight,
+    fromDisplayWeight,
+  } = useUnits();
+  const suggestion = useMemo(
+    () =>
+      showWeightInput
+        ? suggestNextWeight(
+            sessions,
+            {
+              sets: exercise.sets,
+              reps: exercise.reps,
+              weight: exercise.weight,
+            },
+            unitSystem
+          )
+        : null,
+    [
+      sessions,
+      showWeightInput,
+      exercise.sets,
+      exercise.reps,
+      exercise.weight,
+      unitSystem,
+    ]
+  );
+
+  // Weights are kept in pounds; steps are applied in the user's unit
+  const steppedWeight = (weight: number, step: number) =>
+    fromDisplayWeight(Math.max(0, toDisplayWeight(weight) + step));
 
   // Duration-based exercise state
   const [currentSetIndex, setCurrentSetIndex] = useState(0);
@@ -188,6 +250,7 @@ export default function AdaptiveSetTracker({
       duration: totalDuration, // Send total duration, not individual set duration
       isComplete: false, // Don't mark as complete to prevent auto-advance
     });
+    onSetLogged?.(updatedSets);
   };
 
   const handleStartPause = () => {
@@ -231,6 +294,16 @@ export default function AdaptiveSetTracker({
     onSetsChange(updatedSets);
   };
 
+  const updateDurationSetEffort = (
+    index: number,
+    effort: Pick<DurationSet, "rpe" | "rir">
+  ) => {
+    const updatedSets = [...durationSets];
+    updatedSets[index] = { ...updatedSets[index], ...effort };
+    setDurationSets(updatedSets);
+    onSetsChange(updatedSets);
+  };
+
   // Add duration set function
   const addDurationSet = () => {
     const lastSet = durationSets[durationSets.length - 1];
@@ -276,6 +349,15 @@ export default function AdaptiveSetTracker({
     onSetsChange(updatedSets);
   };
 
+  const updateSetEffort = (
+    index: number,
+    effort: Pick<ExerciseSet, "rpe" | "rir">
+  ) => {
+    const updatedSets = [...sets];
+    updatedSets[index] = { ...updatedSets[index], ...effort };
+    onSetsChange(updatedSets);
+  };
+
   // Reset traditional set to target values
   const resetSetToTarget = (index: number) => {
     const updatedSets = [...sets];
@@ -288,21 +370,43 @@ export default function AdaptiveSetTracker({
   };
 
   const addSet = () => {
-    const lastSet = sets[sets.length - 1];
+    // New sets follow the last working set, never a warm-up
+    const lastSet = workingSets[workingSets.length - 1];
     // Use target values for first set, previous set values for subsequent sets
     const useWeight = !lastSet ? exercise.weight || 0 : lastSet.weight;
     const useReps = !lastSet ? exercise.reps || 0 : lastSet.reps;
 
     const newSet: ExerciseSet = {
       roundNumber: 1,
-      setNumber: (lastSet?.setNumber || 0) + 1,
+      setNumber: (sets[sets.length - 1]?.setNumber || 0) + 1,
       weight: useWeight,
       reps: useReps,
     };
     const updatedSets = [...sets, newSet];
     onSetsChange(updatedSets);
+    if (lastSet) onSetLogged?.(sets);
+  };
+
+  // Replace the working sets with last session's weights and reps
+  const copyLastSession = (session: ExerciseSession) => {
+    const copiedSets: ExerciseSet[] = session.sets.map((set, index) => ({
+      roundNumber: 1,
+      setNumber: warmupSets.length + index + 1,
+      weight: showWeightInput ? set.weight : exercise.weight || 0,
+      reps: set.reps,
+    }));
+    onSetsChange([...warmupSets, ...copiedSets]);
   };
 
+  // Use the suggested working weight for every working set
+  const applySuggestedWeight = (weight: number) => {
+    onSetsChange(sets.map((set) => (set.isWarmup ? set : { ...set, weight })));
+  };
+
+  // Position among the working sets, which is what last session lines up with
+  const getWorkingSetIndex = (index: number) =>
+    getWorkingSets(sets.slice(0, index + 1)).length - 1;
+
   const removeSet = (index: number) => {
     const updatedSets = sets.filter((_, i) => i !== index);
     updatedSets.forEach((set, i) => {
@@ -311,6 +415,30 @@ export default function AdaptiveSetTracker({
     onSetsChange(updatedSets);
   };
 
+  const renderWeightLabel = (index: number) => (
+    <View className="flex-row items-center justify-between mb-2">
+      <Text className="text-xs text-text-muted">Weight ({weightUnit})</Text>
+      {isBarbell && (
+        <TouchableOpacity
+          className="flex-row items-center"
+          onPress={() => setPlateSetIndex(index)}
+        >
+          <Ionicons
+            name="barbell-outline"
+            size={14}
+            color={colors.brand.primary}
+          />
+          <Text
+            className="text-xs font-semibold ml-1"
+            style={{ color: colors.brand.primary }}
+          >
+            Plates
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
   // Render traditional sets/reps interface
   const renderTraditionalSets = () => (
     <View>
@@ -320,72 +448,181 @@ export default function AdaptiveSetTracker({
           Target: {getExerciseRequirementsText(exercise)}
         </Text>
         <Text className="text-xs text-text-muted">
-          {sets.length} / {exercise.sets || 3} sets logged
+          {workingSets.length} / {exercise.sets || 3} sets logged
+          {warmupSets.length > 0 &&
+            ` · ${warmupSets.length} warm-up set${
+              warmupSets.length === 1 ? "" : "s"
+            }`}
         </Text>
         <View className="h-0.5 mt-2 bg-neutral-medium-1" />
       </View>
 
+      <PreviousPerformance
+        session={previous}
+        isLoading={isHistoryLoading}
+        showWeight={showWeightInput}
+        onCopy={copyLastSession}
+      />
+      <WeightSuggestionCard
+        suggestion={suggestion}
+        onApply={applySuggestedWeight}
+      />
+
       {/* Sets */}
-      {sets.map((set, index) => (
-        <View
-          key={index}
-          className="mb-4 p-3 rounded-lg border border-neutral-medium-1 bg-background"
-        >
-          <View className="flex-row items-center justify-between mb-3">
-            <View
-              className="w-6 h-6 rounded-full items-center justify-center"
-              style={{ backgroundColor: colors.brand.primary + "30" }}
-            >
-              <Text
-                className="text-xs font-semibold"
-                style={{ color: colors.brand.primary }}
-              >
-                {set.setNumber}
-              </Text>
-            </View>
-            <View className="flex-row items-center">
-              <TouchableOpacity
-                className="p-1 mr-1"
-                onPress={() => resetSetToTarget(index)}
+      {sets.map((set, index) => {
+        const previousSet = set.isWarmup
+          ? undefined
+          : previous?.sets[getWorkingSetIndex(index)];
+
+        return (
+          <View
+            key={index}
+            className={`mb-4 p-3 rounded-lg border bg-background ${
+              set.isWarmup
+                ? "border-dashed border-neutral-medium-2"
+                : "border-neutral-medium-1"
+            }`}
+          >
+            <View className="flex-row items-center justify-between mb-3">
+              <View
+                className={`h-6 rounded-full items-center justify-center ${
+                  supersetLetter ? "px-1.5" : "w-6"
+                }`}
+                style={{
+                  backgroundColor: set.isWarmup
+                    ? colors.neutral.medium[1]
+                    : colors.brand.primary + "30",
+                }}
               >
-                <Ionicons
-                  name="refresh-outline"
-                  size={16}
-                  color={colors.brand.primary}
-                />
-              </TouchableOpacity>
-              <TouchableOpacity onPress={() => removeSet(index)}>
-                <Ionicons
-                  name="trash-outline"
-                  size={16}
-                  color={colors.neutral.medium[3]}
-                />
-              </TouchableOpacity>
+                <Text
+                  className="text-xs font-semibold"
+                  style={{
+                    color: set.isWarmup
+                      ? colors.text.muted
+                      : colors.brand.primary,
+                  }}
+                >
+                  {set.isWarmup
+                    ? "W"
+                    : `${supersetLetter ?? ""}${getWorkingSetIndex(index) + 1}`}
+                </Text>
+              </View>
+              {set.isWarmup && (
+                <Text className="text-xs font-semibold text-text-muted flex-1 ml-2">
+                  Warm-up
+                </Text>
+              )}
+              {previousSet && (
+                <Text className="text-xs text-text-muted flex-1 ml-2">
+                  Last:{" "}
+                  {formatLoggedSet(previousSet, showWeightInput, unitSystem)}
+                </Text>
+              )}
+              <View className="flex-row items-center">
+                {!set.isWarmup && (
+                  <TouchableOpacity
+                    className="p-1 mr-1"
+                    onPress={() => resetSetToTarget(index)}
+                  >
+                    <Ionicons
+                      name="refresh-outline"
+                      size={16}
+                      color={colors.brand.primary}
+                    />
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity onPress={() => removeSet(index)}>
+                  <Ionicons
+                    name="trash-outline"
+                    size={16}
+                    color={colors.neutral.medium[3]}
+                  />
+                </TouchableOpacity>
+              </View>
             </View>
-          </View>
 
-          {/* Weight Input */}
-          {showWeightInput && (
-            <View className="mb-3">
-              <Text className="text-xs mb-2 text-text-muted">Weight (lbs)</Text>
-              <View className="flex-row items-center justify-center gap-2">
+            {/* Weight Input */}
+            {showWeightInput && (
+              <View className="mb-3">
+                {renderWeightLabel(index)}
+                <View className="flex-row items-center justify-center gap-2">
+                  <TouchableOpacity
+                    className="w-8 h-8 rounded-full bg-neutral-light-2 items-center justify-center"
+                    onPress={() =>
+                      updateSet(
+                        index,
+                        "weight",
+                        steppedWeight(set.weight, -weightStep)
+                      )
+                    }
+                  >
+                    <Text className="text-xs font-semibold text-text-primary">
+                      -{weightStep}
+                    </Text>
+                  </TouchableOpacity>
+
+                  <View className="bg-background rounded-full px-4 py-3 border border-neutral-medium-1 min-w-[80px] items-center">
+                    <TextInput
+                      className="text-lg font-bold text-center text-text-primary"
+                      value={toDisplayWeight(set.weight).toString()}
+                      onChangeText={(text) =>
+                        updateSet(
+                          index,
+                          "weight",
+                          fromDisplayWeight(parseFloat(text) || 0)
+                        )
+                      }
+                      keyboardType="numeric"
+                      placeholder="0"
+                      placeholderTextColor={colors.text.muted}
+                    />
+                  </View>
+
+                  <TouchableOpacity
+                    className="w-8 h-8 rounded-full items-center justify-center"
+                    style={{ backgroundColor: colors.brand.primary }}
+                    onPress={() =>
+                      updateSet(
+                        index,
+                        "weight",
+                        steppedWeight(set.weight, weightStep)
+                      )
+                    }
+                  >
+                    <Text
+                      className="text-xs font-semibold"
+                      style={{ color: colors.brand.secondary }}
+                    >
+                      +{weightStep}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+
+            {/* Reps Input */}
+            <View>
+              <Text className="text-xs mb-2 text-text-muted">Reps</Text>
+              <View className="flex-row items-center justify-center gap-3">
                 <TouchableOpacity
                   className="w-8 h-8 rounded-full bg-neutral-light-2 items-center justify-center"
                   onPress={() =>
-                    updateSet(index, "weight", Math.max(0, set.weight - 5))
+                    updateSet(index, "reps", Math.max(0, set.reps - 1))
                   }
                 >
-                  <Text className="text-xs font-semibold text-text-primary">
-                    -5
-                  </Text>
+                  <Ionicons
+                    name="remove"
+                    size={18}
+                    color={colors.text.primary}
+                  />
                 </TouchableOpacity>
 
                 <View className="bg-background rounded-full px-4 py-3 border border-neutral-medium-1 min-w-[80px] items-center">
                   <TextInput
                     className="text-lg font-bold text-center text-text-primary"
-                    value={set.weight.toString()}
+                    value={set.reps.toString()}
                     onChangeText={(text) =>
-                      updateSet(index, "weight", parseFloat(text) || 0)
+                      updateSet(index, "reps", parseInt(text) || 0)
                     }
                     keyboardType="numeric"
                     placeholder="0"
@@ -396,56 +633,26 @@ export default function AdaptiveSetTracker({
                 <TouchableOpacity
                   className="w-8 h-8 rounded-full items-center justify-center"
                   style={{ backgroundColor: colors.brand.primary }}
-                  onPress={() => updateSet(index, "weight", set.weight + 5)}
+                  onPress={() => updateSet(index, "reps", set.reps + 1)}
                 >
-                  <Text
-                    className="text-xs font-semibold"
-                    style={{ color: colors.brand.secondary }}
-                  >
-                    +5
-                  </Text>
+                  <Ionicons
+                    name="add"
+                    size={18}
+                    color={colors.brand.secondary}
+                  />
                 </TouchableOpacity>
               </View>
             </View>
-          )}
-
-          {/* Reps Input */}
-          <View>
-            <Text className="text-xs mb-2 text-text-muted">Reps</Text>
-            <View className="flex-row items-center justify-center gap-3">
-              <TouchableOpacity
-                className="w-8 h-8 rounded-full bg-neutral-light-2 items-center justify-center"
-                onPress={() =>
-                  updateSet(index, "reps", Math.max(0, set.reps - 1))
-                }
-              >
-                <Ionicons name="remove" size={18} color={colors.text.primary} />
-              </TouchableOpacity>
 
-              <View className="bg-background rounded-full px-4 py-3 border border-neutral-medium-1 min-w-[80px] items-center">
-                <TextInput
-                  className="text-lg font-bold text-center text-text-primary"
-                  value={set.reps.toString()}
-                  onChangeText={(text) =>
-                    updateSet(index, "reps", parseInt(text) || 0)
-                  }
-                  keyboardType="numeric"
-                  placeholder="0"
-                  placeholderTextColor={colors.text.muted}
-                />
-              </View>
-
-              <TouchableOpacity
-                className="w-8 h-8 rounded-full items-center justify-center"
-                style={{ backgroundColor: colors.brand.primary }}
-                onPress={() => updateSet(index, "reps", set.reps + 1)}
-              >
-                <Ionicons name="add" size={18} color={colors.brand.secondary} />
-              </TouchableOpacity>
-            </View>
+            {!set.isWarmup && (
+              <EffortInput
+                value={set}
+                onChange={(effort) => updateSetEffort(index, effort)}
+              />
+            )}
           </View>
-        </View>
-      ))}
+        );
+      })}
 
       {/* Add Set Button */}
       <TouchableOpacity
@@ -497,14 +704,16 @@ export default function AdaptiveSetTracker({
           >
             <View className="flex-row items-center justify-between mb-3">
               <View
-                className="w-6 h-6 rounded-full items-center justify-center"
+                className={`h-6 rounded-full items-center justify-center ${
+                  supersetLetter ? "px-1.5" : "w-6"
+                }`}
                 style={{ backgroundColor: colors.brand.primary + "30" }}
               >
                 <Text
                   className="text-xs font-semibold"
                   style={{ color: colors.brand.primary }}
                 >
-                  {set.setNumber}
+                  {`${supersetLetter ?? ""}${set.setNumber}`}
                 </Text>
               </View>
               <TouchableOpacity onPress={() => removeDurationSet(index)}>
@@ -518,7 +727,7 @@ export default function AdaptiveSetTracker({
 
             {/* Weight Input */}
             <View className="mb-3">
-              <Text className="text-xs mb-2 text-text-muted">Weight (lbs)</Text>
+              {renderWeightLabel(index)}
               <View className="flex-row items-center justify-center gap-2">
                 <TouchableOpacity
                   className="w-8 h-8 rounded-full bg-neutral-light-2 items-center justify-center"
@@ -526,21 +735,25 @@ export default function AdaptiveSetTracker({
                     updateDurationSet(
                       index,
                       "weight",
-                      Math.max(0, set.weight - 5)
+                      steppedWeight(set.weight, -weightStep)
                     )
                   }
                 >
                   <Text className="text-xs font-semibold text-text-primary">
-                    -5
+                    -{weightStep}
                   </Text>
                 </TouchableOpacity>
 
                 <View className="bg-background rounded-full px-4 py-3 border border-neutral-medium-1 min-w-[80px] items-center">
                   <TextInput
                     className="text-lg font-bold text-center text-text-primary"
-                    value={set.weight.toString()}
+                    value={toDisplayWeight(set.weight).toString()}
                     onChangeText={(text) =>
-                      updateDurationSet(index, "weight", parseFloat(text) || 0)
+                      updateDurationSet(
+                        index,
+                        "weight",
+                        fromDisplayWeight(parseFloat(text) || 0)
+                      )
                     }
                     keyboardType="numeric"
                     placeholder="0"
@@ -552,14 +765,18 @@ export default function AdaptiveSetTracker({
                   className="w-8 h-8 rounded-full items-center justify-center"
                   style={{ backgroundColor: colors.brand.primary }}
                   onPress={() =>
-                    updateDurationSet(index, "weight", set.weight + 5)
+                    updateDurationSet(
+                      index,
+                      "weight",
+                      steppedWeight(set.weight, weightStep)
+                    )
                   }
                 >
                   <Text
                     className="text-xs font-semibold"
                     style={{ color: colors.brand.secondary }}
                   >
-                    +5
+                    +{weightStep}
                   </Text>
                 </TouchableOpacity>
               </View>
@@ -594,6 +811,11 @@ export default function AdaptiveSetTracker({
                 </Text>
               )}
             </View>
+
+            <EffortInput
+              value={set}
+              onChange={(effort) => updateDurationSetEffort(index, effort)}
+            />
           </View>
         ))}
 
@@ -669,15 +891,34 @@ export default function AdaptiveSetTracker({
     );
   };
 
+  const plateSets = isDurationInterface ? durationSets : sets;
+  const plateCalculator = isBarbell && (
+    <PlateCalculator
+      visible={plateSetIndex !== null}
+      onClose={() => setPlateSetIndex(null)}
+      targetWeight={
+        (plateSetIndex !== null && plateSets[plateSetIndex]?.weight) ||
+        exercise.weight ||
+        0
+      }
+      onSelectWeight={(weight) => {
+        if (plateSetIndex === null) return;
+        if (isDurationInterface) {
+          updateDurationSet(plateSetIndex, "weight", weight);
+        } else {
+          updateSet(plateSetIndex, "weight", weight);
+        }
+      }}
+    />
+  );
+
   // Return appropriate interface based on exercise type
-  switch (loggingType) {
-    case "duration_only":
-    case "sets_duration":
-      return renderDurationInterface();
-
-    case "sets_reps":
-    case "hybrid":
-    default:
-      return renderTraditionalSets();
-  }
+  return (
+    <>
+      {isDurationInterface
+        ? renderDurationInterface()
+        : renderTraditionalSets()}
+      {plateCalculator}
+    </>
+  );
 }
@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { colors } from "@/lib/theme";
+import { fetchTodaysPlanDay } from "@/lib/workouts";
+import { addExtraExercise } from "@/lib/extraExercises";
+import { toPlanExercise } from "@/lib/exerciseSwaps";
+import { useUnits } from "@/hooks/useUnits";
+import { isCircuitBlock } from "@/utils/circuitUtils";
+import {
+  PlanDayWithBlocks,
+  getBlockTypeDisplayName,
+} from "@/types/api/workout.types";
+import { ExerciseDetails } from "@/types/api/search.types";
+
+interface AddToWorkoutModalProps {
+  visible: boolean;
+  onClose: () => void;
+  exercise: ExerciseDetails | null;
+  // Starting weight in pounds, e.g. what the user usually lifts
+  defaultWeight?: number;
+  onAdded: () => void;
+}
+
+const DEFAULT_SETS = 3;
+const DEFAULT_REPS = 10;
+const DEFAULT_REST_SECONDS = 60;
+
+export default function AddToWorkoutModal({
+  visible,
+  onClose,
+  exercise,
+  defaultWeight = 0,
+  onAdded,
+}: AddToWorkoutModalProps) {
+  const { weightUnit, toDisplayWeight, fromDisplayWeight } = useUnits();
+  const [planDay, setPlanDay] = useState<PlanDayWithBlocks | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  // Null adds a new "Extra work" block at the end of the day
+  const [blockId, setBlockId] = useState<number | null>(null);
+  const [sets, setSets] = useState(String(DEFAULT_SETS));
+  const [reps, setReps] = useState(String(DEFAULT_REPS));
+  const [weight, setWeight] = useState("");
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setBlockId(null);
+    setSets(String(DEFAULT_SETS));
+    setReps(String(DEFAULT_REPS));
+    setWeight(defaultWeight ? String(toDisplayWeight(defaultWeight)) : "");
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    fetchTodaysPlanDay(false, controller.signal).then((today) => {
+      if (controller.signal.aborted) return;
+      setPlanDay(today);
+      setIsLoading(false);
+    });
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  // Circuits are logged by round, so extra work goes in straight-set blocks
+  const blocks = (planDay?.blocks ?? []).filter(
+    (block) => !isCircuitBlock(block.blockType)
+  );
+
+  const handleAdd = async () => {
+    if (!exercise || !planDay) return;
+
+    const setCount = parseInt(sets, 10);
+    const repCount = parseInt(reps, 10);
+    const displayWeight = parseFloat(weight) || 0;
+    if (!(setCount > 0) || !(repCount > 0) || displayWeight < 0) {
+      Alert.alert("Invalid Input", "Please enter at least one set and rep.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const added = await addExtraExercise(planDay.id, {
+        exercise: toPlanExercise(exercise),
+        workoutBlockId: blockId,
+        sets: setCount,
+        reps: repCount,
+        weight: fromDisplayWeight(displayWeight),
+        restTime: DEFAULT_REST_SECONDS,
+      });
+      if (!added) {
+        Alert.alert("Error", "Failed to add exercise. Please try again.");
+        return;
+      }
+      onAdded();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderBlockOption = (id: number | null, label: string) => {
+    const isSelected = blockId === id;
+    return (
+      <TouchableOpacity
+        key={id ?? "extra"}
+        className="flex-row items-center rounded-lg p-3 mb-2 border"
+        style={{
+          borderColor: isSelected
+            ? colors.brand.primary
+            : colors.neutral.medium[1],
+        }}
+        onPress={() => setBlockId(id)}
+      >
+        <Ionicons
+          name={isSelected ? "radio-button-on" : "radio-button-off"}
+          size={18}
+          color={isSelected ? colors.brand.primary : colors.text.muted}
+        />
+        <Text className="text-sm text-text-primary ml-2">{label}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderNumberInput = (
+    label: string,
+    value: string,
+    onChange: (text: string) => void,
+    decimal = false
+  ) => (
+    <View className="flex-1">
+      <Text className="text-xs text-text-muted mb-1">{label}</Text>
+      <TextInput
+        className="bg-white rounded-lg px-3 py-3 text-base text-text-primary border border-neutral-medium-1 text-center"
+        value={value}
+        onChangeText={onChange}
+        keyboardType={decimal ? "decimal-pad" : "number-pad"}
+        placeholder="0"
+        placeholderTextColor={colors.text.muted}
+      />
+    </View>
+  );
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <ActivityIndicator
+          size="small"
+          color={colors.brand.primary}
+          className="mt-6"
+        />
+      );
+    }
+
+    if (!planDay || planDay.isComplete) {
+      return (
+        <Text className="text-sm text-text-muted text-center mt-6">
+          {planDay
+            ? "Today's workout is already complete."
+            : "There's no workout planned for today."}
+        </Text>
+      );
+    }
+
+    return (
+      <>
+        <Text className="text-xs font-semibold text-text-muted mb-2">
+          ADD TO
+        </Text>
+        {renderBlockOption(null, "Extra work (new block at the end)")}
+        {blocks.map((block) =>
+          renderBlockOption(
+            block.id,
+            block.blockName || getBlockTypeDisplayName(block.blockType)
+          )
+        )}
+
+        <Text className="text-xs font-semibold text-text-muted mt-4 mb-2">
+          TARGET
+        </Text>
+        <View className="flex-row gap-3 mb-6">
+          {renderNumberInput("Sets", sets, setSets)}
+          {renderNumberInput("Reps", reps, setReps)}
+          {renderNumberInput(`Weight (${weightUnit})`, weight, setWeight, true)}
+        </View>
+
+        <TouchableOpacity
+          className="bg-primary rounded-2xl py-4 flex-row items-center justify-center mb-10"
+          disabled={isSaving}
+          onPress={handleAdd}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color={colors.text.secondary} />
+          ) : (
+            <>
+              <Ionicons name="add" size={20} color={colors.text.secondary} />
+              <Text className="text-secondary font-semibold ml-2">
+                Add to Today's Workout
+              </Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-background">
+        {/* Header */}
+        <View className="flex-row items-center justify-between px-5 py-4 border-b border-neutral-light-2">
+          <TouchableOpacity
+            onPress={onClose}
+            className="w-8 h-8 items-center justify-center"
+          >
+            <Ionicons name="close" size={20} color={colors.text.muted} />
+          </TouchableOpacity>
+          <Text className="text-base font-semibold text-text-primary">
+            Add to Workout
+          </Text>
+          <View className="w-8" />
+        </View>
+
+        <ScrollView
+          className="flex-1 px-5 py-5"
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text className="text-sm text-text-secondary mb-5">
+            Add {exercise?.name} to today's workout on this device. It's
+            tracked like the rest of your plan, and what you do is noted when
+            you complete the workout.
+          </Text>
+          {renderContent()}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
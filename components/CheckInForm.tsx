@@ -0,0 +1,143 @@
+import React from "react";
+import { View, Text, TouchableOpacity, TextInput } from "react-native";
+import { colors } from "@/lib/theme";
+import {
+  CHECK_IN_DIFFICULTIES,
+  CHECK_IN_MOODS,
+  CHECK_IN_RATINGS,
+  CheckIn,
+} from "@/lib/checkIn";
+
+interface CheckInFormProps {
+  value: CheckIn;
+  onChange: (checkIn: CheckIn) => void;
+  // Exercises are checked in without a mood, and their notes live on the
+  // exercise screen
+  showMood?: boolean;
+  showNotes?: boolean;
+}
+
+// Mood, 1-10 rating, difficulty and notes; tapping a selected option clears it
+export default function CheckInForm({
+  value,
+  onChange,
+  showMood = true,
+  showNotes = true,
+}: CheckInFormProps) {
+  const toggle = <K extends keyof CheckIn>(field: K, option: CheckIn[K]) =>
+    onChange({
+      ...value,
+      [field]: value[field] === option ? undefined : option,
+    });
+
+  return (
+    <View>
+      {showMood && (
+        <View className="mb-4">
+          <Text className="text-xs text-text-muted mb-2">Mood</Text>
+          <View className="flex-row justify-between">
+            {CHECK_IN_MOODS.map((mood) => {
+              const isSelected = value.mood === mood.value;
+              return (
+                <TouchableOpacity
+                  key={mood.value}
+                  className="items-center rounded-xl py-2 px-1 w-[19%] border"
+                  style={{
+                    borderColor: isSelected
+                      ? colors.brand.primary
+                      : colors.neutral.medium[1],
+                    backgroundColor: isSelected
+                      ? colors.brand.primary + "30"
+                      : "transparent",
+                  }}
+                  onPress={() => toggle("mood", mood.value)}
+                >
+                  <Text className="text-2xl">{mood.emoji}</Text>
+                  <Text className="text-[10px] text-text-muted mt-1">
+                    {mood.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+
+      <View className="mb-4">
+        <Text className="text-xs text-text-muted mb-2">Rating</Text>
+        <View className="flex-row flex-wrap justify-between">
+          {CHECK_IN_RATINGS.map((rating) => {
+            const isSelected = value.rating === rating;
+            return (
+              <TouchableOpacity
+                key={rating}
+                className="w-[18%] h-9 rounded-full items-center justify-center border mb-2"
+                style={{
+                  borderColor: isSelected
+                    ? colors.brand.primary
+                    : colors.neutral.medium[1],
+                  backgroundColor: isSelected
+                    ? colors.brand.primary
+                    : "transparent",
+                }}
+                onPress={() => toggle("rating", rating)}
+              >
+                <Text
+                  className="text-xs font-semibold"
+                  style={{
+                    color: isSelected
+                      ? colors.brand.secondary
+                      : colors.text.primary,
+                  }}
+                >
+                  {rating}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      <View className={showNotes ? "mb-4" : ""}>
+        <Text className="text-xs text-text-muted mb-2">Difficulty</Text>
+        <View className="flex-row bg-neutral-light-2 rounded-xl p-1">
+          {CHECK_IN_DIFFICULTIES.map((difficulty) => {
+            const isSelected = value.difficulty === difficulty.value;
+            return (
+              <TouchableOpacity
+                key={difficulty.value}
+                className={`flex-1 py-2 rounded-lg ${
+                  isSelected ? "bg-primary" : "bg-transparent"
+                }`}
+                onPress={() => toggle("difficulty", difficulty.value)}
+              >
+                <Text
+                  className={`text-xs font-medium text-center ${
+                    isSelected ? "text-text-primary" : "text-text-muted"
+                  }`}
+                >
+                  {difficulty.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      {showNotes && (
+        <View>
+          <Text className="text-xs text-text-muted mb-2">Notes</Text>
+          <TextInput
+            className="bg-background border border-neutral-light-2 rounded-xl p-3 text-text-primary text-sm"
+            placeholder="Anything worth remembering? (Optional)"
+            placeholderTextColor={colors.text.muted}
+            value={value.notes ?? ""}
+            onChangeText={(notes) => onChange({ ...value, notes })}
+            multiline
+            numberOfLines={3}
+          />
+        </View>
+      )}
+    </View>
+  );
+}
@@ -21,6 +21,7 @@ import {
 import { WorkoutBlockWithExercise } from "@/types/api/workout.types";
 import { getRoundCompleteButtonText } from "@/utils/circuitUtils";
 import CircuitTimer from "./CircuitTimer";
+import { useUnits } from "@/hooks/useUnits";
 
 // Type alias for circuit actions
 type CircuitActions = UseCircuitSessionReturn["actions"];
@@ -38,6 +39,13 @@ export default function CircuitTracker({
 }: CircuitTrackerProps & { circuitActions?: CircuitActions }) {
   const currentRoundData = sessionData.rounds[sessionData.currentRound - 1];
   const isCurrentRoundCompleted = currentRoundData?.isCompleted || false;
+  const {
+    weightUnit,
+    weightSteps: [weightStep],
+    toDisplayWeight,
+    fromDisplayWeight,
+    formatWeight,
+  } = useUnits();
 
   // Navigation state
   const [currentExerciseIndex, setCurrentExerciseIndex] = useState(0);
@@ -415,7 +423,7 @@ export default function CircuitTracker({
                         </Text>
                         <Text className="text-xs text-text-muted mt-1">
                           Target: {exercise.targetReps} reps ×{" "}
-                          {blockExercise.weight || 0} lbs
+                          {formatWeight(blockExercise.weight || 0)}
                         </Text>
                       </View>
                       <TouchableOpacity
@@ -439,7 +447,7 @@ export default function CircuitTracker({
                     {/* Weight Input */}
                     <View className="mb-5">
                       <Text className="text-xs mb-3 text-text-muted font-semibold">
-                        Weight
+                        Weight ({weightUnit})
                       </Text>
                       <View className="flex-row items-center justify-center gap-5">
                         <TouchableOpacity
@@ -447,23 +455,31 @@ export default function CircuitTracker({
                           onPress={() =>
                             updateExerciseWeight(
                               exercise.exerciseId,
-                              Math.max(0, (exercise.weight || 0) - 5)
+                              fromDisplayWeight(
+                                Math.max(
+                                  0,
+                                  toDisplayWeight(exercise.weight || 0) -
+                                    weightStep
+                                )
+                              )
                             )
                           }
                         >
                           <Text className="text-sm font-semibold text-text-primary">
-                            -5
+                            -{weightStep}
                           </Text>
                         </TouchableOpacity>
 
                         <View className="bg-background rounded-full px-4 py-3 border border-dashed border-neutral-medium-2 min-w-[80px] items-center">
                           <TextInput
                             className="text-lg font-bold text-center text-text-primary"
-                            value={(exercise.weight || 0).toString()}
+                            value={toDisplayWeight(
+                              exercise.weight || 0
+                            ).toString()}
                             onChangeText={(text) =>
                               updateExerciseWeight(
                                 exercise.exerciseId,
-                                parseFloat(text) || 0
+                                fromDisplayWeight(parseFloat(text) || 0)
                               )
                             }
                             keyboardType="numeric"
@@ -478,7 +494,10 @@ export default function CircuitTracker({
                           onPress={() =>
                             updateExerciseWeight(
                               exercise.exerciseId,
-                              (exercise.weight || 0) + 5
+                              fromDisplayWeight(
+                                toDisplayWeight(exercise.weight || 0) +
+                                  weightStep
+                              )
                             )
                           }
                         >
@@ -486,7 +505,7 @@ export default function CircuitTracker({
                             className="text-sm font-semibold"
                             style={{ color: colors.brand.secondary }}
                           >
-                            +5
+                            +{weightStep}
                           </Text>
                         </TouchableOpacity>
                       </View>
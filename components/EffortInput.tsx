@@ -0,0 +1,97 @@
+import React, { useState } from "react";
+import { View, Text, TouchableOpacity } from "react-native";
+import { colors } from "@/lib/theme";
+import { RPE_VALUES, RIR_VALUES, SetEffort } from "@/lib/effort";
+
+type EffortMode = "rpe" | "rir";
+
+interface EffortInputProps {
+  value: SetEffort;
+  onChange: (effort: { rpe?: number; rir?: number }) => void;
+}
+
+// Optional RPE or reps-in-reserve picker for a single set
+export default function EffortInput({ value, onChange }: EffortInputProps) {
+  const [mode, setMode] = useState<EffortMode>(
+    typeof value.rir === "number" ? "rir" : "rpe"
+  );
+  const selected = mode === "rpe" ? value.rpe : value.rir;
+  const options = mode === "rpe" ? RPE_VALUES : RIR_VALUES;
+
+  // Switching scale drops the other value so a set never carries both
+  const switchMode = (nextMode: EffortMode) => {
+    if (nextMode === mode) return;
+    setMode(nextMode);
+    if (typeof value.rpe === "number" || typeof value.rir === "number") {
+      onChange({ rpe: undefined, rir: undefined });
+    }
+  };
+
+  const select = (option: number) => {
+    // Tapping the selected value clears it
+    const next = selected === option ? undefined : option;
+    onChange(
+      mode === "rpe"
+        ? { rpe: next, rir: undefined }
+        : { rpe: undefined, rir: next }
+    );
+  };
+
+  return (
+    <View className="mt-3">
+      <View className="flex-row items-center justify-between mb-2">
+        <Text className="text-xs text-text-muted">Effort (optional)</Text>
+        <View className="flex-row bg-neutral-light-2 rounded-md p-0.5">
+          {(["rpe", "rir"] as const).map((option) => (
+            <TouchableOpacity
+              key={option}
+              className={`px-2 py-0.5 rounded ${
+                mode === option ? "bg-primary" : "bg-transparent"
+              }`}
+              onPress={() => switchMode(option)}
+            >
+              <Text
+                className={`text-xs font-medium ${
+                  mode === option ? "text-text-primary" : "text-text-muted"
+                }`}
+              >
+                {option.toUpperCase()}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+      <View className="flex-row justify-center gap-2">
+        {options.map((option) => {
+          const isSelected = selected === option;
+          return (
+            <TouchableOpacity
+              key={option}
+              className="w-9 h-9 rounded-full items-center justify-center border"
+              style={{
+                borderColor: isSelected
+                  ? colors.brand.primary
+                  : colors.neutral.medium[1],
+                backgroundColor: isSelected
+                  ? colors.brand.primary
+                  : "transparent",
+              }}
+              onPress={() => select(option)}
+            >
+              <Text
+                className="text-xs font-semibold"
+                style={{
+                  color: isSelected
+                    ? colors.brand.secondary
+                    : colors.text.primary,
+                }}
+              >
+                {option}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
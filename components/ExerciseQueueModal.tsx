@@ -0,0 +1,292 @@
+import React, { useState, useEffect, useRef } from "react";
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Animated,
+  PanResponder,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { colors } from "@/lib/theme";
+import { QueueUnit } from "@/lib/exerciseQueue";
+import {
+  WorkoutBlockWithExercises,
+  getBlockTypeDisplayName,
+} from "@/types/api/workout.types";
+
+interface ExerciseQueueModalProps {
+  visible: boolean;
+  onClose: () => void;
+  blocks: WorkoutBlockWithExercises[];
+  // Unit being worked on right now, if any
+  current: QueueUnit | null;
+  // Units still to do, in queue order
+  remaining: QueueUnit[];
+  onJump: (exerciseId: number) => void;
+  onReorder: (remaining: QueueUnit[]) => void;
+  onDefer: () => void;
+}
+
+// Rows have a fixed height so a drag distance maps straight to a position
+const ROW_HEIGHT = 68;
+const ROW_GAP = 8;
+const ROW_STRIDE = ROW_HEIGHT + ROW_GAP;
+
+interface DragHandlers {
+  start: (key: string) => void;
+  move: (dy: number) => void;
+  end: () => void;
+}
+
+function QueueRow({
+  unitKey,
+  title,
+  subtitle,
+  isDragging,
+  offset,
+  handlers,
+  onJump,
+}: {
+  unitKey: string;
+  title: string;
+  subtitle: string;
+  isDragging: boolean;
+  offset: Animated.Value;
+  handlers: React.MutableRefObject<DragHandlers>;
+  onJump: () => void;
+}) {
+  // Handlers are read through a ref so the responder never goes stale
+  const responder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => handlers.current.start(unitKey),
+      onPanResponderMove: (_, gesture) => handlers.current.move(gesture.dy),
+      onPanResponderRelease: () => handlers.current.end(),
+      onPanResponderTerminate: () => handlers.current.end(),
+    })
+  ).current;
+
+  return (
+    <Animated.View
+      className="flex-row items-center rounded-xl px-3 border bg-background"
+      style={{
+        height: ROW_HEIGHT,
+        marginBottom: ROW_GAP,
+        borderColor: isDragging
+          ? colors.brand.primary
+          : colors.neutral.medium[1],
+        zIndex: isDragging ? 1 : 0,
+        transform: [{ translateY: isDragging ? offset : 0 }],
+      }}
+    >
+      <View {...responder.panHandlers} className="pr-3 py-4">
+        <Ionicons name="reorder-three" size={22} color={colors.text.muted} />
+      </View>
+      <View className="flex-1">
+        <Text
+          className="text-sm font-semibold text-text-primary"
+          numberOfLines={1}
+        >
+          {title}
+        </Text>
+        <Text className="text-xs text-text-muted mt-1" numberOfLines={1}>
+          {subtitle}
+        </Text>
+      </View>
+      <TouchableOpacity
+        className="py-1 px-3 rounded-md border ml-2"
+        style={{ borderColor: colors.brand.primary }}
+        onPress={onJump}
+      >
+        <Text
+          className="text-xs font-semibold"
+          style={{ color: colors.brand.primary }}
+        >
+          Do now
+        </Text>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+}
+
+export default function ExerciseQueueModal({
+  visible,
+  onClose,
+  blocks,
+  current,
+  remaining,
+  onJump,
+  onReorder,
+  onDefer,
+}: ExerciseQueueModalProps) {
+  const [items, setItems] = useState<QueueUnit[]>(remaining);
+  const [draggingKey, setDraggingKey] = useState<string | null>(null);
+  const offset = useRef(new Animated.Value(0)).current;
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const dragRef = useRef({ startIndex: 0, index: 0 });
+
+  // Pick up queue changes made outside the sheet while it's not being dragged
+  useEffect(() => {
+    if (!draggingKey) setItems(remaining);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [remaining]);
+
+  const handlers = useRef<DragHandlers>({
+    start: () => {},
+    move: () => {},
+    end: () => {},
+  });
+  handlers.current = {
+    start: (key) => {
+      const index = itemsRef.current.findIndex((unit) => unit.key === key);
+      dragRef.current = { startIndex: index, index };
+      offset.setValue(0);
+      setDraggingKey(key);
+    },
+    move: (dy) => {
+      const { startIndex, index } = dragRef.current;
+      const target = Math.max(
+        0,
+        Math.min(
+          itemsRef.current.length - 1,
+          startIndex + Math.round(dy / ROW_STRIDE)
+        )
+      );
+      if (target !== index) {
+        const reordered = [...itemsRef.current];
+        const [moving] = reordered.splice(index, 1);
+        reordered.splice(target, 0, moving);
+        itemsRef.current = reordered;
+        dragRef.current.index = target;
+        setItems(reordered);
+      }
+      // Keep the row under the finger as it changes slots
+      offset.setValue(dy - (target - startIndex) * ROW_STRIDE);
+    },
+    end: () => {
+      offset.setValue(0);
+      setDraggingKey(null);
+      const { startIndex, index } = dragRef.current;
+      if (startIndex !== index) onReorder(itemsRef.current);
+    },
+  };
+
+  const describeUnit = (unit: QueueUnit) => {
+    const block = blocks.find((entry) =>
+      entry.exercises.some((exercise) =>
+        unit.exerciseIds.includes(exercise.id)
+      )
+    );
+    const blockName =
+      block?.blockName || getBlockTypeDisplayName(block?.blockType);
+    if (unit.isWholeBlock) {
+      return {
+        title: blockName,
+        subtitle: (block?.exercises ?? [])
+          .map((exercise) => exercise.exercise.name)
+          .join(", "),
+      };
+    }
+    const exercise = block?.exercises.find(
+      (entry) => entry.id === unit.exerciseIds[0]
+    );
+    return {
+      title: exercise?.exercise.name ?? "Exercise",
+      subtitle: blockName,
+    };
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-background">
+        {/* Header */}
+        <View className="flex-row items-center justify-between px-5 py-4 border-b border-neutral-light-2">
+          <TouchableOpacity
+            onPress={onClose}
+            className="w-8 h-8 items-center justify-center"
+          >
+            <Ionicons name="close" size={20} color={colors.text.muted} />
+          </TouchableOpacity>
+          <Text className="text-base font-semibold text-text-primary">
+            Exercise Order
+          </Text>
+          <View className="w-8" />
+        </View>
+
+        <ScrollView
+          className="flex-1 px-5 py-5"
+          scrollEnabled={draggingKey === null}
+        >
+          {current && (
+            <>
+              <Text className="text-xs font-semibold text-text-muted mb-2">
+                NOW
+              </Text>
+              <View className="flex-row items-center rounded-xl p-3 mb-5 bg-brand-light-1">
+                <View className="flex-1">
+                  <Text className="text-sm font-semibold text-text-primary">
+                    {describeUnit(current).title}
+                  </Text>
+                  <Text className="text-xs text-text-muted mt-1">
+                    {describeUnit(current).subtitle}
+                  </Text>
+                </View>
+                {items.length > 0 && (
+                  <TouchableOpacity
+                    className="py-1 px-3 rounded-md bg-background ml-2"
+                    onPress={onDefer}
+                  >
+                    <Text className="text-xs font-semibold text-text-primary">
+                      Do later
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </>
+          )}
+
+          <Text className="text-xs font-semibold text-text-muted mb-2">
+            UP NEXT
+          </Text>
+          {items.length > 0 ? (
+            <>
+              <Text className="text-xs text-text-muted mb-3">
+                Drag to change the order, or start any exercise now.
+              </Text>
+              <View className="mb-10">
+                {items.map((unit) => {
+                  const { title, subtitle } = describeUnit(unit);
+                  return (
+                    <QueueRow
+                      key={unit.key}
+                      unitKey={unit.key}
+                      title={title}
+                      subtitle={subtitle}
+                      isDragging={draggingKey === unit.key}
+                      offset={offset}
+                      handlers={handlers}
+                      onJump={() => onJump(unit.exerciseIds[0])}
+                    />
+                  );
+                })}
+              </View>
+            </>
+          ) : (
+            <Text className="text-sm text-text-muted">
+              This is the last exercise for today.
+            </Text>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
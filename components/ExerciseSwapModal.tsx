@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { colors } from "@/lib/theme";
+import {
+  ExerciseAlternative,
+  SubstituteCandidate,
+  fetchExerciseAlternatives,
+} from "@/lib/substitutions";
+import { useAppDataContext } from "@/contexts/AppDataContext";
+import { WorkoutBlockWithExercise } from "@/types/api/workout.types";
+import { formatEquipment } from "@/utils";
+import { TIMEOUTS } from "@/constants";
+
+interface ExerciseSwapModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // Plan day exercise being replaced
+  exercise: WorkoutBlockWithExercise | undefined;
+  // Exercises already in today's plan, which aren't offered again
+  excludeIds?: number[];
+  onSwap: (replacement: SubstituteCandidate) => Promise<void>;
+}
+
+export default function ExerciseSwapModal({
+  visible,
+  onClose,
+  exercise,
+  excludeIds = [],
+  onSwap,
+}: ExerciseSwapModalProps) {
+  const {
+    data: { profileData },
+  } = useAppDataContext();
+  const [query, setQuery] = useState("");
+  const [alternatives, setAlternatives] = useState<ExerciseAlternative[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [swappingId, setSwappingId] = useState<number | null>(null);
+
+  // Start from the suggestions each time it opens
+  useEffect(() => {
+    if (visible) setQuery("");
+  }, [visible]);
+
+  useEffect(() => {
+    if (!visible || !exercise) return;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(
+      async () => {
+        setIsLoading(true);
+        const results = await fetchExerciseAlternatives(
+          {
+            id: exercise.exerciseId,
+            muscleGroups: exercise.exercise.muscles_targeted ?? [],
+          },
+          profileData,
+          { query, excludeIds, signal: controller.signal }
+        );
+        if (controller.signal.aborted) return;
+        setAlternatives(results);
+        setIsLoading(false);
+      },
+      query ? TIMEOUTS.DEBOUNCE_DELAY : 0
+    );
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, exercise?.exerciseId, query, profileData]);
+
+  const selectAlternative = async (replacement: SubstituteCandidate) => {
+    setSwappingId(replacement.id);
+    try {
+      await onSwap(replacement);
+    } finally {
+      setSwappingId(null);
+    }
+  };
+
+  const renderAlternative = ({
+    exercise: option,
+    sharedMuscles,
+  }: ExerciseAlternative) => (
+    <TouchableOpacity
+      key={option.id}
+      className="rounded-lg p-3 mb-3 border border-neutral-medium-1"
+      disabled={swappingId !== null}
+      onPress={() => selectAlternative(option)}
+    >
+      <View className="flex-row items-center justify-between mb-1">
+        <Text className="text-sm font-semibold text-text-primary flex-1">
+          {option.name}
+        </Text>
+        {swappingId === option.id ? (
+          <ActivityIndicator size="small" color={colors.brand.primary} />
+        ) : (
+          <Ionicons
+            name="swap-horizontal"
+            size={16}
+            color={colors.brand.primary}
+          />
+        )}
+      </View>
+      {option.description ? (
+        <Text className="text-xs text-text-muted mb-2">
+          {option.description}
+        </Text>
+      ) : null}
+      <View className="flex-row flex-wrap gap-2">
+        {sharedMuscles.map((muscle) => (
+          <View
+            key={muscle}
+            className="px-2 py-0.5 rounded-full"
+            style={{ backgroundColor: colors.brand.primary + "30" }}
+          >
+            <Text className="text-xs text-text-primary">{muscle}</Text>
+          </View>
+        ))}
+        {option.equipment
+          .filter((item) => item && item !== "none")
+          .map((item) => (
+            <View
+              key={item}
+              className="px-2 py-0.5 rounded-full bg-neutral-light-2"
+            >
+              <Text className="text-xs text-text-muted">
+                {formatEquipment(item.trim())}
+              </Text>
+            </View>
+          ))}
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-background">
+        {/* Header */}
+        <View className="flex-row items-center justify-between px-5 py-4 border-b border-neutral-light-2">
+          <TouchableOpacity
+            onPress={onClose}
+            className="w-8 h-8 items-center justify-center"
+          >
+            <Ionicons name="close" size={20} color={colors.text.muted} />
+          </TouchableOpacity>
+          <Text className="text-base font-semibold text-text-primary">
+            Swap Exercise
+          </Text>
+          <View className="w-8" />
+        </View>
+
+        <ScrollView className="flex-1 px-5 py-5">
+          <Text className="text-sm text-text-secondary mb-4">
+            Replace {exercise?.exercise.name} for today. Your prescribed sets,
+            reps and weight carry over.
+          </Text>
+
+          <View className="flex-row items-center bg-white rounded-xl px-4 py-3 mb-5 border border-neutral-medium-1">
+            <Ionicons name="search" size={16} color={colors.text.muted} />
+            <TextInput
+              className="flex-1 ml-2 text-sm text-text-primary"
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Search exercises"
+              placeholderTextColor={colors.text.muted}
+              autoCorrect={false}
+            />
+            {query ? (
+              <TouchableOpacity onPress={() => setQuery("")}>
+                <Ionicons
+                  name="close-circle"
+                  size={16}
+                  color={colors.text.muted}
+                />
+              </TouchableOpacity>
+            ) : null}
+          </View>
+
+          <Text className="text-xs text-text-muted mb-3">
+            {query
+              ? "Matches that fit your equipment and limitations"
+              : "Works the same muscles with your equipment"}
+          </Text>
+
+          {isLoading ? (
+            <ActivityIndicator
+              size="small"
+              color={colors.brand.primary}
+              className="mt-6"
+            />
+          ) : alternatives.length > 0 ? (
+            <View className="mb-10">{alternatives.map(renderAlternative)}</View>
+          ) : (
+            <Text className="text-sm text-text-muted text-center mt-6">
+              {query
+                ? "No exercises match your search."
+                : "No alternatives found. Try searching by name."}
+            </Text>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,167 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import * as DocumentPicker from "expo-document-picker";
+import { Ionicons } from "@expo/vector-icons";
+import { colors } from "@/lib/theme";
+import { getPlanDayLog } from "@/lib/workouts";
+import {
+  HEART_RATE_ZONES,
+  HeartRateStats,
+  getPlanDayHeartRate,
+  importHeartRateFile,
+} from "@/lib/heartRate";
+import { PlanDayLog } from "@/types/api";
+import { formatDuration } from "@/utils";
+
+interface HeartRateCardProps {
+  planDayId: number;
+}
+
+/**
+ * A completed plan day's heart rate, with an import from a watch or chest
+ * strap export when there is none yet (or to replace it)
+ */
+export default function HeartRateCard({ planDayId }: HeartRateCardProps) {
+  const [log, setLog] = useState<PlanDayLog | null>(null);
+  const [stats, setStats] = useState<HeartRateStats | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const loadLog = useCallback(async () => {
+    const [planDayLog, imported] = await Promise.all([
+      getPlanDayLog(planDayId),
+      getPlanDayHeartRate(planDayId),
+    ]);
+    setLog(planDayLog);
+    setStats(imported);
+  }, [planDayId]);
+
+  useEffect(() => {
+    loadLog();
+  }, [loadLog]);
+
+  const handleImport = async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      // Watches export TCX and FIT under all sorts of MIME types
+      type: "*/*",
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || !result.assets?.[0]) return;
+
+    const [file] = result.assets;
+    setImporting(true);
+    const imported = await importHeartRateFile(planDayId, {
+      uri: file.uri,
+      name: file.name,
+    });
+    setImporting(false);
+
+    if (!imported.success) {
+      Alert.alert("Import Failed", imported.error);
+      return;
+    }
+    await loadLog();
+  };
+
+  // An import wins over anything the server recorded
+  const averageHeartRate = stats?.averageHeartRate ?? log?.averageHeartRate;
+  const maxHeartRate = stats?.maxHeartRate ?? log?.maxHeartRate;
+  const hasHeartRate = averageHeartRate != null;
+  const zones = stats?.heartRateZones ?? [];
+  const zoneTotal = zones.reduce((sum, seconds) => sum + seconds, 0);
+
+  return (
+    <View className="bg-card rounded-2xl p-4 border border-neutral-light-2">
+      <View className="flex-row items-center justify-between mb-3">
+        <View className="flex-row items-center">
+          <Ionicons name="heart-outline" size={16} color={colors.text.muted} />
+          <Text className="text-sm font-semibold text-text-primary ml-2">
+            Heart Rate
+          </Text>
+        </View>
+        <TouchableOpacity
+          className="flex-row items-center"
+          onPress={handleImport}
+          disabled={importing || !log}
+        >
+          {importing ? (
+            <ActivityIndicator size="small" color={colors.brand.primary} />
+          ) : (
+            <>
+              <Ionicons
+                name="cloud-upload-outline"
+                size={14}
+                color={log ? colors.brand.primary : colors.text.muted}
+              />
+              <Text
+                className="text-xs font-semibold ml-1"
+                style={{
+                  color: log ? colors.brand.primary : colors.text.muted,
+                }}
+              >
+                {hasHeartRate ? "Replace" : "Import"}
+              </Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {hasHeartRate ? (
+        <>
+          <View className="flex-row mb-3">
+            <View className="flex-1">
+              <Text className="text-xs text-text-muted">Average</Text>
+              <Text className="text-xl font-bold text-text-primary">
+                {averageHeartRate} bpm
+              </Text>
+            </View>
+            <View className="flex-1">
+              <Text className="text-xs text-text-muted">Max</Text>
+              <Text className="text-xl font-bold text-text-primary">
+                {maxHeartRate ?? "—"} bpm
+              </Text>
+            </View>
+          </View>
+
+          {zoneTotal > 0 &&
+            HEART_RATE_ZONES.map((zone, index) => {
+              const seconds = zones[index] ?? 0;
+              return (
+                <View key={zone.zone} className="flex-row items-center mb-1.5">
+                  <Text className="text-xs text-text-muted w-24">
+                    Z{zone.zone} {zone.label}
+                  </Text>
+                  <View className="flex-1 h-2 bg-neutral-light-2 rounded-full overflow-hidden mx-2">
+                    <View
+                      className="h-2 rounded-full"
+                      style={{
+                        width: `${(seconds / zoneTotal) * 100}%`,
+                        backgroundColor: colors.brand.primary,
+                        opacity: 0.4 + zone.zone * 0.12,
+                      }}
+                    />
+                  </View>
+                  <Text className="text-xs text-text-primary w-12 text-right">
+                    {seconds >= 60
+                      ? formatDuration(Math.round(seconds / 60))
+                      : `${seconds}s`}
+                  </Text>
+                </View>
+              );
+            })}
+        </>
+      ) : (
+        <Text className="text-xs text-text-muted">
+          {log
+            ? "Import a TCX, FIT or CSV export from your watch or chest strap to see your average, max and time in each zone."
+            : "Heart rate can be imported once the workout is complete."}
+        </Text>
+      )}
+    </View>
+  );
+}
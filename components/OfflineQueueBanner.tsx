@@ -0,0 +1,87 @@
+import React from "react";
+import { View, Text, TouchableOpacity, ActivityIndicator } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { colors } from "@/lib/theme";
+import { FailedMutation } from "@/lib/offlineQueue";
+
+interface OfflineQueueBannerProps {
+  pendingCount: number;
+  /** Synced updates the server turned down */
+  failed: FailedMutation[];
+  lastError: string | null;
+  isReplaying: boolean;
+  onRetry: () => void;
+  onDismissFailed: () => void;
+}
+
+export default function OfflineQueueBanner({
+  pendingCount,
+  failed,
+  lastError,
+  isReplaying,
+  onRetry,
+  onDismissFailed,
+}: OfflineQueueBannerProps) {
+  if (failed.length > 0 && pendingCount === 0) {
+    const latest = failed[failed.length - 1];
+    return (
+      <View className="bg-brand-light-1 rounded-2xl p-4 mb-6 flex-row items-center">
+        <Ionicons
+          name="alert-circle-outline"
+          size={20}
+          color={colors.text.primary}
+        />
+        <View className="flex-1 mx-3">
+          <Text className="text-sm font-semibold text-text-primary">
+            {failed.length === 1
+              ? "1 update couldn't be synced"
+              : `${failed.length} updates couldn't be synced`}
+          </Text>
+          <Text className="text-xs text-text-muted mt-1">
+            {`${latest.method} ${latest.endpoint}: ${latest.error}`}
+          </Text>
+        </View>
+        <TouchableOpacity
+          className="bg-primary rounded-xl py-2 px-3"
+          onPress={onDismissFailed}
+        >
+          <Text className="text-secondary text-xs font-semibold">Dismiss</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (pendingCount === 0) return null;
+
+  return (
+    <View className="bg-brand-light-1 rounded-2xl p-4 mb-6 flex-row items-center">
+      <Ionicons
+        name="cloud-offline-outline"
+        size={20}
+        color={colors.text.primary}
+      />
+      <View className="flex-1 mx-3">
+        <Text className="text-sm font-semibold text-text-primary">
+          {pendingCount === 1
+            ? "1 update waiting to sync"
+            : `${pendingCount} updates waiting to sync`}
+        </Text>
+        <Text className="text-xs text-text-muted mt-1">
+          {lastError
+            ? `Saved on this device. Last attempt: ${lastError}`
+            : "Saved on this device and will sync when you're back online."}
+        </Text>
+      </View>
+      {isReplaying ? (
+        <ActivityIndicator size="small" color={colors.text.primary} />
+      ) : (
+        <TouchableOpacity
+          className="bg-primary rounded-xl py-2 px-3"
+          onPress={onRetry}
+        >
+          <Text className="text-secondary text-xs font-semibold">Retry</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
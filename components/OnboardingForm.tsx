@@ -75,6 +75,7 @@ export default function OnboardingForm({
     age: 40,
     height: 170,
     weight: 150,
+    unitSystem: "imperial",
     gender: Gender.MALE,
     goals: [],
     limitations: [],
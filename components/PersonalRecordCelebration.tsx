@@ -0,0 +1,83 @@
+import React from "react";
+import { View, Text, Modal, TouchableOpacity } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { colors } from "@/lib/theme";
+import { useUnits } from "@/hooks/useUnits";
+import {
+  PersonalRecordEntry,
+  formatRecordValue,
+  getRecordLabel,
+} from "@/lib/personalRecords";
+
+interface PersonalRecordCelebrationProps {
+  // Records set since the celebration was last dismissed
+  records: PersonalRecordEntry[];
+  onDismiss: () => void;
+}
+
+export default function PersonalRecordCelebration({
+  records,
+  onDismiss,
+}: PersonalRecordCelebrationProps) {
+  const { formatWeight } = useUnits();
+
+  // A For Time block's time is kept for each of its exercises but is one record
+  const shown = records.filter(
+    (record, index) =>
+      record.type !== "fastestTime" ||
+      records.findIndex(
+        (other) =>
+          other.type === "fastestTime" && other.blockName === record.blockName
+      ) === index
+  );
+
+  return (
+    <Modal visible={records.length > 0} transparent animationType="fade">
+      <View className="flex-1 bg-black/50 justify-center items-center px-6">
+        <View className="bg-white rounded-2xl p-6 w-full max-w-sm shadow-xl">
+          <View className="items-center mb-4">
+            <Ionicons name="trophy" size={48} color={colors.brand.primary} />
+          </View>
+          <Text className="text-xl font-bold text-text-primary mb-4 text-center">
+            {shown.length > 1 ? "New Personal Records!" : "New Personal Record!"}
+          </Text>
+
+          {shown.map((record, index) => (
+            <View
+              key={`${record.planDayExerciseId}-${record.type}-${index}`}
+              className="rounded-xl p-3 mb-2 bg-brand-light-1"
+            >
+              <Text className="text-sm font-semibold text-text-primary">
+                {record.type === "fastestTime"
+                  ? getRecordLabel(record, formatWeight)
+                  : record.exerciseName}
+              </Text>
+              <Text className="text-xs text-text-muted mt-0.5">
+                {record.type === "fastestTime"
+                  ? ""
+                  : `${getRecordLabel(record, formatWeight)}: `}
+                {formatRecordValue(record, formatWeight)}
+                {record.previous !== null
+                  ? ` (was ${formatRecordValue(
+                      record,
+                      formatWeight,
+                      record.previous
+                    )})`
+                  : ""}
+              </Text>
+            </View>
+          ))}
+
+          <TouchableOpacity
+            className="bg-primary rounded-xl py-3 px-6 mt-4"
+            onPress={onDismiss}
+          >
+            <Text className="text-secondary font-semibold text-center">
+              Keep Going
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from "react";
+import { View, Text } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { colors } from "@/lib/theme";
+import { useUnits } from "@/hooks/useUnits";
+import {
+  PersonalRecordEntry,
+  fetchRecordTimeline,
+  formatRecordValue,
+  getRecordLabel,
+} from "@/lib/personalRecords";
+import { formatDateForDisplay } from "@/utils";
+
+interface PersonalRecordTimelineProps {
+  exerciseId: number;
+}
+
+/**
+ * Records set for an exercise on this device, newest first
+ */
+export default function PersonalRecordTimeline({
+  exerciseId,
+}: PersonalRecordTimelineProps) {
+  const { formatWeight } = useUnits();
+  const [records, setRecords] = useState<PersonalRecordEntry[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchRecordTimeline(exerciseId).then((entries) => {
+      if (!cancelled) setRecords(entries);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [exerciseId]);
+
+  return (
+    <View className="mt-5">
+      <Text className="text-lg font-semibold text-text-primary mb-4">
+        Record Timeline
+      </Text>
+      {records.length > 0 ? (
+        records.map((record, index) => (
+          <View
+            key={`${record.planDayExerciseId}-${record.type}-${
+              record.weight ?? 0
+            }-${index}`}
+            className="flex-row items-center py-3 border-b border-neutral-light-2"
+          >
+            <Ionicons
+              name={record.previous !== null ? "trophy" : "flag-outline"}
+              size={16}
+              color={colors.brand.primary}
+            />
+            <View className="flex-1 ml-3">
+              <Text className="text-sm font-semibold text-text-primary">
+                {getRecordLabel(record, formatWeight)}
+              </Text>
+              <Text className="text-xs text-text-muted mt-0.5">
+                {formatDateForDisplay(record.date, {
+                  month: "short",
+                  day: "numeric",
+                  year: "numeric",
+                })}
+                {record.previous !== null
+                  ? ` · was ${formatRecordValue(
+                      record,
+                      formatWeight,
+                      record.previous
+                    )}`
+                  : " · first time"}
+              </Text>
+            </View>
+            <Text className="text-sm font-bold text-text-primary">
+              {formatRecordValue(record, formatWeight)}
+            </Text>
+          </View>
+        ))
+      ) : (
+        <Text className="text-sm text-text-muted">
+          Records you set while logging this exercise will show up here.
+        </Text>
+      )}
+    </View>
+  );
+}
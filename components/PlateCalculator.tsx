@@ -0,0 +1,364 @@
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  View,
+  Text,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { colors } from "@/lib/theme";
+import {
+  PlateLoad,
+  calculatePlateLoading,
+  loadPlateInventory,
+  savePlateInventory,
+  DEFAULT_PLATE_INVENTORY,
+} from "@/lib/plates";
+import { convertWeight } from "@/lib/units";
+import { useUnits } from "@/hooks/useUnits";
+import { PlateInventory } from "@/types/api";
+
+interface PlateCalculatorProps {
+  visible: boolean;
+  onClose: () => void;
+  // Weight to load, in pounds
+  targetWeight: number;
+  // Called with a weight in pounds when the user picks a load
+  onSelectWeight?: (weight: number) => void;
+}
+
+const roundWeight = (weight: number) => Math.round(weight * 100) / 100;
+
+export default function PlateCalculator({
+  visible,
+  onClose,
+  targetWeight,
+  onSelectWeight,
+}: PlateCalculatorProps) {
+  const { unitSystem } = useUnits();
+
+  const [savedInventory, setSavedInventory] = useState<PlateInventory>(
+    DEFAULT_PLATE_INVENTORY[unitSystem]
+  );
+  const [inventory, setInventory] = useState<PlateInventory>(savedInventory);
+  const [targetText, setTargetText] = useState("");
+  const [isEditingInventory, setIsEditingInventory] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved plates and the set's weight each time it opens
+  useEffect(() => {
+    if (!visible) return;
+    let isCurrent = true;
+    setIsEditingInventory(false);
+    loadPlateInventory(unitSystem).then((saved) => {
+      if (!isCurrent) return;
+      setSavedInventory(saved);
+      setInventory(saved);
+      setTargetText(
+        roundWeight(convertWeight(targetWeight, "lbs", saved.unit)).toString()
+      );
+    });
+    return () => {
+      isCurrent = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  const target = parseFloat(targetText) || 0;
+  const calculation = useMemo(
+    () => calculatePlateLoading(target, inventory),
+    [target, inventory]
+  );
+  const isInventoryChanged =
+    JSON.stringify(inventory) !== JSON.stringify(savedInventory);
+
+  const updatePlateCount = (weight: number, change: number) => {
+    setInventory((prev) => ({
+      ...prev,
+      plates: prev.plates.map((plate) =>
+        plate.weight === weight
+          ? { ...plate, count: Math.max(0, plate.count + change) }
+          : plate
+      ),
+    }));
+  };
+
+  const updateBarWeight = (change: number) => {
+    setInventory((prev) => ({
+      ...prev,
+      barWeight: Math.max(0, prev.barWeight + change),
+    }));
+  };
+
+  // Plates are stamped in one unit, so switching starts from a fresh set
+  const switchInventoryUnit = (unit: PlateInventory["unit"]) => {
+    if (unit === inventory.unit) return;
+    setInventory(
+      DEFAULT_PLATE_INVENTORY[unit === "kg" ? "metric" : "imperial"]
+    );
+    setTargetText(
+      roundWeight(convertWeight(target, inventory.unit, unit)).toString()
+    );
+  };
+
+  const saveInventory = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await savePlateInventory(inventory);
+      if (!saved) {
+        throw new Error("Failed to save plate inventory");
+      }
+      setSavedInventory(inventory);
+      setIsEditingInventory(false);
+    } catch (error) {
+      console.error("Error saving plate inventory:", error);
+      Alert.alert("Error", "Failed to save your plates. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectLoad = (load: PlateLoad) => {
+    onSelectWeight?.(
+      roundWeight(convertWeight(load.total, inventory.unit, "lbs"))
+    );
+    onClose();
+  };
+
+  const renderLoad = (load: PlateLoad, label: string) => (
+    <View
+      key={label}
+      className="rounded-lg p-3 mb-3 border border-neutral-medium-1"
+    >
+      <View className="flex-row items-center justify-between mb-2">
+        <Text className="text-sm font-semibold text-text-primary">
+          {label}: {load.total} {inventory.unit}
+        </Text>
+        {onSelectWeight && (
+          <TouchableOpacity
+            className="py-1 px-3 rounded-md border"
+            style={{ borderColor: colors.brand.primary }}
+            onPress={() => selectLoad(load)}
+          >
+            <Text
+              className="text-xs font-semibold"
+              style={{ color: colors.brand.primary }}
+            >
+              Use
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text className="text-xs text-text-muted mb-2">Each side</Text>
+      {load.perSide.length > 0 ? (
+        <View className="flex-row flex-wrap gap-2">
+          {load.perSide.map((plate, index) => (
+            <View
+              key={index}
+              className="px-3 py-1 rounded-full"
+              style={{ backgroundColor: colors.brand.primary }}
+            >
+              <Text
+                className="text-xs font-semibold"
+                style={{ color: colors.brand.secondary }}
+              >
+                {plate}
+              </Text>
+            </View>
+          ))}
+        </View>
+      ) : (
+        <Text className="text-xs text-text-primary">Empty bar</Text>
+      )}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-background">
+        {/* Header */}
+        <View className="flex-row items-center justify-between px-5 py-4 border-b border-neutral-light-2">
+          <TouchableOpacity
+            onPress={onClose}
+            className="w-8 h-8 items-center justify-center"
+          >
+            <Ionicons name="close" size={20} color={colors.text.muted} />
+          </TouchableOpacity>
+          <Text className="text-base font-semibold text-text-primary">
+            Plate Calculator
+          </Text>
+          <View className="w-8" />
+        </View>
+
+        <ScrollView className="flex-1 px-5 py-5">
+          {/* Target */}
+          <Text className="text-xs mb-2 text-text-muted">
+            Target weight ({inventory.unit})
+          </Text>
+          <View className="bg-white rounded-xl px-4 py-3 mb-2 border border-neutral-medium-1">
+            <TextInput
+              className="text-lg font-bold text-text-primary"
+              value={targetText}
+              onChangeText={setTargetText}
+              keyboardType="numeric"
+              placeholder="0"
+              placeholderTextColor={colors.text.muted}
+            />
+          </View>
+          <Text className="text-xs text-text-muted mb-5">
+            {inventory.barWeight} {inventory.unit} bar
+          </Text>
+
+          {/* Loading */}
+          {calculation.exact ? (
+            renderLoad(calculation.exact, "Load")
+          ) : (
+            <>
+              <View className="flex-row items-center mb-3">
+                <Ionicons
+                  name="alert-circle-outline"
+                  size={16}
+                  color={colors.text.muted}
+                />
+                <Text className="text-xs text-text-muted ml-2 flex-1">
+                  {target} {inventory.unit} can't be loaded exactly with your
+                  plates. Closest options:
+                </Text>
+              </View>
+              {calculation.nearest.map((load) =>
+                renderLoad(load, load.total < target ? "Lighter" : "Heavier")
+              )}
+            </>
+          )}
+
+          {/* Inventory */}
+          <TouchableOpacity
+            className="flex-row items-center justify-between mt-4 mb-3"
+            onPress={() => setIsEditingInventory(!isEditingInventory)}
+          >
+            <Text className="text-base font-semibold text-text-primary">
+              My bar and plates
+            </Text>
+            <Ionicons
+              name={isEditingInventory ? "chevron-up" : "chevron-down"}
+              size={18}
+              color={colors.text.muted}
+            />
+          </TouchableOpacity>
+
+          {isEditingInventory && (
+            <View className="bg-white rounded-xl p-4 mb-10">
+              <View className="flex-row items-center justify-between mb-4">
+                <Text className="text-sm text-text-primary">Plates in</Text>
+                <View className="flex-row bg-neutral-light-2 rounded-lg p-1">
+                  {(["lbs", "kg"] as const).map((unit) => (
+                    <TouchableOpacity
+                      key={unit}
+                      className={`px-3 py-1 rounded-md ${
+                        inventory.unit === unit
+                          ? "bg-primary"
+                          : "bg-transparent"
+                      }`}
+                      onPress={() => switchInventoryUnit(unit)}
+                    >
+                      <Text
+                        className={`text-xs font-medium ${
+                          inventory.unit === unit
+                            ? "text-text-primary"
+                            : "text-text-muted"
+                        }`}
+                      >
+                        {unit}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              {[
+                {
+                  label: `Bar (${inventory.unit})`,
+                  value: inventory.barWeight,
+                  step: inventory.unit === "kg" ? 2.5 : 5,
+                  onChange: updateBarWeight,
+                },
+                ...inventory.plates.map((plate) => ({
+                  label: `${plate.weight} ${inventory.unit} plates`,
+                  value: plate.count,
+                  step: 2,
+                  onChange: (change: number) =>
+                    updatePlateCount(plate.weight, change),
+                })),
+              ].map((row) => (
+                <View
+                  key={row.label}
+                  className="flex-row items-center justify-between py-2 border-t border-neutral-light-2"
+                >
+                  <Text className="text-sm text-text-primary">{row.label}</Text>
+                  <View className="flex-row items-center">
+                    <TouchableOpacity
+                      className="w-8 h-8 rounded-full bg-neutral-light-2 items-center justify-center"
+                      onPress={() => row.onChange(-row.step)}
+                    >
+                      <Ionicons
+                        name="remove"
+                        size={14}
+                        color={colors.text.primary}
+                      />
+                    </TouchableOpacity>
+                    <Text className="text-sm font-semibold text-text-primary w-10 text-center">
+                      {row.value}
+                    </Text>
+                    <TouchableOpacity
+                      className="w-8 h-8 rounded-full items-center justify-center"
+                      style={{ backgroundColor: colors.brand.primary }}
+                      onPress={() => row.onChange(row.step)}
+                    >
+                      <Ionicons
+                        name="add"
+                        size={14}
+                        color={colors.brand.secondary}
+                      />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+
+              <TouchableOpacity
+                className={`py-3 rounded-xl items-center mt-4 ${
+                  isInventoryChanged ? "bg-primary" : "bg-neutral-light-2"
+                }`}
+                disabled={!isInventoryChanged || isSaving}
+                onPress={saveInventory}
+              >
+                {isSaving ? (
+                  <ActivityIndicator
+                    size="small"
+                    color={colors.brand.secondary}
+                  />
+                ) : (
+                  <Text
+                    className={`text-sm font-semibold ${
+                      isInventoryChanged ? "text-secondary" : "text-text-muted"
+                    }`}
+                  >
+                    Save to my equipment
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,94 @@
+import React from "react";
+import { View, Text, TouchableOpacity, ActivityIndicator } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { colors } from "@/lib/theme";
+import { ExerciseSession } from "@/lib/exerciseHistory";
+import { DEFAULT_UNIT_SYSTEM, toDisplayWeight } from "@/lib/units";
+import { useUnits } from "@/hooks/useUnits";
+import { UnitSystem } from "@/types/api";
+import { formatDateForDisplay } from "@/utils";
+
+interface PreviousPerformanceProps {
+  session: ExerciseSession | null;
+  isLoading: boolean;
+  showWeight?: boolean;
+  onCopy: (session: ExerciseSession) => void;
+}
+
+export const formatLoggedSet = (
+  set: { weight: number; reps: number },
+  showWeight = true,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
+): string =>
+  showWeight && set.weight > 0
+    ? `${toDisplayWeight(set.weight, unitSystem)} × ${set.reps}`
+    : `${set.reps} reps`;
+
+export default function PreviousPerformance({
+  session,
+  isLoading,
+  showWeight = true,
+  onCopy,
+}: PreviousPerformanceProps) {
+  const { unitSystem, weightUnit } = useUnits();
+
+  if (isLoading && !session) {
+    return (
+      <View className="flex-row items-center mb-4">
+        <ActivityIndicator size="small" color={colors.text.muted} />
+        <Text className="text-xs text-text-muted ml-2">
+          Loading last session...
+        </Text>
+      </View>
+    );
+  }
+
+  if (!session) return null;
+
+  return (
+    <View className="bg-brand-light-1 rounded-lg p-3 mb-4">
+      <View className="flex-row items-center justify-between mb-2">
+        <View className="flex-row items-center">
+          <Ionicons name="time-outline" size={14} color={colors.text.muted} />
+          <Text className="text-xs font-semibold text-text-primary ml-1">
+            Last time ·{" "}
+            {formatDateForDisplay(session.date, {
+              month: "short",
+              day: "numeric",
+            })}
+            {showWeight && ` (${weightUnit})`}
+          </Text>
+        </View>
+        <TouchableOpacity
+          className="flex-row items-center py-1 px-2 rounded-md"
+          style={{ backgroundColor: colors.brand.primary }}
+          onPress={() => onCopy(session)}
+        >
+          <Ionicons
+            name="copy-outline"
+            size={12}
+            color={colors.brand.secondary}
+          />
+          <Text
+            className="text-xs font-semibold ml-1"
+            style={{ color: colors.brand.secondary }}
+          >
+            Copy last session
+          </Text>
+        </TouchableOpacity>
+      </View>
+      <View className="flex-row flex-wrap gap-2">
+        {session.sets.map((set, index) => (
+          <Text key={index} className="text-xs text-text-muted">
+            {index + 1}: {formatLoggedSet(set, showWeight, unitSystem)}
+          </Text>
+        ))}
+      </View>
+      {session.source === "summary" && (
+        <Text className="text-xs text-text-muted mt-1">
+          Best set shown for each set
+        </Text>
+      )}
+    </View>
+  );
+}
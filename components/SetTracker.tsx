@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   View,
   Text,
@@ -8,6 +8,16 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { colors } from "@/lib/theme";
+import { ExerciseSession } from "@/lib/exerciseHistory";
+import { suggestNextWeight } from "@/lib/progression";
+import { useExerciseHistory } from "@/hooks/useExerciseHistory";
+import { useUnits } from "@/hooks/useUnits";
+import { getWorkingSets } from "@/lib/warmup";
+import PreviousPerformance, { formatLoggedSet } from "./PreviousPerformance";
+import WeightSuggestionCard from "./WeightSuggestionCard";
+import EffortInput from "./EffortInput";
+import PlateCalculator from "./PlateCalculator";
+import { isBarbellExercise } from "@/utils/exerciseHelpers";
 
 export interface ExerciseSet {
   roundNumber: number;
@@ -15,6 +25,11 @@ export interface ExerciseSet {
   weight: number;
   reps: number;
   restAfter?: number;
+  // Optional effort, logged as either RPE (6-10) or reps in reserve
+  rpe?: number;
+  rir?: number;
+  // Lighter ramp-up set, kept out of volume and PR calculations
+  isWarmup?: boolean;
 }
 
 interface SetTrackerProps {
@@ -25,6 +40,11 @@ interface SetTrackerProps {
   sets: ExerciseSet[];
   onSetsChange: (sets: ExerciseSet[]) => void;
   blockType?: string;
+  // Show what was logged for this exercise last time
+  exerciseId?: number;
+  planDayExerciseId?: number;
+  // Barbell equipment turns on the plate calculator
+  equipment?: string | string[];
 }
 
 export default function SetTracker({
@@ -35,8 +55,42 @@ export default function SetTracker({
   sets,
   onSetsChange,
   blockType = "traditional",
+  exerciseId,
+  planDayExerciseId,
+  equipment,
 }: SetTrackerProps) {
   const [localSets, setLocalSets] = useState<ExerciseSet[]>(sets);
+  // Set whose weight the plate calculator is open for
+  const [plateSetIndex, setPlateSetIndex] = useState<number | null>(null);
+  const isBarbell = isBarbellExercise(equipment);
+  const warmupSets = localSets.filter((set) => set.isWarmup);
+  const workingSets = getWorkingSets(localSets);
+  const {
+    sessions,
+    previous,
+    isLoading: isHistoryLoading,
+  } = useExerciseHistory(exerciseId, planDayExerciseId);
+  const {
+    unitSystem,
+    weightUnit,
+    weightSteps: [smallStep, largeStep],
+    toDisplayWeight,
+    fromDisplayWeight,
+    formatWeight,
+  } = useUnits();
+  const suggestion = useMemo(
+    () =>
+      suggestNextWeight(
+        sessions,
+        {
+          sets: targetSets * targetRounds,
+          reps: targetReps,
+          weight: targetWeight,
+        },
+        unitSystem
+      ),
+    [sessions, targetSets, targetRounds, targetReps, targetWeight, unitSystem]
+  );
 
   // Sync local state with props when exercise changes
   useEffect(() => {
@@ -54,6 +108,26 @@ export default function SetTracker({
     onSetsChange(updatedSets);
   };
 
+  // Weights are kept in pounds; steps are applied in the user's unit
+  const stepWeight = (index: number, step: number) => {
+    const displayWeight = toDisplayWeight(localSets[index].weight);
+    updateSet(
+      index,
+      "weight",
+      fromDisplayWeight(Math.max(0, displayWeight + step))
+    );
+  };
+
+  const updateSetEffort = (
+    index: number,
+    effort: Pick<ExerciseSet, "rpe" | "rir">
+  ) => {
+    const updatedSets = [...localSets];
+    updatedSets[index] = { ...updatedSets[index], ...effort };
+    setLocalSets(updatedSets);
+    onSetsChange(updatedSets);
+  };
+
   const addSet = (useTargetValues = false) => {
     const lastSet = localSets[localSets.length - 1];
 
@@ -80,11 +154,17 @@ export default function SetTracker({
       }
     }
 
-    // Use previous set values if available and not forcing target values
+    // Use previous working set values if available and not forcing target
+    // values; a warm-up is never the template for the next set
+    const lastWorkingSet = workingSets[workingSets.length - 1];
     const useWeight =
-      useTargetValues || !lastSet ? targetWeight || 0 : lastSet.weight;
+      useTargetValues || !lastWorkingSet
+        ? targetWeight || 0
+        : lastWorkingSet.weight;
     const useReps =
-      useTargetValues || !lastSet ? targetReps || 0 : lastSet.reps;
+      useTargetValues || !lastWorkingSet
+        ? targetReps || 0
+        : lastWorkingSet.reps;
 
     const newSet: ExerciseSet = {
       roundNumber: newRoundNumber,
@@ -123,6 +203,32 @@ export default function SetTracker({
     onSetsChange(updatedSets);
   };
 
+  // Replace the working sets with last session's weights and reps, keeping
+  // any warm-ups in front of them
+  const copyLastSession = (session: ExerciseSession) => {
+    const copiedSets: ExerciseSet[] = session.sets.map((set) => ({
+      roundNumber: set.roundNumber,
+      setNumber:
+        set.roundNumber === 1
+          ? warmupSets.length + set.setNumber
+          : set.setNumber,
+      weight: set.weight,
+      reps: set.reps,
+    }));
+    const updatedSets = [...warmupSets, ...copiedSets];
+    setLocalSets(updatedSets);
+    onSetsChange(updatedSets);
+  };
+
+  // Use the suggested working weight for every working set
+  const applySuggestedWeight = (weight: number) => {
+    const updatedSets = localSets.map((set) =>
+      set.isWarmup ? set : { ...set, weight }
+    );
+    setLocalSets(updatedSets);
+    onSetsChange(updatedSets);
+  };
+
   const getRoundLabel = (roundNumber: number) => {
     if (blockType === "amrap" || blockType === "emom") {
       return `Round ${roundNumber}`;
@@ -150,7 +256,11 @@ export default function SetTracker({
             Target: {targetSets} sets × {targetReps} reps
           </Text>
           <Text style={{ color: colors.text.muted }} className="text-xs">
-            {localSets.length} / {targetSets * targetRounds} sets logged
+            {workingSets.length} / {targetSets * targetRounds} sets logged
+            {warmupSets.length > 0 &&
+              ` · ${warmupSets.length} warm-up set${
+                warmupSets.length === 1 ? "" : "s"
+              }`}
           </Text>
         </View>
         <View className="flex-row items-center justify-between">
@@ -162,7 +272,7 @@ export default function SetTracker({
           <View className="flex-row gap-4">
             <Text style={{ color: colors.text.muted }} className="text-xs">
               Target Weight:{" "}
-              {targetWeight > 0 ? `${targetWeight} lbs` : "Not specified"}
+              {targetWeight > 0 ? formatWeight(targetWeight) : "Not specified"}
             </Text>
           </View>
         </View>
@@ -172,6 +282,16 @@ export default function SetTracker({
         />
       </View>
 
+      <PreviousPerformance
+        session={previous}
+        isLoading={isHistoryLoading}
+        onCopy={copyLastSession}
+      />
+      <WeightSuggestionCard
+        suggestion={suggestion}
+        onApply={applySuggestedWeight}
+      />
+
       {Object.entries(groupedSets).map(([roundNumber, roundSets]) => (
         <View key={roundNumber} className="mb-4">
           {targetRounds > 1 && (
@@ -189,35 +309,76 @@ export default function SetTracker({
                 s.roundNumber === set.roundNumber &&
                 s.setNumber === set.setNumber
             );
+            // Last session only recorded working sets, so line up on those
+            const workingIndex =
+              getWorkingSets(localSets.slice(0, globalIndex + 1)).length - 1;
+            const previousSet = set.isWarmup
+              ? undefined
+              : previous?.sets[workingIndex];
+            // Warm-ups sit at the start of the first round
+            const workingSetNumber =
+              set.roundNumber === 1
+                ? set.setNumber - warmupSets.length
+                : set.setNumber;
 
             return (
               <View
                 key={`${set.roundNumber}-${set.setNumber}`}
-                className="mb-4 p-3 rounded-lg border border-neutral-medium-1 bg-background"
+                className={`mb-4 p-3 rounded-lg border bg-background ${
+                  set.isWarmup
+                    ? "border-dashed border-neutral-medium-2"
+                    : "border-neutral-medium-1"
+                }`}
               >
                 <View className="flex-row items-center justify-between mb-3">
                   <View
                     className="w-6 h-6 rounded-full bg-opacity-20 items-center justify-center"
-                    style={{ backgroundColor: colors.brand.primary + "30" }}
+                    style={{
+                      backgroundColor: set.isWarmup
+                        ? colors.neutral.medium[1]
+                        : colors.brand.primary + "30",
+                    }}
                   >
                     <Text
-                      style={{ color: colors.brand.primary }}
+                      style={{
+                        color: set.isWarmup
+                          ? colors.text.muted
+                          : colors.brand.primary,
+                      }}
                       className="text-xs font-semibold"
                     >
-                      {set.setNumber}
+                      {set.isWarmup ? "W" : workingSetNumber}
                     </Text>
                   </View>
-                  <View className="flex-row items-center">
-                    <TouchableOpacity
-                      className="p-1 mr-1"
-                      onPress={() => resetSetToTarget(globalIndex)}
+                  {set.isWarmup && (
+                    <Text
+                      style={{ color: colors.text.muted }}
+                      className="text-xs font-semibold flex-1 ml-2"
                     >
-                      <Ionicons
-                        name="refresh-outline"
-                        size={16}
-                        color={colors.brand.primary}
-                      />
-                    </TouchableOpacity>
+                      Warm-up
+                    </Text>
+                  )}
+                  {previousSet && (
+                    <Text
+                      style={{ color: colors.text.muted }}
+                      className="text-xs flex-1 ml-2"
+                    >
+                      Last: {formatLoggedSet(previousSet, true, unitSystem)}
+                    </Text>
+                  )}
+                  <View className="flex-row items-center">
+                    {!set.isWarmup && (
+                      <TouchableOpacity
+                        className="p-1 mr-1"
+                        onPress={() => resetSetToTarget(globalIndex)}
+                      >
+                        <Ionicons
+                          name="refresh-outline"
+                          size={16}
+                          color={colors.brand.primary}
+                        />
+                      </TouchableOpacity>
+                    )}
                     <TouchableOpacity
                       className="p-1"
                       onPress={() => removeSet(globalIndex)}
@@ -233,45 +394,53 @@ export default function SetTracker({
 
                 {/* Weight Section */}
                 <View className="mb-3">
-                  <Text
-                    style={{ color: colors.text.muted }}
-                    className="text-xs mb-2"
-                  >
-                    Weight (lbs)
-                  </Text>
+                  <View className="flex-row items-center justify-between mb-2">
+                    <Text
+                      style={{ color: colors.text.muted }}
+                      className="text-xs"
+                    >
+                      Weight ({weightUnit})
+                    </Text>
+                    {isBarbell && (
+                      <TouchableOpacity
+                        className="flex-row items-center"
+                        onPress={() => setPlateSetIndex(globalIndex)}
+                      >
+                        <Ionicons
+                          name="barbell-outline"
+                          size={14}
+                          color={colors.brand.primary}
+                        />
+                        <Text
+                          style={{ color: colors.brand.primary }}
+                          className="text-xs font-semibold ml-1"
+                        >
+                          Plates
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
                   <View className="flex-row items-center justify-center gap-2">
                     <TouchableOpacity
                       className="w-8 h-8 rounded-full bg-neutral-light-2 items-center justify-center"
-                      onPress={() =>
-                        updateSet(
-                          globalIndex,
-                          "weight",
-                          Math.max(0, set.weight - 10)
-                        )
-                      }
+                      onPress={() => stepWeight(globalIndex, -largeStep)}
                     >
                       <Text
                         style={{ color: colors.text.primary }}
                         className="text-xs font-semibold"
                       >
-                        -10
+                        -{largeStep}
                       </Text>
                     </TouchableOpacity>
                     <TouchableOpacity
                       className="w-8 h-8 rounded-full bg-neutral-light-2 items-center justify-center"
-                      onPress={() =>
-                        updateSet(
-                          globalIndex,
-                          "weight",
-                          Math.max(0, set.weight - 5)
-                        )
-                      }
+                      onPress={() => stepWeight(globalIndex, -smallStep)}
                     >
                       <Text
                         style={{ color: colors.text.primary }}
                         className="text-xs font-semibold"
                       >
-                        -5
+                        -{smallStep}
                       </Text>
                     </TouchableOpacity>
 
@@ -279,12 +448,12 @@ export default function SetTracker({
                       <TextInput
                         className="text-lg font-bold text-center"
                         style={{ color: colors.text.primary }}
-                        value={set.weight.toString()}
+                        value={toDisplayWeight(set.weight).toString()}
                         onChangeText={(text) =>
                           updateSet(
                             globalIndex,
                             "weight",
-                            parseFloat(text) || 0
+                            fromDisplayWeight(parseFloat(text) || 0)
                           )
                         }
                         keyboardType="numeric"
@@ -296,29 +465,25 @@ export default function SetTracker({
                     <TouchableOpacity
                       className="w-8 h-8 rounded-full items-center justify-center"
                       style={{ backgroundColor: colors.brand.primary }}
-                      onPress={() =>
-                        updateSet(globalIndex, "weight", set.weight + 5)
-                      }
+                      onPress={() => stepWeight(globalIndex, smallStep)}
                     >
                       <Text
                         style={{ color: colors.background }}
                         className="text-xs font-semibold"
                       >
-                        +5
+                        +{smallStep}
                       </Text>
                     </TouchableOpacity>
                     <TouchableOpacity
                       className="w-8 h-8 rounded-full items-center justify-center"
                       style={{ backgroundColor: colors.brand.primary }}
-                      onPress={() =>
-                        updateSet(globalIndex, "weight", set.weight + 10)
-                      }
+                      onPress={() => stepWeight(globalIndex, largeStep)}
                     >
                       <Text
                         style={{ color: colors.background }}
                         className="text-xs font-semibold"
                       >
-                        +10
+                        +{largeStep}
                       </Text>
                     </TouchableOpacity>
                   </View>
@@ -379,6 +544,13 @@ export default function SetTracker({
                     </TouchableOpacity>
                   </View>
                 </View>
+
+                {!set.isWarmup && (
+                  <EffortInput
+                    value={set}
+                    onChange={(effort) => updateSetEffort(globalIndex, effort)}
+                  />
+                )}
               </View>
             );
           })}
@@ -407,6 +579,22 @@ export default function SetTracker({
           </Text>
         </TouchableOpacity>
       </View>
+
+      {isBarbell && (
+        <PlateCalculator
+          visible={plateSetIndex !== null}
+          onClose={() => setPlateSetIndex(null)}
+          targetWeight={
+            (plateSetIndex !== null && localSets[plateSetIndex]?.weight) ||
+            targetWeight
+          }
+          onSelectWeight={(weight) => {
+            if (plateSetIndex !== null) {
+              updateSet(plateSetIndex, "weight", weight);
+            }
+          }}
+        />
+      )}
     </ScrollView>
   );
 }
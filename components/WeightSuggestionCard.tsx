@@ -0,0 +1,49 @@
+import React from "react";
+import { View, Text, TouchableOpacity } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { colors } from "@/lib/theme";
+import { WeightSuggestion } from "@/lib/progression";
+import { useUnits } from "@/hooks/useUnits";
+
+interface WeightSuggestionCardProps {
+  suggestion: WeightSuggestion | null;
+  onApply: (weight: number) => void;
+}
+
+export default function WeightSuggestionCard({
+  suggestion,
+  onApply,
+}: WeightSuggestionCardProps) {
+  const { formatWeight } = useUnits();
+  if (!suggestion) return null;
+
+  return (
+    <View className="flex-row items-center rounded-lg p-3 mb-4 border border-neutral-medium-1">
+      <Ionicons
+        name="trending-up-outline"
+        size={16}
+        color={colors.brand.primary}
+      />
+      <View className="flex-1 mx-2">
+        <Text className="text-xs font-semibold text-text-primary">
+          Suggested: {formatWeight(suggestion.weight)}
+        </Text>
+        <Text className="text-xs text-text-muted mt-0.5">
+          {suggestion.reason}
+        </Text>
+      </View>
+      <TouchableOpacity
+        className="py-1 px-3 rounded-md border"
+        style={{ borderColor: colors.brand.primary }}
+        onPress={() => onApply(suggestion.weight)}
+      >
+        <Text
+          className="text-xs font-semibold"
+          style={{ color: colors.brand.primary }}
+        >
+          Use
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
@@ -8,6 +8,7 @@ import {
 } from "../types/api/workout.types";
 import { formatEquipment, formatWorkoutDuration } from "../utils";
 import { colors } from "../lib/theme";
+import { useUnits } from "../hooks/useUnits";
 
 interface WorkoutBlockProps {
   block: WorkoutBlockWithExercises;
@@ -27,6 +28,7 @@ export default function WorkoutBlock({
   variant = "calendar",
 }: WorkoutBlockProps) {
   const blockTypeName = getBlockTypeDisplayName(block.blockType);
+  const { formatWeight } = useUnits();
 
   const getBlockIcon = (blockType?: string) => {
     const icons: Record<string, string> = {
@@ -92,7 +94,7 @@ export default function WorkoutBlock({
 
     // Add weight if specified
     if (exercise.weight) {
-      details.push(`${exercise.weight} lbs`);
+      details.push(formatWeight(exercise.weight));
     }
 
     // Add rest time if specified
@@ -7,6 +7,7 @@ import {
   ExerciseSessionData,
 } from "../types/api/workout.types";
 import { colors } from "../lib/theme";
+import { useUnits } from "../hooks/useUnits";
 
 interface WorkoutBlockProgressProps {
   block: WorkoutBlockWithExercises;
@@ -26,6 +27,7 @@ export default function WorkoutBlockProgress({
   variant = "workout",
 }: WorkoutBlockProgressProps) {
   const blockTypeName = getBlockTypeDisplayName(block.blockType);
+  const { formatWeight } = useUnits();
 
   const getBlockIcon = (blockType?: string) => {
     const icons: Record<string, string> = {
@@ -224,7 +226,7 @@ export default function WorkoutBlockProgress({
                             •
                           </Text>
                           <Text className="text-text-muted text-xs">
-                            {exercise.weight} lbs
+                            {formatWeight(exercise.weight)}
                           </Text>
                         </>
                       )}
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { colors } from "@/lib/theme";
+import { CheckIn } from "@/lib/checkIn";
+import CheckInForm from "@/components/CheckInForm";
+
+interface WorkoutCheckInModalProps {
+  visible: boolean;
+  isSaving: boolean;
+  // Called with an empty check-in when the member skips it
+  onSubmit: (checkIn: CheckIn) => void;
+}
+
+// Asked once every exercise is done, before the plan day is completed
+export default function WorkoutCheckInModal({
+  visible,
+  isSaving,
+  onSubmit,
+}: WorkoutCheckInModalProps) {
+  const [checkIn, setCheckIn] = useState<CheckIn>({});
+
+  useEffect(() => {
+    if (visible) setCheckIn({});
+  }, [visible]);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade">
+      <View className="flex-1 bg-black/50 justify-center items-center px-6">
+        <View className="bg-white rounded-2xl w-full max-w-sm shadow-xl max-h-[85%]">
+          <ScrollView
+            contentContainerStyle={{ padding: 24 }}
+            keyboardShouldPersistTaps="handled"
+          >
+            <Text className="text-xl font-bold text-text-primary mb-1 text-center">
+              How did it go?
+            </Text>
+            <Text className="text-sm text-text-secondary text-center mb-5">
+              A quick check-in helps you spot trends over time.
+            </Text>
+
+            <CheckInForm value={checkIn} onChange={setCheckIn} />
+
+            <View className="flex-row gap-3 mt-6">
+              <TouchableOpacity
+                className="bg-neutral-light-2 rounded-xl py-3 px-6 flex-1"
+                onPress={() => onSubmit({})}
+                disabled={isSaving}
+              >
+                <Text className="text-text-primary font-semibold text-center">
+                  Skip
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                className={`bg-primary rounded-xl py-3 px-6 flex-1 ${
+                  isSaving ? "opacity-75" : ""
+                }`}
+                onPress={() => onSubmit(checkIn)}
+                disabled={isSaving}
+              >
+                {isSaving ? (
+                  <View className="flex-row items-center justify-center">
+                    <ActivityIndicator
+                      size="small"
+                      color={colors.text.secondary}
+                    />
+                    <Text className="text-secondary font-semibold ml-2">
+                      Saving...
+                    </Text>
+                  </View>
+                ) : (
+                  <Text className="text-secondary font-semibold text-center">
+                    Save
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -5,10 +5,15 @@ import { FormData } from "@/types/components";
 import { Gender } from "@/types/enums";
 import { colors } from "@/lib/theme";
 import {
-  convertCmToInches,
-  convertInchesToCm,
-  formatHeightFromInches,
-} from "../utils/formatters";
+  getUnitSystem,
+  getWeightUnit,
+  toDisplayHeight,
+  fromDisplayHeight,
+  toDisplayWeight,
+  fromDisplayWeight,
+} from "@/lib/units";
+import { UnitSystem } from "@/types/api";
+import { formatHeightFromInches } from "../utils/formatters";
 
 interface PersonalInfoStepProps {
   formData: FormData;
@@ -24,8 +29,46 @@ export default function PersonalInfoStep({
   errors,
   onFieldChange,
 }: PersonalInfoStepProps) {
+  // Height and weight stay in cm and lbs; the sliders work in the chosen unit
+  const unitSystem = getUnitSystem(formData);
+  const isMetric = unitSystem === "metric";
+  const weightUnit = getWeightUnit(unitSystem);
+
   return (
     <View className="flex-1 px-6 pb-6">
+      {/* Unit system */}
+      <View className="mb-8">
+        <Text className="text-lg font-semibold text-neutral-dark-1 mb-4">
+          Units
+        </Text>
+        <View className="flex-row justify-between">
+          {(
+            [
+              ["imperial", "lbs / ft"],
+              ["metric", "kg / cm"],
+            ] as [UnitSystem, string][]
+          ).map(([option, label]) => (
+            <TouchableOpacity
+              key={option}
+              className={`flex-1 p-3 rounded-xl items-center mx-1 ${
+                unitSystem === option ? "bg-primary" : "bg-white"
+              }`}
+              onPress={() => onFieldChange("unitSystem", option)}
+            >
+              <Text
+                className={`font-medium text-xs ${
+                  unitSystem === option
+                    ? "text-secondary"
+                    : "text-neutral-dark-1"
+                }`}
+              >
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
       {/* Age slider */}
       <View className="mb-8">
         <Text className="text-lg font-semibold text-neutral-dark-1">Age</Text>
@@ -123,17 +166,30 @@ export default function PersonalInfoStep({
         <Text className="text-lg font-semibold text-neutral-dark-1">
           Height
         </Text>
-        <CustomSlider
-          value={convertCmToInches(formData.height)}
-          minimumValue={48} // 4'0" in inches
-          maximumValue={96} // 8'0" in inches
-          step={1}
-          onValueChange={(value) =>
-            onFieldChange("height", convertInchesToCm(value))
-          }
-          formatValue={(value) => formatHeightFromInches(value)}
-          formatMinMax={(value) => formatHeightFromInches(value)}
-        />
+        {isMetric ? (
+          <CustomSlider
+            value={toDisplayHeight(formData.height, unitSystem)}
+            minimumValue={122} // 4'0" in cm
+            maximumValue={244} // 8'0" in cm
+            step={1}
+            onValueChange={(value) =>
+              onFieldChange("height", fromDisplayHeight(value, unitSystem))
+            }
+            unit=" cm"
+          />
+        ) : (
+          <CustomSlider
+            value={toDisplayHeight(formData.height, unitSystem)}
+            minimumValue={48} // 4'0" in inches
+            maximumValue={96} // 8'0" in inches
+            step={1}
+            onValueChange={(value) =>
+              onFieldChange("height", fromDisplayHeight(value, unitSystem))
+            }
+            formatValue={(value) => formatHeightFromInches(value)}
+            formatMinMax={(value) => formatHeightFromInches(value)}
+          />
+        )}
         {errors.height && (
           <Text className="text-red-500 text-xs mt-2">{errors.height}</Text>
         )}
@@ -145,12 +201,14 @@ export default function PersonalInfoStep({
           Weight
         </Text>
         <CustomSlider
-          value={formData.weight}
-          minimumValue={100}
-          maximumValue={300}
+          value={Math.round(toDisplayWeight(formData.weight, unitSystem))}
+          minimumValue={isMetric ? 45 : 100}
+          maximumValue={isMetric ? 136 : 300}
           step={1}
-          onValueChange={(value) => onFieldChange("weight", value)}
-          unit=" lbs"
+          onValueChange={(value) =>
+            onFieldChange("weight", fromDisplayWeight(value, unitSystem))
+          }
+          unit={` ${weightUnit}`}
         />
         {errors.weight && (
           <Text className="text-red-500 text-xs mt-2">{errors.weight}</Text>
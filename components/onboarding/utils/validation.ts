@@ -1,8 +1,23 @@
 import { FormData } from "@/types/components";
 import { OnboardingStep, WorkoutEnvironments } from "@/types/enums";
+import { UnitSystem } from "@/types/api";
+import {
+  DEFAULT_UNIT_SYSTEM,
+  formatHeightForUnit,
+  formatWeight,
+} from "@/lib/units";
 
-// Form validation helper
-export const validateField = (field: string, value: any): string => {
+// Allowed ranges in API units (centimetres and pounds)
+const HEIGHT_RANGE_CM = [120, 220] as const;
+const WEIGHT_RANGE_LBS = [90, 440] as const;
+
+// Form validation helper. Height and weight are checked in API units and
+// reported back in the user's units.
+export const validateField = (
+  field: string,
+  value: any,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
+): string => {
   if (value === null || value === undefined || value === "") {
     return `${field} is required`;
   }
@@ -11,12 +26,24 @@ export const validateField = (field: string, value: any): string => {
     return "Age must be between 16 and 100";
   }
 
-  if (field === "Height" && (value < 120 || value > 220)) {
-    return "Height must be between 120 and 220 cm";
+  if (
+    field === "Height" &&
+    (value < HEIGHT_RANGE_CM[0] || value > HEIGHT_RANGE_CM[1])
+  ) {
+    const [min, max] = HEIGHT_RANGE_CM.map((cm) =>
+      formatHeightForUnit(cm, unitSystem)
+    );
+    return `Height must be between ${min} and ${max}`;
   }
 
-  if (field === "Weight" && (value < 90 || value > 440)) {
-    return "Weight must be between 90 and 440 lbs";
+  if (
+    field === "Weight" &&
+    (value < WEIGHT_RANGE_LBS[0] || value > WEIGHT_RANGE_LBS[1])
+  ) {
+    const [min, max] = WEIGHT_RANGE_LBS.map((lbs) =>
+      formatWeight(lbs, unitSystem)
+    );
+    return `Weight must be between ${min} and ${max}`;
   }
 
   return "";
@@ -42,11 +69,19 @@ export const validateStep = (
         if (ageError) newErrors.age = ageError;
       }
       if (formData.height) {
-        const heightError = validateField("Height", formData.height);
+        const heightError = validateField(
+          "Height",
+          formData.height,
+          formData.unitSystem
+        );
         if (heightError) newErrors.height = heightError;
       }
       if (formData.weight) {
-        const weightError = validateField("Weight", formData.weight);
+        const weightError = validateField(
+          "Weight",
+          formData.weight,
+          formData.unitSystem
+        );
         if (weightError) newErrors.weight = weightError;
       }
       break;
@@ -2,6 +2,11 @@ import { Platform } from "react-native";
 
 // Get the API URL based on the environment
 const getApiUrl = (): string => {
+  // Point the app at any backend without editing this file
+  if (process.env.EXPO_PUBLIC_API_URL) {
+    return process.env.EXPO_PUBLIC_API_URL;
+  }
+
   // If running in a development environment
   if (__DEV__) {
     if (Platform.OS === "android") {
@@ -22,4 +27,7 @@ const getApiUrl = (): string => {
 // Export the API URL
 export const API_URL = getApiUrl();
 
+// Serve API requests from the in-process mock backend instead of the network
+export const USE_MOCK_API = process.env.EXPO_PUBLIC_USE_MOCK_API === "true";
+
 // Add other configuration variables as needed
@@ -2,4 +2,5 @@
 export * from './api';
 export * from './colors';
 export * from './timeouts';
-export * from './limits';
\ No newline at end of file
+export * from './limits';
+export * from './queryTags';
\ No newline at end of file
@@ -6,6 +6,21 @@ export const LIMITS = {
   
   // Event listener management
   MAX_LISTENERS: 50,
+
+  // API client
+  API_MAX_RETRIES: 2, // extra attempts for idempotent requests
+
+  // Offline mutation queue
+  MAX_QUEUED_MUTATIONS: 500,
+
+  // Query cache
+  MAX_QUERY_CACHE_ENTRIES: 100,
+
+  // Earlier sessions loaded per exercise (set tracker history)
+  MAX_EXERCISE_HISTORY_SESSIONS: 5,
+
+  // Personal record timeline entries kept on the device
+  MAX_PERSONAL_RECORDS: 500,
   
   // UI limits
   MAX_SEARCH_RESULTS: 100,
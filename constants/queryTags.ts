@@ -0,0 +1,9 @@
+// Tags used to invalidate related query cache entries together
+
+export const QUERY_TAGS = {
+  // Active plan, plan days and anything derived from logged workouts
+  WORKOUT: "workout",
+
+  // Dashboard metrics
+  DASHBOARD: "dashboard",
+} as const;
@@ -6,9 +6,22 @@ export const TIMEOUTS = {
   
   // Cache durations
   CACHE_DURATION_MS: 5 * 60 * 1000, // 5 minutes
+  PERSISTED_CACHE_MAX_AGE: 7 * 24 * 60 * 60 * 1000, // 7 days
   
   // API request timeouts
   API_TIMEOUT: 10000, // 10 seconds
+  API_RETRY_BASE_DELAY: 500, // doubled after each failed attempt
+
+  // Mock backend (EXPO_PUBLIC_USE_MOCK_API)
+  MOCK_API_LATENCY: 300, // simulated round trip
+  MOCK_JOB_DURATION: 8000, // time for a generation job to finish
+  MOCK_TOKEN_LIFETIME: 7 * 24 * 60 * 60 * 1000, // 7 days
+
+  // Offline mutation queue replay
+  OFFLINE_REPLAY_INTERVAL: 15000, // 15 seconds
+
+  // Crash-safe workout session snapshot
+  WORKOUT_SNAPSHOT_MAX_AGE: 12 * 60 * 60 * 1000, // 12 hours
   
   // UI interaction timeouts
   DEBOUNCE_DELAY: 300, // 300ms for search/input debouncing
@@ -15,7 +15,17 @@ import {
   getCurrentUser,
   saveUserToSecureStorage,
 } from "../lib/auth";
-import { invalidateActiveWorkoutCache } from "../lib/workouts";
+import { clearQueryCache, invalidateQueries } from "../lib/queryCache";
+import { QUERY_TAGS } from "@/constants";
+import { clearOfflineQueue, replayOfflineQueue } from "../lib/offlineQueue";
+import { clearWorkoutSnapshot } from "../lib/workoutSnapshot";
+import {
+  isTokenExpired,
+  notifySessionExpired,
+  resetSessionExpiry,
+  setPostLoginRedirect,
+  subscribeToSessionExpired,
+} from "../lib/session";
 import { OnboardingData, User } from "@lib/types";
 import * as SecureStore from "expo-secure-store";
 import { logger } from "../lib/logger";
@@ -32,6 +42,8 @@ interface AuthContextType {
   isPreloadingData: boolean;
   needsFullAppRefresh: boolean;
   currentRegenerationType: RegenerationType;
+  // The token expired; the user is kept so they can sign straight back in
+  sessionExpired: boolean;
   setIsSigningUp: (value: boolean) => void;
   setUserData: (user: User | null) => void;
   setIsGeneratingWorkout: (
@@ -50,6 +62,7 @@ interface AuthContextType {
   }) => Promise<{ success: boolean }>;
   login: (params: { email: string }) => Promise<{ success: boolean }>;
   completeOnboarding: (userData: OnboardingData) => Promise<boolean>;
+  completeReauthentication: (signedInUser: User | null) => Promise<void>;
   logout: () => Promise<void>;
 }
 
@@ -78,6 +91,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [needsFullAppRefresh, setNeedsFullAppRefresh] = useState(false);
   const [currentRegenerationType, setCurrentRegenerationType] =
     useState<RegenerationType>("initial");
+  const [sessionExpired, setSessionExpired] = useState(false);
+
+  // apiRequest reports expired tokens and 401s here. Cached data and queued
+  // workout logs are kept so the user can pick up where they left off.
+  useEffect(() => {
+    return subscribeToSessionExpired(() => {
+      setSessionExpired(true);
+      SecureStore.deleteItemAsync("token").catch((error) =>
+        logger.error("Failed to remove expired token", {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    });
+  }, []);
 
   // Initialize user from secure storage on app start
   useEffect(() => {
@@ -85,6 +112,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       try {
         const storedUser = await getCurrentUser();
         if (storedUser) {
+          // Don't wait for the first request to fail to ask for a new login
+          const token = await SecureStore.getItemAsync("token");
+          if (!token || isTokenExpired(token)) {
+            notifySessionExpired("stored token expired");
+          }
           setUser(storedUser);
         }
       } catch (error) {
@@ -207,6 +239,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Finish signing back in after the session expired
+  const completeReauthentication = async (signedInUser: User | null) => {
+    // A different account must not see or sync the previous user's data
+    if (signedInUser && user && signedInUser.id !== user.id) {
+      await clearQueryCache();
+      await clearOfflineQueue();
+      await clearWorkoutSnapshot();
+    }
+    resetSessionExpiry();
+    setSessionExpired(false);
+    logger.info("User re-authenticated after session expiry", {
+      userId: signedInUser?.id,
+    });
+    // Send workout logs captured while signed out
+    replayOfflineQueue();
+  };
+
   // Log the user out
   const logout = async (): Promise<void> => {
     setIsLoading(true);
@@ -214,8 +263,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       // Clear workout cache before clearing other data
       logger.info("User logout initiated", { userId: user?.id });
 
-      invalidateActiveWorkoutCache();
+      // Cached plans and metrics belong to this user, in memory and on disk
+      await clearQueryCache();
+      // Unsynced logs belong to this user and must not replay for the next one
+      await clearOfflineQueue();
+      // So is a half-finished workout saved for crash recovery
+      await clearWorkoutSnapshot();
       await clearAllData();
+      resetSessionExpiry();
+      setPostLoginRedirect(null);
+      setSessionExpired(false);
       setUser(null);
     } catch (error) {
       logger.error("Logout failed", {
@@ -251,7 +308,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   // Trigger workout ready flow (called when async job completes)
   const triggerWorkoutReady = () => {
     // Invalidate workout cache
-    invalidateActiveWorkoutCache();
+    invalidateQueries(QUERY_TAGS.WORKOUT);
     // Trigger preloading data which will show warming up screen
     setIsPreloadingData(true);
     // This will trigger the full app refresh flow in _layout.tsx
@@ -268,6 +325,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     isPreloadingData,
     needsFullAppRefresh,
     currentRegenerationType,
+    sessionExpired,
     setIsSigningUp,
     setUserData,
     setIsGeneratingWorkout: handleSetIsGeneratingWorkout,
@@ -278,6 +336,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     signup,
     login,
     completeOnboarding,
+    completeReauthentication,
     logout,
   };
 
@@ -8,9 +8,10 @@ import React, {
   ReactNode,
 } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { getJobStatus, invalidateActiveWorkoutCache } from "@lib/workouts";
+import { getJobStatus } from "@lib/workouts";
+import { invalidateQueries } from "@lib/queryCache";
 import { useAuth } from "@contexts/AuthContext";
-import { TIMEOUTS, LIMITS } from "@/constants";
+import { TIMEOUTS, LIMITS, QUERY_TAGS } from "@/constants";
 
 export interface BackgroundJob {
   id: number;
@@ -399,7 +400,7 @@ export function BackgroundJobProvider({
       addProcessedCompletion(jobId);
 
       // Invalidate cache to ensure fresh data
-      invalidateActiveWorkoutCache();
+      invalidateQueries(QUERY_TAGS.WORKOUT);
 
       // Trigger the proper workout ready flow (shows warming up screen)
       triggerWorkoutReady();
@@ -1,10 +1,25 @@
-import React, { createContext, useState, ReactNode, useContext } from "react";
+import React, {
+  createContext,
+  useState,
+  useEffect,
+  ReactNode,
+  useContext,
+} from "react";
+import {
+  WorkoutSnapshot,
+  loadWorkoutSnapshot,
+  clearWorkoutSnapshot,
+} from "@/lib/workoutSnapshot";
 
-// Simple context that only tracks if workout is in progress
+// Tracks if a workout is in progress, including one restored after a crash
 interface WorkoutContextType {
   isWorkoutInProgress: boolean;
   setWorkoutInProgress: (inProgress: boolean) => void;
   abandonWorkout: () => void;
+  // Session found in storage on launch, until the user resumes or discards it
+  resumableWorkout: WorkoutSnapshot | null;
+  acceptResumableWorkout: () => void;
+  discardResumableWorkout: () => void;
 }
 
 // Create the context
@@ -25,6 +40,20 @@ export function useWorkout() {
 // Provider component that wraps the app
 export function WorkoutProvider({ children }: { children: ReactNode }) {
   const [isWorkoutInProgress, setIsWorkoutInProgress] = useState(false);
+  const [resumableWorkout, setResumableWorkout] =
+    useState<WorkoutSnapshot | null>(null);
+
+  // Rehydrate from a session the OS killed mid-workout
+  useEffect(() => {
+    const restoreSnapshot = async () => {
+      const snapshot = await loadWorkoutSnapshot();
+      if (snapshot) {
+        setResumableWorkout(snapshot);
+        setIsWorkoutInProgress(true);
+      }
+    };
+    restoreSnapshot();
+  }, []);
 
   const setWorkoutInProgress = (inProgress: boolean) => {
     setIsWorkoutInProgress(inProgress);
@@ -32,6 +61,19 @@ export function WorkoutProvider({ children }: { children: ReactNode }) {
 
   const abandonWorkout = () => {
     setIsWorkoutInProgress(false);
+    setResumableWorkout(null);
+    clearWorkoutSnapshot();
+  };
+
+  // The workout screen has restored the snapshot and keeps saving it
+  const acceptResumableWorkout = () => {
+    setResumableWorkout(null);
+  };
+
+  const discardResumableWorkout = () => {
+    setResumableWorkout(null);
+    setIsWorkoutInProgress(false);
+    clearWorkoutSnapshot();
   };
 
   // Create the context value object
@@ -39,6 +81,9 @@ export function WorkoutProvider({ children }: { children: ReactNode }) {
     isWorkoutInProgress,
     setWorkoutInProgress,
     abandonWorkout,
+    resumableWorkout,
+    acceptResumableWorkout,
+    discardResumableWorkout,
   };
 
   // Provide the context to children components
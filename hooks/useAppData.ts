@@ -1,6 +1,12 @@
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, useRef, useEffect } from "react";
 import { apiRequest } from "@/lib/api";
+import { isCancelledError } from "@/lib/apiErrors";
+import { validateDashboardMetrics } from "@/lib/responseValidators";
+import { query, invalidateQueries } from "@/lib/queryCache";
+import { QUERY_TAGS } from "@/constants";
 import { fetchActiveWorkout, fetchWorkoutHistory } from "@lib/workouts";
+import { getCheckInMetrics } from "@lib/checkIn";
+import { fetchEffortMetrics } from "@lib/effortTrend";
 import { fetchUserProfile } from "@lib/profile";
 import {
   searchByDateAPI,
@@ -17,6 +23,8 @@ import {
   WeightAccuracyMetrics,
   GoalProgress,
   TotalVolumeMetrics,
+  EffortMetrics,
+  CheckInMetrics,
   WorkoutTypeMetrics,
   DailyWorkoutProgress,
   WorkoutWithDetails,
@@ -32,6 +40,8 @@ interface AppDataState {
   weightAccuracy: WeightAccuracyMetrics | null;
   goalProgress: GoalProgress[];
   totalVolumeMetrics: TotalVolumeMetrics[];
+  effortMetrics: EffortMetrics[];
+  checkInMetrics: CheckInMetrics[];
   workoutTypeMetrics: WorkoutTypeMetrics | null;
   dailyWorkoutProgress: DailyWorkoutProgress[];
   workoutData: WorkoutWithDetails | null;
@@ -73,9 +83,9 @@ interface RefreshFunctions {
   fetchWorkoutTypeByDate: (filters?: DashboardFilters) => Promise<any[]>;
 
   // Search functions
-  searchByDate: (date: string) => Promise<any>;
-  searchExercise: (exerciseId: number) => Promise<any>;
-  searchExercises: (query: string) => Promise<any>;
+  searchByDate: (date: string, signal?: AbortSignal) => Promise<any>;
+  searchExercise: (exerciseId: number, signal?: AbortSignal) => Promise<any>;
+  searchExercises: (query: string, signal?: AbortSignal) => Promise<any>;
 }
 
 export const useAppData = () => {
@@ -91,6 +101,8 @@ export const useAppData = () => {
     weightAccuracy: null,
     goalProgress: [],
     totalVolumeMetrics: [],
+    effortMetrics: [],
+    checkInMetrics: [],
     workoutTypeMetrics: null,
     dailyWorkoutProgress: [],
     workoutData: null,
@@ -110,16 +122,63 @@ export const useAppData = () => {
   // Error state
   const [error, setError] = useState<string | null>(null);
 
+  // In-flight requests by key, so a newer call (or unmount) cancels the stale one
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+  const pendingSearchesRef = useRef(0);
+
+  const beginRequest = useCallback((key: string): AbortSignal => {
+    controllersRef.current.get(key)?.abort();
+    const controller = new AbortController();
+    controllersRef.current.set(key, controller);
+    return controller.signal;
+  }, []);
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      controllers.clear();
+    };
+  }, []);
+
+  // Dashboard metrics go through the query cache, so returning to a screen
+  // reuses them until logging a workout invalidates them
+  const queryDashboard = useCallback(
+    <T>(path: string, signal: AbortSignal, onRevalidate: (data: T) => void) =>
+      query<T>(
+        `dashboard:${userId}:${path}`,
+        async (querySignal) => {
+          const response = await apiRequest<{ success: boolean; data: T }>(
+            `/dashboard/${userId}/${path}`,
+            { signal: querySignal }
+          );
+          if (!response.success) {
+            throw new Error(`Failed to fetch dashboard ${path}`);
+          }
+          return response.data;
+        },
+        {
+          tags: [QUERY_TAGS.DASHBOARD, QUERY_TAGS.WORKOUT],
+          signal,
+          onRevalidate,
+        }
+      ),
+    [userId]
+  );
+
   // Dashboard data refresh
   const refreshDashboard = useCallback(
     async (filters?: DashboardFilters) => {
       if (!userId) return;
 
+      const signal = beginRequest("dashboard");
+
       setLoading((prev) => ({ ...prev, dashboardLoading: true }));
       setError(null);
 
       try {
         const queryParams = new URLSearchParams();
+        const range: DashboardFilters = { ...filters };
 
         // Use last 30 days + next 7 days as default to include planned workouts
         if (!filters?.startDate && !filters?.endDate && !filters?.timeRange) {
@@ -129,11 +188,10 @@ export const useAppData = () => {
           const endDate = new Date(today);
           endDate.setDate(today.getDate() + 7); // Include upcoming planned workouts
 
-          queryParams.append(
-            "startDate",
-            startDate.toISOString().split("T")[0]
-          );
-          queryParams.append("endDate", endDate.toISOString().split("T")[0]);
+          range.startDate = startDate.toISOString().split("T")[0];
+          range.endDate = endDate.toISOString().split("T")[0];
+          queryParams.append("startDate", range.startDate);
+          queryParams.append("endDate", range.endDate);
         } else {
           if (filters?.startDate)
             queryParams.append("startDate", filters.startDate);
@@ -142,51 +200,66 @@ export const useAppData = () => {
             queryParams.append("timeRange", filters.timeRange);
         }
 
-        const response = await apiRequest<{
-          success: boolean;
-          data: DashboardMetrics;
-        }>(`/dashboard/${userId}/metrics?${queryParams.toString()}`);
-
-        if (response.success) {
+        const applyMetrics = (metrics: DashboardMetrics) =>
           setData((prev) => ({
             ...prev,
-            dashboardData: response.data,
-            weeklySummary: response.data.weeklySummary,
-            workoutConsistency: response.data.workoutConsistency,
-            weightMetrics: response.data.weightMetrics,
-            weightAccuracy: response.data.weightAccuracy,
-            goalProgress: response.data.goalProgress,
-            totalVolumeMetrics: response.data.totalVolumeMetrics,
-            workoutTypeMetrics: response.data.workoutTypeMetrics || {
-              distribution: [],
-              totalExercises: 0,
-              totalSets: 0,
-              dominantType: "",
-              hasData: false,
-            },
-            dailyWorkoutProgress: response.data.dailyWorkoutProgress,
+            dashboardData: metrics,
+            weeklySummary: metrics.weeklySummary,
+            workoutConsistency: metrics.workoutConsistency,
+            weightMetrics: metrics.weightMetrics,
+            weightAccuracy: metrics.weightAccuracy,
+            goalProgress: metrics.goalProgress,
+            totalVolumeMetrics: metrics.totalVolumeMetrics,
+            workoutTypeMetrics: metrics.workoutTypeMetrics,
+            dailyWorkoutProgress: metrics.dailyWorkoutProgress,
           }));
-        } else {
-          throw new Error("Failed to fetch dashboard metrics");
-        }
+
+        const metrics = validateDashboardMetrics(
+          await queryDashboard<DashboardMetrics>(
+            `metrics?${queryParams.toString()}`,
+            signal,
+            (data) => applyMetrics(validateDashboardMetrics(data))
+          )
+        );
+
+        if (signal.aborted) return;
+
+        applyMetrics(metrics);
+
+        // The server doesn't report effort or check-ins; effort is worked out
+        // from the logs and check-ins are kept on the device
+        const [effortMetrics, checkInMetrics] = await Promise.all([
+          fetchEffortMetrics(range, signal),
+          getCheckInMetrics(range),
+        ]);
+        if (signal.aborted) return;
+
+        setData((prev) => ({ ...prev, effortMetrics, checkInMetrics }));
       } catch (err) {
+        if (isCancelledError(err)) return;
         setError(err instanceof Error ? err.message : "An error occurred");
       } finally {
-        setLoading((prev) => ({ ...prev, dashboardLoading: false }));
+        // A cancelled call leaves the loading flag to the call that replaced it
+        if (!signal.aborted) {
+          setLoading((prev) => ({ ...prev, dashboardLoading: false }));
+        }
       }
     },
-    [userId]
+    [userId, beginRequest, queryDashboard]
   );
 
   // Workout data refresh
   const refreshWorkout = useCallback(async () => {
     if (!userId) return;
 
+    const signal = beginRequest("workout");
+
     setLoading((prev) => ({ ...prev, workoutLoading: true }));
     setError(null);
 
     try {
-      const response = await fetchActiveWorkout();
+      const response = await fetchActiveWorkout(false, signal);
+      if (signal.aborted) return;
       setData((prev) => ({
         ...prev,
         workoutData: response || null,
@@ -198,19 +271,24 @@ export const useAppData = () => {
         err instanceof Error ? err.message : "Failed to fetch workout data"
       );
     } finally {
-      setLoading((prev) => ({ ...prev, workoutLoading: false }));
+      if (!signal.aborted) {
+        setLoading((prev) => ({ ...prev, workoutLoading: false }));
+      }
     }
-  }, [userId]);
+  }, [userId, beginRequest]);
 
   // Profile data refresh
   const refreshProfile = useCallback(async () => {
     if (!userId) return;
 
+    const signal = beginRequest("profile");
+
     setLoading((prev) => ({ ...prev, profileLoading: true }));
     setError(null);
 
     try {
-      const profile = await fetchUserProfile();
+      const profile = await fetchUserProfile(signal);
+      if (signal.aborted) return;
       setData((prev) => ({
         ...prev,
         profileData: profile,
@@ -220,17 +298,22 @@ export const useAppData = () => {
         err instanceof Error ? err.message : "Failed to fetch profile data"
       );
     } finally {
-      setLoading((prev) => ({ ...prev, profileLoading: false }));
+      if (!signal.aborted) {
+        setLoading((prev) => ({ ...prev, profileLoading: false }));
+      }
     }
-  }, [userId]);
+  }, [userId, beginRequest]);
 
   // History data refresh
   const refreshHistory = useCallback(async () => {
     if (!userId) return;
 
+    const signal = beginRequest("history");
+
     setLoading((prev) => ({ ...prev, historyLoading: true }));
     try {
-      const history = await fetchWorkoutHistory(userId);
+      const history = await fetchWorkoutHistory(userId, signal);
+      if (signal.aborted) return;
       setData((prev) => ({
         ...prev,
         historyData: history || [],
@@ -243,35 +326,40 @@ export const useAppData = () => {
         historyData: [],
       }));
     } finally {
-      setLoading((prev) => ({ ...prev, historyLoading: false }));
+      if (!signal.aborted) {
+        setLoading((prev) => ({ ...prev, historyLoading: false }));
+      }
     }
-  }, [userId]);
+  }, [userId, beginRequest]);
 
   // Individual dashboard metric refresh functions
   const refreshWeeklySummary = useCallback(async () => {
     if (!userId) return;
 
+    const signal = beginRequest("weeklySummary");
+
     try {
-      const response = await apiRequest<{
-        success: boolean;
-        data: WeeklySummary;
-      }>(`/dashboard/${userId}/weekly-summary`);
+      const weeklySummary = await queryDashboard<WeeklySummary>(
+        `weekly-summary`,
+        signal,
+        (data) => setData((prev) => ({ ...prev, weeklySummary: data }))
+      );
 
-      if (response.success) {
-        setData((prev) => ({
-          ...prev,
-          weeklySummary: response.data,
-        }));
-      }
+      if (signal.aborted) return;
+
+      setData((prev) => ({ ...prev, weeklySummary }));
     } catch (err) {
+      if (isCancelledError(err)) return;
       console.error("Error fetching weekly summary:", err);
     }
-  }, [userId]);
+  }, [userId, beginRequest, queryDashboard]);
 
   const refreshWorkoutConsistency = useCallback(
     async (filters?: DashboardFilters) => {
       if (!userId) return;
 
+      const signal = beginRequest("workoutConsistency");
+
       try {
         const queryParams = new URLSearchParams();
         if (filters?.startDate)
@@ -280,30 +368,29 @@ export const useAppData = () => {
         if (filters?.timeRange)
           queryParams.append("timeRange", filters.timeRange);
 
-        const response = await apiRequest<{
-          success: boolean;
-          data: WorkoutConsistency[];
-        }>(
-          `/dashboard/${userId}/workout-consistency?${queryParams.toString()}`
+        const workoutConsistency = await queryDashboard<WorkoutConsistency[]>(
+          `workout-consistency?${queryParams.toString()}`,
+          signal,
+          (data) => setData((prev) => ({ ...prev, workoutConsistency: data }))
         );
 
-        if (response.success) {
-          setData((prev) => ({
-            ...prev,
-            workoutConsistency: response.data,
-          }));
-        }
+        if (signal.aborted) return;
+
+        setData((prev) => ({ ...prev, workoutConsistency }));
       } catch (err) {
+        if (isCancelledError(err)) return;
         console.error("Error fetching workout consistency:", err);
       }
     },
-    [userId]
+    [userId, beginRequest, queryDashboard]
   );
 
   const refreshWeightMetrics = useCallback(
     async (filters?: DashboardFilters) => {
       if (!userId) return;
 
+      const signal = beginRequest("weightMetrics");
+
       try {
         const queryParams = new URLSearchParams();
         if (filters?.startDate)
@@ -313,28 +400,29 @@ export const useAppData = () => {
           queryParams.append("timeRange", filters.timeRange);
         if (filters?.groupBy) queryParams.append("groupBy", filters.groupBy);
 
-        const response = await apiRequest<{
-          success: boolean;
-          data: WeightMetrics[];
-        }>(`/dashboard/${userId}/weight-metrics?${queryParams.toString()}`);
+        const weightMetrics = await queryDashboard<WeightMetrics[]>(
+          `weight-metrics?${queryParams.toString()}`,
+          signal,
+          (data) => setData((prev) => ({ ...prev, weightMetrics: data }))
+        );
 
-        if (response.success) {
-          setData((prev) => ({
-            ...prev,
-            weightMetrics: response.data,
-          }));
-        }
+        if (signal.aborted) return;
+
+        setData((prev) => ({ ...prev, weightMetrics }));
       } catch (err) {
+        if (isCancelledError(err)) return;
         console.error("Error fetching weight metrics:", err);
       }
     },
-    [userId]
+    [userId, beginRequest, queryDashboard]
   );
 
   const refreshWeightAccuracy = useCallback(
     async (filters?: DashboardFilters) => {
       if (!userId) return;
 
+      const signal = beginRequest("weightAccuracy");
+
       try {
         const queryParams = new URLSearchParams();
         if (filters?.startDate)
@@ -348,7 +436,11 @@ export const useAppData = () => {
         const response = await apiRequest<{
           success: boolean;
           data: WeightAccuracyMetrics;
-        }>(`/dashboard/${userId}/weight-accuracy?${queryParams.toString()}`);
+        }>(`/dashboard/${userId}/weight-accuracy?${queryParams.toString()}`, {
+          signal,
+        });
+
+        if (signal.aborted) return;
 
         if (response.success) {
           setData((prev) => ({
@@ -372,6 +464,7 @@ export const useAppData = () => {
           }));
         }
       } catch (err) {
+        if (isCancelledError(err)) return;
         console.error("Error fetching weight accuracy:", err);
         setData((prev) => ({
           ...prev,
@@ -389,13 +482,15 @@ export const useAppData = () => {
         }));
       }
     },
-    [userId]
+    [userId, beginRequest]
   );
 
   const refreshGoalProgress = useCallback(
     async (filters?: DashboardFilters) => {
       if (!userId) return;
 
+      const signal = beginRequest("goalProgress");
+
       try {
         const queryParams = new URLSearchParams();
         if (filters?.startDate)
@@ -404,28 +499,29 @@ export const useAppData = () => {
         if (filters?.timeRange)
           queryParams.append("timeRange", filters.timeRange);
 
-        const response = await apiRequest<{
-          success: boolean;
-          data: GoalProgress[];
-        }>(`/dashboard/${userId}/goal-progress?${queryParams.toString()}`);
+        const goalProgress = await queryDashboard<GoalProgress[]>(
+          `goal-progress?${queryParams.toString()}`,
+          signal,
+          (data) => setData((prev) => ({ ...prev, goalProgress: data }))
+        );
 
-        if (response.success) {
-          setData((prev) => ({
-            ...prev,
-            goalProgress: response.data,
-          }));
-        }
+        if (signal.aborted) return;
+
+        setData((prev) => ({ ...prev, goalProgress }));
       } catch (err) {
+        if (isCancelledError(err)) return;
         console.error("Error fetching goal progress:", err);
       }
     },
-    [userId]
+    [userId, beginRequest, queryDashboard]
   );
 
   const refreshTotalVolumeMetrics = useCallback(
     async (filters?: DashboardFilters) => {
       if (!userId) return;
 
+      const signal = beginRequest("totalVolume");
+
       try {
         const queryParams = new URLSearchParams();
         if (filters?.startDate)
@@ -434,28 +530,29 @@ export const useAppData = () => {
         if (filters?.timeRange)
           queryParams.append("timeRange", filters.timeRange);
 
-        const response = await apiRequest<{
-          success: boolean;
-          data: TotalVolumeMetrics[];
-        }>(`/dashboard/${userId}/total-volume?${queryParams.toString()}`);
+        const totalVolumeMetrics = await queryDashboard<TotalVolumeMetrics[]>(
+          `total-volume?${queryParams.toString()}`,
+          signal,
+          (data) => setData((prev) => ({ ...prev, totalVolumeMetrics: data }))
+        );
 
-        if (response.success) {
-          setData((prev) => ({
-            ...prev,
-            totalVolumeMetrics: response.data,
-          }));
-        }
+        if (signal.aborted) return;
+
+        setData((prev) => ({ ...prev, totalVolumeMetrics }));
       } catch (err) {
+        if (isCancelledError(err)) return;
         console.error("Error fetching total volume metrics:", err);
       }
     },
-    [userId]
+    [userId, beginRequest, queryDashboard]
   );
 
   const refreshWorkoutTypeMetrics = useCallback(
     async (filters?: DashboardFilters) => {
       if (!userId) return;
 
+      const signal = beginRequest("workoutTypeMetrics");
+
       try {
         const queryParams = new URLSearchParams();
         if (filters?.startDate)
@@ -470,9 +567,12 @@ export const useAppData = () => {
           success: boolean;
           data: WorkoutTypeMetrics;
         }>(
-          `/dashboard/${userId}/workout-type-metrics?${queryParams.toString()}`
+          `/dashboard/${userId}/workout-type-metrics?${queryParams.toString()}`,
+          { signal }
         );
 
+        if (signal.aborted) return;
+
         if (response.success) {
           setData((prev) => ({
             ...prev,
@@ -491,6 +591,7 @@ export const useAppData = () => {
           }));
         }
       } catch (err) {
+        if (isCancelledError(err)) return;
         console.error("Error fetching workout type metrics:", err);
         setData((prev) => ({
           ...prev,
@@ -504,13 +605,15 @@ export const useAppData = () => {
         }));
       }
     },
-    [userId]
+    [userId, beginRequest]
   );
 
   const refreshDailyWorkoutProgress = useCallback(
     async (filters?: DashboardFilters) => {
       if (!userId) return;
 
+      const signal = beginRequest("dailyWorkoutProgress");
+
       try {
         const queryParams = new URLSearchParams();
         if (filters?.startDate)
@@ -519,24 +622,23 @@ export const useAppData = () => {
         if (filters?.timeRange)
           queryParams.append("timeRange", filters.timeRange);
 
-        const response = await apiRequest<{
-          success: boolean;
-          data: DailyWorkoutProgress[];
-        }>(
-          `/dashboard/${userId}/daily-workout-progress?${queryParams.toString()}`
+        const dailyWorkoutProgress = await queryDashboard<
+          DailyWorkoutProgress[]
+        >(
+          `daily-workout-progress?${queryParams.toString()}`,
+          signal,
+          (data) => setData((prev) => ({ ...prev, dailyWorkoutProgress: data }))
         );
 
-        if (response.success) {
-          setData((prev) => ({
-            ...prev,
-            dailyWorkoutProgress: response.data,
-          }));
-        }
+        if (signal.aborted) return;
+
+        setData((prev) => ({ ...prev, dailyWorkoutProgress }));
       } catch (err) {
+        if (isCancelledError(err)) return;
         console.error("Error fetching daily workout progress:", err);
       }
     },
-    [userId]
+    [userId, beginRequest, queryDashboard]
   );
 
   // Chart data functions
@@ -544,6 +646,8 @@ export const useAppData = () => {
     async (filters?: DashboardFilters) => {
       if (!userId) return [];
 
+      const signal = beginRequest("weightProgression");
+
       try {
         const queryParams = new URLSearchParams();
         if (filters?.startDate)
@@ -560,24 +664,32 @@ export const useAppData = () => {
             maxWeight: number;
             label: string;
           }[];
-        }>(`/dashboard/${userId}/weight-progression?${queryParams.toString()}`);
+        }>(
+          `/dashboard/${userId}/weight-progression?${queryParams.toString()}`,
+          { signal }
+        );
+
+        if (signal.aborted) return [];
 
         if (response.success) {
           return response.data;
         }
         return [];
       } catch (err) {
+        if (isCancelledError(err)) return [];
         console.error("Error fetching weight progression:", err);
         return [];
       }
     },
-    [userId]
+    [userId, beginRequest]
   );
 
   const fetchWeightAccuracyByDate = useCallback(
     async (filters?: DashboardFilters) => {
       if (!userId) return [];
 
+      const signal = beginRequest("weightAccuracyByDate");
+
       try {
         const queryParams = new URLSearchParams();
         if (filters?.startDate)
@@ -597,25 +709,31 @@ export const useAppData = () => {
             label: string;
           }[];
         }>(
-          `/dashboard/${userId}/weight-accuracy-by-date?${queryParams.toString()}`
+          `/dashboard/${userId}/weight-accuracy-by-date?${queryParams.toString()}`,
+          { signal }
         );
 
+        if (signal.aborted) return [];
+
         if (response.success) {
           return response.data;
         }
         return [];
       } catch (err) {
+        if (isCancelledError(err)) return [];
         console.error("Error fetching weight accuracy by date:", err);
         return [];
       }
     },
-    [userId]
+    [userId, beginRequest]
   );
 
   const fetchWorkoutTypeByDate = useCallback(
     async (filters?: DashboardFilters) => {
       if (!userId) return [];
 
+      const signal = beginRequest("workoutTypeByDate");
+
       try {
         const queryParams = new URLSearchParams();
         if (filters?.startDate)
@@ -638,73 +756,98 @@ export const useAppData = () => {
             label: string;
           }[];
         }>(
-          `/dashboard/${userId}/workout-type-by-date?${queryParams.toString()}`
+          `/dashboard/${userId}/workout-type-by-date?${queryParams.toString()}`,
+          { signal }
         );
 
+        if (signal.aborted) return [];
+
         if (response.success) {
           return response.data;
         }
         return [];
       } catch (err) {
+        if (isCancelledError(err)) return [];
         console.error("Error fetching workout type by date:", err);
         return [];
       }
     },
-    [userId]
+    [userId, beginRequest]
   );
 
-  // Search functions
+  // Search functions share one loading flag, so count overlapping calls
+  const beginSearch = useCallback(() => {
+    pendingSearchesRef.current++;
+    setLoading((prev) => ({ ...prev, searchLoading: true }));
+  }, []);
+
+  const endSearch = useCallback(() => {
+    pendingSearchesRef.current = Math.max(0, pendingSearchesRef.current - 1);
+    if (pendingSearchesRef.current === 0) {
+      setLoading((prev) => ({ ...prev, searchLoading: false }));
+    }
+  }, []);
+
+  // Search results are returned to the caller; null means the search failed
+  // or the caller's signal cancelled it
   const searchByDate = useCallback(
-    async (date: string) => {
+    async (date: string, signal?: AbortSignal) => {
       if (!userId) return null;
 
-      setLoading((prev) => ({ ...prev, searchLoading: true }));
+      beginSearch();
       try {
-        const result = await searchByDateAPI(userId, date);
-        return result;
+        const result = await searchByDateAPI(userId, date, signal);
+        return signal?.aborted ? null : result;
       } catch (err) {
         console.error("Error searching by date:", err);
         return null;
       } finally {
-        setLoading((prev) => ({ ...prev, searchLoading: false }));
+        endSearch();
       }
     },
-    [userId]
+    [userId, beginSearch, endSearch]
   );
 
   const searchExercise = useCallback(
-    async (exerciseId: number) => {
+    async (exerciseId: number, signal?: AbortSignal) => {
       if (!userId) return null;
 
-      setLoading((prev) => ({ ...prev, searchLoading: true }));
+      beginSearch();
       try {
-        const result = await searchExerciseAPI(userId, exerciseId);
+        const result = await searchExerciseAPI(userId, exerciseId, signal);
         return result;
       } catch (err) {
-        console.error("Error searching exercise:", err);
+        if (!isCancelledError(err)) {
+          console.error("Error searching exercise:", err);
+        }
         return null;
       } finally {
-        setLoading((prev) => ({ ...prev, searchLoading: false }));
+        endSearch();
       }
     },
-    [userId]
+    [userId, beginSearch, endSearch]
   );
 
-  const searchExercises = useCallback(async (query: string) => {
-    setLoading((prev) => ({ ...prev, searchLoading: true }));
-    try {
-      const result = await searchExercisesAPI(query);
-      return result;
-    } catch (err) {
-      console.error("Error searching exercises:", err);
-      return null;
-    } finally {
-      setLoading((prev) => ({ ...prev, searchLoading: false }));
-    }
-  }, []);
+  const searchExercises = useCallback(
+    async (query: string, signal?: AbortSignal) => {
+      beginSearch();
+      try {
+        const result = await searchExercisesAPI(query, signal);
+        return signal?.aborted ? null : result;
+      } catch (err) {
+        console.error("Error searching exercises:", err);
+        return null;
+      } finally {
+        endSearch();
+      }
+    },
+    [beginSearch, endSearch]
+  );
 
   // Reset all data to initial state
   const reset = useCallback(() => {
+    controllersRef.current.forEach((controller) => controller.abort());
+    controllersRef.current.clear();
     setData({
       dashboardData: null,
       weeklySummary: null,
@@ -713,6 +856,8 @@ export const useAppData = () => {
       weightAccuracy: null,
       goalProgress: [],
       totalVolumeMetrics: [],
+      effortMetrics: [],
+      checkInMetrics: [],
       workoutTypeMetrics: null,
       dailyWorkoutProgress: [],
       workoutData: null,
@@ -732,6 +877,9 @@ export const useAppData = () => {
   // Refresh all data
   const refreshAll = useCallback(
     async (filters?: DashboardFilters) => {
+      // An explicit full refresh should never be answered from the cache
+      invalidateQueries(QUERY_TAGS.DASHBOARD, QUERY_TAGS.WORKOUT);
+
       try {
         await Promise.all([
           refreshDashboard(filters),
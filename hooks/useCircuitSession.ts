@@ -12,13 +12,21 @@ import {
   WorkoutBlockWithExercises,
   WorkoutBlockWithExercise,
 } from "@/types/api/workout.types";
-import { calculateCircuitScore } from "@/utils/circuitUtils";
+import {
+  calculateCircuitScore,
+  getCircuitTargetRounds,
+} from "@/utils/circuitUtils";
 import { logger } from "@/lib/logger";
 
 export function useCircuitSession(
   config: CircuitSessionConfig
 ): UseCircuitSessionReturn {
-  const { block, autoStartTimer = false, allowPartialRounds = true } = config;
+  const {
+    block,
+    autoStartTimer = false,
+    allowPartialRounds = true,
+    roundsCompleted = 0,
+  } = config;
 
   const [sessionData, setSessionData] = useState<CircuitSessionData>(() =>
     initializeSession(block)
@@ -37,26 +45,38 @@ export function useCircuitSession(
       totalPausedTime: 0,
     };
 
-    // Create first round
-    const firstRound = createRound(1, block.exercises);
-
-    // Calculate target rounds based on block type
-    const getTargetRounds = () => {
-      if (block.blockType === "emom" && block.timeCapMinutes) {
-        return block.timeCapMinutes;
-      } else if (block.blockType === "tabata") {
-        return 8; // Tabata always has 8 intervals
+    // Rounds already logged count as done; the session picks up after them
+    const targetRounds = getCircuitTargetRounds(block);
+    const rounds: CircuitRound[] = Array.from(
+      { length: roundsCompleted },
+      (_, index) => {
+        const round = createRound(index + 1, block.exercises);
+        return {
+          ...round,
+          exercises: round.exercises.map((exercise) => ({
+            ...exercise,
+            completed: true,
+          })),
+          isCompleted: true,
+        };
       }
-      return block.rounds;
-    };
+    );
+    // AMRAPs go on for as many rounds as there's time for
+    const hasRoundsLeft =
+      block.blockType === "amrap" ||
+      !targetRounds ||
+      roundsCompleted < targetRounds;
+    if (rounds.length === 0 || hasRoundsLeft) {
+      rounds.push(createRound(roundsCompleted + 1, block.exercises));
+    }
 
     return {
       blockId: block.id,
       blockType: block.blockType || "circuit",
       blockName: block.blockName,
-      rounds: [firstRound],
-      currentRound: 1,
-      targetRounds: getTargetRounds(),
+      rounds,
+      currentRound: rounds.length,
+      targetRounds,
       timeCapMinutes: block.timeCapMinutes,
       timer: initialTimer,
       isCompleted: false,
@@ -66,10 +86,11 @@ export function useCircuitSession(
 
   // Re-initialize the session whenever the active block changes
   // This ensures circuit exercises render when switching from a dummy block to a real block
+  // It also picks up rounds restored after the block was first shown
   useEffect(() => {
     setSessionData(initializeSession(block));
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [block.id]);
+  }, [block.id, roundsCompleted]);
 
   // Create a new round with all exercises
   function createRound(
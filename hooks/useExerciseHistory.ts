@@ -0,0 +1,38 @@
+import { useState, useEffect } from "react";
+import { ExerciseSession, fetchExerciseSessions } from "@/lib/exerciseHistory";
+
+/**
+ * Loads earlier sessions of the exercise being logged. Switching exercise
+ * cancels the previous load so a slow response can't show the wrong history.
+ */
+export const useExerciseHistory = (
+  exerciseId?: number,
+  planDayExerciseId?: number
+) => {
+  const [sessions, setSessions] = useState<ExerciseSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setSessions([]);
+    if (!exerciseId) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    fetchExerciseSessions(exerciseId, {
+      excludePlanDayExerciseId: planDayExerciseId,
+      signal: controller.signal,
+    }).then((result) => {
+      if (controller.signal.aborted) return;
+      setSessions(result);
+      setIsLoading(false);
+    });
+
+    return () => controller.abort();
+  }, [exerciseId, planDayExerciseId]);
+
+  return {
+    sessions,
+    previous: sessions[0] ?? null,
+    isLoading,
+  };
+};
@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { AppState, AppStateStatus } from "react-native";
+import {
+  OfflineQueueStatus,
+  dismissFailedMutations,
+  getOfflineQueueStatus,
+  initializeOfflineQueue,
+  replayOfflineQueue,
+  subscribeToOfflineQueue,
+} from "@/lib/offlineQueue";
+import { invalidateQueries } from "@/lib/queryCache";
+import { TIMEOUTS, QUERY_TAGS } from "@/constants";
+
+/**
+ * Exposes the offline mutation queue status and keeps replaying it while
+ * there are pending mutations: on mount, on an interval and whenever the app
+ * returns to the foreground.
+ */
+export const useOfflineQueue = () => {
+  const [status, setStatus] = useState<OfflineQueueStatus>(
+    getOfflineQueueStatus()
+  );
+  const appStateRef = useRef(AppState.currentState);
+
+  const replay = useCallback(async () => {
+    const replayed = await replayOfflineQueue();
+    if (replayed > 0) {
+      // Synced logs change completion state, so cached plan data is stale
+      invalidateQueries(QUERY_TAGS.WORKOUT);
+    }
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToOfflineQueue(setStatus);
+    initializeOfflineQueue().then(replay);
+    return unsubscribe;
+  }, [replay]);
+
+  const hasPending = status.pendingCount > 0;
+
+  // Retry periodically while anything is waiting to sync
+  useEffect(() => {
+    if (!hasPending) return;
+
+    const interval = setInterval(replay, TIMEOUTS.OFFLINE_REPLAY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasPending, replay]);
+
+  // Retry as soon as the app comes back to the foreground
+  useEffect(() => {
+    const handleAppStateChange = (nextAppState: AppStateStatus) => {
+      if (
+        appStateRef.current.match(/inactive|background/) &&
+        nextAppState === "active" &&
+        hasPending
+      ) {
+        replay();
+      }
+      appStateRef.current = nextAppState;
+    };
+
+    const subscription = AppState.addEventListener(
+      "change",
+      handleAppStateChange
+    );
+    return () => subscription?.remove();
+  }, [hasPending, replay]);
+
+  return {
+    ...status,
+    replay,
+    dismissFailed: dismissFailedMutations,
+  };
+};
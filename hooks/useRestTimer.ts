@@ -0,0 +1,62 @@
+import { useState, useEffect, useRef } from "react";
+import {
+  RestTimerState,
+  REST_ADJUST_SECONDS,
+  adjustRestTimer,
+  cancelRestTimer,
+  getRestTimerState,
+  initializeRestTimer,
+  isRestAutoStartEnabled,
+  pauseRestTimer,
+  restoreRestTimer,
+  resumeRestTimer,
+  setRestAutoStart,
+  startRestTimer,
+  subscribeToRestComplete,
+  subscribeToRestTimer,
+} from "@/lib/restTimer";
+
+/**
+ * Follows the shared rest timer, ticking once a second while rest runs.
+ * `onComplete` is called with the rest length when it runs out with the app
+ * open.
+ */
+export const useRestTimer = (onComplete?: (duration: number) => void) => {
+  const [state, setState] = useState<RestTimerState>(getRestTimerState());
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  useEffect(() => {
+    const unsubscribe = subscribeToRestTimer(setState);
+    initializeRestTimer();
+    // Rest may have moved on between the first render and subscribing
+    setState(getRestTimerState());
+    return unsubscribe;
+  }, []);
+
+  useEffect(
+    () =>
+      subscribeToRestComplete((duration) => onCompleteRef.current?.(duration)),
+    []
+  );
+
+  const togglePause = () => {
+    if (state.isPaused) {
+      resumeRestTimer();
+    } else {
+      pauseRestTimer();
+    }
+  };
+
+  return {
+    ...state,
+    start: startRestTimer,
+    togglePause,
+    addTime: () => adjustRestTimer(REST_ADJUST_SECONDS),
+    removeTime: () => adjustRestTimer(-REST_ADJUST_SECONDS),
+    cancel: cancelRestTimer,
+    restore: restoreRestTimer,
+    isAutoStartEnabled: isRestAutoStartEnabled,
+    setAutoStart: setRestAutoStart,
+  };
+};
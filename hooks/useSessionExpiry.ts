@@ -0,0 +1,43 @@
+import { useEffect, useRef } from "react";
+import { usePathname, useRouter } from "expo-router";
+import { useAuth } from "@/contexts/AuthContext";
+import { setPostLoginRedirect } from "@/lib/session";
+
+const AUTH_PATHS = ["/login", "/verify", "/onboarding"];
+
+/**
+ * Sends the user to the login screen (email prefilled) when their session
+ * expires. The current screen is pushed under it rather than replaced, so an
+ * in-progress workout stays mounted, and verify returns to it afterwards.
+ */
+export const useSessionExpiry = () => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { sessionExpired, user } = useAuth();
+  const pathnameRef = useRef(pathname);
+  const hasRedirectedRef = useRef(false);
+
+  useEffect(() => {
+    pathnameRef.current = pathname;
+  }, [pathname]);
+
+  useEffect(() => {
+    if (!sessionExpired) {
+      hasRedirectedRef.current = false;
+      return;
+    }
+    if (hasRedirectedRef.current) return;
+
+    const currentPath = pathnameRef.current;
+    // Already signing in; nothing to resume
+    if (AUTH_PATHS.includes(currentPath)) return;
+
+    hasRedirectedRef.current = true;
+    setPostLoginRedirect(currentPath);
+    router.push(
+      `/(auth)/login?email=${encodeURIComponent(
+        user?.email ?? ""
+      )}&reason=session-expired`
+    );
+  }, [sessionExpired, user?.email, router]);
+};
@@ -0,0 +1,45 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  getSavedUnitSystem,
+  initializeUnitSystem,
+  subscribeToUnitSystem,
+  getWeightUnit,
+  getHeightUnit,
+  toDisplayWeight,
+  fromDisplayWeight,
+  formatWeight,
+  formatHeightForUnit,
+  getWeightSteps,
+} from "@/lib/units";
+
+/**
+ * The unit preference kept on this device with converters bound to it. Values
+ * passed in and returned are in API units (pounds, centimetres) unless the
+ * name says "display".
+ */
+export const useUnits = () => {
+  const [unitSystem, setUnitSystem] = useState(getSavedUnitSystem());
+
+  useEffect(() => {
+    const unsubscribe = subscribeToUnitSystem(setUnitSystem);
+    initializeUnitSystem();
+    // The preference may have loaded between the first render and subscribing
+    setUnitSystem(getSavedUnitSystem());
+    return unsubscribe;
+  }, []);
+
+  return useMemo(
+    () => ({
+      unitSystem,
+      weightUnit: getWeightUnit(unitSystem),
+      heightUnit: getHeightUnit(unitSystem),
+      weightSteps: getWeightSteps(unitSystem),
+      toDisplayWeight: (lbs: number) => toDisplayWeight(lbs, unitSystem),
+      fromDisplayWeight: (value: number) =>
+        fromDisplayWeight(value, unitSystem),
+      formatWeight: (lbs: number) => formatWeight(lbs, unitSystem),
+      formatHeight: (cm: number) => formatHeightForUnit(cm, unitSystem),
+    }),
+    [unitSystem]
+  );
+};
@@ -2,6 +2,22 @@ import { API_URL } from "../config";
 import { User, OnboardingData, AuthResponse } from "./types";
 import * as SecureStore from "expo-secure-store";
 import { logger } from "./logger";
+import {
+  ApiError,
+  CancelledError,
+  NetworkError,
+  SessionExpiredError,
+  TimeoutError,
+  createApiError,
+  isRetryableError,
+} from "./apiErrors";
+import { getTransport } from "./transport";
+import {
+  isSessionExpired,
+  isTokenExpired,
+  notifySessionExpired,
+} from "./session";
+import { TIMEOUTS, LIMITS } from "@/constants";
 
 /**
  * Get the JWT token from secure storage
@@ -25,16 +41,101 @@ export async function getAuthToken(): Promise<string | null> {
   }
 }
 
+export interface ApiRequestOptions extends RequestInit {
+  /** Abort each attempt after this many ms (defaults to TIMEOUTS.API_TIMEOUT) */
+  timeoutMs?: number;
+  /** Extra attempts after a retryable failure (defaults to LIMITS.API_MAX_RETRIES for GET/HEAD, 0 otherwise) */
+  retries?: number;
+}
+
+function isIdempotentMethod(method: string): boolean {
+  const normalized = method.toUpperCase();
+  return normalized === "GET" || normalized === "HEAD";
+}
+
+// Resolve after the delay, or reject early if the caller aborts
+function waitForRetry(
+  delay: number,
+  endpoint: string,
+  method: string,
+  signal?: AbortSignal | null
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new CancelledError(endpoint, method));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
 // Helper function to make API requests
 export async function apiRequest<T>(
   endpoint: string,
-  options: RequestInit = {}
+  options: ApiRequestOptions = {}
+): Promise<T> {
+  const { timeoutMs = TIMEOUTS.API_TIMEOUT, retries, ...init } = options;
+  const method = init.method || "GET";
+  const maxRetries =
+    retries ?? (isIdempotentMethod(method) ? LIMITS.API_MAX_RETRIES : 0);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await performRequest<T>(endpoint, init, method, timeoutMs);
+    } catch (error) {
+      if (
+        attempt >= maxRetries ||
+        !isRetryableError(error) ||
+        init.signal?.aborted
+      ) {
+        throw error;
+      }
+
+      const delay = TIMEOUTS.API_RETRY_BASE_DELAY * 2 ** attempt;
+      logger.warn("Retrying API request", {
+        endpoint,
+        method,
+        attempt: attempt + 1,
+        delay,
+        status: error instanceof ApiError ? error.status : undefined,
+      });
+      await waitForRetry(delay, endpoint, method, init.signal);
+    }
+  }
+}
+
+// Single attempt of apiRequest, bounded by timeoutMs
+async function performRequest<T>(
+  endpoint: string,
+  options: RequestInit,
+  method: string,
+  timeoutMs: number
 ): Promise<T> {
   const url = `${API_URL}${endpoint}`;
+  const callerSignal = options.signal;
+
+  if (callerSignal?.aborted) {
+    throw new CancelledError(endpoint, method);
+  }
 
   // Get the auth token
   const token = await getAuthToken();
 
+  // Once the session has expired every authenticated call would come back 401,
+  // so fail fast until the user signs in again
+  const isAuthEndpoint = endpoint.startsWith("/auth/");
+  if (
+    !isAuthEndpoint &&
+    (isSessionExpired() || (token && isTokenExpired(token)))
+  ) {
+    notifySessionExpired("token expired");
+    throw new SessionExpiredError(endpoint, method);
+  }
+
   const headers: HeadersInit = {
     "Content-Type": "application/json",
     Accept: "application/json",
@@ -42,18 +143,36 @@ export async function apiRequest<T>(
     ...options.headers,
   };
 
+  // One controller per attempt, aborted by either the timeout or the caller
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onCallerAbort = () => controller.abort();
+  callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+
   const config: RequestInit = {
     ...options,
     headers,
+    signal: controller.signal,
   };
 
   const startTime = Date.now();
-  const method = options.method || "GET";
 
   try {
     logger.apiRequest(endpoint, method);
 
-    const response = await fetch(url, config);
+    let response: Response;
+    try {
+      response = await getTransport()(url, config);
+    } catch (fetchError) {
+      // The transport only rejects when no response was received
+      if (timedOut) throw new TimeoutError(endpoint, method, timeoutMs);
+      if (callerSignal?.aborted) throw new CancelledError(endpoint, method);
+      throw new NetworkError(endpoint, method, fetchError);
+    }
     const duration = Date.now() - startTime;
 
     // Handle HTTP errors
@@ -63,28 +182,43 @@ export async function apiRequest<T>(
         `[API] ${response.status} Error Response:`,
         JSON.stringify(errorData, null, 2)
       );
-      logger.apiError(
-        endpoint,
-        {
-          status: response.status,
-          message: errorData.message || `HTTP error ${response.status}`,
-          ...errorData,
-        },
-        method
-      );
-      throw new Error(errorData.message || `HTTP error ${response.status}`);
+      // A 401 on a request that carried a token means the session is over
+      const sessionEnded =
+        response.status === 401 && !!token && !isAuthEndpoint;
+      const apiError = sessionEnded
+        ? new SessionExpiredError(endpoint, method)
+        : createApiError(response, errorData, endpoint, method);
+      logger.apiError(endpoint, apiError, method);
+      if (sessionEnded) notifySessionExpired("unauthorized response");
+      throw apiError;
     }
 
     // Parse JSON response
-    const data: T = await response.json();
+    let data: T;
+    try {
+      data = await response.json();
+    } catch (parseError) {
+      // The body stream is aborted too if the timeout fires mid-read
+      if (timedOut) throw new TimeoutError(endpoint, method, timeoutMs);
+      if (callerSignal?.aborted) throw new CancelledError(endpoint, method);
+      throw parseError;
+    }
     logger.apiRequest(endpoint, method, duration);
     return data;
   } catch (error) {
-    if (!(error instanceof Error && error.message.includes("HTTP error"))) {
+    if (
+      !(error instanceof ApiError) ||
+      error instanceof NetworkError ||
+      error instanceof TimeoutError
+    ) {
       // Only log network/unexpected errors, not HTTP errors (already logged above)
+      // or cancellations the caller asked for
       logger.apiError(endpoint, error, method);
     }
     throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    callerSignal?.removeEventListener("abort", onCallerAbort);
   }
 }
 
@@ -201,19 +335,19 @@ export async function completeOnboardingAPI(
     console.error("[API] Error message:", errorMessage);
     if (errorStack) console.error("[API] Error stack:", errorStack);
 
-    // Try to extract more detailed error information
-    if (error instanceof Error) {
-      try {
-        // If the error message contains JSON, try to parse it
-        const errorMatch = error.message.match(/HTTP error (\d+)/);
-        if (errorMatch) {
-          console.error(`[API] HTTP Status Code: ${errorMatch[1]}`);
-          console.error(
-            "[API] This suggests a validation error. Check data format against backend schema."
-          );
-        }
-      } catch (parseError) {
-        console.error("[API] Could not parse error details:", parseError);
+    // Surface the structured details of HTTP failures
+    if (error instanceof ApiError && !(error instanceof NetworkError)) {
+      console.error(`[API] HTTP Status Code: ${error.status}`);
+      if (error.status >= 400 && error.status < 500) {
+        console.error(
+          "[API] This suggests a validation error. Check data format against backend schema."
+        );
+      }
+      if (error.body) {
+        console.error(
+          "[API] Error body:",
+          JSON.stringify(error.body, null, 2)
+        );
       }
     }
 
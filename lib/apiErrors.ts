@@ -0,0 +1,212 @@
+/**
+ * Structured errors thrown by apiRequest. Callers should branch on these
+ * types (or the helpers below) instead of matching on error message text.
+ */
+
+interface ApiErrorDetails {
+  status: number;
+  endpoint: string;
+  method: string;
+  code?: string;
+  body?: unknown;
+  retryable?: boolean;
+}
+
+/**
+ * The server responded with a non-2xx status
+ */
+export class ApiError extends Error {
+  /** HTTP status code (0 when no response was received) */
+  status: number;
+  /** Machine-readable error code from the backend, if it sent one */
+  code?: string;
+  endpoint: string;
+  method: string;
+  /** Parsed response body, if any */
+  body?: unknown;
+  /** Whether repeating the same request may succeed */
+  retryable: boolean;
+
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message);
+    // Keep instanceof working when classes are transpiled
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "ApiError";
+    this.status = details.status;
+    this.code = details.code;
+    this.endpoint = details.endpoint;
+    this.method = details.method;
+    this.body = details.body;
+    this.retryable =
+      details.retryable ?? isRetryableStatus(details.status);
+  }
+}
+
+/**
+ * The request never reached the server (offline, DNS failure, refused connection)
+ */
+export class NetworkError extends ApiError {
+  constructor(endpoint: string, method: string, cause?: unknown) {
+    super(
+      cause instanceof Error ? cause.message : "Network request failed",
+      { status: 0, endpoint, method, retryable: true }
+    );
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * The server did not respond within the allotted time
+ */
+export class TimeoutError extends ApiError {
+  timeoutMs: number;
+
+  constructor(endpoint: string, method: string, timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`, {
+      status: 0,
+      endpoint,
+      method,
+      retryable: true,
+    });
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The caller aborted the request before it finished
+ */
+export class CancelledError extends ApiError {
+  constructor(endpoint: string, method: string) {
+    super("Request was cancelled", {
+      status: 0,
+      endpoint,
+      method,
+      retryable: false,
+    });
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * The auth token has expired; the request was not sent (or the server
+ * rejected it) and will only succeed after the user signs in again
+ */
+export class SessionExpiredError extends ApiError {
+  constructor(endpoint: string, method: string) {
+    super("Your session has expired. Please sign in again.", {
+      status: 401,
+      code: "SESSION_EXPIRED",
+      endpoint,
+      method,
+      retryable: false,
+    });
+    this.name = "SessionExpiredError";
+  }
+}
+
+/**
+ * The server answered successfully but the payload does not match the shape
+ * the app depends on
+ */
+export class ContractViolationError extends Error {
+  /** Location of the offending value, e.g. "workout.planDays[2].date" */
+  path: string;
+  endpoint?: string;
+
+  constructor(path: string, message: string, endpoint?: string) {
+    super(`Unexpected response format at ${path}: ${message}`);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "ContractViolationError";
+    this.path = path;
+    this.endpoint = endpoint;
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Build an ApiError from a failed response and its parsed body
+ */
+export function createApiError(
+  response: { status: number },
+  body: any,
+  endpoint: string,
+  method: string
+): ApiError {
+  const message =
+    (body && typeof body.message === "string" && body.message) ||
+    (body && typeof body.error === "string" && body.error) ||
+    `HTTP error ${response.status}`;
+
+  return new ApiError(message, {
+    status: response.status,
+    code: body && typeof body.code === "string" ? body.code : undefined,
+    endpoint,
+    method,
+    body,
+  });
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+export function isNotFoundError(error: unknown): error is ApiError {
+  return error instanceof ApiError && error.status === 404;
+}
+
+export function isUnauthorizedError(error: unknown): error is ApiError {
+  return error instanceof ApiError && error.status === 401;
+}
+
+/**
+ * True when the request never reached the server, so it was certainly not
+ * applied (unlike a timeout, where the server may have handled it)
+ */
+export function isNetworkError(error: unknown): error is NetworkError {
+  return error instanceof NetworkError;
+}
+
+/**
+ * True for failures where the server never answered (offline or timed out)
+ */
+export function isConnectivityError(error: unknown): error is ApiError {
+  return error instanceof NetworkError || error instanceof TimeoutError;
+}
+
+export function isSessionExpiredError(
+  error: unknown
+): error is SessionExpiredError {
+  return error instanceof SessionExpiredError;
+}
+
+export function isCancelledError(error: unknown): error is CancelledError {
+  return error instanceof CancelledError;
+}
+
+export function isContractViolationError(
+  error: unknown
+): error is ContractViolationError {
+  return error instanceof ContractViolationError;
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof ApiError && error.retryable;
+}
+
+/**
+ * Human-readable description suitable for logs and UI copy
+ */
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof NetworkError) return "No connection to server";
+  if (error instanceof TimeoutError) return "Server took too long to respond";
+  if (error instanceof SessionExpiredError) return "Session expired";
+  if (error instanceof ContractViolationError) {
+    return "Received data in an unexpected format";
+  }
+  if (error instanceof Error) return error.message;
+  return "Unknown error";
+}
@@ -8,6 +8,7 @@ import {
   signupAPI,
   generateAuthCodeAPI,
 } from "./api";
+import { resetSessionExpiry } from "./session";
 
 // List of all keys used in SecureStore
 const STORAGE_KEYS = [
@@ -102,6 +103,7 @@ export async function verify(params: {
     if (data.success && data.token) {
       // Store the auth token
       await SecureStore.setItemAsync("token", data.token);
+      resetSessionExpiry();
       if (data.user) {
         // Include needsOnboarding from the response in the user object
         const userWithOnboardingStatus = {
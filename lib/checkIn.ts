@@ -0,0 +1,133 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { logger } from "./logger";
+import { formatDateAsString, formatDateForDisplay } from "../utils";
+import { CheckInMetrics, DashboardFilters } from "@/types/api";
+
+/**
+ * How a plan day or exercise went, asked once it's done. Every part is
+ * optional. The plan day check-in goes out with the plan day's completion and
+ * an exercise's with its log. Plan day check-ins are also kept on the device
+ * for the dashboard, since the server doesn't report them back.
+ *
+ * Difficulty values read "too_easy" and "too_hard" so weight suggestions can
+ * pick them up from the log's free-text `difficulty`.
+ */
+
+export const CHECK_IN_MOODS = [
+  { value: "great", emoji: "😄", label: "Great" },
+  { value: "good", emoji: "🙂", label: "Good" },
+  { value: "okay", emoji: "😐", label: "Okay" },
+  { value: "tired", emoji: "😩", label: "Tired" },
+  { value: "rough", emoji: "😣", label: "Rough" },
+] as const;
+
+export const CHECK_IN_DIFFICULTIES = [
+  { value: "too_easy", label: "Too easy" },
+  { value: "just_right", label: "Just right" },
+  { value: "too_hard", label: "Too hard" },
+] as const;
+
+export const CHECK_IN_RATINGS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] as const;
+
+export type CheckInMood = (typeof CHECK_IN_MOODS)[number]["value"];
+export type CheckInDifficulty = (typeof CHECK_IN_DIFFICULTIES)[number]["value"];
+
+export interface CheckIn {
+  mood?: CheckInMood;
+  /** 1-10, how the member rates the session */
+  rating?: number;
+  difficulty?: CheckInDifficulty;
+  notes?: string;
+}
+
+export const getMoodEmoji = (mood: string | null | undefined) =>
+  CHECK_IN_MOODS.find((option) => option.value === mood)?.emoji ?? null;
+
+export const getDifficultyLabel = (difficulty: string | null | undefined) =>
+  CHECK_IN_DIFFICULTIES.find((option) => option.value === difficulty)
+    ?.label ?? null;
+
+/**
+ * The check-in's filled-in parts, ready to send. Blank notes are dropped.
+ */
+export function toCheckInFields(checkIn: CheckIn): CheckIn {
+  const notes = checkIn.notes?.trim();
+  return {
+    ...(checkIn.mood ? { mood: checkIn.mood } : {}),
+    ...(checkIn.rating ? { rating: checkIn.rating } : {}),
+    ...(checkIn.difficulty ? { difficulty: checkIn.difficulty } : {}),
+    ...(notes ? { notes } : {}),
+  };
+}
+
+const STORAGE_KEY = "workout_check_ins";
+
+async function loadCheckIns(): Promise<CheckInMetrics[]> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    logger.error("Error loading check-ins", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * Keep a plan day's check-in, in place of any kept for it before. Check-ins
+ * with no mood, rating or difficulty aren't kept. Resolves to false if it
+ * couldn't be saved.
+ */
+export async function saveWorkoutCheckIn(
+  planDayId: number,
+  date: Date | string,
+  checkIn: CheckIn
+): Promise<boolean> {
+  const { mood, rating, difficulty } = toCheckInFields(checkIn);
+  if (!mood && !rating && !difficulty) return true;
+
+  const day = formatDateAsString(date);
+  const checkIns = (await loadCheckIns()).filter(
+    (entry) => entry.planDayId !== planDayId
+  );
+  checkIns.push({
+    date: day,
+    planDayId,
+    mood: mood ?? null,
+    rating: rating ?? null,
+    difficulty: difficulty ?? null,
+    label: formatDateForDisplay(day, { month: "short", day: "numeric" }),
+  });
+
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(checkIns));
+    return true;
+  } catch (error) {
+    logger.error("Error saving check-in", {
+      error: error instanceof Error ? error.message : String(error),
+      planDayId,
+    });
+    return false;
+  }
+}
+
+/**
+ * The plan day check-ins kept on the device in a date range (YYYY-MM-DD,
+ * inclusive; either end can be left open), oldest first
+ */
+export async function getCheckInMetrics(
+  range: Pick<DashboardFilters, "startDate" | "endDate">
+): Promise<CheckInMetrics[]> {
+  const { startDate, endDate } = range;
+  return (await loadCheckIns())
+    .filter(
+      (entry) =>
+        (!startDate || entry.date >= startDate) &&
+        (!endDate || entry.date <= endDate)
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.planDayId - b.planDayId);
+}
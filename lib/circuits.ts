@@ -1,10 +1,12 @@
 import { apiRequest } from "./api";
+import { queueableRequest } from "./offlineQueue";
 import { CircuitSessionData, CircuitRound } from "@/types/api/circuit.types";
 import {
   CreateExerciseLogParams,
   WorkoutBlockWithExercises,
 } from "@/types/api/workout.types";
 import { logger } from "./logger";
+import { getErrorMessage, isApiError } from "./apiErrors";
 
 // Note: Backend does not expose block-level log endpoints. We only log per-round, per-exercise.
 
@@ -35,13 +37,14 @@ export async function createCircuitExerciseLogs(
           notes: exercise.notes,
         };
 
-        await apiRequest(`/logs/exercise`, {
+        // Both writes fall back to the offline queue so rounds survive a lost connection
+        await queueableRequest(`/logs/exercise`, {
           method: "POST",
           body: JSON.stringify(exerciseLogParams),
         });
 
         // Mark exercise as completed in the workout log
-        await apiRequest(
+        await queueableRequest(
           `/logs/workout/${workoutId}/exercise/${exercise.planDayExerciseId}`,
           { method: "POST" }
         );
@@ -53,7 +56,8 @@ export async function createCircuitExerciseLogs(
     await Promise.all(logPromises.filter(Boolean));
   } catch (error) {
     logger.error("Error creating circuit exercise logs", {
-      error: error instanceof Error ? error.message : "Unknown error",
+      error: getErrorMessage(error),
+      status: isApiError(error) ? error.status : undefined,
       workoutId,
       roundNumber: roundData.roundNumber,
     });
@@ -74,12 +78,13 @@ export async function markBlockExercisesComplete(
     if (seen.has(id)) continue;
     seen.add(id);
     try {
-      await apiRequest(`/logs/workout/${workoutId}/exercise/${id}`, {
+      await queueableRequest(`/logs/workout/${workoutId}/exercise/${id}`, {
         method: "POST",
       });
     } catch (error) {
       logger.error("Error marking circuit exercise complete", {
-        error: error instanceof Error ? error.message : "Unknown error",
+        error: getErrorMessage(error),
+        status: isApiError(error) ? error.status : undefined,
         workoutId,
         planDayExerciseId: id,
       });
@@ -114,7 +119,8 @@ export async function logCircuitSession(
     });
   } catch (error) {
     logger.error("Error logging circuit session", {
-      error: error instanceof Error ? error.message : "Unknown error",
+      error: getErrorMessage(error),
+      status: isApiError(error) ? error.status : undefined,
       workoutId,
       blockId: sessionData.blockId,
     });
@@ -143,7 +149,8 @@ export async function logCircuitRound(
     });
   } catch (error) {
     logger.error("Error logging circuit round", {
-      error: error instanceof Error ? error.message : "Unknown error",
+      error: getErrorMessage(error),
+      status: isApiError(error) ? error.status : undefined,
       workoutId,
       blockId,
       roundNumber: roundData.roundNumber,
@@ -238,7 +245,8 @@ export async function skipCircuitExercise(
     });
   } catch (error) {
     logger.error("Error skipping circuit exercise", {
-      error: error instanceof Error ? error.message : "Unknown error",
+      error: getErrorMessage(error),
+      status: isApiError(error) ? error.status : undefined,
       workoutId,
       planDayExerciseId,
     });
@@ -267,7 +275,8 @@ export async function skipCircuitBlock(
     });
   } catch (error) {
     logger.error("Error skipping circuit block", {
-      error: error instanceof Error ? error.message : "Unknown error",
+      error: getErrorMessage(error),
+      status: isApiError(error) ? error.status : undefined,
       workoutId,
       workoutBlockId,
     });
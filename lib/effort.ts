@@ -0,0 +1,35 @@
+/**
+ * Per-set effort. A set can carry either RPE (rate of perceived exertion,
+ * 6-10) or RIR (reps in reserve); RIR is converted with RPE = 10 - RIR so
+ * both can be averaged together.
+ */
+
+export const RPE_VALUES = [6, 7, 8, 9, 10] as const;
+export const RIR_VALUES = [4, 3, 2, 1, 0] as const;
+
+export interface SetEffort {
+  rpe?: number | null;
+  rir?: number | null;
+}
+
+/**
+ * The set's effort on the RPE scale, or null if none was logged
+ */
+export function getSetRpe(set: SetEffort): number | null {
+  if (typeof set.rpe === "number") return set.rpe;
+  if (typeof set.rir === "number") return Math.max(6, 10 - set.rir);
+  return null;
+}
+
+/**
+ * Average RPE of the sets that have an effort logged, rounded to one decimal
+ */
+export function getAverageRpe(sets: SetEffort[]): number | null {
+  const values = sets
+    .map(getSetRpe)
+    .filter((rpe): rpe is number => rpe !== null);
+  if (values.length === 0) return null;
+
+  const average = values.reduce((total, rpe) => total + rpe, 0) / values.length;
+  return Math.round(average * 10) / 10;
+}
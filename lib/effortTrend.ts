@@ -0,0 +1,124 @@
+import { isCancelledError } from "./apiErrors";
+import { getCurrentUser } from "./auth";
+import { getAverageRpe, getSetRpe } from "./effort";
+import { getCurrentLogs } from "./logCorrections";
+import { query } from "./queryCache";
+import { getWorkingSets } from "./warmup";
+import {
+  fetchActiveWorkout,
+  fetchWorkoutHistory,
+  getExerciseLogs,
+} from "./workouts";
+import { isCircuitBlock } from "@/utils/circuitUtils";
+import { formatDateAsString, formatDateForDisplay } from "../utils";
+import { QUERY_TAGS } from "@/constants";
+import {
+  DashboardFilters,
+  EffortMetrics,
+  ExerciseSetLog,
+  PlanDayWithBlocks,
+} from "@/types/api";
+
+/**
+ * Average effort per workout day, worked out from the exercise logs of the
+ * plan days in a date range. The dashboard metrics don't include effort, so
+ * it's read from the same logs the workout summary uses.
+ */
+
+/** Plan day dates (YYYY-MM-DD); either end can be left open */
+type EffortRange = Pick<DashboardFilters, "startDate" | "endDate">;
+
+async function getPlanDaySets(
+  planDay: PlanDayWithBlocks
+): Promise<ExerciseSetLog[]> {
+  const setsByExercise = await Promise.all(
+    planDay.blocks.flatMap((block) =>
+      block.exercises.map(async (exercise) =>
+        getCurrentLogs(
+          await getExerciseLogs(exercise.id),
+          isCircuitBlock(block.blockType)
+        )
+          .filter((log) => !log.isSkipped)
+          .flatMap((log) => getWorkingSets(log.sets ?? []))
+      )
+    )
+  );
+  return setsByExercise.flat();
+}
+
+async function loadEffortMetrics(
+  userId: number,
+  { startDate, endDate }: EffortRange,
+  signal: AbortSignal
+): Promise<EffortMetrics[]> {
+  const [activeWorkout, history] = await Promise.all([
+    fetchActiveWorkout(false, signal),
+    fetchWorkoutHistory(userId, signal),
+  ]);
+
+  // Plan days can show up in both the active workout and the history
+  const planDays = new Map<number, PlanDayWithBlocks>();
+  [...(activeWorkout ? [activeWorkout] : []), ...(history ?? [])]
+    .flatMap((workout) => workout.planDays)
+    .forEach((planDay) => {
+      const date = formatDateAsString(planDay.date);
+      if (
+        (!startDate || date >= startDate) &&
+        (!endDate || date <= endDate)
+      ) {
+        planDays.set(planDay.id, planDay);
+      }
+    });
+
+  const days = await Promise.all(
+    [...planDays.values()].map(async (planDay) => ({
+      date: formatDateAsString(planDay.date),
+      sets: await getPlanDaySets(planDay),
+    }))
+  );
+
+  const setsByDate = new Map<string, ExerciseSetLog[]>();
+  days.forEach(({ date, sets }) =>
+    setsByDate.set(date, [...(setsByDate.get(date) ?? []), ...sets])
+  );
+
+  return [...setsByDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([date, sets]) => {
+      const averageRpe = getAverageRpe(sets);
+      if (averageRpe === null) return [];
+      return [
+        {
+          date,
+          averageRpe,
+          setCount: sets.filter((set) => getSetRpe(set) !== null).length,
+          label: formatDateForDisplay(date, { month: "short", day: "numeric" }),
+        },
+      ];
+    });
+}
+
+/**
+ * Average effort of each day with rated sets in the range (inclusive), oldest
+ * first
+ */
+export async function fetchEffortMetrics(
+  range: EffortRange,
+  signal?: AbortSignal
+): Promise<EffortMetrics[]> {
+  const user = await getCurrentUser();
+  if (!user) return [];
+
+  const { startDate = "", endDate = "" } = range;
+  try {
+    return await query<EffortMetrics[]>(
+      `effortMetrics:${user.id}:${startDate}:${endDate}`,
+      (querySignal) => loadEffortMetrics(user.id, range, querySignal),
+      { tags: [QUERY_TAGS.WORKOUT, QUERY_TAGS.DASHBOARD], signal }
+    );
+  } catch (error) {
+    if (isCancelledError(error)) return [];
+    console.error("Error fetching effort metrics:", error);
+    return [];
+  }
+}
@@ -0,0 +1,257 @@
+import { isCancelledError } from "./apiErrors";
+import { getCurrentUser } from "./auth";
+import { isSwappedLog } from "./exerciseSwaps";
+import {
+  applyExtraExercises,
+  getExtraExerciseLogs,
+  isExtraExercise,
+} from "./extraExercises";
+import { query } from "./queryCache";
+import { searchExerciseAPI } from "./search";
+import { getWorkingSets } from "./warmup";
+import {
+  fetchActiveWorkout,
+  fetchWorkoutHistory,
+  getExerciseLogs,
+} from "./workouts";
+import { formatDateAsString, getTodayString } from "../utils";
+import { LIMITS, QUERY_TAGS } from "@/constants";
+import {
+  ExerciseSet,
+  ExerciseSetLog,
+  PlanDayWithBlocks,
+  WorkoutBlockWithExercise,
+  WorkoutWithDetails,
+} from "@/types/api";
+
+/**
+ * How the user performed an exercise in earlier sessions, built from the
+ * exercise logs of past plan days. When the plan day behind a log is no longer
+ * available, the per-log summary from exercise search (`recentLogs`) is used
+ * and every set is assumed to have matched it. Logs of an exercise swapped
+ * out for another are left out, and exercises added on top of the plan count
+ * from what the device kept for them.
+ */
+
+export interface LoggedSet {
+  roundNumber: number;
+  setNumber: number;
+  weight: number;
+  reps: number;
+}
+
+export interface ExerciseSession {
+  /** Plan day date (YYYY-MM-DD) */
+  date: string;
+  planDayExerciseId: number | null;
+  sets: LoggedSet[];
+  /** What the plan prescribed that day, when known */
+  target: { sets: number; reps: number; weight: number } | null;
+  difficulty: string | null;
+  rating: number | null;
+  /** "summary" sessions only know the top weight and reps of the log */
+  source: "log" | "summary";
+}
+
+interface PlannedExercise {
+  date: string;
+  planDayId: number;
+  exercise: WorkoutBlockWithExercise;
+}
+
+// Plan day exercises for `exerciseId` before today, newest first
+function findPastAssignments(
+  workouts: WorkoutWithDetails[],
+  exerciseId: number,
+  excludePlanDayExerciseId?: number
+): PlannedExercise[] {
+  const today = getTodayString();
+  const seen = new Set<number>();
+  const assignments: PlannedExercise[] = [];
+
+  workouts.forEach((workout) => {
+    workout.planDays.forEach((planDay: PlanDayWithBlocks) => {
+      const date = formatDateAsString(planDay.date);
+      if (date >= today) return;
+
+      planDay.blocks.forEach((block) => {
+        block.exercises.forEach((exercise) => {
+          if (
+            exercise.exerciseId !== exerciseId ||
+            exercise.id === excludePlanDayExerciseId ||
+            seen.has(exercise.id)
+          ) {
+            return;
+          }
+          seen.add(exercise.id);
+          assignments.push({ date, planDayId: planDay.id, exercise });
+        });
+      });
+    });
+  });
+
+  return assignments.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+// Warm-ups aren't part of what was lifted for the exercise
+function toLoggedSets(sets: (ExerciseSetLog | ExerciseSet)[]): LoggedSet[] {
+  return getWorkingSets(sets)
+    .filter((set) => (set.reps ?? 0) > 0 || (set.weight ?? 0) > 0)
+    .map((set) => ({
+      roundNumber: set.roundNumber,
+      setNumber: set.setNumber,
+      weight: set.weight ?? 0,
+      reps: set.reps ?? 0,
+    }));
+}
+
+async function loadExerciseSessions(
+  userId: number,
+  exerciseId: number,
+  excludePlanDayExerciseId: number | undefined,
+  signal: AbortSignal
+): Promise<ExerciseSession[]> {
+  const [activeWorkout, history, search] = await Promise.all([
+    fetchActiveWorkout(false, signal),
+    fetchWorkoutHistory(userId, signal),
+    searchExerciseAPI(userId, exerciseId, signal).catch((error) => {
+      if (isCancelledError(error)) throw error;
+      return null;
+    }),
+  ]);
+
+  const workouts = await Promise.all(
+    [...(activeWorkout ? [activeWorkout] : []), ...(history ?? [])].map(
+      async (workout) => ({
+        ...workout,
+        planDays: await Promise.all(workout.planDays.map(applyExtraExercises)),
+      })
+    )
+  );
+  const assignments = findPastAssignments(
+    workouts,
+    exerciseId,
+    excludePlanDayExerciseId
+  ).slice(0, LIMITS.MAX_EXERCISE_HISTORY_SESSIONS);
+
+  const sessions: ExerciseSession[] = [];
+  // Every log of a plan day exercise already covered, including the ones a
+  // later log superseded, so the search summary doesn't bring them back
+  const loggedIds = new Set<number>();
+
+  const logsByAssignment = await Promise.all(
+    assignments.map(({ exercise }) =>
+      isExtraExercise(exercise.id) ? [] : getExerciseLogs(exercise.id)
+    )
+  );
+  // Extras are kept on the device rather than logged
+  const extraLogsByAssignment = await Promise.all(
+    assignments.map(async ({ planDayId, exercise }) =>
+      isExtraExercise(exercise.id)
+        ? (await getExtraExerciseLogs(planDayId))[exercise.id]
+        : undefined
+    )
+  );
+  assignments.forEach(({ date, exercise }, index) => {
+    const logs = logsByAssignment[index];
+    logs.forEach((entry) => loggedIds.add(entry.id));
+    const extraLog = extraLogsByAssignment[index];
+
+    // The latest log for a plan day exercise is the one that counts. If
+    // another exercise was done in its place, that day doesn't count at all.
+    const log = [...logs]
+      .reverse()
+      .find((entry) => toLoggedSets(entry.sets ?? []).length > 0);
+    if (log && isSwappedLog(log)) return;
+
+    const sets =
+      extraLog && !extraLog.isSkipped
+        ? toLoggedSets(extraLog.sets)
+        : toLoggedSets(log?.sets ?? []);
+    if (sets.length === 0) return;
+
+    sessions.push({
+      date,
+      planDayExerciseId: exercise.id,
+      sets,
+      target: {
+        sets: exercise.sets ?? 0,
+        reps: exercise.reps ?? 0,
+        weight: exercise.weight ?? 0,
+      },
+      difficulty: log?.difficulty ?? null,
+      rating: log?.rating ?? null,
+      source: "log",
+    });
+  });
+
+  // Fill in older sessions the plans we fetched no longer cover
+  const today = getTodayString();
+  (search?.exercise?.recentLogs ?? []).forEach((recent) => {
+    const date = formatDateAsString(recent.date);
+    if (loggedIds.has(recent.id) || date >= today || recent.sets <= 0) return;
+
+    sessions.push({
+      date,
+      planDayExerciseId: null,
+      sets: Array.from({ length: recent.sets }, (_, index) => ({
+        roundNumber: 1,
+        setNumber: index + 1,
+        weight: recent.weight,
+        reps: recent.reps,
+      })),
+      target: null,
+      difficulty: null,
+      rating: null,
+      source: "summary",
+    });
+  });
+
+  return sessions
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, LIMITS.MAX_EXERCISE_HISTORY_SESSIONS);
+}
+
+/**
+ * Earlier sessions of an exercise, newest first. Pass the plan day exercise
+ * being logged as `excludePlanDayExerciseId` so today's sets don't count.
+ */
+export async function fetchExerciseSessions(
+  exerciseId: number,
+  options: { excludePlanDayExerciseId?: number; signal?: AbortSignal } = {}
+): Promise<ExerciseSession[]> {
+  try {
+    const user = await getCurrentUser();
+    if (!user) return [];
+
+    return await query<ExerciseSession[]>(
+      `exerciseSessions:${user.id}:${exerciseId}:${
+        options.excludePlanDayExerciseId ?? "all"
+      }`,
+      (signal) =>
+        loadExerciseSessions(
+          user.id,
+          exerciseId,
+          options.excludePlanDayExerciseId,
+          signal
+        ),
+      { tags: [QUERY_TAGS.WORKOUT], signal: options.signal }
+    );
+  } catch (error) {
+    if (!isCancelledError(error)) {
+      console.error("Error fetching exercise history:", error);
+    }
+    return [];
+  }
+}
+
+/**
+ * The most recent earlier session of an exercise, or null if there is none
+ */
+export async function fetchPreviousPerformance(
+  exerciseId: number,
+  options: { excludePlanDayExerciseId?: number; signal?: AbortSignal } = {}
+): Promise<ExerciseSession | null> {
+  const sessions = await fetchExerciseSessions(exerciseId, options);
+  return sessions[0] ?? null;
+}
@@ -0,0 +1,153 @@
+import { isCircuitBlock } from "@/utils/circuitUtils";
+import { isSupersetBlock } from "./superset";
+
+/**
+ * The order a session works through today's exercises. The plan order is only
+ * the starting point: members can jump ahead when equipment is busy, drag the
+ * remaining exercises into a different order or push one back to do later.
+ *
+ * The queue holds plan day exercise ids. Circuit-style blocks and supersets
+ * are done as a whole, so their exercises always stay together in plan order
+ * and move as one unit; exercises from other blocks can move freely around
+ * them.
+ */
+
+interface QueueBlock {
+  id: number;
+  blockType?: string;
+  exercises: { id: number }[];
+}
+
+export interface QueueUnit {
+  // Stable key for lists: the block for circuits and supersets, the exercise
+  // otherwise
+  key: string;
+  exerciseIds: number[];
+  isWholeBlock: boolean;
+}
+
+/**
+ * Exercise ids in the order the plan lists them
+ */
+export function getPlanOrder(blocks: QueueBlock[]): number[] {
+  return blocks.flatMap((block) => block.exercises.map((entry) => entry.id));
+}
+
+/**
+ * Bring a saved order in line with the plan after it was reloaded: ids that
+ * are no longer planned are dropped and new ones are appended in plan order.
+ */
+export function syncExerciseOrder(
+  order: number[],
+  blocks: QueueBlock[]
+): number[] {
+  const planOrder = getPlanOrder(blocks);
+  const kept = order.filter((id) => planOrder.includes(id));
+  return [...kept, ...planOrder.filter((id) => !kept.includes(id))];
+}
+
+/**
+ * Group a queue into the units that can be moved: one per exercise, except
+ * circuits and supersets which are a single unit for the whole block
+ */
+export function getQueueUnits(
+  order: number[],
+  blocks: QueueBlock[]
+): QueueUnit[] {
+  const units: QueueUnit[] = [];
+  const seenBlocks = new Set<number>();
+
+  order.forEach((exerciseId) => {
+    const block = blocks.find((entry) =>
+      entry.exercises.some((exercise) => exercise.id === exerciseId)
+    );
+    if (!block) return;
+
+    if (isCircuitBlock(block.blockType) || isSupersetBlock(block.blockType)) {
+      if (seenBlocks.has(block.id)) return;
+      seenBlocks.add(block.id);
+      units.push({
+        key: `block-${block.id}`,
+        exerciseIds: block.exercises.map((exercise) => exercise.id),
+        isWholeBlock: true,
+      });
+      return;
+    }
+
+    units.push({
+      key: `exercise-${exerciseId}`,
+      exerciseIds: [exerciseId],
+      isWholeBlock: false,
+    });
+  });
+
+  return units;
+}
+
+/**
+ * The exercise to move on to from `currentId`: the next one in the queue that
+ * isn't done yet, wrapping round to any that were put off earlier. Null when
+ * everything is done.
+ */
+export function getNextPendingExerciseId(
+  order: number[],
+  currentId: number | undefined,
+  doneIds: number[]
+): number | null {
+  const start = currentId === undefined ? -1 : order.indexOf(currentId);
+  const rotated = [...order.slice(start + 1), ...order.slice(0, start + 1)];
+  return rotated.find((id) => !doneIds.includes(id)) ?? null;
+}
+
+/**
+ * Replace the order of the units still to come. Units not listed (done or in
+ * progress) keep their place ahead of them.
+ */
+export function reorderRemaining(
+  order: number[],
+  remaining: QueueUnit[]
+): number[] {
+  const remainingIds = remaining.flatMap((unit) => unit.exerciseIds);
+  return [
+    ...order.filter((id) => !remainingIds.includes(id)),
+    ...remainingIds,
+  ];
+}
+
+/**
+ * Move the unit holding `exerciseId` to just before `beforeId`'s unit. Used
+ * when jumping ahead, so that the exercise that was interrupted comes next.
+ */
+export function moveUnitBefore(
+  order: number[],
+  blocks: QueueBlock[],
+  exerciseId: number,
+  beforeId: number
+): number[] {
+  const units = getQueueUnits(order, blocks);
+  const moving = units.find((unit) => unit.exerciseIds.includes(exerciseId));
+  if (!moving || moving.exerciseIds.includes(beforeId)) return order;
+
+  const rest = units.filter((unit) => unit !== moving);
+  const targetIndex = rest.findIndex((unit) =>
+    unit.exerciseIds.includes(beforeId)
+  );
+  rest.splice(targetIndex === -1 ? rest.length : targetIndex, 0, moving);
+  return rest.flatMap((unit) => unit.exerciseIds);
+}
+
+/**
+ * Push the unit holding `exerciseId` to the back of the queue
+ */
+export function deferExercise(
+  order: number[],
+  blocks: QueueBlock[],
+  exerciseId: number
+): number[] {
+  const units = getQueueUnits(order, blocks);
+  const moving = units.find((unit) => unit.exerciseIds.includes(exerciseId));
+  if (!moving) return order;
+  return [...units.filter((unit) => unit !== moving), moving].flatMap(
+    (unit) => unit.exerciseIds
+  );
+}
@@ -0,0 +1,169 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { logger } from "./logger";
+import { SubstituteCandidate } from "./substitutions";
+import {
+  Exercise,
+  PlanDayWithBlocks,
+  WorkoutBlockWithExercise,
+} from "@/types/api";
+
+/**
+ * Exercises swapped in for a plan day, kept on the device. The plan day
+ * exercise keeps its id and its prescribed sets, reps and weight, so it is
+ * tracked and logged as usual; its log's notes say what was actually done,
+ * and keep the log out of the planned exercise's history. Only the latest
+ * plan day's swaps are kept.
+ */
+
+interface ExerciseSwap {
+  /** The exercise done instead of the planned one */
+  exercise: Exercise;
+  original: Exercise;
+}
+
+interface StoredSwaps {
+  planDayId: number;
+  /** By plan day exercise id */
+  swaps: Record<number, ExerciseSwap>;
+}
+
+const STORAGE_KEY = "exercise_swaps";
+
+// How the notes of a swapped exercise's log start
+const SWAP_NOTE_PATTERN = /^Done as .+? instead of .+?\.\s*/;
+
+async function loadSwaps(): Promise<StoredSwaps | null> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+
+    const parsed = JSON.parse(stored);
+    return typeof parsed?.planDayId === "number" && parsed.swaps
+      ? parsed
+      : null;
+  } catch (error) {
+    logger.error("Error loading exercise swaps", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * A catalog entry as a plan exercise. Catalog entries don't carry a category
+ * or difficulty; those are left blank.
+ */
+export const toPlanExercise = (candidate: SubstituteCandidate): Exercise => ({
+  id: candidate.id,
+  name: candidate.name,
+  description: candidate.description,
+  category: "",
+  difficulty: "",
+  equipment: candidate.equipment.join(", "),
+  muscles_targeted: candidate.muscleGroups,
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+const withSwap = (
+  exercise: WorkoutBlockWithExercise,
+  swap?: ExerciseSwap
+): WorkoutBlockWithExercise =>
+  swap
+    ? {
+        ...exercise,
+        exerciseId: swap.exercise.id,
+        originalExerciseId: swap.original.id,
+        exercise: swap.exercise,
+      }
+    : exercise;
+
+/**
+ * Do `replacement` instead of one of the plan day's exercises. Swapping back
+ * to the planned exercise clears the swap. Resolves to the exercise as it now
+ * stands, or null if the swap couldn't be saved.
+ */
+export async function swapPlanDayExercise(
+  planDayId: number,
+  exercise: WorkoutBlockWithExercise,
+  replacement: SubstituteCandidate
+): Promise<WorkoutBlockWithExercise | null> {
+  const stored = await loadSwaps();
+  const swaps = { ...(stored?.planDayId === planDayId ? stored.swaps : {}) };
+  const original = swaps[exercise.id]?.original ?? exercise.exercise;
+
+  if (replacement.id === original.id) {
+    delete swaps[exercise.id];
+  } else {
+    swaps[exercise.id] = { exercise: toPlanExercise(replacement), original };
+  }
+
+  try {
+    await AsyncStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ planDayId, swaps })
+    );
+  } catch (error) {
+    logger.error("Error saving exercise swap", {
+      error: error instanceof Error ? error.message : String(error),
+      planDayExerciseId: exercise.id,
+    });
+    return null;
+  }
+
+  return swaps[exercise.id]
+    ? withSwap(exercise, swaps[exercise.id])
+    : {
+        ...exercise,
+        exerciseId: original.id,
+        originalExerciseId: null,
+        exercise: original,
+      };
+}
+
+/**
+ * The plan day with its swapped exercises in place of the planned ones
+ */
+export async function applyExerciseSwaps(
+  planDay: PlanDayWithBlocks
+): Promise<PlanDayWithBlocks> {
+  const stored = await loadSwaps();
+  if (stored?.planDayId !== planDay.id) return planDay;
+
+  return {
+    ...planDay,
+    blocks: planDay.blocks.map((block) => ({
+      ...block,
+      exercises: block.exercises.map((exercise) =>
+        withSwap(exercise, stored.swaps[exercise.id])
+      ),
+    })),
+  };
+}
+
+/**
+ * Whether a log is of an exercise done in place of the planned one, so its
+ * sets aren't the planned exercise's
+ */
+export const isSwappedLog = (log: { notes?: string | null }) =>
+  SWAP_NOTE_PATTERN.test(log.notes ?? "");
+
+/**
+ * Notes for a plan day exercise's log that say what was done instead, if it
+ * was swapped. A swap note the notes already carry, e.g. from a restored
+ * session, is replaced rather than repeated.
+ */
+export async function withSwapNote(
+  planDayId: number,
+  planDayExerciseId: number,
+  notes?: string
+): Promise<string | undefined> {
+  const stored = await loadSwaps();
+  const swap =
+    stored?.planDayId === planDayId ? stored.swaps[planDayExerciseId] : null;
+  const rest = notes?.replace(SWAP_NOTE_PATTERN, "") || undefined;
+  if (!swap) return rest;
+
+  const note = `Done as ${swap.exercise.name} instead of ${swap.original.name}.`;
+  return rest ? `${note} ${rest}` : note;
+}
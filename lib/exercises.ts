@@ -1,4 +1,5 @@
 import { apiRequest } from "./api";
+import { getErrorMessage, isApiError, isNotFoundError } from "./apiErrors";
 import { ExerciseFromLib as Exercise, WorkoutExercise } from "@/types/api";
 
 /**
@@ -22,6 +23,7 @@ export async function fetchExerciseById(id: number): Promise<Exercise | null> {
     const exercise = await apiRequest<Exercise>(`/api/exercises/${id}`);
     return exercise;
   } catch (error) {
+    if (isNotFoundError(error)) return null;
     console.error(`Error fetching exercise with id ${id}:`, error);
     return null;
   }
@@ -129,6 +131,9 @@ export function getEquipmentTypes(exercises: Exercise[]): string[] {
 
 /**
  * Add an exercise to a workout
+ *
+ * @deprecated Targets the pre-block workout route. Use `addExtraExercise`
+ * from `lib/extraExercises` to add to today's plan.
  */
 export async function addExerciseToWorkout(
   workoutId: number,
@@ -184,10 +189,9 @@ export const updateExerciseLink = async (
     console.error("Failed to update exercise link:", error);
     return {
       success: false,
-      error:
-        error instanceof Error
-          ? error.message
-          : "Failed to update exercise link",
+      error: isApiError(error)
+        ? getErrorMessage(error)
+        : "Failed to update exercise link",
     };
   }
 };
@@ -0,0 +1,231 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { logger } from "./logger";
+import { invalidateQueries } from "./queryCache";
+import { getWorkingSets } from "./warmup";
+import { QUERY_TAGS } from "@/constants";
+import {
+  Exercise,
+  ExerciseSet,
+  PlanDayWithBlocks,
+  WorkoutBlockWithExercise,
+  WorkoutBlockWithExercises,
+} from "@/types/api";
+
+/**
+ * Exercises added to a plan day on top of the generated plan, kept on the
+ * device. The workout tracks them like planned exercises, under ids below zero
+ * so they never reach the exercise log endpoints; their sets are kept here,
+ * counted in the workout summary and exercise history, and written up in the
+ * plan day's completion notes. Only the latest plan day's extras are kept.
+ */
+
+export interface ExtraExerciseParams {
+  exercise: Exercise;
+  /** Block to append to; without one it goes in an "Extra work" block */
+  workoutBlockId?: number | null;
+  sets: number;
+  reps: number;
+  weight?: number;
+  restTime?: number;
+}
+
+interface ExtraExercise extends ExtraExerciseParams {
+  id: number;
+  addedAt: string;
+}
+
+export interface ExtraExerciseLog {
+  sets: ExerciseSet[];
+  isSkipped: boolean;
+}
+
+interface StoredExtras {
+  planDayId: number;
+  exercises: ExtraExercise[];
+  /** By extra exercise id */
+  logs: Record<number, ExtraExerciseLog>;
+}
+
+const STORAGE_KEY = "extra_exercises";
+
+/** Id of the block holding extras that weren't added to a planned block */
+export const EXTRA_BLOCK_ID = -1;
+
+export const isExtraExercise = (planDayExerciseId: number) =>
+  planDayExerciseId < 0;
+
+async function loadExtras(planDayId: number): Promise<StoredExtras> {
+  const empty = { planDayId, exercises: [], logs: {} };
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!stored) return empty;
+
+    const parsed = JSON.parse(stored);
+    return parsed?.planDayId === planDayId && Array.isArray(parsed.exercises)
+      ? { ...empty, ...parsed }
+      : empty;
+  } catch (error) {
+    logger.error("Error loading extra exercises", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return empty;
+  }
+}
+
+async function saveExtras(extras: StoredExtras): Promise<boolean> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(extras));
+    // The workout summary and exercise history count extras
+    invalidateQueries(QUERY_TAGS.WORKOUT);
+    return true;
+  } catch (error) {
+    logger.error("Error saving extra exercises", {
+      error: error instanceof Error ? error.message : String(error),
+      planDayId: extras.planDayId,
+    });
+    return false;
+  }
+}
+
+/**
+ * Add an exercise to a plan day. Resolves to false if it couldn't be saved.
+ */
+export async function addExtraExercise(
+  planDayId: number,
+  params: ExtraExerciseParams
+): Promise<boolean> {
+  const extras = await loadExtras(planDayId);
+  const id = Math.min(0, ...extras.exercises.map((extra) => extra.id)) - 1;
+
+  return saveExtras({
+    ...extras,
+    exercises: [
+      ...extras.exercises,
+      { ...params, id, addedAt: new Date().toISOString() },
+    ],
+  });
+}
+
+const toBlockExercise = (
+  extra: ExtraExercise,
+  workoutBlockId: number,
+  order: number
+): WorkoutBlockWithExercise => ({
+  id: extra.id,
+  workoutBlockId,
+  exerciseId: extra.exercise.id,
+  sets: extra.sets,
+  reps: extra.reps,
+  weight: extra.weight,
+  restTime: extra.restTime,
+  completed: false,
+  order,
+  created_at: new Date(extra.addedAt),
+  updated_at: new Date(extra.addedAt),
+  exercise: extra.exercise,
+});
+
+/**
+ * The plan day with its extras at the end of the blocks they were added to,
+ * and the rest in an "Extra work" block after the planned ones
+ */
+export async function applyExtraExercises(
+  planDay: PlanDayWithBlocks
+): Promise<PlanDayWithBlocks> {
+  const { exercises } = await loadExtras(planDay.id);
+  if (exercises.length === 0) return planDay;
+
+  const blockIds = planDay.blocks.map((block) => block.id);
+  const blocks = planDay.blocks.map((block) => {
+    const added = exercises.filter(
+      (extra) => extra.workoutBlockId === block.id
+    );
+    return added.length > 0
+      ? {
+          ...block,
+          exercises: [
+            ...block.exercises,
+            ...added.map((extra, index) =>
+              toBlockExercise(
+                extra,
+                block.id,
+                block.exercises.length + index + 1
+              )
+            ),
+          ],
+        }
+      : block;
+  });
+
+  // Including extras whose block is no longer in the plan
+  const unplaced = exercises.filter(
+    (extra) =>
+      extra.workoutBlockId == null || !blockIds.includes(extra.workoutBlockId)
+  );
+  if (unplaced.length > 0) {
+    const extraBlock: WorkoutBlockWithExercises = {
+      id: EXTRA_BLOCK_ID,
+      blockType: "traditional",
+      blockName: "Extra work",
+      order: Math.max(0, ...blocks.map((block) => block.order || 0)) + 1,
+      created_at: new Date(unplaced[0].addedAt),
+      updated_at: new Date(unplaced[unplaced.length - 1].addedAt),
+      exercises: unplaced.map((extra, index) =>
+        toBlockExercise(extra, EXTRA_BLOCK_ID, index + 1)
+      ),
+    };
+    blocks.push(extraBlock);
+  }
+
+  return { ...planDay, blocks };
+}
+
+/**
+ * Keep what was done for an extra exercise, in place of anything kept for it
+ * before. Resolves to false if it couldn't be saved.
+ */
+export async function logExtraExercise(
+  planDayId: number,
+  planDayExerciseId: number,
+  log: ExtraExerciseLog
+): Promise<boolean> {
+  const extras = await loadExtras(planDayId);
+  return saveExtras({
+    ...extras,
+    logs: { ...extras.logs, [planDayExerciseId]: log },
+  });
+}
+
+/**
+ * What was done for the plan day's extras so far, by extra exercise id
+ */
+export async function getExtraExerciseLogs(
+  planDayId: number
+): Promise<Record<number, ExtraExerciseLog>> {
+  return (await loadExtras(planDayId)).logs;
+}
+
+const describeSet = ({ weight, reps }: ExerciseSet) =>
+  weight > 0 ? `${weight} lb x ${reps}` : `${reps} reps`;
+
+/**
+ * Plan day completion notes with the extras that were done written up after
+ * them, since the server has no logs for those. Weights are in pounds.
+ */
+export async function withExtraWorkNotes(
+  planDayId: number,
+  notes?: string
+): Promise<string | undefined> {
+  const { exercises, logs } = await loadExtras(planDayId);
+  const done = exercises.flatMap((extra) => {
+    const log = logs[extra.id];
+    const sets = getWorkingSets(log?.sets ?? []);
+    return log && !log.isSkipped && sets.length > 0
+      ? [`${extra.exercise.name} (${sets.map(describeSet).join(", ")})`]
+      : [];
+  });
+  if (done.length === 0) return notes;
+
+  const extraWork = `Extra work: ${done.join("; ")}.`;
+  return notes ? `${notes}\n\n${extraWork}` : extraWork;
+}
@@ -0,0 +1,247 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system";
+import { logger } from "./logger";
+import { fetchUserProfile } from "./profile";
+import { getPlanDayLog } from "./workouts";
+import {
+  HeartRateRecording,
+  HeartRateSample,
+  decodeBase64,
+  getHeartRateFileType,
+  parseCsv,
+  parseFit,
+  parseTcx,
+} from "./heartRateFiles";
+import { PlanDayLog } from "@/types/api";
+
+/**
+ * Heart rate imported from a chest strap or watch export. The file is parsed
+ * on the device, trimmed to the plan day's time window and only the summary
+ * (average, max and seconds in each zone) is kept, stored with the app by
+ * plan day since the plan day log can't be changed once it is written.
+ *
+ * Zones are percentages of an estimated max heart rate, which comes from the
+ * age on the member's profile.
+ */
+
+export const HEART_RATE_ZONES = [
+  { zone: 1, label: "Warm Up", minPercent: 50 },
+  { zone: 2, label: "Easy", minPercent: 60 },
+  { zone: 3, label: "Aerobic", minPercent: 70 },
+  { zone: 4, label: "Threshold", minPercent: 80 },
+  { zone: 5, label: "Max", minPercent: 90 },
+] as const;
+
+export interface HeartRateStats {
+  averageHeartRate: number;
+  maxHeartRate: number;
+  /** Seconds in zones 1-5 */
+  heartRateZones: number[];
+}
+
+export interface HeartRateFile {
+  uri: string;
+  name: string;
+}
+
+const STORAGE_KEY = "plan_day_heart_rate";
+
+// Used when the profile has no age
+const DEFAULT_AGE = 40;
+// Recordings often start a little before the workout and stop after it
+const WINDOW_SLACK_MS = 5 * 60 * 1000;
+// A gap longer than this is a dropout, not time spent at the last reading
+const MAX_SAMPLE_GAP_SECONDS = 10;
+
+let statsByPlanDay: Record<number, HeartRateStats> = {};
+let loadPromise: Promise<void> | null = null;
+
+/**
+ * Load imported heart rate from storage. Safe to call multiple times.
+ */
+export function initializeHeartRate(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (!stored) return;
+
+        const parsed = JSON.parse(stored);
+        if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+          statsByPlanDay = { ...parsed, ...statsByPlanDay };
+        }
+      } catch (error) {
+        logger.error("Error loading heart rate", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+const saveHeartRate = async () => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(statsByPlanDay));
+  } catch (error) {
+    logger.error("Error saving heart rate", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+/**
+ * Heart rate imported for a plan day, or null if there is none
+ */
+export async function getPlanDayHeartRate(
+  planDayId: number
+): Promise<HeartRateStats | null> {
+  await initializeHeartRate();
+  return statsByPlanDay[planDayId] ?? null;
+}
+
+/**
+ * Estimated max heart rate (Tanaka: 208 - 0.7 × age)
+ */
+export const getMaxHeartRate = (age?: number | null) =>
+  Math.round(208 - 0.7 * (age && age > 0 ? age : DEFAULT_AGE));
+
+/**
+ * The zone (1-5) a heart rate falls in, or 0 below zone 1
+ */
+export function getHeartRateZone(bpm: number, maxHeartRate: number): number {
+  const percent = (bpm / maxHeartRate) * 100;
+  for (let index = HEART_RATE_ZONES.length - 1; index >= 0; index--) {
+    if (percent >= HEART_RATE_ZONES[index].minPercent) {
+      return HEART_RATE_ZONES[index].zone;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Average, max and time-in-zone for samples sorted by time
+ */
+export function calculateHeartRateStats(
+  samples: HeartRateSample[],
+  maxHeartRate: number
+): HeartRateStats | null {
+  if (samples.length === 0) return null;
+
+  const heartRateZones = HEART_RATE_ZONES.map(() => 0);
+  samples.forEach((sample, index) => {
+    const next = samples[index + 1];
+    const seconds = next
+      ? Math.min((next.time - sample.time) / 1000, MAX_SAMPLE_GAP_SECONDS)
+      : 1;
+    const zone = getHeartRateZone(sample.bpm, maxHeartRate);
+    if (zone > 0) heartRateZones[zone - 1] += seconds;
+  });
+
+  return {
+    averageHeartRate: Math.round(
+      samples.reduce((sum, sample) => sum + sample.bpm, 0) / samples.length
+    ),
+    maxHeartRate: Math.max(...samples.map((sample) => sample.bpm)),
+    heartRateZones: heartRateZones.map(Math.round),
+  };
+}
+
+/**
+ * The part of a recording that overlaps the plan day. The log is written when
+ * the workout finishes, so the window runs back from `createdAt` by the
+ * workout's length. Recordings without clock times are assumed to start when
+ * the workout did.
+ */
+export function matchSamplesToLog(
+  recording: HeartRateRecording,
+  log: Pick<PlanDayLog, "createdAt" | "totalTimeMinutes">
+): HeartRateSample[] {
+  const end = new Date(log.createdAt).getTime();
+  const start = end - (log.totalTimeMinutes ?? 0) * 60 * 1000;
+  const sorted = [...recording.samples].sort((a, b) => a.time - b.time);
+
+  if (recording.relative) {
+    const offset = start - (sorted[0]?.time ?? 0);
+    return sorted.map((sample) => ({ ...sample, time: sample.time + offset }));
+  }
+
+  return sorted.filter(
+    (sample) =>
+      sample.time >= start - WINDOW_SLACK_MS &&
+      sample.time <= end + WINDOW_SLACK_MS
+  );
+}
+
+async function readRecording(
+  file: HeartRateFile
+): Promise<HeartRateRecording | null> {
+  const type = getHeartRateFileType(file.name);
+  if (!type) return null;
+
+  if (type === "fit") {
+    const base64 = await FileSystem.readAsStringAsync(file.uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return parseFit(decodeBase64(base64));
+  }
+
+  const text = await FileSystem.readAsStringAsync(file.uri);
+  return type === "tcx" ? parseTcx(text) : parseCsv(text);
+}
+
+/**
+ * Read a TCX, FIT or CSV export and keep its heart-rate summary for the
+ * plan day
+ */
+export async function importHeartRateFile(
+  planDayId: number,
+  file: HeartRateFile
+): Promise<{ success: boolean; error?: string; stats?: HeartRateStats }> {
+  try {
+    const log = await getPlanDayLog(planDayId);
+    if (!log) {
+      return {
+        success: false,
+        error: "Complete the workout before importing heart rate.",
+      };
+    }
+
+    const recording = await readRecording(file);
+    if (!recording) {
+      return {
+        success: false,
+        error: "Choose a TCX, FIT or CSV file.",
+      };
+    }
+    if (recording.samples.length === 0) {
+      return {
+        success: false,
+        error: "No heart-rate readings were found in this file.",
+      };
+    }
+
+    const profile = await fetchUserProfile();
+    const stats = calculateHeartRateStats(
+      matchSamplesToLog(recording, log),
+      getMaxHeartRate(profile?.age)
+    );
+    if (!stats) {
+      return {
+        success: false,
+        error: "None of the readings in this file fall during this workout.",
+      };
+    }
+
+    await initializeHeartRate();
+    statsByPlanDay = { ...statsByPlanDay, [planDayId]: stats };
+    await saveHeartRate();
+    return { success: true, stats };
+  } catch (error) {
+    console.error(
+      `Error importing heart rate for plan day ${planDayId}:`,
+      error
+    );
+    return { success: false, error: "Could not read this file." };
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * Heart-rate samples read out of files exported from a chest strap or watch.
+ * TCX and FIT files carry the time of every sample. CSV exports vary: a time
+ * column may hold clock times or only the time since the recording started,
+ * in which case the samples are marked `relative` and placed by the caller.
+ */
+
+export interface HeartRateSample {
+  /** Milliseconds since the epoch, or since the recording started if relative */
+  time: number;
+  bpm: number;
+}
+
+export interface HeartRateRecording {
+  samples: HeartRateSample[];
+  relative: boolean;
+}
+
+export type HeartRateFileType = "tcx" | "fit" | "csv";
+
+// Anything outside this is a sensor glitch rather than a heart rate
+const MIN_BPM = 25;
+const MAX_BPM = 250;
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET = 631065600;
+const FIT_RECORD_MESSAGE = 20;
+const FIT_TIMESTAMP_FIELD = 253;
+const FIT_HEART_RATE_FIELD = 3;
+
+const isValidBpm = (bpm: number) =>
+  Number.isFinite(bpm) && bpm >= MIN_BPM && bpm <= MAX_BPM;
+
+/**
+ * The kind of export a file is, from its name
+ */
+export function getHeartRateFileType(name: string): HeartRateFileType | null {
+  const extension = name.split(".").pop()?.toLowerCase();
+  return extension === "tcx" || extension === "fit" || extension === "csv"
+    ? extension
+    : null;
+}
+
+/**
+ * Trackpoints with a heart rate from a Garmin Training Center (TCX) file
+ */
+export function parseTcx(text: string): HeartRateRecording {
+  const samples: HeartRateSample[] = [];
+  const trackpoints = text.match(/<Trackpoint\b[\s\S]*?<\/Trackpoint>/g) ?? [];
+
+  trackpoints.forEach((trackpoint) => {
+    const time = trackpoint.match(/<Time>([^<]+)<\/Time>/)?.[1];
+    const bpm = trackpoint.match(
+      /<HeartRateBpm\b[\s\S]*?<Value>\s*(\d+)\s*<\/Value>/
+    )?.[1];
+    if (!time || !bpm) return;
+
+    const timestamp = Date.parse(time.trim());
+    if (!Number.isNaN(timestamp) && isValidBpm(Number(bpm))) {
+      samples.push({ time: timestamp, bpm: Number(bpm) });
+    }
+  });
+
+  return { samples, relative: false };
+}
+
+const splitCsvLine = (line: string, delimiter: string) =>
+  line.split(delimiter).map((cell) => cell.trim().replace(/^"|"$/g, ""));
+
+// "1:02:03", "02:03" or "123.5" as seconds; null for anything else
+function parseElapsed(value: string): number | null {
+  if (/^\d+(\.\d+)?$/.test(value)) return Number(value);
+  const parts = value.split(":");
+  if (parts.length < 2 || parts.length > 3) return null;
+  if (!parts.every((part) => /^\d+(\.\d+)?$/.test(part))) return null;
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+/**
+ * Samples from a CSV export with a heart-rate column ("heart rate", "hr" or
+ * "bpm") and a time column. Times can be dates, epoch seconds or
+ * milliseconds, or the time elapsed since the recording started.
+ */
+export function parseCsv(text: string): HeartRateRecording {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  const empty = { samples: [], relative: false };
+
+  // Exports often put a few lines of summary above the samples
+  const headerIndex = lines.findIndex((line) =>
+    /heart\s*rate|\bhr\b|\bbpm\b/i.test(line)
+  );
+  if (headerIndex === -1) return empty;
+
+  const header = lines[headerIndex];
+  const delimiter = header.includes(";") && !header.includes(",") ? ";" : ",";
+  const columns = splitCsvLine(header, delimiter).map((column) =>
+    column.toLowerCase()
+  );
+  const bpmColumn = columns.findIndex((column) =>
+    /heart\s*rate|^hr\b|\bbpm\b/.test(column)
+  );
+  const timeColumn = columns.findIndex((column) =>
+    /time|date|^ts$/.test(column)
+  );
+  if (bpmColumn === -1 || timeColumn === -1) return empty;
+
+  const rows = lines
+    .slice(headerIndex + 1)
+    .map((line) => splitCsvLine(line, delimiter))
+    .filter((cells) => isValidBpm(Number(cells[bpmColumn])));
+  if (rows.length === 0) return empty;
+
+  // Decide from the first row whether times are absolute or elapsed
+  const first = rows[0][timeColumn] ?? "";
+  const firstElapsed = parseElapsed(first);
+  // Epoch values are far larger than any recording's length
+  const isEpoch = firstElapsed !== null && firstElapsed > 1e9;
+  const relative = firstElapsed !== null && !isEpoch;
+
+  const samples = rows.flatMap((cells): HeartRateSample[] => {
+    const value = cells[timeColumn] ?? "";
+    let time: number;
+    if (relative) {
+      const seconds = parseElapsed(value);
+      if (seconds === null) return [];
+      time = seconds * 1000;
+    } else if (isEpoch) {
+      const epoch = Number(value);
+      // Millisecond epochs have 13 digits
+      time = epoch > 1e12 ? epoch : epoch * 1000;
+    } else {
+      time = Date.parse(value);
+    }
+    return Number.isNaN(time)
+      ? []
+      : [{ time, bpm: Number(cells[bpmColumn]) }];
+  });
+
+  return { samples, relative };
+}
+
+/**
+ * Heart rate from the record messages of a Garmin FIT activity file
+ */
+export function parseFit(bytes: Uint8Array): HeartRateRecording {
+  const empty = { samples: [], relative: false };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 12) return empty;
+
+  const headerSize = bytes[0];
+  const signature = String.fromCharCode(...bytes.slice(8, 12));
+  if (signature !== ".FIT") return empty;
+
+  const end = Math.min(bytes.length, headerSize + view.getUint32(4, true));
+  const definitions = new Map<
+    number,
+    {
+      littleEndian: boolean;
+      globalMessage: number;
+      fields: Array<{ number: number; size: number }>;
+      developerSize: number;
+    }
+  >();
+  const samples: HeartRateSample[] = [];
+  let lastTimestamp = 0;
+  let offset = headerSize;
+
+  const readUint = (at: number, size: number, littleEndian: boolean) => {
+    if (size === 1) return view.getUint8(at);
+    if (size === 2) return view.getUint16(at, littleEndian);
+    if (size === 4) return view.getUint32(at, littleEndian);
+    return null;
+  };
+
+  while (offset < end) {
+    const recordHeader = bytes[offset++];
+    let localType: number;
+    let compressedTimestamp: number | null = null;
+
+    if (recordHeader & 0x80) {
+      // Compressed timestamp header: a data message with a 5-bit time offset
+      localType = (recordHeader >> 5) & 0x03;
+      const timeOffset = recordHeader & 0x1f;
+      compressedTimestamp =
+        (lastTimestamp & ~0x1f) +
+        timeOffset +
+        (timeOffset < (lastTimestamp & 0x1f) ? 0x20 : 0);
+    } else {
+      localType = recordHeader & 0x0f;
+
+      if (recordHeader & 0x40) {
+        // Definition message
+        const littleEndian = bytes[offset + 1] === 0;
+        const globalMessage = view.getUint16(offset + 2, littleEndian);
+        const fieldCount = bytes[offset + 4];
+        offset += 5;
+        const fields = Array.from({ length: fieldCount }, (_, index) => ({
+          number: bytes[offset + index * 3],
+          size: bytes[offset + index * 3 + 1],
+        }));
+        offset += fieldCount * 3;
+
+        let developerSize = 0;
+        if (recordHeader & 0x20) {
+          const developerCount = bytes[offset++];
+          for (let index = 0; index < developerCount; index++) {
+            developerSize += bytes[offset + index * 3 + 1];
+          }
+          offset += developerCount * 3;
+        }
+        definitions.set(localType, {
+          littleEndian,
+          globalMessage,
+          fields,
+          developerSize,
+        });
+        continue;
+      }
+    }
+
+    const definition = definitions.get(localType);
+    // Without its definition a message's length is unknown
+    if (!definition) break;
+
+    let timestamp = compressedTimestamp;
+    let bpm: number | null = null;
+    definition.fields.forEach((field) => {
+      if (offset + field.size > end) return;
+      if (field.number === FIT_TIMESTAMP_FIELD) {
+        timestamp = readUint(offset, field.size, definition.littleEndian);
+      } else if (
+        definition.globalMessage === FIT_RECORD_MESSAGE &&
+        field.number === FIT_HEART_RATE_FIELD
+      ) {
+        bpm = readUint(offset, field.size, definition.littleEndian);
+      }
+      offset += field.size;
+    });
+    offset += definition.developerSize;
+
+    if (timestamp !== null) lastTimestamp = timestamp;
+    if (
+      definition.globalMessage === FIT_RECORD_MESSAGE &&
+      timestamp !== null &&
+      bpm !== null &&
+      isValidBpm(bpm)
+    ) {
+      samples.push({
+        time: (timestamp + FIT_EPOCH_OFFSET) * 1000,
+        bpm,
+      });
+    }
+  }
+
+  return { samples, relative: false };
+}
+
+/**
+ * Bytes of a base64 string, for reading binary files
+ */
+export function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s/g, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
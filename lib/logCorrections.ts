@@ -0,0 +1,243 @@
+import { getCurrentUser } from "./auth";
+import { checkForRecords } from "./personalRecords";
+import {
+  fetchActiveWorkout,
+  fetchWorkoutHistory,
+  getExerciseLogs,
+  orderLogs,
+  updateExerciseLog,
+} from "./workouts";
+import { isCircuitBlock } from "@/utils/circuitUtils";
+import { formatDateAsString } from "../utils";
+import { ExerciseLog } from "@/types/api";
+
+/**
+ * Corrections to a plan day's submitted exercise logs, made from its history
+ * view. Edits are collected on a copy of each log, and saving updates each
+ * changed log in place so the server's volume and records follow. Weights are
+ * in pounds.
+ */
+
+export interface EditableSet {
+  /** Null until a set added here is saved */
+  id: number | null;
+  roundNumber: number;
+  setNumber: number;
+  weight: number;
+  reps: number;
+  rpe?: number;
+  rir?: number;
+  isWarmup: boolean;
+}
+
+export interface EditableLog {
+  id: number;
+  isSkipped: boolean;
+  sets: EditableSet[];
+}
+
+export interface EditableExercise {
+  planDayExerciseId: number;
+  exerciseId: number;
+  name: string;
+  blockName: string;
+  isCircuit: boolean;
+  /** The logs that count: one per round for circuits, otherwise one */
+  logs: EditableLog[];
+}
+
+export interface EditablePlanDay {
+  planDayId: number;
+  name: string;
+  /** Plan day date (YYYY-MM-DD) */
+  date: string;
+  exercises: EditableExercise[];
+}
+
+/**
+ * The logs that stand for what was done. An exercise logged again, e.g. after
+ * a resumed session, has more than one, and only the latest counts: per round
+ * for circuits, which log each round separately, and overall for other
+ * exercises. A skip logged last stands alone.
+ */
+export function getCurrentLogs(
+  logs: ExerciseLog[],
+  isCircuit: boolean
+): ExerciseLog[] {
+  const ordered = orderLogs(logs);
+  const latest = ordered[ordered.length - 1];
+  if (!latest || latest.isSkipped) return latest ? [latest] : [];
+
+  const withSets = ordered.filter(
+    (log) => !log.isSkipped && (log.sets ?? []).length > 0
+  );
+  if (!isCircuit) return withSets.slice(-1);
+
+  const latestByRound = new Map<number, ExerciseLog>();
+  withSets.forEach((log) =>
+    (log.sets ?? []).forEach((set) => latestByRound.set(set.roundNumber, log))
+  );
+  const current = new Set(latestByRound.values());
+  return withSets.filter((log) => current.has(log));
+}
+
+export function toEditableLog(log: ExerciseLog): EditableLog {
+  return {
+    id: log.id,
+    isSkipped: log.isSkipped,
+    sets: (log.sets ?? [])
+      .map((set) => ({
+        id: set.id,
+        roundNumber: set.roundNumber,
+        setNumber: set.setNumber,
+        weight: set.weight ?? 0,
+        reps: set.reps ?? 0,
+        ...(typeof set.rpe === "number" ? { rpe: set.rpe } : {}),
+        ...(typeof set.rir === "number" ? { rir: set.rir } : {}),
+        isWarmup: !!set.isWarmup,
+      }))
+      .sort(
+        (a, b) => a.roundNumber - b.roundNumber || a.setNumber - b.setNumber
+      ),
+  };
+}
+
+/**
+ * A plan day's exercises with every log submitted for them, or null if the
+ * plan day can't be found
+ */
+export async function fetchEditablePlanDay(
+  planDayId: number,
+  signal?: AbortSignal
+): Promise<EditablePlanDay | null> {
+  try {
+    const user = await getCurrentUser();
+    if (!user) return null;
+
+    const [activeWorkout, history] = await Promise.all([
+      fetchActiveWorkout(false, signal),
+      fetchWorkoutHistory(user.id, signal),
+    ]);
+    const planDay = [
+      ...(activeWorkout ? [activeWorkout] : []),
+      ...(history ?? []),
+    ]
+      .flatMap((workout) => workout.planDays)
+      .find((day) => day.id === planDayId);
+    if (!planDay) return null;
+
+    const blocks = [...planDay.blocks].sort(
+      (a, b) => (a.order || 0) - (b.order || 0)
+    );
+    const exercises = await Promise.all(
+      blocks.flatMap((block) =>
+        block.exercises.map(async (exercise): Promise<EditableExercise> => {
+          const isCircuit = isCircuitBlock(block.blockType);
+          const logs = await getExerciseLogs(exercise.id);
+          return {
+            planDayExerciseId: exercise.id,
+            exerciseId: exercise.exerciseId,
+            name: exercise.exercise.name,
+            blockName: block.blockName || "",
+            isCircuit,
+            logs: getCurrentLogs(logs, isCircuit).map(toEditableLog),
+          };
+        })
+      )
+    );
+
+    return {
+      planDayId,
+      name: planDay.name,
+      date: formatDateAsString(planDay.date),
+      exercises,
+    };
+  } catch (error) {
+    console.error(`Error loading logs for plan day ${planDayId}:`, error);
+    return null;
+  }
+}
+
+const isSetChanged = (original: EditableSet, edited: EditableSet) =>
+  original.weight !== edited.weight ||
+  original.reps !== edited.reps ||
+  original.rpe !== edited.rpe ||
+  original.rir !== edited.rir ||
+  original.isWarmup !== edited.isWarmup;
+
+const isLogChanged = (original: EditableLog, edited: EditableLog) =>
+  original.isSkipped !== edited.isSkipped ||
+  original.sets.length !== edited.sets.length ||
+  edited.sets.some(
+    (set, index) =>
+      set.id !== original.sets[index].id ||
+      isSetChanged(original.sets[index], set)
+  );
+
+async function saveLog(edited: EditableLog): Promise<boolean> {
+  const saved = await updateExerciseLog(edited.id, {
+    isSkipped: edited.isSkipped,
+    isComplete: true,
+    sets: edited.sets.map((set, index) => ({
+      roundNumber: set.roundNumber,
+      setNumber: index + 1,
+      weight: set.weight,
+      reps: set.reps,
+      ...(set.rpe !== undefined ? { rpe: set.rpe } : {}),
+      ...(set.rir !== undefined ? { rir: set.rir } : {}),
+      isWarmup: set.isWarmup,
+    })),
+  });
+  return saved !== null;
+}
+
+/**
+ * Send an exercise's corrected logs. Records kept on the device are checked
+ * again afterwards, so a typo that set one no longer holds it.
+ */
+export async function saveExerciseCorrections(
+  original: EditableExercise,
+  edited: EditableExercise
+): Promise<{ success: boolean; error?: string }> {
+  const changed = edited.logs.filter((log) => {
+    const before = original.logs.find((entry) => entry.id === log.id);
+    return before && isLogChanged(before, log);
+  });
+  // A log with no sets counts for nothing; it should stay skipped instead
+  if (changed.some((log) => !log.isSkipped && log.sets.length === 0)) {
+    return {
+      success: false,
+      error: "Add at least one set, or leave the exercise skipped.",
+    };
+  }
+
+  try {
+    const saved = await Promise.all(changed.map(saveLog));
+
+    if (!edited.isCircuit) {
+      await checkForRecords(
+        {
+          exerciseId: edited.exerciseId,
+          planDayExerciseId: edited.planDayExerciseId,
+          name: edited.name,
+        },
+        edited.logs
+          .filter((log) => !log.isSkipped)
+          .flatMap((log) => log.sets)
+      );
+    }
+
+    return saved.every(Boolean)
+      ? { success: true }
+      : {
+          success: false,
+          error: "Some changes couldn't be saved. Pull to refresh and retry.",
+        };
+  } catch (error) {
+    console.error(
+      `Error saving corrections for exercise ${edited.planDayExerciseId}:`,
+      error
+    );
+    return { success: false, error: "Failed to save changes." };
+  }
+}
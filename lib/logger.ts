@@ -2,6 +2,7 @@
  * Centralized logging utility for production-grade logging
  * Provides structured logging with proper levels and context
  */
+import { ApiError } from "./apiErrors";
 
 export enum LogLevel {
   ERROR = "error",
@@ -140,7 +141,12 @@ class Logger {
       method,
     };
 
-    if (error instanceof Error) {
+    if (error instanceof ApiError) {
+      errorContext.error = error.message;
+      errorContext.errorType = error.name;
+      errorContext.status = error.status;
+      if (error.code) errorContext.code = error.code;
+    } else if (error instanceof Error) {
       errorContext.error = error.message;
       errorContext.stack = error.stack;
     } else if (typeof error === "string") {
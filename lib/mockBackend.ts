@@ -0,0 +1,1841 @@
+import { API_URL } from "../config";
+import { logger } from "./logger";
+import { getWorkingSets } from "./warmup";
+import {
+  MOCK_DAY_TEMPLATES,
+  MOCK_DEMO_PROFILE,
+  MOCK_DEMO_USER,
+  MOCK_EXERCISES,
+  MOCK_REST_DAY_TEMPLATE,
+  MOCK_TRAINING_WEEKDAYS,
+  MockDayTemplate,
+  MockExercise,
+} from "./mockFixtures";
+import { formatDateAsString, getTodayString } from "../utils";
+import { TIMEOUTS } from "@/constants";
+import {
+  ExerciseLog,
+  ExerciseSetLog,
+  PlanDayLog,
+  WorkoutLog,
+} from "@/types/api/logs.types";
+
+/**
+ * In-process stand-in for the backend, used when EXPO_PUBLIC_USE_MOCK_API is
+ * set. It answers the endpoints the app calls with fixture data and keeps the
+ * effects of writes (logged sets, completed days, generation jobs) in memory,
+ * so the app behaves end to end without a server. State resets whenever the
+ * JS bundle reloads.
+ */
+
+interface MockUser {
+  id: number;
+  email: string;
+  name: string;
+}
+
+interface MockBlockExercise {
+  id: number;
+  workoutBlockId: number;
+  exerciseId: number;
+  sets?: number;
+  reps?: number;
+  weight?: number;
+  duration?: number;
+  restTime?: number;
+  completed: boolean;
+  notes?: string;
+  order: number;
+  created_at: string;
+  updated_at: string;
+  exercise: MockExercise;
+}
+
+interface MockBlock {
+  id: number;
+  blockType: string;
+  blockName: string;
+  rounds?: number;
+  timeCapMinutes?: number;
+  instructions?: string;
+  order: number;
+  created_at: string;
+  updated_at: string;
+  exercises: MockBlockExercise[];
+}
+
+interface MockPlanDay {
+  id: number;
+  workoutId: number;
+  date: string;
+  name: string;
+  description: string;
+  instructions: string;
+  dayNumber: number;
+  isComplete: boolean;
+  created_at: string;
+  updated_at: string;
+  blocks: MockBlock[];
+}
+
+interface MockWorkout {
+  id: number;
+  userId: number;
+  name: string;
+  description: string;
+  startDate: string;
+  endDate: string;
+  promptId: number;
+  isActive: boolean;
+  completed: boolean;
+  created_at: string;
+  updated_at: string;
+  planDays: MockPlanDay[];
+}
+
+type MockJobKind = "generate" | "regenerate" | "daily" | "rest-day";
+
+interface MockJob {
+  id: number;
+  userId: number;
+  kind: MockJobKind;
+  status: string;
+  progress: number;
+  error?: string;
+  workoutId?: number;
+  createdAt: string;
+  completedAt?: string;
+  planDayId?: number;
+  date?: string;
+}
+
+interface MockState {
+  nextId: number;
+  users: MockUser[];
+  // Profiles are stored as sent, like the backend's JSON columns
+  profiles: Map<number, Record<string, any>>;
+  workouts: MockWorkout[];
+  exerciseLogs: ExerciseLog[];
+  planDayLogs: PlanDayLog[];
+  workoutLogs: Map<number, WorkoutLog>;
+  jobs: Map<number, MockJob>;
+  // User who most recently asked for a login code
+  pendingUserId: number | null;
+}
+
+interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: any;
+  headers: Record<string, string>;
+}
+
+interface MockResult {
+  status: number;
+  body: unknown;
+}
+
+type RouteHandler = (request: MockRequest, params: number[]) => MockResult;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+  // Routes that can be called without a token
+  public?: boolean;
+}
+
+// ==================== State ====================
+
+let state = createInitialState();
+
+function nextId(): number {
+  return state.nextId++;
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function ok(body: Record<string, unknown> = {}): MockResult {
+  return { status: 200, body: { success: true, ...body } };
+}
+
+function fail(status: number, error: string, code?: string): MockResult {
+  return { status, body: { success: false, error, ...(code ? { code } : {}) } };
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return formatDateAsString(new Date(year, month - 1, day + days));
+}
+
+function startOfWeek(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const weekday = new Date(year, month - 1, day).getDay();
+  return addDays(date, -weekday);
+}
+
+function getExercise(exerciseId: number): MockExercise {
+  return (
+    MOCK_EXERCISES.find((exercise) => exercise.id === exerciseId) ??
+    MOCK_EXERCISES[0]
+  );
+}
+
+function buildPlanDay(
+  workoutId: number,
+  date: string,
+  dayNumber: number,
+  template: MockDayTemplate
+): MockPlanDay {
+  const timestamp = now();
+  return {
+    id: nextId(),
+    workoutId,
+    date,
+    name: template.name,
+    description: template.description,
+    instructions: template.instructions,
+    dayNumber,
+    isComplete: false,
+    created_at: timestamp,
+    updated_at: timestamp,
+    blocks: template.blocks.map((blockTemplate, blockIndex) => {
+      const blockId = nextId();
+      return {
+        id: blockId,
+        blockType: blockTemplate.blockType,
+        blockName: blockTemplate.blockName,
+        rounds: blockTemplate.rounds,
+        timeCapMinutes: blockTemplate.timeCapMinutes,
+        instructions: blockTemplate.instructions,
+        order: blockIndex + 1,
+        created_at: timestamp,
+        updated_at: timestamp,
+        exercises: blockTemplate.exercises.map((entry, exerciseIndex) => ({
+          ...entry,
+          id: nextId(),
+          workoutBlockId: blockId,
+          completed: false,
+          order: exerciseIndex + 1,
+          created_at: timestamp,
+          updated_at: timestamp,
+          exercise: getExercise(entry.exerciseId),
+        })),
+      };
+    }),
+  };
+}
+
+// A week-long plan starting on the Sunday on or before `weekStart`
+function buildWorkout(
+  userId: number,
+  weekStart: string,
+  name = "Weekly Strength & Mobility Plan",
+  templateOffset = 0
+): MockWorkout {
+  const workoutId = nextId();
+  const startDate = startOfWeek(weekStart);
+  const timestamp = now();
+
+  return {
+    id: workoutId,
+    userId,
+    name,
+    description: "A balanced week of strength, conditioning and mobility.",
+    startDate,
+    endDate: addDays(startDate, 6),
+    promptId: 1,
+    isActive: true,
+    completed: false,
+    created_at: timestamp,
+    updated_at: timestamp,
+    planDays: MOCK_TRAINING_WEEKDAYS.map((weekday, index) =>
+      buildPlanDay(
+        workoutId,
+        addDays(startDate, weekday),
+        index + 1,
+        MOCK_DAY_TEMPLATES[(index + templateOffset) % MOCK_DAY_TEMPLATES.length]
+      )
+    ),
+  };
+}
+
+function createInitialState(): MockState {
+  const initial: MockState = {
+    nextId: 1000,
+    users: [{ ...MOCK_DEMO_USER }],
+    profiles: new Map([[MOCK_DEMO_USER.id, { ...MOCK_DEMO_PROFILE }]]),
+    workouts: [],
+    exerciseLogs: [],
+    planDayLogs: [],
+    workoutLogs: new Map(),
+    jobs: new Map(),
+    pendingUserId: null,
+  };
+  return initial;
+}
+
+// Give the demo account last week's finished plan and a current plan with the
+// days before today completed, so history, search and charts have data
+function seedDemoHistory(): void {
+  const today = getTodayString();
+  const previous = buildWorkout(
+    MOCK_DEMO_USER.id,
+    addDays(today, -7),
+    "Foundations Week",
+    1
+  );
+  previous.isActive = false;
+  const current = buildWorkout(MOCK_DEMO_USER.id, today);
+  state.workouts.push(previous, current);
+
+  [previous, current].forEach((workout) => {
+    workout.planDays
+      .filter((planDay) => planDay.date < today)
+      .forEach((planDay) => {
+        allExercises(planDay).forEach((exercise) =>
+          logPlannedExercise(exercise, planDay.date)
+        );
+        completePlanDay(planDay, {}, `${planDay.date}T18:00:00.000Z`);
+      });
+  });
+  previous.completed = true;
+}
+
+/**
+ * Drop everything the mock backend has recorded and start from the fixtures
+ */
+export function resetMockBackend(): void {
+  state = createInitialState();
+  seedDemoHistory();
+}
+
+seedDemoHistory();
+
+// ==================== Lookups ====================
+
+function allExercises(planDay: MockPlanDay): MockBlockExercise[] {
+  return planDay.blocks.flatMap((block) => block.exercises);
+}
+
+function userWorkouts(userId: number): MockWorkout[] {
+  return state.workouts.filter((workout) => workout.userId === userId);
+}
+
+function activeWorkout(userId: number): MockWorkout | undefined {
+  return userWorkouts(userId).find((workout) => workout.isActive);
+}
+
+function userPlanDays(userId: number): MockPlanDay[] {
+  return userWorkouts(userId)
+    .flatMap((workout) => workout.planDays)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function findPlanDay(
+  planDayId: number
+): { workout: MockWorkout; planDay: MockPlanDay } | null {
+  for (const workout of state.workouts) {
+    const planDay = workout.planDays.find((day) => day.id === planDayId);
+    if (planDay) return { workout, planDay };
+  }
+  return null;
+}
+
+function findPlanDayExercise(planDayExerciseId: number): {
+  workout: MockWorkout;
+  planDay: MockPlanDay;
+  block: MockBlock;
+  exercise: MockBlockExercise;
+} | null {
+  for (const workout of state.workouts) {
+    for (const planDay of workout.planDays) {
+      for (const block of planDay.blocks) {
+        const exercise = block.exercises.find(
+          (entry) => entry.id === planDayExerciseId
+        );
+        if (exercise) return { workout, planDay, block, exercise };
+      }
+    }
+  }
+  return null;
+}
+
+function findWorkout(workoutId: number): MockWorkout | undefined {
+  return state.workouts.find((workout) => workout.id === workoutId);
+}
+
+function logsForExercise(planDayExerciseId: number): ExerciseLog[] {
+  return state.exerciseLogs.filter(
+    (log) => log.planDayExerciseId === planDayExerciseId
+  );
+}
+
+function dayCompletionRate(planDay: MockPlanDay): number {
+  const exercises = allExercises(planDay);
+  if (planDay.isComplete) return 100;
+  if (exercises.length === 0) return 0;
+  const completed = exercises.filter((exercise) => exercise.completed).length;
+  return Math.round((completed / exercises.length) * 100);
+}
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+}
+
+// ==================== Mutations ====================
+
+function getWorkoutLog(workoutId: number): WorkoutLog {
+  const existing = state.workoutLogs.get(workoutId);
+  if (existing) return existing;
+
+  const workout = findWorkout(workoutId);
+  const timestamp = now();
+  const log: WorkoutLog = {
+    id: nextId(),
+    workoutId,
+    totalTimeMinutes: 0,
+    daysCompleted: 0,
+    totalDays: workout?.planDays.length ?? 0,
+    totalVolume: 0,
+    averageRating: null,
+    completedExercises: [],
+    completedBlocks: [],
+    completedDays: [],
+    isComplete: false,
+    isActive: true,
+    notes: null,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+  state.workoutLogs.set(workoutId, log);
+  return log;
+}
+
+function markExerciseComplete(
+  workoutId: number,
+  planDayExerciseId: number
+): WorkoutLog {
+  const log = getWorkoutLog(workoutId);
+  const completed = log.completedExercises ?? [];
+  if (!completed.includes(planDayExerciseId)) {
+    log.completedExercises = [...completed, planDayExerciseId];
+  }
+
+  const match = findPlanDayExercise(planDayExerciseId);
+  if (match) {
+    match.exercise.completed = true;
+    const blockDone = match.block.exercises.every((entry) => entry.completed);
+    const blocks = log.completedBlocks ?? [];
+    if (blockDone && !blocks.includes(match.block.id)) {
+      log.completedBlocks = [...blocks, match.block.id];
+    }
+  }
+  log.updatedAt = now();
+  return log;
+}
+
+function toSetLogs(
+  rawSets: any[],
+  exerciseLogId: number,
+  createdAt: string
+): ExerciseSetLog[] {
+  return rawSets.map((set, index) => ({
+    id: nextId(),
+    exerciseLogId,
+    roundNumber: Number(set.roundNumber) || 1,
+    setNumber: Number(set.setNumber) || index + 1,
+    weight: set.weight ?? null,
+    reps: set.reps ?? null,
+    restAfter: set.restAfter ?? null,
+    rpe: typeof set.rpe === "number" ? set.rpe : null,
+    rir: typeof set.rir === "number" ? set.rir : null,
+    isWarmup: !!set.isWarmup,
+    createdAt,
+  }));
+}
+
+function createExerciseLog(body: any, createdAt = now()): ExerciseLog {
+  const logId = nextId();
+  const rawSets: any[] = Array.isArray(body.sets) ? body.sets : [];
+  const sets = toSetLogs(rawSets, logId, createdAt);
+  const log: ExerciseLog = {
+    id: logId,
+    planDayExerciseId: Number(body.planDayExerciseId),
+    durationCompleted: body.durationCompleted ?? null,
+    timeTaken: body.timeTaken ?? null,
+    isComplete: !!body.isComplete,
+    isSkipped: false,
+    notes: body.notes ?? null,
+    difficulty: body.difficulty ?? null,
+    rating: body.rating ?? null,
+    createdAt,
+    updatedAt: createdAt,
+    sets,
+  };
+  state.exerciseLogs.push(log);
+
+  const match = findPlanDayExercise(log.planDayExerciseId);
+  if (match) {
+    const workoutLog = getWorkoutLog(match.workout.id);
+    workoutLog.totalVolume =
+      (workoutLog.totalVolume ?? 0) + volumeOf(log.sets ?? []);
+    if (log.isComplete) {
+      markExerciseComplete(match.workout.id, match.exercise.id);
+    }
+  }
+  return log;
+}
+
+// Log an exercise exactly as prescribed (used to seed history)
+function logPlannedExercise(
+  exercise: MockBlockExercise,
+  date: string
+): void {
+  const setCount = exercise.sets ?? 1;
+  createExerciseLog(
+    {
+      planDayExerciseId: exercise.id,
+      isComplete: true,
+      durationCompleted: exercise.duration,
+      sets: Array.from({ length: setCount }, (_, index) => ({
+        roundNumber: 1,
+        setNumber: index + 1,
+        weight: exercise.weight ?? 0,
+        reps: exercise.reps ?? 0,
+      })),
+    },
+    `${date}T17:30:00.000Z`
+  );
+}
+
+function completePlanDay(
+  planDay: MockPlanDay,
+  body: any,
+  createdAt = now()
+): PlanDayLog {
+  planDay.isComplete = true;
+  planDay.updated_at = createdAt;
+
+  const exercises = allExercises(planDay);
+  const volume = exercises.reduce(
+    (total, exercise) =>
+      total +
+      logsForExercise(exercise.id).reduce(
+        (sum, log) => sum + volumeOf(log.sets ?? []),
+        0
+      ),
+    0
+  );
+  const log: PlanDayLog = {
+    id: nextId(),
+    planDayId: planDay.id,
+    totalTimeMinutes: body.totalTimeSeconds
+      ? Math.round(body.totalTimeSeconds / 60)
+      : 45,
+    blocksCompleted: body.blocksCompleted ?? planDay.blocks.length,
+    exercisesCompleted:
+      body.exercisesCompleted ??
+      exercises.filter((exercise) => exercise.completed).length,
+    totalVolume: volume,
+    averageHeartRate: null,
+    maxHeartRate: null,
+    isComplete: true,
+    isSkipped: false,
+    notes: body.notes ?? null,
+    difficulty: body.difficulty ?? null,
+    rating: typeof body.rating === "number" ? body.rating : null,
+    mood: body.mood ?? null,
+    createdAt,
+    updatedAt: createdAt,
+  };
+  state.planDayLogs.push(log);
+
+  const workoutLog = getWorkoutLog(planDay.workoutId);
+  const completedDays = workoutLog.completedDays ?? [];
+  if (!completedDays.includes(planDay.id)) {
+    workoutLog.completedDays = [...completedDays, planDay.id];
+  }
+  workoutLog.daysCompleted = workoutLog.completedDays?.length ?? 0;
+  workoutLog.totalTimeMinutes =
+    (workoutLog.totalTimeMinutes ?? 0) + (log.totalTimeMinutes ?? 0);
+  workoutLog.updatedAt = createdAt;
+  return log;
+}
+
+function volumeOf(sets: ExerciseSetLog[]): number {
+  return getWorkingSets(sets).reduce(
+    (total, set) => total + (set.weight ?? 0) * (set.reps ?? 0),
+    0
+  );
+}
+
+// Replace the user's active plan, keeping the old one in history
+function activateNewWorkout(userId: number, templateOffset = 0): MockWorkout {
+  userWorkouts(userId).forEach((workout) => {
+    workout.isActive = false;
+  });
+  const workout = buildWorkout(
+    userId,
+    getTodayString(),
+    undefined,
+    templateOffset
+  );
+  state.workouts.push(workout);
+  return workout;
+}
+
+function regeneratePlanDay(planDay: MockPlanDay): MockPlanDay {
+  const index = MOCK_DAY_TEMPLATES.findIndex(
+    (template) => template.name === planDay.name
+  );
+  const template =
+    MOCK_DAY_TEMPLATES[(index + 1) % MOCK_DAY_TEMPLATES.length];
+  const rebuilt = buildPlanDay(
+    planDay.workoutId,
+    planDay.date,
+    planDay.dayNumber,
+    template
+  );
+  // Keep the plan day id so screens holding it stay valid
+  Object.assign(planDay, { ...rebuilt, id: planDay.id });
+  return planDay;
+}
+
+function addRestDayWorkout(userId: number, date: string): MockPlanDay | null {
+  const workout = activeWorkout(userId);
+  if (!workout) return null;
+
+  const planDay = buildPlanDay(
+    workout.id,
+    date,
+    workout.planDays.length + 1,
+    MOCK_REST_DAY_TEMPLATE
+  );
+  workout.planDays = [...workout.planDays, planDay].sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+  return planDay;
+}
+
+// ==================== Jobs ====================
+
+function createJob(
+  userId: number,
+  kind: MockJobKind,
+  details: Partial<MockJob> = {}
+): MockJob {
+  const job: MockJob = {
+    id: nextId(),
+    userId,
+    kind,
+    status: "pending",
+    progress: 0,
+    createdAt: now(),
+    ...details,
+  };
+  state.jobs.set(job.id, job);
+  return job;
+}
+
+// Advance a job based on how long ago it was created, applying its result the
+// first time it is seen as finished
+function updateJob(job: MockJob): MockJob {
+  if (job.status === "completed" || job.status === "failed") return job;
+
+  const elapsed = Date.now() - new Date(job.createdAt).getTime();
+  const progress = Math.min(
+    100,
+    Math.floor((elapsed / TIMEOUTS.MOCK_JOB_DURATION) * 100)
+  );
+
+  if (progress < 100) {
+    job.status = progress < 10 ? "pending" : "processing";
+    job.progress = progress;
+    return job;
+  }
+
+  switch (job.kind) {
+    case "generate":
+    case "regenerate":
+      job.workoutId = activateNewWorkout(
+        job.userId,
+        job.kind === "regenerate" ? 2 : 0
+      ).id;
+      break;
+    case "daily": {
+      const match = job.planDayId ? findPlanDay(job.planDayId) : null;
+      if (match) regeneratePlanDay(match.planDay);
+      job.workoutId = match?.workout.id;
+      break;
+    }
+    case "rest-day": {
+      const planDay = addRestDayWorkout(
+        job.userId,
+        job.date ?? getTodayString()
+      );
+      job.workoutId = planDay?.workoutId;
+      break;
+    }
+  }
+
+  if (job.workoutId === undefined) {
+    job.status = "failed";
+    job.error = "No active workout to update";
+  } else {
+    job.status = "completed";
+  }
+  job.progress = 100;
+  job.completedAt = now();
+  return job;
+}
+
+function serializeJob(job: MockJob) {
+  const { kind, userId, planDayId, date, ...publicFields } = job;
+  return publicFields;
+}
+
+// ==================== Auth ====================
+
+function encodeBase64Url(value: string): string {
+  return btoa(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function decodeBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padding = (4 - (base64.length % 4)) % 4;
+  return atob(base64 + "=".repeat(padding));
+}
+
+// Unsigned JWT with the same claims the real backend issues
+function issueToken(user: MockUser): string {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = encodeBase64Url(JSON.stringify({ alg: "none", typ: "JWT" }));
+  const payload = encodeBase64Url(
+    JSON.stringify({
+      sub: user.id,
+      email: user.email,
+      name: user.name,
+      iat: issuedAt,
+      exp: issuedAt + TIMEOUTS.MOCK_TOKEN_LIFETIME / 1000,
+    })
+  );
+  return `${header}.${payload}.mock`;
+}
+
+// Resolve the caller from the Authorization header. Accounts only live in
+// memory, so a token from before a reload recreates its user.
+function authenticate(headers: Record<string, string>): MockUser | null {
+  const token = (headers.authorization ?? "").replace(/^Bearer\s+/i, "");
+  const [, payload] = token.split(".");
+  if (!payload) return null;
+
+  try {
+    const claims = JSON.parse(decodeBase64Url(payload));
+    if (typeof claims.exp === "number" && claims.exp * 1000 < Date.now()) {
+      return null;
+    }
+    const userId = Number(claims.sub);
+    let user = state.users.find((entry) => entry.id === userId);
+    if (!user && userId) {
+      user = { id: userId, email: claims.email ?? "", name: claims.name ?? "" };
+      state.users.push(user);
+      state.profiles.set(userId, {
+        ...MOCK_DEMO_PROFILE,
+        id: userId,
+        userId,
+        email: user.email,
+      });
+      state.workouts.push(buildWorkout(userId, getTodayString()));
+    }
+    return user ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function findUserByEmail(email: unknown): MockUser | undefined {
+  const normalized = String(email ?? "").trim().toLowerCase();
+  return state.users.find((user) => user.email === normalized);
+}
+
+// ==================== Dashboard ====================
+
+function inRange(date: string, query: Record<string, string>): boolean {
+  if (query.startDate && date < query.startDate) return false;
+  if (query.endDate && date > query.endDate) return false;
+  return date <= getTodayString();
+}
+
+function loggedSetsByDate(
+  userId: number,
+  query: Record<string, string>
+): Array<{
+  date: string;
+  exercise: MockBlockExercise;
+  blockType: string;
+  sets: ExerciseSetLog[];
+}> {
+  const entries: Array<{
+    date: string;
+    exercise: MockBlockExercise;
+    blockType: string;
+    sets: ExerciseSetLog[];
+  }> = [];
+  userPlanDays(userId).forEach((planDay) => {
+    if (!inRange(planDay.date, query)) return;
+    planDay.blocks.forEach((block) =>
+      block.exercises.forEach((exercise) =>
+        logsForExercise(exercise.id).forEach((log) =>
+          entries.push({
+            date: planDay.date,
+            exercise,
+            blockType: block.blockType,
+            sets: getWorkingSets(log.sets ?? []),
+          })
+        )
+      )
+    );
+  });
+  return entries;
+}
+
+function dateLabel(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function weeklySummary(userId: number) {
+  const today = getTodayString();
+  const weekStart = startOfWeek(today);
+  const weekEnd = addDays(weekStart, 6);
+  const planDays = userPlanDays(userId).filter(
+    (planDay) => planDay.date >= weekStart && planDay.date <= weekEnd
+  );
+  const exercises = planDays.flatMap(allExercises);
+  const completedDays = planDays.filter((planDay) => planDay.isComplete);
+
+  // Consecutive completed training days, ignoring today if not done yet
+  let streak = 0;
+  const pastDays = userPlanDays(userId)
+    .filter((planDay) => planDay.date <= today)
+    .reverse();
+  for (const planDay of pastDays) {
+    if (planDay.isComplete) streak++;
+    else if (planDay.date !== today) break;
+  }
+
+  return {
+    workoutCompletionRate: percentage(completedDays.length, planDays.length),
+    exerciseCompletionRate: percentage(
+      exercises.filter((exercise) => exercise.completed).length,
+      exercises.length
+    ),
+    streak,
+    totalWorkoutsThisWeek: planDays.length,
+    completedWorkoutsThisWeek: completedDays.length,
+  };
+}
+
+function workoutConsistency(userId: number) {
+  const currentWeek = startOfWeek(getTodayString());
+  return [3, 2, 1, 0].map((weeksAgo) => {
+    const weekStart = addDays(currentWeek, -7 * weeksAgo);
+    const weekEnd = addDays(weekStart, 6);
+    const planDays = userPlanDays(userId).filter(
+      (planDay) => planDay.date >= weekStart && planDay.date <= weekEnd
+    );
+    const completed = planDays.filter((planDay) => planDay.isComplete).length;
+    return {
+      week: weekStart,
+      totalWorkouts: planDays.length,
+      completedWorkouts: completed,
+      completionRate: percentage(completed, planDays.length),
+    };
+  });
+}
+
+function weightMetrics(userId: number, query: Record<string, string>) {
+  const totals = new Map<number, { exercise: MockExercise; total: number }>();
+  loggedSetsByDate(userId, query).forEach(({ exercise, sets }) => {
+    const entry = totals.get(exercise.exerciseId) ?? {
+      exercise: exercise.exercise,
+      total: 0,
+    };
+    entry.total += volumeOf(sets);
+    totals.set(exercise.exerciseId, entry);
+  });
+  return [...totals.values()]
+    .filter((entry) => entry.total > 0)
+    .sort((a, b) => b.total - a.total)
+    .map((entry) => ({
+      name: entry.exercise.name,
+      totalWeight: entry.total,
+      muscleGroups: entry.exercise.muscles_targeted,
+    }));
+}
+
+function compareWeights(
+  entries: ReturnType<typeof loggedSetsByDate>
+): {
+  totalSets: number;
+  exact: number;
+  higher: number;
+  lower: number;
+  diff: number;
+} {
+  const result = { totalSets: 0, exact: 0, higher: 0, lower: 0, diff: 0 };
+  entries.forEach(({ exercise, sets }) => {
+    if (!exercise.weight) return;
+    sets.forEach((set) => {
+      if (set.weight === null) return;
+      result.totalSets++;
+      result.diff += set.weight - exercise.weight!;
+      if (set.weight === exercise.weight) result.exact++;
+      else if (set.weight > exercise.weight!) result.higher++;
+      else result.lower++;
+    });
+  });
+  return result;
+}
+
+function weightAccuracy(userId: number, query: Record<string, string>) {
+  const entries = loggedSetsByDate(userId, query);
+  const { totalSets, exact, higher, lower, diff } = compareWeights(entries);
+  return {
+    accuracyRate: percentage(exact, totalSets),
+    totalSets,
+    exactMatches: exact,
+    higherWeight: higher,
+    lowerWeight: lower,
+    avgWeightDifference:
+      totalSets > 0 ? Math.round((diff / totalSets) * 10) / 10 : 0,
+    chartData: [
+      { label: "As planned", value: exact, color: "#A8E6CF", count: exact },
+      { label: "Heavier", value: higher, color: "#FFD3B6", count: higher },
+      { label: "Lighter", value: lower, color: "#FFAAA5", count: lower },
+    ].filter((point) => point.value > 0),
+    hasPlannedWeights: entries.some(({ exercise }) => !!exercise.weight),
+    hasExerciseData: entries.length > 0,
+  };
+}
+
+function goalProgress(userId: number, query: Record<string, string>) {
+  const entries = loggedSetsByDate(userId, query);
+  const sets = entries.flatMap((entry) => entry.sets);
+  const completedWorkouts = userPlanDays(userId).filter(
+    (planDay) => planDay.isComplete && inRange(planDay.date, query)
+  ).length;
+  const goals: string[] = state.profiles.get(userId)?.goals ?? [];
+
+  return goals.map((goal) => ({
+    goal,
+    progressScore: Math.min(100, completedWorkouts * 10),
+    totalSets: sets.length,
+    totalReps: sets.reduce((total, set) => total + (set.reps ?? 0), 0),
+    totalWeight: volumeOf(sets),
+    completedWorkouts,
+  }));
+}
+
+function totalVolume(userId: number, query: Record<string, string>) {
+  const byDate = new Map<string, { volume: number; exercises: Set<number> }>();
+  loggedSetsByDate(userId, query).forEach(({ date, exercise, sets }) => {
+    const entry = byDate.get(date) ?? { volume: 0, exercises: new Set() };
+    entry.volume += volumeOf(sets);
+    entry.exercises.add(exercise.id);
+    byDate.set(date, entry);
+  });
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, entry]) => ({
+      date,
+      totalVolume: entry.volume,
+      exerciseCount: entry.exercises.size,
+      label: dateLabel(date),
+    }));
+}
+
+const WORKOUT_TYPE_COLORS: Record<string, string> = {
+  strength: "#A8E6CF",
+  conditioning: "#FFD3B6",
+  core: "#FFAAA5",
+  mobility: "#DCEDC1",
+  flexibility: "#B5EAD7",
+  cardio: "#C7CEEA",
+};
+
+function workoutTypes(entries: ReturnType<typeof loggedSetsByDate>) {
+  const byType = new Map<
+    string,
+    { totalSets: number; totalReps: number; exercises: Set<number> }
+  >();
+  entries.forEach(({ exercise, sets }) => {
+    const tag = exercise.exercise.category;
+    const entry = byType.get(tag) ?? {
+      totalSets: 0,
+      totalReps: 0,
+      exercises: new Set(),
+    };
+    entry.totalSets += sets.length;
+    entry.totalReps += sets.reduce((total, set) => total + (set.reps ?? 0), 0);
+    entry.exercises.add(exercise.id);
+    byType.set(tag, entry);
+  });
+  return [...byType.entries()].map(([tag, entry]) => ({
+    tag,
+    label: tag.charAt(0).toUpperCase() + tag.slice(1),
+    totalSets: entry.totalSets,
+    totalReps: entry.totalReps,
+    exerciseCount: entry.exercises.size,
+  }));
+}
+
+function workoutTypeMetrics(userId: number, query: Record<string, string>) {
+  const types = workoutTypes(loggedSetsByDate(userId, query));
+  const totalSets = types.reduce((total, type) => total + type.totalSets, 0);
+  const completedWorkouts = userPlanDays(userId).filter(
+    (planDay) => planDay.isComplete && inRange(planDay.date, query)
+  ).length;
+  const distribution = types
+    .map((type) => ({
+      ...type,
+      completedWorkouts,
+      percentage: percentage(type.totalSets, totalSets),
+      color: WORKOUT_TYPE_COLORS[type.tag] ?? "#E2E2E2",
+    }))
+    .sort((a, b) => b.percentage - a.percentage);
+
+  return {
+    distribution,
+    totalExercises: types.reduce(
+      (total, type) => total + type.exerciseCount,
+      0
+    ),
+    totalSets,
+    dominantType: distribution[0]?.tag ?? "",
+    hasData: distribution.length > 0,
+  };
+}
+
+function dailyWorkoutProgress(userId: number) {
+  const weekStart = startOfWeek(getTodayString());
+  return Array.from({ length: 7 }, (_, index) => {
+    const date = addDays(weekStart, index);
+    const planDay = userPlanDays(userId).find((day) => day.date === date);
+    return {
+      date,
+      completionRate: planDay ? dayCompletionRate(planDay) : 0,
+      hasPlannedWorkout: !!planDay,
+    };
+  });
+}
+
+function groupByDate(entries: ReturnType<typeof loggedSetsByDate>) {
+  const byDate = new Map<string, ReturnType<typeof loggedSetsByDate>>();
+  entries.forEach((entry) => {
+    byDate.set(entry.date, [...(byDate.get(entry.date) ?? []), entry]);
+  });
+  return [...byDate.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+function weightProgression(userId: number, query: Record<string, string>) {
+  return groupByDate(loggedSetsByDate(userId, query))
+    .map(([date, entries]) => {
+      const weights = entries
+        .flatMap((entry) => entry.sets)
+        .map((set) => set.weight ?? 0)
+        .filter((weight) => weight > 0);
+      return {
+        date,
+        avgWeight: weights.length
+          ? Math.round(
+              (weights.reduce((total, weight) => total + weight, 0) /
+                weights.length) *
+                10
+            ) / 10
+          : 0,
+        maxWeight: weights.length ? Math.max(...weights) : 0,
+        label: dateLabel(date),
+      };
+    })
+    .filter((point) => point.maxWeight > 0);
+}
+
+function weightAccuracyByDate(userId: number, query: Record<string, string>) {
+  return groupByDate(loggedSetsByDate(userId, query)).map(([date, entries]) => {
+    const { totalSets, exact, higher, lower } = compareWeights(entries);
+    return {
+      date,
+      totalSets,
+      exactMatches: exact,
+      higherWeight: higher,
+      lowerWeight: lower,
+      label: dateLabel(date),
+    };
+  });
+}
+
+function workoutTypeByDate(userId: number, query: Record<string, string>) {
+  return groupByDate(loggedSetsByDate(userId, query)).map(
+    ([date, entries]) => ({
+      date,
+      workoutTypes: workoutTypes(entries),
+      label: dateLabel(date),
+    })
+  );
+}
+
+// ==================== Search ====================
+
+function searchByDate(userId: number, date: string): MockResult {
+  const planDay = userPlanDays(userId).find((day) => day.date === date);
+  const workout = planDay ? findWorkout(planDay.workoutId) : undefined;
+  if (!planDay || !workout) {
+    return fail(404, "No workout scheduled for this date");
+  }
+
+  const toSearchExercise = (exercise: MockBlockExercise) => ({
+    id: exercise.id,
+    exercise: {
+      id: exercise.exercise.id,
+      name: exercise.exercise.name,
+      description: exercise.exercise.description,
+      muscleGroups: exercise.exercise.muscles_targeted,
+      equipment: [exercise.exercise.equipment],
+      difficulty: exercise.exercise.difficulty,
+      instructions: exercise.exercise.instructions,
+      link: exercise.exercise.link,
+    },
+    sets: exercise.sets ?? null,
+    reps: exercise.reps ?? null,
+    weight: exercise.weight ?? null,
+    duration: exercise.duration ?? null,
+    restTime: exercise.restTime ?? null,
+    completed: exercise.completed,
+    completionRate: exercise.completed ? 100 : 0,
+  });
+
+  const result = {
+    id: workout.id,
+    name: workout.name,
+    description: workout.description,
+    completed: planDay.isComplete,
+    planDay: {
+      id: planDay.id,
+      date: planDay.date,
+      exercises: allExercises(planDay).map(toSearchExercise),
+      blocks: planDay.blocks.map((block) => ({
+        id: block.id,
+        blockType: block.blockType,
+        blockName: block.blockName,
+        timeCapMinutes: block.timeCapMinutes,
+        rounds: block.rounds,
+        instructions: block.instructions,
+        exercises: block.exercises.map(toSearchExercise),
+      })),
+    },
+    overallCompletionRate: dayCompletionRate(planDay),
+    exercises: allExercises(planDay).map((exercise) => ({
+      id: exercise.exercise.id,
+      name: exercise.exercise.name,
+      description: exercise.exercise.description,
+      category: exercise.exercise.category,
+      equipment: exercise.exercise.equipment,
+      muscleGroups: exercise.exercise.muscles_targeted,
+      difficulty: exercise.exercise.difficulty,
+    })),
+  };
+
+  return ok({ data: [result], date, workout: result });
+}
+
+function searchExercise(userId: number, exerciseId: number): MockResult {
+  const exercise = MOCK_EXERCISES.find((entry) => entry.id === exerciseId);
+  if (!exercise) return fail(404, "Exercise not found");
+
+  const assignments = userPlanDays(userId).flatMap((planDay) =>
+    allExercises(planDay)
+      .filter((entry) => entry.exerciseId === exerciseId)
+      .map((entry) => ({ planDay, entry }))
+  );
+  // Warm-ups are left out of the stats and personal records
+  const logs = assignments.flatMap(({ planDay, entry }) =>
+    logsForExercise(entry.id).map((log) => ({
+      date: planDay.date,
+      log,
+      sets: getWorkingSets(log.sets ?? []),
+    }))
+  );
+  const sets = logs.flatMap((entry) => entry.sets);
+  const weights = sets
+    .map((set) => set.weight)
+    .filter((weight): weight is number => weight !== null && weight > 0);
+  const completions = assignments.filter(({ entry }) => entry.completed).length;
+  const average = (values: number[]) =>
+    values.length
+      ? Math.round(
+          (values.reduce((total, value) => total + value, 0) / values.length) *
+            10
+        ) / 10
+      : 0;
+
+  const userStats = {
+    totalAssignments: assignments.length,
+    totalCompletions: completions,
+    completionRate: percentage(completions, assignments.length),
+    averageSets: average(logs.map((entry) => entry.sets.length)),
+    averageReps: average(sets.map((set) => set.reps ?? 0)),
+    averageWeight: weights.length ? average(weights) : null,
+    lastPerformed: logs.length ? logs[logs.length - 1].date : null,
+    personalRecord: {
+      maxWeight: weights.length ? Math.max(...weights) : null,
+      maxReps: Math.max(0, ...sets.map((set) => set.reps ?? 0)),
+      maxSets: Math.max(0, ...logs.map((entry) => entry.sets.length)),
+    },
+  };
+  const details = {
+    id: exercise.id,
+    name: exercise.name,
+    description: exercise.description,
+    muscleGroups: exercise.muscles_targeted,
+    equipment: [exercise.equipment],
+    difficulty: exercise.difficulty,
+    instructions: exercise.instructions,
+    link: exercise.link,
+    created_at: exercise.created_at,
+    updated_at: exercise.updated_at,
+    userStats,
+    recentLogs: logs
+      .slice(-10)
+      .reverse()
+      .map(({ date, log, sets: logSets }) => ({
+        id: log.id,
+        date,
+        sets: logSets.length,
+        reps: Math.max(0, ...logSets.map((set) => set.reps ?? 0)),
+        weight: Math.max(0, ...logSets.map((set) => set.weight ?? 0)),
+        notes: log.notes ?? undefined,
+      })),
+  };
+
+  return ok({ data: details, exercise: details, userStats });
+}
+
+function searchExercises(query: string): MockResult {
+  const term = query.trim().toLowerCase();
+  const matches = MOCK_EXERCISES.filter(
+    (exercise) =>
+      exercise.name.toLowerCase().includes(term) ||
+      exercise.muscles_targeted.some((muscle) => muscle.includes(term))
+  ).map((exercise) => ({
+    id: exercise.id,
+    name: exercise.name,
+    description: exercise.description,
+    category: exercise.category,
+    equipment: exercise.equipment,
+    instructions: exercise.instructions,
+    muscleGroups: exercise.muscles_targeted,
+    targetMuscles: exercise.muscles_targeted,
+    difficulty: exercise.difficulty,
+    createdAt: exercise.created_at,
+    updatedAt: exercise.updated_at,
+  }));
+  return ok({ data: matches, exercises: matches });
+}
+
+// ==================== Routes ====================
+
+function workoutResult(workout: MockWorkout | undefined): MockResult {
+  return workout ? ok({ workout }) : fail(404, "No active workout found");
+}
+
+const routes: Route[] = [
+  // Auth
+  {
+    method: "POST",
+    pattern: /^\/auth\/check-email$/,
+    public: true,
+    handler: ({ body }) =>
+      ok({ needsOnboarding: !findUserByEmail(body.email) }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/auth\/signup$/,
+    public: true,
+    handler: ({ body }) => {
+      const email = String(body.email ?? "").trim().toLowerCase();
+      const user = findUserByEmail(email) ?? {
+        id: nextId(),
+        email,
+        name: String(body.name ?? ""),
+      };
+      if (!state.users.includes(user)) state.users.push(user);
+      state.pendingUserId = user.id;
+      return ok({ user, message: "Verification code sent" });
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/auth\/login$/,
+    public: true,
+    handler: ({ body }) => {
+      const user = findUserByEmail(body.email);
+      if (!user) return fail(404, "User not found");
+      state.pendingUserId = user.id;
+      return ok({ user, message: "Verification code sent" });
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/auth\/generate-auth-code$/,
+    public: true,
+    handler: ({ body }) => {
+      const user = findUserByEmail(body.email);
+      if (user) state.pendingUserId = user.id;
+      return ok({ message: "Verification code sent" });
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/auth\/verify$/,
+    public: true,
+    handler: ({ body }) => {
+      // Any four-digit code is accepted
+      const user = state.users.find(
+        (entry) => entry.id === state.pendingUserId
+      );
+      if (!user || !/^\d{4}$/.test(String(body.authCode ?? ""))) {
+        return fail(401, "Invalid or expired code");
+      }
+      state.pendingUserId = null;
+      return ok({
+        user,
+        token: issueToken(user),
+        needsOnboarding: !state.profiles.has(user.id),
+      });
+    },
+  },
+
+  // Profile
+  {
+    method: "GET",
+    pattern: /^\/profile\/(\d+)$/,
+    handler: (_, [userId]) => {
+      const profile = state.profiles.get(userId);
+      return profile ? ok({ profile }) : fail(404, "Profile not found");
+    },
+  },
+  {
+    method: "PUT",
+    pattern: /^\/profile\/user\/(\d+)$/,
+    handler: ({ body }, [userId]) => {
+      const existing = state.profiles.get(userId);
+      const { userId: _ignored, ...updates } = body ?? {};
+      const profile = {
+        ...(existing ?? { id: nextId(), userId, created_at: now() }),
+        ...updates,
+        updated_at: now(),
+      };
+      state.profiles.set(userId, profile);
+      const user = state.users.find((entry) => entry.id === userId);
+      return ok({
+        profile,
+        user: user ? { ...user, needsOnboarding: false } : undefined,
+      });
+    },
+  },
+
+  // Workouts
+  {
+    method: "GET",
+    pattern: /^\/workouts\/(\d+)\/active-workout$/,
+    handler: (_, [userId]) => workoutResult(activeWorkout(userId)),
+  },
+  {
+    method: "GET",
+    pattern: /^\/workouts\/(\d+)\/history$/,
+    handler: (_, [userId]) => ok({ workouts: userWorkouts(userId) }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/workouts\/(\d+)\/previous-workouts$/,
+    handler: (_, [userId]) =>
+      ok({ workouts: userWorkouts(userId).filter((w) => !w.isActive) }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/workouts\/(\d+)\/generate$/,
+    handler: (_, [userId]) => workoutResult(activateNewWorkout(userId)),
+  },
+  {
+    method: "POST",
+    pattern: /^\/workouts\/(\d+)\/regenerate$/,
+    handler: (_, [userId]) => {
+      const job = createJob(userId, "regenerate");
+      return ok({ jobId: job.id, message: "Workout regeneration started" });
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/workouts\/(\d+)\/repeat-week\/(\d+)$/,
+    handler: (_, [userId, originalWorkoutId]) => {
+      const original = findWorkout(originalWorkoutId);
+      if (!original) return fail(404, "Workout not found");
+      const offset = MOCK_DAY_TEMPLATES.findIndex(
+        (template) => template.name === original.planDays[0]?.name
+      );
+      return workoutResult(activateNewWorkout(userId, Math.max(0, offset)));
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/workouts\/(\d+)\/days\/(\d+)\/regenerate$/,
+    handler: (_, [, planDayId]) => {
+      const match = findPlanDay(planDayId);
+      if (!match) return fail(404, "Plan day not found");
+      return ok({ planDay: regeneratePlanDay(match.planDay) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/workouts\/(\d+)\/generate-async$/,
+    handler: (_, [userId]) => {
+      const job = createJob(userId, "generate");
+      return ok({ jobId: job.id, message: "Workout generation started" });
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/workouts\/(\d+)\/regenerate-async$/,
+    handler: (_, [userId]) => {
+      const job = createJob(userId, "regenerate");
+      return ok({ jobId: job.id, message: "Workout regeneration started" });
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/workouts\/(\d+)\/days\/(\d+)\/regenerate-async$/,
+    handler: (_, [userId, planDayId]) => {
+      if (!findPlanDay(planDayId)) return fail(404, "Plan day not found");
+      const job = createJob(userId, "daily", { planDayId });
+      return ok({
+        jobId: job.id,
+        message: "Daily workout regeneration started",
+      });
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/workouts\/(\d+)\/rest-day-workout$/,
+    handler: ({ body }, [userId]) => {
+      const job = createJob(userId, "rest-day", {
+        date: String(body.date ?? getTodayString()),
+      });
+      return ok({
+        jobId: job.id,
+        message: "Rest day workout generation started",
+      });
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/workouts\/jobs\/(\d+)\/status$/,
+    handler: (_, [jobId]) => {
+      const job = state.jobs.get(jobId);
+      return job
+        ? ok({ job: serializeJob(updateJob(job)) })
+        : fail(404, "Job not found");
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/workouts\/(\d+)\/jobs$/,
+    handler: (_, [userId]) =>
+      ok({
+        jobs: [...state.jobs.values()]
+          .filter((job) => job.userId === userId)
+          .map((job) => serializeJob(updateJob(job))),
+      }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/workouts\/(\d+)\/register-push-token$/,
+    handler: () => ok({ message: "Push token registered" }),
+  },
+
+  // Logs
+  {
+    method: "POST",
+    pattern: /^\/logs\/exercise$/,
+    handler: ({ body }) => {
+      if (!findPlanDayExercise(Number(body.planDayExerciseId))) {
+        return fail(404, "Plan day exercise not found");
+      }
+      return ok({ ...createExerciseLog(body) });
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/logs\/exercise\/(\d+)$/,
+    handler: (_, [planDayExerciseId]) =>
+      ok({ logs: logsForExercise(planDayExerciseId) }),
+  },
+  {
+    method: "PUT",
+    pattern: /^\/logs\/exercise\/(\d+)$/,
+    handler: ({ body }, [logId]) => {
+      const log = state.exerciseLogs.find((entry) => entry.id === logId);
+      if (!log) return fail(404, "Exercise log not found");
+
+      const timestamp = now();
+      if (Array.isArray(body?.sets)) {
+        // The workout's volume follows the corrected sets
+        const match = findPlanDayExercise(log.planDayExerciseId);
+        const sets = toSetLogs(body.sets, log.id, timestamp);
+        if (match) {
+          const workoutLog = getWorkoutLog(match.workout.id);
+          workoutLog.totalVolume = Math.max(
+            0,
+            (workoutLog.totalVolume ?? 0) -
+              volumeOf(log.sets ?? []) +
+              volumeOf(sets)
+          );
+        }
+        log.sets = sets;
+      }
+      if (typeof body?.isSkipped === "boolean") log.isSkipped = body.isSkipped;
+      if (typeof body?.isComplete === "boolean") {
+        log.isComplete = body.isComplete;
+      }
+      log.updatedAt = timestamp;
+      return ok({ log });
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/logs\/workout$/,
+    handler: ({ body }) => {
+      const log = getWorkoutLog(Number(body.workoutId));
+      Object.assign(log, {
+        totalTimeMinutes: body.timeTaken
+          ? Math.round(body.timeTaken / 60)
+          : log.totalTimeMinutes,
+        notes: body.notes ?? log.notes,
+        isComplete: !!body.isComplete,
+        updatedAt: now(),
+      });
+      (body.completedExercises ?? []).forEach((id: number) =>
+        markExerciseComplete(log.workoutId, id)
+      );
+      return ok({ log });
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/logs\/workout\/(\d+)\/existing$/,
+    handler: (_, [workoutId]) => {
+      const log = state.workoutLogs.get(workoutId);
+      return log ? ok({ log }) : fail(404, "No workout log found");
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/logs\/workout\/(\d+)\/all$/,
+    handler: (_, [workoutId]) => {
+      const log = state.workoutLogs.get(workoutId);
+      return ok({ logs: log ? [log] : [] });
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/logs\/workout\/(\d+)\/completed$/,
+    handler: (_, [workoutId]) => {
+      const completedExercises =
+        state.workoutLogs.get(workoutId)?.completedExercises ?? [];
+      return ok({ completedExercises, count: completedExercises.length });
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/logs\/workout\/(\d+)$/,
+    handler: (_, [workoutId]) => ok({ log: getWorkoutLog(workoutId) }),
+  },
+  {
+    method: "PUT",
+    pattern: /^\/logs\/workout\/(\d+)$/,
+    handler: ({ body }, [workoutId]) => {
+      const log = getWorkoutLog(workoutId);
+      const { completedExercises, ...updates } = body ?? {};
+      Object.assign(log, updates, { updatedAt: now() });
+      (completedExercises ?? []).forEach((id: number) =>
+        markExerciseComplete(workoutId, id)
+      );
+      return ok({ log });
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/logs\/workout\/(\d+)\/exercise\/(\d+)$/,
+    handler: (_, [workoutId, planDayExerciseId]) =>
+      ok({ log: markExerciseComplete(workoutId, planDayExerciseId) }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/logs\/workout\/(\d+)\/exercise\/(\d+)\/skip$/,
+    handler: (_, [workoutId, planDayExerciseId]) => {
+      createExerciseLog({ planDayExerciseId }).isSkipped = true;
+      return ok({ log: markExerciseComplete(workoutId, planDayExerciseId) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/logs\/workout\/(\d+)\/block\/(\d+)\/skip$/,
+    handler: (_, [workoutId, blockId]) => {
+      const block = findWorkout(workoutId)
+        ?.planDays.flatMap((planDay) => planDay.blocks)
+        .find((entry) => entry.id === blockId);
+      if (!block) return fail(404, "Workout block not found");
+      block.exercises.forEach((exercise) => {
+        createExerciseLog({ planDayExerciseId: exercise.id }).isSkipped = true;
+        markExerciseComplete(workoutId, exercise.id);
+      });
+      return ok({ log: getWorkoutLog(workoutId) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/logs\/workout\/(\d+)\/complete$/,
+    handler: (_, [workoutId]) => {
+      const log = getWorkoutLog(workoutId);
+      log.isComplete = true;
+      log.updatedAt = now();
+      const workout = findWorkout(workoutId);
+      if (workout) workout.completed = true;
+      return ok({ log });
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/logs\/workout\/day\/(\d+)\/complete$/,
+    handler: ({ body }, [planDayId]) => {
+      const match = findPlanDay(planDayId);
+      if (!match) return fail(404, "Plan day not found");
+      return ok({ log: completePlanDay(match.planDay, body ?? {}) });
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/logs\/plan-day\/plan-day\/(\d+)\/latest$/,
+    handler: (_, [planDayId]) => {
+      const logs = state.planDayLogs.filter(
+        (log) => log.planDayId === planDayId
+      );
+      return logs.length
+        ? ok({ log: logs[logs.length - 1] })
+        : fail(404, "No plan day log found");
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/logs\/plan-day\/plan-day\/(\d+)$/,
+    handler: (_, [planDayId]) =>
+      ok({
+        logs: state.planDayLogs
+          .filter((log) => log.planDayId === planDayId)
+          .reverse(),
+      }),
+  },
+
+  // Dashboard
+  {
+    method: "GET",
+    pattern: /^\/dashboard\/(\d+)\/metrics$/,
+    handler: ({ query }, [userId]) =>
+      ok({
+        data: {
+          weeklySummary: weeklySummary(userId),
+          workoutConsistency: workoutConsistency(userId),
+          weightMetrics: weightMetrics(userId, query),
+          weightAccuracy: weightAccuracy(userId, query),
+          goalProgress: goalProgress(userId, query),
+          totalVolumeMetrics: totalVolume(userId, query),
+          workoutTypeMetrics: workoutTypeMetrics(userId, query),
+          dailyWorkoutProgress: dailyWorkoutProgress(userId),
+        },
+      }),
+  },
+  ...(
+    [
+      ["weekly-summary", (userId) => weeklySummary(userId)],
+      ["workout-consistency", (userId) => workoutConsistency(userId)],
+      ["weight-metrics", weightMetrics],
+      ["weight-accuracy", weightAccuracy],
+      ["goal-progress", goalProgress],
+      ["total-volume", totalVolume],
+      ["workout-type-metrics", workoutTypeMetrics],
+      ["daily-workout-progress", (userId) => dailyWorkoutProgress(userId)],
+      ["weight-progression", weightProgression],
+      ["weight-accuracy-by-date", weightAccuracyByDate],
+      ["workout-type-by-date", workoutTypeByDate],
+    ] as Array<
+      [string, (userId: number, query: Record<string, string>) => unknown]
+    >
+  ).map(
+    ([name, compute]): Route => ({
+      method: "GET",
+      pattern: new RegExp(`^/dashboard/(\\d+)/${name}$`),
+      handler: ({ query }, [userId]) => ok({ data: compute(userId, query) }),
+    })
+  ),
+
+  // Search
+  {
+    method: "GET",
+    pattern: /^\/search\/date\/(\d+)$/,
+    handler: ({ query }, [userId]) =>
+      searchByDate(userId, query.date ?? getTodayString()),
+  },
+  {
+    method: "GET",
+    pattern: /^\/search\/exercise\/(\d+)\/(\d+)$/,
+    handler: (_, [userId, exerciseId]) => searchExercise(userId, exerciseId),
+  },
+  {
+    method: "GET",
+    pattern: /^\/search\/exercises$/,
+    handler: ({ query }) => searchExercises(query.query ?? ""),
+  },
+
+  // Exercises
+  {
+    method: "GET",
+    pattern: /^\/exercises$/,
+    // The catalog is a bare array rather than a success envelope
+    handler: () => ({
+      status: 200,
+      body: MOCK_EXERCISES.map((exercise) => ({
+        id: exercise.id,
+        name: exercise.name,
+        description: exercise.description,
+        muscleGroups: exercise.muscles_targeted,
+        equipment: [exercise.equipment],
+        instructions: exercise.instructions,
+        link: exercise.link,
+        difficulty: exercise.difficulty,
+        category: exercise.category,
+      })),
+    }),
+  },
+  {
+    method: "PUT",
+    pattern: /^\/exercises\/(\d+)\/link$/,
+    handler: ({ body }, [exerciseId]) => {
+      const exercise = MOCK_EXERCISES.find((entry) => entry.id === exerciseId);
+      if (!exercise) return fail(404, "Exercise not found");
+      exercise.link = body.link ?? undefined;
+      return ok();
+    },
+  },
+];
+
+// ==================== Transport ====================
+
+function parseRequest(url: string, init: RequestInit): MockRequest {
+  const relative = url.startsWith(API_URL) ? url.slice(API_URL.length) : url;
+  const [path, queryString = ""] = relative.split("?");
+
+  // URLSearchParams#get is not implemented in React Native
+  const query: Record<string, string> = {};
+  queryString
+    .split("&")
+    .filter(Boolean)
+    .forEach((pair) => {
+      const [key, value = ""] = pair.split("=");
+      query[decodeURIComponent(key)] = decodeURIComponent(
+        value.replace(/\+/g, " ")
+      );
+    });
+
+  const headers: Record<string, string> = {};
+  Object.entries((init.headers ?? {}) as Record<string, string>).forEach(
+    ([key, value]) => {
+      headers[key.toLowerCase()] = value;
+    }
+  );
+
+  let body: any = {};
+  if (typeof init.body === "string" && init.body) {
+    try {
+      body = JSON.parse(init.body);
+    } catch {
+      body = {};
+    }
+  }
+
+  return {
+    method: (init.method || "GET").toUpperCase(),
+    path,
+    query,
+    body,
+    headers,
+  };
+}
+
+function handleRequest(request: MockRequest): MockResult {
+  for (const route of routes) {
+    if (route.method !== request.method) continue;
+    const match = request.path.match(route.pattern);
+    if (!match) continue;
+
+    if (!route.public && !authenticate(request.headers)) {
+      return fail(401, "Invalid or expired token", "TOKEN_EXPIRED");
+    }
+    return route.handler(request, match.slice(1).map(Number));
+  }
+
+  logger.warn("Mock backend has no handler for request", {
+    method: request.method,
+    path: request.path,
+  });
+  return fail(404, `No mock handler for ${request.method} ${request.path}`);
+}
+
+// Resolve after the simulated network latency, or reject like fetch on abort
+function simulateLatency(signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new Error("Aborted"));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, TIMEOUTS.MOCK_API_LATENCY);
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Transport that answers requests from the in-memory mock backend
+ */
+export async function mockTransport(
+  url: string,
+  init: RequestInit
+): Promise<Response> {
+  const request = parseRequest(url, init);
+  await simulateLatency(init.signal);
+
+  const result = handleRequest(request);
+  return new Response(JSON.stringify(result.body), {
+    status: result.status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,387 @@
+/**
+ * Static data served by the in-process mock backend (see lib/mockBackend.ts).
+ * Plans are assembled from the day templates below, so edits here change what
+ * every generated workout looks like.
+ */
+
+const FIXTURE_TIMESTAMP = "2025-01-01T00:00:00.000Z";
+
+export interface MockExercise {
+  id: number;
+  name: string;
+  description: string;
+  category: string;
+  difficulty: string;
+  equipment: string;
+  instructions: string;
+  link?: string;
+  muscles_targeted: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MockBlockExerciseTemplate {
+  exerciseId: number;
+  sets?: number;
+  reps?: number;
+  weight?: number;
+  duration?: number;
+  restTime?: number;
+}
+
+export interface MockBlockTemplate {
+  blockType: string;
+  blockName: string;
+  rounds?: number;
+  timeCapMinutes?: number;
+  instructions?: string;
+  exercises: MockBlockExerciseTemplate[];
+}
+
+export interface MockDayTemplate {
+  name: string;
+  description: string;
+  instructions: string;
+  blocks: MockBlockTemplate[];
+}
+
+function exercise(
+  id: number,
+  name: string,
+  details: Omit<MockExercise, "id" | "name" | "created_at" | "updated_at">
+): MockExercise {
+  return {
+    id,
+    name,
+    ...details,
+    created_at: FIXTURE_TIMESTAMP,
+    updated_at: FIXTURE_TIMESTAMP,
+  };
+}
+
+export const MOCK_EXERCISES: MockExercise[] = [
+  exercise(1, "Goblet Squat", {
+    description: "Front-loaded squat holding a dumbbell at the chest.",
+    category: "strength",
+    difficulty: "beginner",
+    equipment: "dumbbells",
+    instructions:
+      "Hold the dumbbell at your chest, sit back and down between your heels, then drive up through the whole foot.",
+    muscles_targeted: ["quadriceps", "glutes", "core"],
+  }),
+  exercise(2, "Dumbbell Bench Press", {
+    description: "Horizontal press on a flat bench.",
+    category: "strength",
+    difficulty: "beginner",
+    equipment: "dumbbells",
+    instructions:
+      "Lower the dumbbells to chest level with elbows at 45 degrees, then press back up.",
+    muscles_targeted: ["chest", "triceps", "shoulders"],
+  }),
+  exercise(3, "Bent-Over Dumbbell Row", {
+    description: "Hip-hinged row for the upper back.",
+    category: "strength",
+    difficulty: "beginner",
+    equipment: "dumbbells",
+    instructions:
+      "Hinge forward with a flat back and pull the dumbbells towards your hips.",
+    muscles_targeted: ["back", "biceps"],
+  }),
+  exercise(4, "Romanian Deadlift", {
+    description: "Hip hinge emphasising the hamstrings.",
+    category: "strength",
+    difficulty: "intermediate",
+    equipment: "dumbbells",
+    instructions:
+      "Push the hips back with soft knees until you feel the hamstrings stretch, then stand tall.",
+    muscles_targeted: ["hamstrings", "glutes", "lower back"],
+  }),
+  exercise(5, "Standing Overhead Press", {
+    description: "Vertical press from the shoulders.",
+    category: "strength",
+    difficulty: "intermediate",
+    equipment: "dumbbells",
+    instructions:
+      "Brace your core and press the dumbbells overhead without arching the lower back.",
+    muscles_targeted: ["shoulders", "triceps"],
+  }),
+  exercise(6, "Walking Lunge", {
+    description: "Alternating forward lunges.",
+    category: "strength",
+    difficulty: "beginner",
+    equipment: "dumbbells",
+    instructions:
+      "Step forward, lower the back knee towards the floor, then bring the back foot through.",
+    muscles_targeted: ["quadriceps", "glutes"],
+  }),
+  exercise(7, "Plank", {
+    description: "Isometric hold for trunk stability.",
+    category: "core",
+    difficulty: "beginner",
+    equipment: "none",
+    instructions:
+      "Hold a straight line from head to heels with elbows under the shoulders.",
+    muscles_targeted: ["core"],
+  }),
+  exercise(8, "Glute Bridge", {
+    description: "Hip extension from the floor.",
+    category: "strength",
+    difficulty: "beginner",
+    equipment: "none",
+    instructions:
+      "Lie on your back with knees bent and drive the hips up until they line up with your shoulders.",
+    muscles_targeted: ["glutes", "hamstrings"],
+  }),
+  exercise(9, "Band Pull-Apart", {
+    description: "Rear shoulder activation with a resistance band.",
+    category: "mobility",
+    difficulty: "beginner",
+    equipment: "resistance bands",
+    instructions:
+      "Hold the band at shoulder height and pull it apart until it touches your chest.",
+    muscles_targeted: ["shoulders", "upper back"],
+  }),
+  exercise(10, "Cat-Cow", {
+    description: "Spinal mobility drill on hands and knees.",
+    category: "mobility",
+    difficulty: "beginner",
+    equipment: "none",
+    instructions:
+      "Alternate between rounding and arching your back, moving with your breath.",
+    muscles_targeted: ["spine", "core"],
+  }),
+  exercise(11, "World's Greatest Stretch", {
+    description: "Lunge with a thoracic rotation.",
+    category: "mobility",
+    difficulty: "beginner",
+    equipment: "none",
+    instructions:
+      "From a long lunge, place the inside elbow towards the floor, then rotate and reach to the ceiling.",
+    muscles_targeted: ["hips", "thoracic spine", "hamstrings"],
+  }),
+  exercise(12, "Jumping Jacks", {
+    description: "Low-skill cardio to raise the heart rate.",
+    category: "cardio",
+    difficulty: "beginner",
+    equipment: "none",
+    instructions: "Jump the feet out while raising the arms, then return.",
+    muscles_targeted: ["full body"],
+  }),
+  exercise(13, "Kettlebell Swing", {
+    description: "Explosive hip hinge.",
+    category: "conditioning",
+    difficulty: "intermediate",
+    equipment: "kettlebell",
+    instructions:
+      "Hike the bell back between your legs and snap the hips forward to float it to chest height.",
+    muscles_targeted: ["glutes", "hamstrings", "core"],
+  }),
+  exercise(14, "Farmer's Carry", {
+    description: "Loaded walk for grip and posture.",
+    category: "conditioning",
+    difficulty: "beginner",
+    equipment: "dumbbells",
+    instructions:
+      "Walk tall with a heavy dumbbell in each hand, keeping the shoulders packed.",
+    muscles_targeted: ["grip", "core", "traps"],
+  }),
+  exercise(15, "Child's Pose", {
+    description: "Resting stretch for the back and hips.",
+    category: "flexibility",
+    difficulty: "beginner",
+    equipment: "none",
+    instructions:
+      "Sit back onto your heels with arms extended and breathe slowly.",
+    muscles_targeted: ["lower back", "hips"],
+  }),
+  exercise(16, "Push-Up", {
+    description: "Bodyweight horizontal press.",
+    category: "strength",
+    difficulty: "beginner",
+    equipment: "none",
+    instructions:
+      "Lower your chest to the floor in a straight line and push back up. Elevate the hands to make it easier.",
+    muscles_targeted: ["chest", "triceps", "core"],
+  }),
+  exercise(17, "Step-Up", {
+    description: "Single-leg step onto a box or bench.",
+    category: "strength",
+    difficulty: "beginner",
+    equipment: "bench",
+    instructions:
+      "Drive through the front foot to stand on the box, then step down under control.",
+    muscles_targeted: ["quadriceps", "glutes"],
+  }),
+];
+
+const COOLDOWN: MockBlockTemplate = {
+  blockType: "cooldown",
+  blockName: "Cool-down",
+  exercises: [
+    { exerciseId: 15, duration: 60 },
+    { exerciseId: 11, duration: 60 },
+  ],
+};
+
+export const MOCK_DAY_TEMPLATES: MockDayTemplate[] = [
+  {
+    name: "Upper Body Strength",
+    description: "Pressing and pulling with dumbbells.",
+    instructions: "Rest 60-90 seconds between sets.",
+    blocks: [
+      {
+        blockType: "warmup",
+        blockName: "Warm-up",
+        exercises: [
+          { exerciseId: 10, duration: 60 },
+          { exerciseId: 9, sets: 2, reps: 15 },
+        ],
+      },
+      {
+        blockType: "traditional",
+        blockName: "Main Lifts",
+        exercises: [
+          { exerciseId: 2, sets: 3, reps: 10, weight: 20, restTime: 90 },
+          { exerciseId: 3, sets: 3, reps: 10, weight: 20, restTime: 90 },
+          { exerciseId: 5, sets: 3, reps: 8, weight: 12, restTime: 60 },
+        ],
+      },
+      COOLDOWN,
+    ],
+  },
+  {
+    name: "Lower Body Strength",
+    description: "Squat and hinge patterns for strong legs.",
+    instructions: "Keep one or two reps in reserve on every set.",
+    blocks: [
+      {
+        blockType: "warmup",
+        blockName: "Warm-up",
+        exercises: [
+          { exerciseId: 11, duration: 60 },
+          { exerciseId: 8, sets: 2, reps: 12 },
+        ],
+      },
+      {
+        blockType: "traditional",
+        blockName: "Main Lifts",
+        exercises: [
+          { exerciseId: 1, sets: 3, reps: 10, weight: 24, restTime: 90 },
+          { exerciseId: 4, sets: 3, reps: 10, weight: 30, restTime: 90 },
+          { exerciseId: 6, sets: 3, reps: 12, weight: 10, restTime: 60 },
+        ],
+      },
+      COOLDOWN,
+    ],
+  },
+  {
+    name: "Conditioning Circuit",
+    description: "Full-body circuit to build work capacity.",
+    instructions: "Move between exercises with minimal rest.",
+    blocks: [
+      {
+        blockType: "warmup",
+        blockName: "Warm-up",
+        exercises: [{ exerciseId: 12, duration: 60 }],
+      },
+      {
+        blockType: "circuit",
+        blockName: "Circuit",
+        rounds: 3,
+        instructions: "Rest 90 seconds after each round.",
+        exercises: [
+          { exerciseId: 13, reps: 15, weight: 16 },
+          { exerciseId: 16, reps: 10 },
+          { exerciseId: 17, reps: 12 },
+          { exerciseId: 7, duration: 30 },
+        ],
+      },
+      COOLDOWN,
+    ],
+  },
+  {
+    name: "Full Body & Core",
+    description: "Compound lifts finished with loaded carries.",
+    instructions: "Focus on clean technique over load.",
+    blocks: [
+      {
+        blockType: "warmup",
+        blockName: "Warm-up",
+        exercises: [
+          { exerciseId: 10, duration: 60 },
+          { exerciseId: 8, sets: 2, reps: 12 },
+        ],
+      },
+      {
+        blockType: "superset",
+        blockName: "Superset",
+        rounds: 3,
+        exercises: [
+          { exerciseId: 1, sets: 3, reps: 8, weight: 20, restTime: 60 },
+          { exerciseId: 3, sets: 3, reps: 10, weight: 20, restTime: 60 },
+        ],
+      },
+      {
+        blockType: "traditional",
+        blockName: "Finisher",
+        exercises: [
+          { exerciseId: 14, sets: 3, duration: 40, weight: 20, restTime: 60 },
+          { exerciseId: 7, sets: 3, duration: 30, restTime: 30 },
+        ],
+      },
+      COOLDOWN,
+    ],
+  },
+];
+
+export const MOCK_REST_DAY_TEMPLATE: MockDayTemplate = {
+  name: "Active Recovery",
+  description: "Gentle mobility to help you recover.",
+  instructions: "Move slowly and stay well within a comfortable range.",
+  blocks: [
+    {
+      blockType: "flow",
+      blockName: "Mobility Flow",
+      rounds: 2,
+      exercises: [
+        { exerciseId: 10, duration: 60 },
+        { exerciseId: 11, duration: 60 },
+        { exerciseId: 8, reps: 12 },
+        { exerciseId: 15, duration: 60 },
+      ],
+    },
+  ],
+};
+
+// Days of the week (0 = Sunday) that get a training day in a generated plan
+export const MOCK_TRAINING_WEEKDAYS = [1, 2, 4, 5, 6];
+
+export const MOCK_DEMO_USER = {
+  id: 1,
+  email: "demo@mastersfit.dev",
+  name: "Demo Athlete",
+};
+
+export const MOCK_DEMO_PROFILE = {
+  id: 1,
+  userId: MOCK_DEMO_USER.id,
+  email: MOCK_DEMO_USER.email,
+  age: 58,
+  height: 175,
+  weight: 172,
+  gender: "male",
+  goals: ["strength", "mobility"],
+  limitations: [],
+  fitnessLevel: "intermediate",
+  environment: "home_gym",
+  equipment: ["dumbbells", "kettlebell", "resistance bands", "bench"],
+  preferredStyles: ["strength", "functional"],
+  availableDays: ["monday", "tuesday", "thursday", "friday", "saturday"],
+  workoutDuration: 45,
+  intensityLevel: "moderate",
+  medicalNotes: "",
+  includeWarmup: true,
+  includeCooldown: true,
+  created_at: FIXTURE_TIMESTAMP,
+  updated_at: FIXTURE_TIMESTAMP,
+};
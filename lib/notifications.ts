@@ -98,20 +98,22 @@ export function addNotificationResponseListener(
 }
 
 /**
- * Schedule a local notification (for testing)
+ * Schedule a local notification to show `seconds` from now. Resolves to its
+ * id, which cancelScheduledNotification takes.
  */
 export async function scheduleLocalNotification(
   title: string,
   body: string,
   data?: NotificationData,
-  seconds: number = 1
+  seconds: number = 1,
+  sound: string = "default"
 ): Promise<string> {
   return await Notifications.scheduleNotificationAsync({
     content: {
       title,
       body,
       data,
-      sound: "default",
+      sound,
     },
     trigger: {
       seconds: Number(seconds),
@@ -119,6 +121,13 @@ export async function scheduleLocalNotification(
   });
 }
 
+/**
+ * Cancel a scheduled notification before it shows
+ */
+export async function cancelScheduledNotification(id: string): Promise<void> {
+  await Notifications.cancelScheduledNotificationAsync(id);
+}
+
 /**
  * Cancel all scheduled notifications
  */
@@ -0,0 +1,353 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { apiRequest } from "./api";
+import { logger } from "./logger";
+import {
+  getErrorMessage,
+  isNetworkError,
+  isSessionExpiredError,
+} from "./apiErrors";
+import { generateUniqueId } from "../utils";
+import { LIMITS } from "@/constants";
+
+/**
+ * Persisted outbox for write requests made while the device is offline.
+ * Mutations are stored in AsyncStorage and replayed in the order they were
+ * made once the backend is reachable again.
+ *
+ * Only requests the server certainly never applied are queued: no connection,
+ * or a session that expired before they were sent. A timeout or server error
+ * may follow a write that went through, and repeating it would duplicate it.
+ */
+
+// Whether a failed write can be kept and sent again later
+const isQueueableError = (error: unknown) =>
+  isNetworkError(error) || isSessionExpiredError(error);
+
+export interface QueuedMutation {
+  id: string;
+  endpoint: string;
+  method: string;
+  body?: string;
+  createdAt: string;
+  attempts: number;
+}
+
+/**
+ * What a queueable request resolves to when it was kept for later instead of
+ * sent, so callers can tell it apart from a failure
+ */
+export interface QueuedRequest {
+  queued: true;
+}
+
+export const isQueuedRequest = (value: unknown): value is QueuedRequest =>
+  typeof value === "object" && value !== null && "queued" in value;
+
+/**
+ * A queued mutation the server answered with an error on replay. It is kept
+ * out of the queue, since sending it again would not change the answer.
+ */
+export interface FailedMutation extends QueuedMutation {
+  error: string;
+  failedAt: string;
+}
+
+export interface OfflineQueueStatus {
+  pendingCount: number;
+  /** Replayed mutations the server turned down, oldest first */
+  failed: FailedMutation[];
+  lastError: string | null;
+  isReplaying: boolean;
+  lastSyncedAt: string | null;
+}
+
+const STORAGE_KEY = "offline_mutation_queue";
+const FAILED_STORAGE_KEY = "offline_mutation_failures";
+
+let queue: QueuedMutation[] = [];
+let failed: FailedMutation[] = [];
+let loadPromise: Promise<void> | null = null;
+let replayPromise: Promise<number> | null = null;
+let lastError: string | null = null;
+let lastSyncedAt: string | null = null;
+
+const statusListeners: Array<(status: OfflineQueueStatus) => void> = [];
+
+// Type guard to check if an object is a valid QueuedMutation
+function isQueuedMutation(obj: any): obj is QueuedMutation {
+  return (
+    obj &&
+    typeof obj.id === "string" &&
+    typeof obj.endpoint === "string" &&
+    typeof obj.method === "string" &&
+    (obj.body === undefined || typeof obj.body === "string") &&
+    typeof obj.createdAt === "string" &&
+    typeof obj.attempts === "number"
+  );
+}
+
+function isFailedMutation(obj: any): obj is FailedMutation {
+  return (
+    isQueuedMutation(obj) &&
+    typeof (obj as FailedMutation).error === "string" &&
+    typeof (obj as FailedMutation).failedAt === "string"
+  );
+}
+
+export function getOfflineQueueStatus(): OfflineQueueStatus {
+  return {
+    pendingCount: queue.length,
+    failed,
+    lastError,
+    isReplaying: replayPromise !== null,
+    lastSyncedAt,
+  };
+}
+
+export const subscribeToOfflineQueue = (
+  listener: (status: OfflineQueueStatus) => void
+) => {
+  statusListeners.push(listener);
+
+  return () => {
+    const index = statusListeners.indexOf(listener);
+    if (index > -1) {
+      statusListeners.splice(index, 1);
+    }
+  };
+};
+
+const notifyStatusChanged = () => {
+  const status = getOfflineQueueStatus();
+  statusListeners.forEach((listener) => {
+    try {
+      listener(status);
+    } catch (error) {
+      console.error("Error in offline queue listener:", error);
+    }
+  });
+};
+
+const saveQueue = async () => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    logger.error("Error saving offline queue", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+const saveFailed = async () => {
+  try {
+    await AsyncStorage.setItem(FAILED_STORAGE_KEY, JSON.stringify(failed));
+  } catch (error) {
+    logger.error("Error saving failed offline mutations", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+/**
+ * Load queued and failed mutations from storage. Safe to call multiple times.
+ */
+export function initializeOfflineQueue(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const [stored, storedFailed] = await Promise.all([
+          AsyncStorage.getItem(STORAGE_KEY),
+          AsyncStorage.getItem(FAILED_STORAGE_KEY),
+        ]);
+
+        const parsedFailed = storedFailed ? JSON.parse(storedFailed) : [];
+        if (
+          Array.isArray(parsedFailed) &&
+          parsedFailed.every(isFailedMutation)
+        ) {
+          failed = [...parsedFailed, ...failed];
+        }
+        if (!stored) return;
+
+        const parsed = JSON.parse(stored);
+        if (Array.isArray(parsed) && parsed.every(isQueuedMutation)) {
+          // Keep anything enqueued before the load finished after the stored entries
+          queue = [...parsed, ...queue];
+        } else {
+          console.warn("[offlineQueue] Invalid queue data in storage, discarding.");
+          await AsyncStorage.removeItem(STORAGE_KEY);
+        }
+      } catch (error) {
+        logger.error("Error loading offline queue", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        notifyStatusChanged();
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+async function enqueueMutation(
+  endpoint: string,
+  method: string,
+  body?: string
+): Promise<void> {
+  await initializeOfflineQueue();
+
+  if (queue.length >= LIMITS.MAX_QUEUED_MUTATIONS) {
+    logger.warn("Offline queue at max capacity, dropping oldest mutation", {
+      endpoint: queue[0].endpoint,
+    });
+    queue.shift();
+  }
+
+  queue.push({
+    id: generateUniqueId(),
+    endpoint,
+    method,
+    body,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  });
+  await saveQueue();
+
+  logger.info("Mutation queued for offline replay", {
+    endpoint,
+    method,
+    pendingCount: queue.length,
+  });
+  notifyStatusChanged();
+}
+
+/**
+ * Send a write request, falling back to the offline queue when the backend
+ * cannot be reached. Resolves to `{ queued: true }` when the request was
+ * queued; any other failure is thrown.
+ */
+export async function queueableRequest<T>(
+  endpoint: string,
+  options: RequestInit & { method: string }
+): Promise<T | QueuedRequest> {
+  await initializeOfflineQueue();
+  const body = typeof options.body === "string" ? options.body : undefined;
+
+  // Preserve ordering: never let a new write overtake older queued ones
+  if (queue.length > 0) {
+    await enqueueMutation(endpoint, options.method, body);
+    replayOfflineQueue();
+    return { queued: true };
+  }
+
+  try {
+    return await apiRequest<T>(endpoint, options);
+  } catch (error) {
+    // Offline: keep it for later. Writes made after the session expired
+    // wait until the user signs back in.
+    if (!isQueueableError(error)) {
+      throw error;
+    }
+    lastError = getErrorMessage(error);
+    await enqueueMutation(endpoint, options.method, body);
+    return { queued: true };
+  }
+}
+
+/**
+ * Replay queued mutations in order. Stops at the first one that can't reach the
+ * server so the remaining entries keep their order. Resolves to the number of
+ * mutations sent.
+ */
+export function replayOfflineQueue(): Promise<number> {
+  if (replayPromise) return replayPromise;
+
+  replayPromise = (async () => {
+    await initializeOfflineQueue();
+    let replayed = 0;
+    let hadError = false;
+
+    while (queue.length > 0) {
+      const mutation = queue[0];
+      try {
+        await apiRequest(mutation.endpoint, {
+          method: mutation.method,
+          body: mutation.body,
+        });
+        replayed++;
+      } catch (error) {
+        const message = getErrorMessage(error);
+        lastError = message;
+        hadError = true;
+
+        if (isQueueableError(error)) {
+          mutation.attempts++;
+          await saveQueue();
+          break;
+        }
+
+        // The server rejected the request, or may have applied it before
+        // failing; retrying could not fix the first and would repeat the second
+        logger.error("Queued mutation failed on replay", {
+          endpoint: mutation.endpoint,
+          method: mutation.method,
+          error: message,
+        });
+        lastError = `${mutation.method} ${mutation.endpoint}: ${message}`;
+        failed = [
+          ...failed,
+          { ...mutation, error: message, failedAt: new Date().toISOString() },
+        ].slice(-LIMITS.MAX_QUEUED_MUTATIONS);
+        await saveFailed();
+      }
+
+      queue.shift();
+      await saveQueue();
+      notifyStatusChanged();
+    }
+
+    if (queue.length === 0 && replayed > 0) {
+      lastSyncedAt = new Date().toISOString();
+      if (!hadError) lastError = null;
+      logger.info("Offline queue replayed", { replayed });
+    }
+    return replayed;
+  })();
+
+  notifyStatusChanged();
+  replayPromise.finally(() => {
+    replayPromise = null;
+    notifyStatusChanged();
+  });
+  return replayPromise;
+}
+
+/**
+ * Forget the mutations the server turned down, once the user has seen them
+ */
+export async function dismissFailedMutations(): Promise<void> {
+  await initializeOfflineQueue();
+  failed = [];
+  lastError = null;
+  await saveFailed();
+  notifyStatusChanged();
+}
+
+/**
+ * Discard all queued mutations (used on logout so they are never replayed
+ * with another user's credentials)
+ */
+export async function clearOfflineQueue(): Promise<void> {
+  queue = [];
+  failed = [];
+  lastError = null;
+  lastSyncedAt = null;
+  try {
+    await AsyncStorage.multiRemove([STORAGE_KEY, FAILED_STORAGE_KEY]);
+  } catch (error) {
+    logger.error("Error clearing offline queue", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  notifyStatusChanged();
+}
@@ -0,0 +1,459 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { fetchExerciseSessions, LoggedSet } from "./exerciseHistory";
+import { logger } from "./logger";
+import { getWorkingSets } from "./warmup";
+import { getTodayString } from "../utils";
+import { LIMITS } from "@/constants";
+
+/**
+ * Personal records spotted on the device as sets are logged. Each exercise is
+ * checked against its earlier sessions and against records already kept, and
+ * every record beaten is added to a dated timeline stored with the app.
+ *
+ * A plan day exercise holds at most one entry per record type (per weight for
+ * rep records). Checking it again replaces that entry, so sets edited after a
+ * record can take it back. Weights and volume are in pounds.
+ */
+
+export type RecordType =
+  | "heaviestWeight"
+  | "mostReps"
+  | "estimatedOneRepMax"
+  | "sessionVolume"
+  | "fastestTime";
+
+export interface PersonalRecordEntry {
+  exerciseId: number;
+  exerciseName: string;
+  planDayExerciseId: number;
+  type: RecordType;
+  /** Pounds, reps, or seconds for `fastestTime` */
+  value: number;
+  /** Weight the reps were done at, for `mostReps` */
+  weight?: number;
+  /** For Time block the time was set in, for `fastestTime` */
+  blockName?: string;
+  /** Best before this one; null for the first For Time result */
+  previous: number | null;
+  /** Day the record was set (YYYY-MM-DD) */
+  date: string;
+}
+
+/** A logged set; warm-ups are left out of records */
+export interface RecordSet {
+  weight: number;
+  reps: number;
+  isWarmup?: boolean;
+}
+
+export interface RecordExercise {
+  exerciseId: number;
+  planDayExerciseId: number;
+  name: string;
+}
+
+const STORAGE_KEY = "personal_record_timeline";
+
+// Estimates from high-rep sets are too rough to count
+const MAX_ONE_REP_MAX_REPS = 12;
+
+let timeline: PersonalRecordEntry[] = [];
+let loadPromise: Promise<void> | null = null;
+// Checks run one at a time so two quick checks can't both claim a record
+let pendingCheck: Promise<unknown> = Promise.resolve();
+
+interface Candidate {
+  type: RecordType;
+  value: number;
+  weight?: number;
+  blockName?: string;
+  previous: number | null;
+  // Whether beating it again in the same session is worth celebrating
+  celebrateImprovement: boolean;
+}
+
+const roundTo = (value: number, places = 1) =>
+  Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Epley estimate of the most that could be lifted for a single rep
+ */
+export function estimateOneRepMax(weight: number, reps: number): number {
+  if (weight <= 0 || reps <= 0) return 0;
+  return roundTo(reps === 1 ? weight : weight * (1 + reps / 30));
+}
+
+const normalizeName = (name?: string) => (name ?? "").trim().toLowerCase();
+
+const isSameEntry = (a: PersonalRecordEntry, b: Candidate) =>
+  a.type === b.type &&
+  (a.type !== "mostReps" || a.weight === b.weight) &&
+  (a.type !== "fastestTime" ||
+    normalizeName(a.blockName) === normalizeName(b.blockName));
+
+const saveTimeline = async () => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(timeline));
+  } catch (error) {
+    logger.error("Error saving personal records", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+/**
+ * Load the record timeline from storage. Safe to call multiple times.
+ */
+export function initializePersonalRecords(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (!stored) return;
+
+        const parsed = JSON.parse(stored);
+        if (Array.isArray(parsed)) {
+          timeline = [...parsed, ...timeline];
+        }
+      } catch (error) {
+        logger.error("Error loading personal records", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Records set for an exercise, newest first
+ */
+export async function fetchRecordTimeline(
+  exerciseId: number
+): Promise<PersonalRecordEntry[]> {
+  await initializePersonalRecords();
+  return timeline
+    .filter((entry) => entry.exerciseId === exerciseId)
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Records beaten by a plan day's exercises. Exercises added on top of the plan
+ * reuse their ids from one plan day to the next, so theirs also have to have
+ * been set on the plan day's date (YYYY-MM-DD).
+ */
+export async function fetchPlanDayRecords(
+  planDayExerciseIds: number[],
+  date: string
+): Promise<PersonalRecordEntry[]> {
+  await initializePersonalRecords();
+  return timeline.filter(
+    (entry) =>
+      entry.previous !== null &&
+      planDayExerciseIds.includes(entry.planDayExerciseId) &&
+      (entry.planDayExerciseId > 0 || entry.date === date)
+  );
+}
+
+// Best earlier value for a record, from past sessions and kept records
+function getBaseline(
+  type: RecordType,
+  earlierSets: LoggedSet[],
+  sessionVolumes: number[],
+  kept: PersonalRecordEntry[],
+  weight?: number
+): number | null {
+  let values: number[] = [];
+  switch (type) {
+    case "heaviestWeight":
+      values = earlierSets.map((set) => set.weight);
+      break;
+    case "estimatedOneRepMax":
+      values = earlierSets
+        .filter((set) => set.reps <= MAX_ONE_REP_MAX_REPS)
+        .map((set) => estimateOneRepMax(set.weight, set.reps));
+      break;
+    case "mostReps":
+      values = earlierSets
+        .filter((set) => set.weight === weight)
+        .map((set) => set.reps);
+      break;
+    case "sessionVolume":
+      values = sessionVolumes;
+      break;
+  }
+  values = [
+    ...values,
+    ...kept
+      .filter(
+        (entry) =>
+          entry.type === type &&
+          (type !== "mostReps" || entry.weight === weight)
+      )
+      .map((entry) => entry.value),
+  ].filter((value) => value > 0);
+
+  return values.length > 0 ? Math.max(...values) : null;
+}
+
+async function findSetRecords(
+  exercise: RecordExercise,
+  sets: RecordSet[]
+): Promise<Candidate[]> {
+  const workingSets = getWorkingSets(sets).filter((set) => set.reps > 0);
+  if (workingSets.length === 0) return [];
+
+  const sessions = await fetchExerciseSessions(exercise.exerciseId, {
+    excludePlanDayExerciseId: exercise.planDayExerciseId,
+  });
+  const earlierSets = sessions
+    .flatMap((session) => session.sets)
+    .filter((set) => set.reps > 0);
+  const sessionVolumes = sessions.map((session) =>
+    session.sets.reduce((total, set) => total + set.weight * set.reps, 0)
+  );
+  const kept = timeline.filter(
+    (entry) =>
+      entry.exerciseId === exercise.exerciseId &&
+      entry.planDayExerciseId !== exercise.planDayExerciseId
+  );
+
+  const candidates: Candidate[] = [];
+  const consider = (
+    type: RecordType,
+    value: number,
+    celebrateImprovement: boolean,
+    weight?: number
+  ) => {
+    if (value <= 0) return;
+    const previous = getBaseline(
+      type,
+      earlierSets,
+      sessionVolumes,
+      kept,
+      weight
+    );
+    // Nothing to beat the first time an exercise is done
+    if (previous === null || value <= previous) return;
+    candidates.push({ type, value, weight, previous, celebrateImprovement });
+  };
+
+  const weighted = workingSets.filter((set) => set.weight > 0);
+  if (weighted.length > 0) {
+    consider(
+      "heaviestWeight",
+      Math.max(...weighted.map((set) => set.weight)),
+      true
+    );
+    consider(
+      "estimatedOneRepMax",
+      Math.max(
+        0,
+        ...weighted
+          .filter((set) => set.reps <= MAX_ONE_REP_MAX_REPS)
+          .map((set) => estimateOneRepMax(set.weight, set.reps))
+      ),
+      true
+    );
+    // Volume grows with every set, so only passing the record is celebrated
+    consider(
+      "sessionVolume",
+      weighted.reduce((total, set) => total + set.weight * set.reps, 0),
+      false
+    );
+  }
+
+  const repsByWeight = new Map<number, number>();
+  workingSets.forEach((set) => {
+    repsByWeight.set(
+      set.weight,
+      Math.max(set.reps, repsByWeight.get(set.weight) ?? 0)
+    );
+  });
+  repsByWeight.forEach((reps, weight) =>
+    consider("mostReps", reps, true, weight)
+  );
+
+  return candidates;
+}
+
+// Bring the plan day exercise's entries in line with what it now holds, and
+// return the records worth celebrating
+function applyCandidates(
+  exercise: RecordExercise,
+  candidates: Candidate[],
+  types: RecordType[]
+): PersonalRecordEntry[] {
+  const date = getTodayString();
+  const existing = timeline.filter(
+    (entry) =>
+      entry.planDayExerciseId === exercise.planDayExerciseId &&
+      types.includes(entry.type)
+  );
+  const celebrate: PersonalRecordEntry[] = [];
+
+  const entries = candidates.map((candidate): PersonalRecordEntry => {
+    const current = existing.find((entry) => isSameEntry(entry, candidate));
+    const isNew = !current;
+    const isImproved =
+      !!current &&
+      candidate.celebrateImprovement &&
+      (candidate.type === "fastestTime"
+        ? candidate.value < current.value
+        : candidate.value > current.value);
+
+    const entry: PersonalRecordEntry = {
+      exerciseId: exercise.exerciseId,
+      exerciseName: exercise.name,
+      planDayExerciseId: exercise.planDayExerciseId,
+      type: candidate.type,
+      value: candidate.value,
+      weight: candidate.weight,
+      blockName: candidate.blockName,
+      previous: candidate.previous,
+      date: current?.date ?? date,
+    };
+    if ((isNew && candidate.previous !== null) || isImproved) {
+      celebrate.push(entry);
+    }
+    return entry;
+  });
+
+  timeline = [
+    ...timeline.filter((entry) => !existing.includes(entry)),
+    ...entries,
+  ]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, LIMITS.MAX_PERSONAL_RECORDS);
+  return celebrate;
+}
+
+const runCheck = <T>(check: () => Promise<T>): Promise<T> => {
+  const result = pendingCheck.then(check);
+  pendingCheck = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * Check an exercise's sets so far for new records: heaviest weight, most reps
+ * at a weight, best estimated one-rep max and best session volume. Returns the
+ * records just set, to celebrate; the timeline is kept up to date either way.
+ */
+export function checkForRecords(
+  exercise: RecordExercise,
+  sets: RecordSet[]
+): Promise<PersonalRecordEntry[]> {
+  return runCheck(async () => {
+    try {
+      await initializePersonalRecords();
+      const candidates = await findSetRecords(exercise, sets);
+      const records = applyCandidates(exercise, candidates, [
+        "heaviestWeight",
+        "mostReps",
+        "estimatedOneRepMax",
+        "sessionVolume",
+      ]);
+      await saveTimeline();
+      return records;
+    } catch (error) {
+      console.error("Error checking personal records:", error);
+      return [];
+    }
+  });
+}
+
+/**
+ * Check a finished For Time block's time against earlier runs of the same
+ * block. Exercise history doesn't hold block times, so the first run of a
+ * block is kept as the time to beat rather than celebrated.
+ */
+export function checkForTimeRecord(
+  exercises: RecordExercise[],
+  blockName: string,
+  seconds: number
+): Promise<PersonalRecordEntry[]> {
+  return runCheck(async () => {
+    try {
+      await initializePersonalRecords();
+      if (seconds <= 0) return [];
+
+      const records = exercises.flatMap((exercise) => {
+        const earlier = timeline.filter(
+          (entry) =>
+            entry.exerciseId === exercise.exerciseId &&
+            entry.planDayExerciseId !== exercise.planDayExerciseId &&
+            entry.type === "fastestTime" &&
+            normalizeName(entry.blockName) === normalizeName(blockName)
+        );
+        const previous =
+          earlier.length > 0
+            ? Math.min(...earlier.map((entry) => entry.value))
+            : null;
+        const candidates: Candidate[] =
+          previous === null || seconds < previous
+            ? [
+                {
+                  type: "fastestTime",
+                  value: seconds,
+                  blockName,
+                  previous,
+                  celebrateImprovement: true,
+                },
+              ]
+            : [];
+        return applyCandidates(exercise, candidates, ["fastestTime"]);
+      });
+      await saveTimeline();
+      return records;
+    } catch (error) {
+      console.error("Error checking For Time record:", error);
+      return [];
+    }
+  });
+}
+
+/**
+ * What a record is for, e.g. "Most reps at 135 lbs"
+ */
+export function getRecordLabel(
+  entry: PersonalRecordEntry,
+  formatWeight: (lbs: number) => string
+): string {
+  switch (entry.type) {
+    case "heaviestWeight":
+      return "Heaviest weight";
+    case "mostReps":
+      return entry.weight
+        ? `Most reps at ${formatWeight(entry.weight)}`
+        : "Most reps";
+    case "estimatedOneRepMax":
+      return "Best estimated 1RM";
+    case "sessionVolume":
+      return "Most volume in a session";
+    case "fastestTime":
+      return entry.blockName ? `Fastest ${entry.blockName}` : "Fastest time";
+  }
+}
+
+/**
+ * A record value, or the previous best when `value` is passed
+ */
+export function formatRecordValue(
+  entry: PersonalRecordEntry,
+  formatWeight: (lbs: number) => string,
+  value = entry.value
+): string {
+  switch (entry.type) {
+    case "mostReps":
+      return `${value} reps`;
+    case "fastestTime": {
+      const seconds = Math.round(value);
+      return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(
+        2,
+        "0"
+      )}`;
+    }
+    default:
+      return formatWeight(value);
+  }
+}
@@ -0,0 +1,177 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { logger } from "./logger";
+import { PlateInventory, UnitSystem } from "@/types/api";
+
+/**
+ * Barbell plate math. Works out which plates to load on each side of the bar
+ * for a target weight using only the plates the user owns, and the closest
+ * loads either side when the exact weight can't be built. The plates the user
+ * owns are kept on the device.
+ *
+ * All weights here are in the inventory's own unit (the unit the plates are
+ * stamped in); callers convert the target first.
+ */
+
+const STORAGE_KEY = "plate_inventory";
+
+export const DEFAULT_PLATE_INVENTORY: Record<UnitSystem, PlateInventory> = {
+  imperial: {
+    unit: "lbs",
+    barWeight: 45,
+    plates: [
+      { weight: 45, count: 8 },
+      { weight: 35, count: 2 },
+      { weight: 25, count: 4 },
+      { weight: 10, count: 4 },
+      { weight: 5, count: 4 },
+      { weight: 2.5, count: 4 },
+    ],
+  },
+  metric: {
+    unit: "kg",
+    barWeight: 20,
+    plates: [
+      { weight: 25, count: 4 },
+      { weight: 20, count: 4 },
+      { weight: 15, count: 2 },
+      { weight: 10, count: 4 },
+      { weight: 5, count: 4 },
+      { weight: 2.5, count: 4 },
+      { weight: 1.25, count: 4 },
+    ],
+  },
+};
+
+export interface PlateLoad {
+  /** Bar plus plates */
+  total: number;
+  /** Plates on one side of the bar, heaviest first */
+  perSide: number[];
+}
+
+export interface PlateCalculation {
+  target: number;
+  /** Loading that hits the target exactly, or null if it can't be built */
+  exact: PlateLoad | null;
+  /** Closest achievable loads below and above the target, when not exact */
+  nearest: PlateLoad[];
+}
+
+// Plate weights are compared in hundredths to avoid floating point drift
+const SCALE = 100;
+const toUnits = (weight: number) => Math.round(weight * SCALE);
+const fromUnits = (units: number) => units / SCALE;
+
+function isPlateInventory(obj: any): obj is PlateInventory {
+  return (
+    obj !== null &&
+    typeof obj === "object" &&
+    (obj.unit === "lbs" || obj.unit === "kg") &&
+    typeof obj.barWeight === "number" &&
+    Array.isArray(obj.plates)
+  );
+}
+
+/**
+ * The plate inventory saved on this device, or a typical gym set in the
+ * user's units
+ */
+export async function loadPlateInventory(
+  unitSystem: UnitSystem
+): Promise<PlateInventory> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (isPlateInventory(parsed)) return parsed;
+  } catch (error) {
+    logger.error("Error loading plate inventory", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return DEFAULT_PLATE_INVENTORY[unitSystem];
+}
+
+/**
+ * Keep the plates the user owns. Resolves to false if they couldn't be saved.
+ */
+export async function savePlateInventory(
+  inventory: PlateInventory
+): Promise<boolean> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(inventory));
+    return true;
+  } catch (error) {
+    logger.error("Error saving plate inventory", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+/**
+ * Every per-side plate total the inventory can build, each with the fewest
+ * plates that make it. Plates are used in pairs, one on each side.
+ */
+function getReachableLoads(inventory: PlateInventory): Map<number, number[]> {
+  const pairs = inventory.plates
+    .filter((plate) => plate.weight > 0 && plate.count >= 2)
+    .flatMap((plate) =>
+      Array<number>(Math.floor(plate.count / 2)).fill(plate.weight)
+    )
+    .sort((a, b) => b - a);
+
+  const reachable = new Map<number, number[]>([[0, []]]);
+  pairs.forEach((plate) => {
+    const plateUnits = toUnits(plate);
+    // Snapshot so each physical pair is only used once per combination
+    Array.from(reachable.entries()).forEach(([units, perSide]) => {
+      const next = units + plateUnits;
+      const existing = reachable.get(next);
+      if (!existing || existing.length > perSide.length + 1) {
+        reachable.set(next, [...perSide, plate]);
+      }
+    });
+  });
+
+  return reachable;
+}
+
+/**
+ * Work out the per-side loading for a target weight
+ */
+export function calculatePlateLoading(
+  target: number,
+  inventory: PlateInventory
+): PlateCalculation {
+  const barUnits = toUnits(inventory.barWeight);
+  const neededPerSide = (toUnits(target) - barUnits) / 2;
+  const reachable = getReachableLoads(inventory);
+
+  const toLoad = (units: number): PlateLoad => ({
+    total: fromUnits(barUnits + units * 2),
+    perSide: reachable.get(units) ?? [],
+  });
+
+  if (reachable.has(neededPerSide)) {
+    return { target, exact: toLoad(neededPerSide), nearest: [] };
+  }
+
+  let below: number | null = null;
+  let above: number | null = null;
+  for (const units of reachable.keys()) {
+    if (units < neededPerSide && (below === null || units > below)) {
+      below = units;
+    }
+    if (units > neededPerSide && (above === null || units < above)) {
+      above = units;
+    }
+  }
+
+  return {
+    target,
+    exact: null,
+    nearest: [below, above]
+      .filter((units): units is number => units !== null)
+      .map(toLoad),
+  };
+}
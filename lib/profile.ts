@@ -1,4 +1,5 @@
 import { apiRequest } from "./api";
+import { isCancelledError, isNotFoundError } from "./apiErrors";
 import { getCurrentUser } from "./auth";
 import { Profile, UpdateProfileParams } from "@/types/api";
 
@@ -8,7 +9,9 @@ export type { Profile, UpdateProfileParams } from "@/types/api";
 /**
  * Fetch the current user's profile
  */
-export async function fetchUserProfile(): Promise<Profile | null> {
+export async function fetchUserProfile(
+  signal?: AbortSignal
+): Promise<Profile | null> {
   try {
     const user = await getCurrentUser();
     if (!user) {
@@ -16,11 +19,14 @@ export async function fetchUserProfile(): Promise<Profile | null> {
     }
 
     const response = await apiRequest<{ success: boolean; profile: Profile }>(
-      `/profile/${user.id}`
+      `/profile/${user.id}`,
+      { signal }
     );
 
     return response.profile;
   } catch (error) {
+    // New accounts have no profile until onboarding completes
+    if (isNotFoundError(error) || isCancelledError(error)) return null;
     console.error("Error fetching user profile:", error);
     return null;
   }
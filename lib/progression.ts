@@ -0,0 +1,123 @@
+import { ExerciseSession } from "./exerciseHistory";
+import {
+  DEFAULT_UNIT_SYSTEM,
+  getWeightUnit,
+  toDisplayWeight,
+  fromDisplayWeight,
+} from "./units";
+import { UnitSystem } from "@/types/api";
+
+/**
+ * Client-side progressive overload. Suggests the next working weight for an
+ * exercise from how the last session went compared with what was prescribed:
+ *
+ * - every target set hit at the target reps: add one increment
+ *   (two when it was logged as easy, none when it was logged as hard)
+ * - within 80% of the target reps: stay at the same weight
+ * - further short than that: drop one increment
+ *
+ * Weights are in pounds; increments are picked in the user's unit so metric
+ * users get kilogram jumps. Effort comes from the log's `difficulty` ("too
+ * easy" / "too hard" in the check-in); its `rating` is how the member rated
+ * the session, not how hard it was, so it is left out.
+ */
+
+export interface WeightSuggestion {
+  weight: number;
+  /** Change from the weight used last time, in pounds */
+  change: number;
+  /** Short explanation, e.g. "hit 3×10 last time → +5 lbs" */
+  reason: string;
+}
+
+interface Prescription {
+  sets?: number;
+  reps?: number;
+  weight?: number;
+}
+
+// Share of the target reps that still counts as holding the weight
+const HOLD_THRESHOLD = 0.8;
+
+type Effort = "easy" | "hard" | null;
+
+function getEffort(session: ExerciseSession): Effort {
+  const difficulty = session.difficulty?.toLowerCase() ?? "";
+  if (difficulty.includes("hard")) return "hard";
+  if (difficulty.includes("easy")) return "easy";
+  return null;
+}
+
+// Plate and dumbbell jumps get relatively smaller as the load goes up
+function getIncrement(weight: number, unitSystem: UnitSystem): number {
+  if (unitSystem === "metric") return weight < 10 ? 1.25 : 2.5;
+  return weight < 20 ? 2.5 : 5;
+}
+
+function formatChange(change: number, unitSystem: UnitSystem): string {
+  if (change === 0) return "same weight";
+  return `${change > 0 ? "+" : "−"}${Math.abs(change)} ${getWeightUnit(
+    unitSystem
+  )}`;
+}
+
+/**
+ * Suggest the next working weight from earlier sessions (newest first).
+ * Returns null for bodyweight work or when there is nothing to go on.
+ */
+export function suggestNextWeight(
+  sessions: ExerciseSession[],
+  prescription: Prescription,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
+): WeightSuggestion | null {
+  const last = sessions[0];
+  if (!last || last.sets.length === 0) return null;
+
+  // The heaviest weight used is the working weight; lighter sets are warm-ups
+  const workingWeight = Math.max(...last.sets.map((set) => set.weight));
+  if (workingWeight <= 0) return null;
+
+  const targetSets =
+    prescription.sets || last.target?.sets || last.sets.length;
+  const targetReps =
+    prescription.reps ||
+    last.target?.reps ||
+    Math.max(...last.sets.map((set) => set.reps));
+  if (targetReps <= 0) return null;
+
+  const workingSets = last.sets.filter((set) => set.weight === workingWeight);
+  const setsHit = workingSets.filter((set) => set.reps >= targetReps).length;
+  const repsDone = workingSets
+    .slice(0, targetSets)
+    .reduce((total, set) => total + Math.min(set.reps, targetReps), 0);
+  const repsTarget = targetSets * targetReps;
+
+  // Step in the user's unit, then report the result back in pounds
+  const displayWeight = toDisplayWeight(workingWeight, unitSystem);
+  const increment = getIncrement(displayWeight, unitSystem);
+  const effort = getEffort(last);
+  const suggest = (change: number, reason: string): WeightSuggestion => {
+    const weight =
+      change === 0
+        ? workingWeight
+        : fromDisplayWeight(Math.max(0, displayWeight + change), unitSystem);
+    return {
+      weight,
+      change: Math.round((weight - workingWeight) * 100) / 100,
+      reason: `${reason} → ${formatChange(change, unitSystem)}`,
+    };
+  };
+
+  if (setsHit >= targetSets) {
+    const hit = `hit ${targetSets}×${targetReps} last time`;
+    if (effort === "hard") return suggest(0, `${hit} but it felt hard`);
+    if (effort === "easy") return suggest(increment * 2, `${hit} easily`);
+    return suggest(increment, hit);
+  }
+
+  const got = `got ${repsDone} of ${repsTarget} reps last time`;
+  if (repsDone >= repsTarget * HOLD_THRESHOLD) {
+    return suggest(0, got);
+  }
+  return suggest(-increment, got);
+}
@@ -0,0 +1,377 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { CancelledError, isConnectivityError } from "./apiErrors";
+import { logger } from "./logger";
+import { TIMEOUTS, LIMITS } from "@/constants";
+
+/**
+ * Keyed query cache with TTLs, in-flight deduplication, stale-while-revalidate
+ * and tag-based invalidation.
+ *
+ * - Fresh entries are returned without a request.
+ * - Entries older than their TTL are returned immediately and refreshed in
+ *   the background (`onRevalidate` receives the new data if it changed).
+ * - Invalidated entries are not served while the backend is reachable; the
+ *   next query waits for the network and only falls back to them offline.
+ * - Entries queried with `persist` are written to AsyncStorage so a cold start
+ *   can render the last known data before the first request finishes.
+ */
+
+export interface QueryOptions<T> {
+  /** How long data counts as fresh (defaults to TIMEOUTS.CACHE_DURATION_MS) */
+  ttl?: number;
+  /** Tags used to invalidate this entry together with related ones */
+  tags?: readonly string[];
+  /** Keep this entry in AsyncStorage across app restarts */
+  persist?: boolean;
+  /** Skip cached data and wait for the network */
+  forceRefresh?: boolean;
+  /** Stops this caller waiting; the request is aborted once nobody waits on it */
+  signal?: AbortSignal;
+  /** Rebuild data restored from AsyncStorage (JSON loses Dates and classes) */
+  revive?: (data: unknown) => T;
+  /** Receives fresh data when a background revalidation brings changes */
+  onRevalidate?: (data: T) => void;
+}
+
+interface CacheEntry {
+  data: unknown;
+  updatedAt: number;
+  ttl: number;
+  tags: readonly string[];
+  persist: boolean;
+  invalidated: boolean;
+  // Restored from storage and not yet passed through `revive`
+  needsRevive: boolean;
+}
+
+interface PersistedEntry {
+  data: unknown;
+  updatedAt: number;
+  tags: string[];
+}
+
+interface InFlightQuery {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  tags: readonly string[];
+  waiters: number;
+}
+
+const STORAGE_KEY = "query_cache";
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, InFlightQuery>();
+const invalidationListeners: Array<{ tag: string; listener: () => void }> =
+  [];
+let loadPromise: Promise<void> | null = null;
+
+// Type guard to check if an object is a valid PersistedEntry
+function isPersistedEntry(obj: any): obj is PersistedEntry {
+  return (
+    obj &&
+    "data" in obj &&
+    typeof obj.updatedAt === "number" &&
+    Array.isArray(obj.tags) &&
+    obj.tags.every((tag: unknown) => typeof tag === "string")
+  );
+}
+
+async function saveEntries(): Promise<void> {
+  const persisted: Record<string, PersistedEntry> = {};
+  entries.forEach((entry, key) => {
+    if (entry.persist && !entry.invalidated) {
+      persisted[key] = {
+        data: entry.data,
+        updatedAt: entry.updatedAt,
+        tags: [...entry.tags],
+      };
+    }
+  });
+
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(persisted));
+  } catch (error) {
+    logger.error("Failed to persist query cache", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Load persisted entries from AsyncStorage. Safe to call more than once.
+ */
+export function initializeQueryCache(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (!stored) return;
+
+        const parsed = JSON.parse(stored);
+        const now = Date.now();
+        Object.entries(parsed || {}).forEach(([key, value]) => {
+          if (!isPersistedEntry(value)) {
+            console.warn("Discarding invalid persisted query:", key);
+            return;
+          }
+          if (now - value.updatedAt > TIMEOUTS.PERSISTED_CACHE_MAX_AGE) return;
+          // Anything queried in this session is newer than the stored copy
+          if (entries.has(key)) return;
+
+          entries.set(key, {
+            data: value.data,
+            updatedAt: value.updatedAt,
+            ttl: TIMEOUTS.CACHE_DURATION_MS,
+            tags: value.tags,
+            persist: true,
+            invalidated: false,
+            needsRevive: true,
+          });
+        });
+      } catch (error) {
+        logger.error("Failed to load persisted query cache", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+function evictOldestEntries(): void {
+  if (entries.size <= LIMITS.MAX_QUERY_CACHE_ENTRIES) return;
+
+  const byAge = [...entries.entries()].sort(
+    (a, b) => a[1].updatedAt - b[1].updatedAt
+  );
+  byAge
+    .slice(0, entries.size - LIMITS.MAX_QUERY_CACHE_ENTRIES)
+    .forEach(([key]) => entries.delete(key));
+}
+
+function startFetch<T>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  options: QueryOptions<T>
+): InFlightQuery {
+  const controller = new AbortController();
+  const tags = options.tags ?? [];
+  const request: InFlightQuery = {
+    controller,
+    tags,
+    waiters: 0,
+    promise: Promise.resolve(),
+  };
+
+  request.promise = (async () => {
+    try {
+      const data = await fetcher(controller.signal);
+
+      // Skip the write if the key was invalidated while this was in flight
+      if (inFlight.get(key) === request) {
+        entries.set(key, {
+          data,
+          updatedAt: Date.now(),
+          ttl: options.ttl ?? TIMEOUTS.CACHE_DURATION_MS,
+          tags,
+          persist: !!options.persist,
+          invalidated: false,
+          needsRevive: false,
+        });
+        evictOldestEntries();
+        if (options.persist) await saveEntries();
+      }
+      return data;
+    } finally {
+      if (inFlight.get(key) === request) inFlight.delete(key);
+    }
+  })();
+
+  inFlight.set(key, request);
+  return request;
+}
+
+// Wait for a shared request on behalf of one caller
+function waitForFetch<T>(
+  key: string,
+  request: InFlightQuery,
+  signal?: AbortSignal
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(new CancelledError(key, "GET"));
+  }
+
+  request.waiters++;
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+    const onAbort = () => {
+      if (settled) return;
+      settled = true;
+      request.waiters--;
+      if (request.waiters === 0) request.controller.abort();
+      reject(new CancelledError(key, "GET"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    request.promise.then(
+      (data) => {
+        if (settled) return;
+        settled = true;
+        request.waiters--;
+        signal?.removeEventListener("abort", onAbort);
+        resolve(data as T);
+      },
+      (error) => {
+        if (settled) return;
+        settled = true;
+        request.waiters--;
+        signal?.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+function readEntry<T>(entry: CacheEntry, options: QueryOptions<T>): T {
+  if (entry.needsRevive) {
+    entry.data = options.revive ? options.revive(entry.data) : entry.data;
+    entry.needsRevive = false;
+  }
+  return entry.data as T;
+}
+
+/**
+ * Return cached data for `key`, calling `fetcher` when there is none, it was
+ * invalidated or `forceRefresh` is set. Concurrent calls share one request.
+ */
+export async function query<T>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  options: QueryOptions<T> = {}
+): Promise<T> {
+  await initializeQueryCache();
+
+  const entry = entries.get(key);
+  if (entry && !entry.invalidated && !options.forceRefresh) {
+    let data: T;
+    try {
+      data = readEntry(entry, options);
+    } catch (error) {
+      // Stored data no longer matches what the app expects; refetch it
+      logger.warn("Discarding cached query that failed to revive", {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      entries.delete(key);
+      return waitForFetch<T>(
+        key,
+        inFlight.get(key) ?? startFetch(key, fetcher, options),
+        options.signal
+      );
+    }
+
+    const isStale = Date.now() - entry.updatedAt >= entry.ttl;
+    if (isStale && !inFlight.has(key)) {
+      const previous = JSON.stringify(data);
+      startFetch(key, fetcher, options).promise.then(
+        (fresh) => {
+          // Only bother subscribers when something actually changed
+          if (JSON.stringify(fresh) !== previous) {
+            options.onRevalidate?.(fresh as T);
+          }
+        },
+        (error) => {
+          logger.warn("Background revalidation failed", {
+            key,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      );
+    }
+    return data;
+  }
+
+  const existing = options.forceRefresh ? undefined : inFlight.get(key);
+  try {
+    return await waitForFetch<T>(
+      key,
+      existing ?? startFetch(key, fetcher, options),
+      options.signal
+    );
+  } catch (error) {
+    // Offline, the last known data beats an empty screen
+    if (entry && isConnectivityError(error)) {
+      return readEntry(entry, options);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Mark every entry carrying one of `tags` as invalid so the next query for it
+ * goes to the network, and notify invalidation subscribers.
+ */
+export function invalidateQueries(...tags: string[]): void {
+  let persistedChanged = false;
+
+  entries.forEach((entry) => {
+    if (entry.tags.some((tag) => tags.includes(tag))) {
+      entry.invalidated = true;
+      if (entry.persist) persistedChanged = true;
+    }
+  });
+
+  // Results of requests started before the invalidation must not be cached
+  inFlight.forEach((request, key) => {
+    if (request.tags.some((tag) => tags.includes(tag))) {
+      inFlight.delete(key);
+    }
+  });
+
+  if (persistedChanged) saveEntries();
+
+  invalidationListeners
+    .filter(({ tag }) => tags.includes(tag))
+    .forEach(({ listener }) => {
+      try {
+        listener();
+      } catch (error) {
+        console.error("Error in query invalidation listener:", error);
+      }
+    });
+}
+
+/**
+ * Run `listener` whenever entries tagged with `tag` are invalidated
+ */
+export function subscribeToQueryInvalidation(
+  tag: string,
+  listener: () => void
+): () => void {
+  const subscription = { tag, listener };
+  invalidationListeners.push(subscription);
+
+  return () => {
+    const index = invalidationListeners.indexOf(subscription);
+    if (index > -1) {
+      invalidationListeners.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Drop all cached and persisted data (used on logout)
+ */
+export async function clearQueryCache(): Promise<void> {
+  inFlight.forEach((request) => request.controller.abort());
+  inFlight.clear();
+  entries.clear();
+
+  try {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    logger.error("Failed to clear persisted query cache", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
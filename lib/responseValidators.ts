@@ -0,0 +1,644 @@
+import { ContractViolationError } from "./apiErrors";
+import { parseDateSafely } from "../utils";
+import {
+  Exercise,
+  WorkoutBlockWithExercise,
+  WorkoutBlockWithExercises,
+  PlanDayWithBlocks,
+  WorkoutWithDetails,
+  DashboardMetrics,
+  WeeklySummary,
+  WeightAccuracyMetrics,
+  WorkoutTypeMetrics,
+  DateSearchResponse,
+  DateSearchWorkout,
+  DateSearchWorkoutBlock,
+  DateSearchExercise,
+  SearchExerciseDetails,
+  ExerciseDetails,
+  ExerciseUserStats,
+  SearchExerciseLog,
+} from "@/types/api";
+
+/**
+ * Runtime validation for backend payloads. Each validator coerces values the
+ * backend is known to send loosely (date strings, numeric strings, nulls),
+ * fills safe defaults for missing optional data and throws a
+ * ContractViolationError when something the UI cannot do without is missing.
+ *
+ * Unknown fields are passed through untouched.
+ */
+
+type Raw = Record<string, any>;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function fail(path: string, expected: string, value: unknown): never {
+  throw new ContractViolationError(
+    path,
+    `expected ${expected}, got ${describe(value)}`
+  );
+}
+
+function asObject(value: unknown, path: string): Raw {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    fail(path, "object", value);
+  }
+  return value as Raw;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return undefined;
+}
+
+function asId(value: unknown, path: string): number {
+  const id = toNumber(value);
+  if (id === undefined) fail(path, "numeric id", value);
+  return id;
+}
+
+function asNumber(value: unknown, fallback: number): number {
+  return toNumber(value) ?? fallback;
+}
+
+function asOptionalNumber(value: unknown): number | undefined {
+  return toNumber(value);
+}
+
+function asNullableNumber(value: unknown): number | null {
+  return toNumber(value) ?? null;
+}
+
+function asString(value: unknown, fallback: string): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  return fallback;
+}
+
+function asRequiredString(value: unknown, path: string): string {
+  if (typeof value !== "string") fail(path, "string", value);
+  return value;
+}
+
+function asOptionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function asBoolean(value: unknown, fallback: boolean): boolean {
+  if (typeof value === "boolean") return value;
+  if (value === 1 || value === "true") return true;
+  if (value === 0 || value === "false") return false;
+  return fallback;
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    // parseDateSafely keeps YYYY-MM-DD values on the local calendar day
+    const date = parseDateSafely(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return new Date(value);
+  }
+  return undefined;
+}
+
+function asDate(value: unknown, path: string): Date {
+  const date = parseDate(value);
+  if (!date) fail(path, "date", value);
+  return date;
+}
+
+// Bookkeeping timestamps are never rendered, so a missing one is not fatal
+function asTimestamp(value: unknown): Date {
+  return parseDate(value) ?? new Date(0);
+}
+
+function asNullableDate(value: unknown): Date | null {
+  return parseDate(value) ?? null;
+}
+
+function asArray<T>(
+  value: unknown,
+  path: string,
+  validateItem: (item: unknown, itemPath: string) => T
+): T[] {
+  if (value === null || value === undefined) return [];
+  if (!Array.isArray(value)) fail(path, "array", value);
+  return value.map((item, index) => validateItem(item, `${path}[${index}]`));
+}
+
+function asStringArray(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is string => typeof item === "string");
+}
+
+// ---------------------------------------------------------------------------
+// Workout plans
+// ---------------------------------------------------------------------------
+
+function validateExercise(value: unknown, path: string): Exercise {
+  const raw = asObject(value, path);
+  return {
+    ...raw,
+    id: asId(raw.id, `${path}.id`),
+    name: asRequiredString(raw.name, `${path}.name`),
+    description: asOptionalString(raw.description),
+    category: asString(raw.category, ""),
+    difficulty: asString(raw.difficulty, ""),
+    equipment: asOptionalString(raw.equipment),
+    instructions: asOptionalString(raw.instructions),
+    link: asOptionalString(raw.link),
+    muscles_targeted: Array.isArray(raw.muscles_targeted)
+      ? asStringArray(raw.muscles_targeted)
+      : undefined,
+    created_at: asTimestamp(raw.created_at),
+    updated_at: asTimestamp(raw.updated_at),
+  };
+}
+
+function validateBlockExercise(
+  value: unknown,
+  path: string,
+  workoutBlockId: number
+): WorkoutBlockWithExercise {
+  const raw = asObject(value, path);
+  return {
+    ...raw,
+    id: asId(raw.id, `${path}.id`),
+    workoutBlockId: asNumber(raw.workoutBlockId, workoutBlockId),
+    exerciseId: asId(raw.exerciseId ?? raw.exercise?.id, `${path}.exerciseId`),
+    sets: asOptionalNumber(raw.sets),
+    reps: asOptionalNumber(raw.reps),
+    weight: asOptionalNumber(raw.weight),
+    duration: asOptionalNumber(raw.duration),
+    restTime: asOptionalNumber(raw.restTime),
+    completed: asBoolean(raw.completed, false),
+    notes: asOptionalString(raw.notes),
+    order: asOptionalNumber(raw.order),
+    exercise: validateExercise(raw.exercise, `${path}.exercise`),
+    created_at: asTimestamp(raw.created_at),
+    updated_at: asTimestamp(raw.updated_at),
+  };
+}
+
+function validateWorkoutBlock(
+  value: unknown,
+  path: string
+): WorkoutBlockWithExercises {
+  const raw = asObject(value, path);
+  const id = asId(raw.id, `${path}.id`);
+  return {
+    ...raw,
+    id,
+    blockType: asOptionalString(raw.blockType),
+    blockName: asOptionalString(raw.blockName),
+    blockDurationMinutes: asOptionalNumber(raw.blockDurationMinutes),
+    timeCapMinutes: asOptionalNumber(raw.timeCapMinutes),
+    rounds: asOptionalNumber(raw.rounds),
+    instructions: asOptionalString(raw.instructions),
+    order: asOptionalNumber(raw.order),
+    exercises: asArray(raw.exercises, `${path}.exercises`, (item, itemPath) =>
+      validateBlockExercise(item, itemPath, id)
+    ),
+    created_at: asTimestamp(raw.created_at),
+    updated_at: asTimestamp(raw.updated_at),
+  };
+}
+
+/**
+ * Validate a plan day and its blocks
+ */
+export function validatePlanDayWithBlocks(
+  value: unknown,
+  path = "planDay",
+  workoutId = 0
+): PlanDayWithBlocks {
+  const raw = asObject(value, path);
+  const dayNumber = asNumber(raw.dayNumber, 0);
+  return {
+    ...raw,
+    id: asId(raw.id, `${path}.id`),
+    workoutId: asNumber(raw.workoutId, workoutId),
+    date: asDate(raw.date, `${path}.date`),
+    instructions: asOptionalString(raw.instructions),
+    name: asString(raw.name, dayNumber ? `Day ${dayNumber}` : "Workout"),
+    description: asOptionalString(raw.description),
+    dayNumber,
+    blocks: asArray(raw.blocks, `${path}.blocks`, validateWorkoutBlock),
+    isComplete: asBoolean(raw.isComplete, false),
+    created_at: asTimestamp(raw.created_at),
+    updated_at: asTimestamp(raw.updated_at),
+  };
+}
+
+/**
+ * Validate a workout plan with its plan days
+ */
+export function validateWorkoutWithDetails(
+  value: unknown,
+  path = "workout"
+): WorkoutWithDetails {
+  const raw = asObject(value, path);
+  const id = asId(raw.id, `${path}.id`);
+  const planDays = asArray(
+    raw.planDays,
+    `${path}.planDays`,
+    (item, itemPath) => validatePlanDayWithBlocks(item, itemPath, id)
+  );
+  return {
+    ...raw,
+    id,
+    userId: asNumber(raw.userId, 0),
+    name: asString(raw.name, "Workout Plan"),
+    description: asOptionalString(raw.description),
+    // Plan bounds are only used for display, so fall back to the plan days
+    startDate:
+      parseDate(raw.startDate) ?? planDays[0]?.date ?? asTimestamp(undefined),
+    endDate:
+      parseDate(raw.endDate) ??
+      planDays[planDays.length - 1]?.date ??
+      asTimestamp(undefined),
+    promptId: asNumber(raw.promptId, 0),
+    isActive: asBoolean(raw.isActive, false),
+    completed: asBoolean(raw.completed, false),
+    planDays,
+    created_at: asTimestamp(raw.created_at),
+    updated_at: asTimestamp(raw.updated_at),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Dashboard
+// ---------------------------------------------------------------------------
+
+function validateWeeklySummary(value: unknown): WeeklySummary {
+  const raw: Raw = value && typeof value === "object" ? (value as Raw) : {};
+  return {
+    ...raw,
+    workoutCompletionRate: asNumber(raw.workoutCompletionRate, 0),
+    exerciseCompletionRate: asNumber(raw.exerciseCompletionRate, 0),
+    streak: asNumber(raw.streak, 0),
+    totalWorkoutsThisWeek: asNumber(raw.totalWorkoutsThisWeek, 0),
+    completedWorkoutsThisWeek: asNumber(raw.completedWorkoutsThisWeek, 0),
+  };
+}
+
+function validateWeightAccuracy(value: unknown): WeightAccuracyMetrics {
+  const raw: Raw = value && typeof value === "object" ? (value as Raw) : {};
+  return {
+    ...raw,
+    accuracyRate: asNumber(raw.accuracyRate, 0),
+    totalSets: asNumber(raw.totalSets, 0),
+    exactMatches: asNumber(raw.exactMatches, 0),
+    higherWeight: asNumber(raw.higherWeight, 0),
+    lowerWeight: asNumber(raw.lowerWeight, 0),
+    avgWeightDifference: asNumber(raw.avgWeightDifference, 0),
+    chartData: asArray(raw.chartData, "weightAccuracy.chartData", (item, p) => {
+      const point = asObject(item, p);
+      return {
+        ...point,
+        label: asString(point.label, ""),
+        value: asNumber(point.value, 0),
+        color: asString(point.color, ""),
+        count: asOptionalNumber(point.count),
+      };
+    }),
+    hasPlannedWeights: asBoolean(raw.hasPlannedWeights, false),
+    hasExerciseData: asBoolean(raw.hasExerciseData, false),
+  };
+}
+
+function validateWorkoutTypeMetrics(value: unknown): WorkoutTypeMetrics {
+  const raw: Raw = value && typeof value === "object" ? (value as Raw) : {};
+  return {
+    ...raw,
+    distribution: asArray(
+      raw.distribution,
+      "workoutTypeMetrics.distribution",
+      (item, p) => {
+        const entry = asObject(item, p);
+        return {
+          ...entry,
+          tag: asString(entry.tag, ""),
+          label: asString(entry.label, ""),
+          totalSets: asNumber(entry.totalSets, 0),
+          totalReps: asNumber(entry.totalReps, 0),
+          exerciseCount: asNumber(entry.exerciseCount, 0),
+          completedWorkouts: asNumber(entry.completedWorkouts, 0),
+          percentage: asNumber(entry.percentage, 0),
+          color: asString(entry.color, ""),
+        };
+      }
+    ),
+    totalExercises: asNumber(raw.totalExercises, 0),
+    totalSets: asNumber(raw.totalSets, 0),
+    dominantType: asString(raw.dominantType, ""),
+    hasData: asBoolean(raw.hasData, false),
+  };
+}
+
+/**
+ * Validate the combined dashboard metrics payload
+ */
+export function validateDashboardMetrics(
+  value: unknown,
+  path = "dashboard"
+): DashboardMetrics {
+  const raw = asObject(value, path);
+  return {
+    ...raw,
+    weeklySummary: validateWeeklySummary(raw.weeklySummary),
+    workoutConsistency: asArray(
+      raw.workoutConsistency,
+      `${path}.workoutConsistency`,
+      (item, p) => {
+        const entry = asObject(item, p);
+        return {
+          ...entry,
+          week: asString(entry.week, ""),
+          totalWorkouts: asNumber(entry.totalWorkouts, 0),
+          completedWorkouts: asNumber(entry.completedWorkouts, 0),
+          completionRate: asNumber(entry.completionRate, 0),
+        };
+      }
+    ),
+    weightMetrics: asArray(
+      raw.weightMetrics,
+      `${path}.weightMetrics`,
+      (item, p) => {
+        const entry = asObject(item, p);
+        return {
+          ...entry,
+          name: asString(entry.name, ""),
+          totalWeight: asNumber(entry.totalWeight, 0),
+          muscleGroups: asStringArray(entry.muscleGroups),
+        };
+      }
+    ),
+    weightAccuracy: validateWeightAccuracy(raw.weightAccuracy),
+    goalProgress: asArray(
+      raw.goalProgress,
+      `${path}.goalProgress`,
+      (item, p) => {
+        const entry = asObject(item, p);
+        return {
+          ...entry,
+          goal: asString(entry.goal, ""),
+          progressScore: asNumber(entry.progressScore, 0),
+          totalSets: asNumber(entry.totalSets, 0),
+          totalReps: asNumber(entry.totalReps, 0),
+          totalWeight: asNumber(entry.totalWeight, 0),
+          completedWorkouts: asNumber(entry.completedWorkouts, 0),
+        };
+      }
+    ),
+    totalVolumeMetrics: asArray(
+      raw.totalVolumeMetrics,
+      `${path}.totalVolumeMetrics`,
+      (item, p) => {
+        const entry = asObject(item, p);
+        return {
+          ...entry,
+          date: asRequiredString(entry.date, `${p}.date`),
+          totalVolume: asNumber(entry.totalVolume, 0),
+          exerciseCount: asNumber(entry.exerciseCount, 0),
+          label: asString(entry.label, ""),
+        };
+      }
+    ),
+    workoutTypeMetrics: validateWorkoutTypeMetrics(raw.workoutTypeMetrics),
+    dailyWorkoutProgress: asArray(
+      raw.dailyWorkoutProgress,
+      `${path}.dailyWorkoutProgress`,
+      (item, p) => {
+        const entry = asObject(item, p);
+        return {
+          ...entry,
+          date: asRequiredString(entry.date, `${p}.date`),
+          completionRate: asNumber(entry.completionRate, 0),
+          hasPlannedWorkout: asBoolean(entry.hasPlannedWorkout, false),
+        };
+      }
+    ),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Search
+// ---------------------------------------------------------------------------
+
+function validateSearchExerciseDetails(
+  value: unknown,
+  path: string
+): SearchExerciseDetails {
+  const raw = asObject(value, path);
+  return {
+    ...raw,
+    id: asId(raw.id, `${path}.id`),
+    name: asRequiredString(raw.name, `${path}.name`),
+    description: asString(raw.description, ""),
+    muscleGroups: asStringArray(raw.muscleGroups),
+    equipment: asStringArray(raw.equipment),
+    difficulty: asString(raw.difficulty, ""),
+    instructions: asString(raw.instructions, ""),
+    link: asOptionalString(raw.link),
+  };
+}
+
+function validateDateSearchExercise(
+  value: unknown,
+  path: string
+): DateSearchExercise {
+  const raw = asObject(value, path);
+  return {
+    ...raw,
+    id: asId(raw.id, `${path}.id`),
+    exercise: validateSearchExerciseDetails(raw.exercise, `${path}.exercise`),
+    sets: asNullableNumber(raw.sets),
+    reps: asNullableNumber(raw.reps),
+    weight: asNullableNumber(raw.weight),
+    duration: asNullableNumber(raw.duration),
+    restTime: asNullableNumber(raw.restTime),
+    completed: asBoolean(raw.completed, false),
+    completionRate: asNumber(raw.completionRate, 0),
+  };
+}
+
+function validateDateSearchBlock(
+  value: unknown,
+  path: string
+): DateSearchWorkoutBlock {
+  const raw = asObject(value, path);
+  return {
+    ...raw,
+    id: asId(raw.id, `${path}.id`),
+    blockType: asOptionalString(raw.blockType),
+    blockName: asOptionalString(raw.blockName),
+    timeCapMinutes: asOptionalNumber(raw.timeCapMinutes),
+    rounds: asOptionalNumber(raw.rounds),
+    instructions: asOptionalString(raw.instructions),
+    exercises: asArray(
+      raw.exercises,
+      `${path}.exercises`,
+      validateDateSearchExercise
+    ),
+  };
+}
+
+function validateDateSearchWorkout(
+  value: unknown,
+  path: string
+): DateSearchWorkout {
+  const raw = asObject(value, path);
+  const planDay = asObject(raw.planDay, `${path}.planDay`);
+  return {
+    ...raw,
+    id: asId(raw.id, `${path}.id`),
+    name: asString(raw.name, "Workout"),
+    description: asString(raw.description, ""),
+    completed: asBoolean(raw.completed, false),
+    planDay: {
+      ...planDay,
+      id: asId(planDay.id, `${path}.planDay.id`),
+      date: asDate(planDay.date, `${path}.planDay.date`),
+      exercises: asArray(
+        planDay.exercises,
+        `${path}.planDay.exercises`,
+        validateDateSearchExercise
+      ),
+      blocks: Array.isArray(planDay.blocks)
+        ? asArray(
+            planDay.blocks,
+            `${path}.planDay.blocks`,
+            validateDateSearchBlock
+          )
+        : undefined,
+    },
+    overallCompletionRate: asNumber(raw.overallCompletionRate, 0),
+    exercises: asArray(raw.exercises, `${path}.exercises`, (item, p) => {
+      const exercise = asObject(item, p);
+      return {
+        ...exercise,
+        id: asId(exercise.id, `${p}.id`),
+        name: asString(exercise.name, ""),
+      };
+    }),
+  };
+}
+
+/**
+ * Validate the response of a search by date
+ */
+export function validateDateSearchResponse(
+  value: unknown,
+  path = "dateSearch"
+): DateSearchResponse {
+  const raw = asObject(value, path);
+  return {
+    ...raw,
+    success: asBoolean(raw.success, false),
+    data: asArray(raw.data, `${path}.data`, validateDateSearchWorkout),
+    date: asString(raw.date, ""),
+    workout:
+      raw.workout === null || raw.workout === undefined
+        ? null
+        : validateDateSearchWorkout(raw.workout, `${path}.workout`),
+  };
+}
+
+/**
+ * Validate a user's stats for one exercise
+ */
+export function validateExerciseUserStats(
+  value: unknown,
+  path = "userStats"
+): ExerciseUserStats {
+  const raw = asObject(value, path);
+  const record: Raw =
+    raw.personalRecord && typeof raw.personalRecord === "object"
+      ? raw.personalRecord
+      : {};
+  return {
+    ...raw,
+    totalAssignments: asNumber(raw.totalAssignments, 0),
+    totalCompletions: asNumber(raw.totalCompletions, 0),
+    completionRate: asNumber(raw.completionRate, 0),
+    averageSets: asNumber(raw.averageSets, 0),
+    averageReps: asNumber(raw.averageReps, 0),
+    averageWeight: asNullableNumber(raw.averageWeight),
+    lastPerformed: asNullableDate(raw.lastPerformed),
+    personalRecord: {
+      ...record,
+      maxWeight: asNullableNumber(record.maxWeight),
+      maxReps: asNumber(record.maxReps, 0),
+      maxSets: asNumber(record.maxSets, 0),
+    },
+  };
+}
+
+const EMPTY_USER_STATS: ExerciseUserStats = {
+  totalAssignments: 0,
+  totalCompletions: 0,
+  completionRate: 0,
+  averageSets: 0,
+  averageReps: 0,
+  averageWeight: null,
+  lastPerformed: null,
+  personalRecord: { maxWeight: null, maxReps: 0, maxSets: 0 },
+};
+
+/**
+ * Validate exercise details returned by exercise search
+ */
+export function validateExerciseDetails(
+  value: unknown,
+  path = "exercise"
+): ExerciseDetails {
+  const raw = asObject(value, path);
+  return {
+    ...raw,
+    id: asId(raw.id, `${path}.id`),
+    name: asRequiredString(raw.name, `${path}.name`),
+    description: asString(raw.description, ""),
+    muscleGroups: asStringArray(raw.muscleGroups),
+    equipment: asStringArray(raw.equipment),
+    difficulty: asString(raw.difficulty, ""),
+    instructions: asString(raw.instructions, ""),
+    link: asOptionalString(raw.link),
+    created_at: asTimestamp(raw.created_at),
+    updated_at: asTimestamp(raw.updated_at),
+    userStats:
+      raw.userStats && typeof raw.userStats === "object"
+        ? validateExerciseUserStats(raw.userStats, `${path}.userStats`)
+        : { ...EMPTY_USER_STATS },
+    recentLogs: asArray(
+      raw.recentLogs,
+      `${path}.recentLogs`,
+      (item, p): SearchExerciseLog => {
+        const log = asObject(item, p);
+        return {
+          ...log,
+          id: asId(log.id, `${p}.id`),
+          date: asString(log.date, ""),
+          sets: asNumber(log.sets, 0),
+          reps: asNumber(log.reps, 0),
+          weight: asNumber(log.weight, 0),
+          notes: asOptionalString(log.notes),
+        };
+      }
+    ),
+  };
+}
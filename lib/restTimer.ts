@@ -0,0 +1,311 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { logger } from "./logger";
+import {
+  cancelScheduledNotification,
+  scheduleLocalNotification,
+} from "./notifications";
+
+/**
+ * Rest timer shared by the workout screens. Rest runs against an end
+ * timestamp rather than a countdown, so it keeps time while the app is in the
+ * background, and a local notification is scheduled for the end of rest so a
+ * member with their phone locked still hears it. The notification is
+ * rescheduled whenever the end moves and cancelled when rest stops early.
+ *
+ * Members can also have rest start by itself after each logged set. That is
+ * chosen per exercise and remembered across sessions.
+ */
+
+export interface RestTimerState {
+  isActive: boolean;
+  isPaused: boolean;
+  /** Full rest period in seconds, including any adjustments */
+  duration: number;
+  /** Whole seconds left */
+  remaining: number;
+  /** When rest runs out, while it is running */
+  endsAt: number | null;
+}
+
+/** Seconds added or taken off by a single adjustment */
+export const REST_ADJUST_SECONDS = 15;
+
+const AUTO_START_STORAGE_KEY = "rest_timer_auto_start";
+const TICK_INTERVAL = 1000;
+
+let duration = 0;
+let endsAt: number | null = null;
+// Seconds left while paused
+let pausedRemaining: number | null = null;
+let ticker: ReturnType<typeof setInterval> | null = null;
+let notification: Promise<string | null> | null = null;
+
+// Catalogue exercise ids that start rest after each logged set
+let autoStartIds: number[] = [];
+let loadPromise: Promise<void> | null = null;
+
+const stateListeners: Array<(state: RestTimerState) => void> = [];
+const completeListeners: Array<(duration: number) => void> = [];
+
+const secondsUntil = (timestamp: number) =>
+  Math.max(0, Math.ceil((timestamp - Date.now()) / 1000));
+
+export function getRestTimerState(): RestTimerState {
+  const isActive = endsAt !== null || pausedRemaining !== null;
+  return {
+    isActive,
+    isPaused: pausedRemaining !== null,
+    duration: isActive ? duration : 0,
+    remaining:
+      pausedRemaining ?? (endsAt !== null ? secondsUntil(endsAt) : 0),
+    endsAt,
+  };
+}
+
+export const subscribeToRestTimer = (
+  listener: (state: RestTimerState) => void
+) => {
+  stateListeners.push(listener);
+
+  return () => {
+    const index = stateListeners.indexOf(listener);
+    if (index > -1) {
+      stateListeners.splice(index, 1);
+    }
+  };
+};
+
+/**
+ * Listen for rest running out while the app is open. Listeners get the length
+ * of the rest that finished.
+ */
+export const subscribeToRestComplete = (
+  listener: (duration: number) => void
+) => {
+  completeListeners.push(listener);
+
+  return () => {
+    const index = completeListeners.indexOf(listener);
+    if (index > -1) {
+      completeListeners.splice(index, 1);
+    }
+  };
+};
+
+const notifyStateChanged = () => {
+  const state = getRestTimerState();
+  stateListeners.forEach((listener) => {
+    try {
+      listener(state);
+    } catch (error) {
+      console.error("Error in rest timer listener:", error);
+    }
+  });
+};
+
+const cancelEndNotification = () => {
+  const pending = notification;
+  notification = null;
+  pending?.then((id) => {
+    if (!id) return;
+    cancelScheduledNotification(id).catch((error) => {
+      logger.warn("Failed to cancel rest notification", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  });
+};
+
+const scheduleEndNotification = (seconds: number) => {
+  cancelEndNotification();
+  notification = scheduleLocalNotification(
+    "Rest Complete!",
+    "Your rest period has ended. Ready for the next set?",
+    { type: "rest_complete" },
+    Math.max(1, seconds),
+    "tri-tone"
+  ).catch((error) => {
+    logger.warn("Failed to schedule rest notification", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  });
+};
+
+const stopTicking = () => {
+  if (ticker) {
+    clearInterval(ticker);
+    ticker = null;
+  }
+};
+
+// Timers don't fire in the background, so the first tick after coming back
+// catches up from the end timestamp
+const tick = () => {
+  if (endsAt === null) return;
+
+  if (Date.now() < endsAt) {
+    notifyStateChanged();
+    return;
+  }
+
+  // The scheduled notification plays the sound, so it is left to show
+  notification = null;
+  endsAt = null;
+  stopTicking();
+  notifyStateChanged();
+  completeListeners.forEach((listener) => {
+    try {
+      listener(duration);
+    } catch (error) {
+      console.error("Error in rest complete listener:", error);
+    }
+  });
+};
+
+const run = (seconds: number) => {
+  pausedRemaining = null;
+  endsAt = Date.now() + seconds * 1000;
+  scheduleEndNotification(seconds);
+  if (!ticker) ticker = setInterval(tick, TICK_INTERVAL);
+  notifyStateChanged();
+};
+
+/**
+ * Start a rest period, replacing any rest already running
+ */
+export function startRestTimer(seconds: number) {
+  if (seconds <= 0) return;
+  duration = seconds;
+  run(seconds);
+}
+
+export function pauseRestTimer() {
+  if (endsAt === null) return;
+  pausedRemaining = secondsUntil(endsAt);
+  endsAt = null;
+  stopTicking();
+  cancelEndNotification();
+  notifyStateChanged();
+}
+
+export function resumeRestTimer() {
+  if (pausedRemaining === null) return;
+  run(pausedRemaining);
+}
+
+/**
+ * Add or take off time from the running rest. Taking off more than is left
+ * ends rest straight away.
+ */
+export function adjustRestTimer(deltaSeconds: number) {
+  const { isActive, isPaused, remaining } = getRestTimerState();
+  if (!isActive) return;
+
+  const adjusted = remaining + deltaSeconds;
+  if (adjusted <= 0) {
+    cancelRestTimer();
+    return;
+  }
+
+  duration = Math.max(duration + deltaSeconds, adjusted);
+  if (isPaused) {
+    pausedRemaining = adjusted;
+    notifyStateChanged();
+  } else {
+    run(adjusted);
+  }
+}
+
+/**
+ * Stop rest early, e.g. when the member is ready before it runs out
+ */
+export function cancelRestTimer() {
+  const wasActive = getRestTimerState().isActive;
+  endsAt = null;
+  pausedRemaining = null;
+  stopTicking();
+  cancelEndNotification();
+  if (wasActive) notifyStateChanged();
+}
+
+/**
+ * Pick up a rest period saved with a workout session. Rest that ran out while
+ * the app was closed is dropped.
+ */
+export function restoreRestTimer(rest: {
+  duration: number;
+  remaining: number;
+  isPaused: boolean;
+  endsAt: number | null;
+}) {
+  cancelRestTimer();
+  duration = rest.duration;
+
+  if (rest.isPaused) {
+    if (rest.remaining <= 0) return;
+    pausedRemaining = rest.remaining;
+    notifyStateChanged();
+  } else if (rest.endsAt !== null && rest.endsAt > Date.now()) {
+    run(secondsUntil(rest.endsAt));
+  }
+}
+
+/**
+ * Load the auto-start choices from storage. Safe to call multiple times.
+ */
+export function initializeRestTimer(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(AUTO_START_STORAGE_KEY);
+        if (!stored) return;
+
+        const parsed = JSON.parse(stored);
+        if (
+          Array.isArray(parsed) &&
+          parsed.every((id) => typeof id === "number")
+        ) {
+          autoStartIds = [...new Set([...parsed, ...autoStartIds])];
+        }
+      } catch (error) {
+        logger.error("Error loading rest timer settings", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        notifyStateChanged();
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+export function isRestAutoStartEnabled(exerciseId: number): boolean {
+  return autoStartIds.includes(exerciseId);
+}
+
+/**
+ * Choose whether rest starts by itself after each set of an exercise
+ */
+export async function setRestAutoStart(
+  exerciseId: number,
+  enabled: boolean
+): Promise<void> {
+  await initializeRestTimer();
+
+  autoStartIds = enabled
+    ? [...autoStartIds.filter((id) => id !== exerciseId), exerciseId]
+    : autoStartIds.filter((id) => id !== exerciseId);
+  notifyStateChanged();
+
+  try {
+    await AsyncStorage.setItem(
+      AUTO_START_STORAGE_KEY,
+      JSON.stringify(autoStartIds)
+    );
+  } catch (error) {
+    logger.error("Error saving rest timer settings", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -1,4 +1,10 @@
 import { apiRequest } from "./api";
+import { isCancelledError, isNotFoundError } from "./apiErrors";
+import {
+  validateDateSearchResponse,
+  validateExerciseDetails,
+  validateExerciseUserStats,
+} from "./responseValidators";
 import {
   DateSearchResponse,
   ExerciseSearchResponse,
@@ -21,15 +27,20 @@ export type {
  */
 export async function searchByDateAPI(
   userId: number,
-  date: string
+  date: string,
+  signal?: AbortSignal
 ): Promise<DateSearchResponse> {
   try {
     const result = await apiRequest<DateSearchResponse>(
-      `/search/date/${userId}?date=${date}`
+      `/search/date/${userId}?date=${date}`,
+      { signal }
     );
-    return result;
+    return validateDateSearchResponse(result);
   } catch (error) {
-    console.error("Search by date error:", error);
+    // A 404 just means nothing was scheduled on that date
+    if (!isNotFoundError(error) && !isCancelledError(error)) {
+      console.error("Search by date error:", error);
+    }
     return {
       success: false,
       data: [],
@@ -44,15 +55,30 @@ export async function searchByDateAPI(
  */
 export async function searchExerciseAPI(
   userId: number,
-  exerciseId: number
+  exerciseId: number,
+  signal?: AbortSignal
 ): Promise<ExerciseSearchResponse> {
   try {
     const result = await apiRequest<ExerciseSearchResponse>(
-      `/search/exercise/${userId}/${exerciseId}`
+      `/search/exercise/${userId}/${exerciseId}`,
+      { signal }
     );
-    return result;
+    const exercise = validateExerciseDetails(
+      result.exercise ?? result.data,
+      "exercise"
+    );
+    return {
+      ...result,
+      data: exercise,
+      exercise,
+      userStats: result.userStats
+        ? validateExerciseUserStats(result.userStats)
+        : null,
+    };
   } catch (error) {
-    console.error("Search exercise error:", error);
+    if (!isCancelledError(error)) {
+      console.error("Search exercise error:", error);
+    }
     throw error;
   }
 }
@@ -61,15 +87,19 @@ export async function searchExerciseAPI(
  * Search exercises by name or muscle group
  */
 export async function searchExercisesAPI(
-  query: string
+  query: string,
+  signal?: AbortSignal
 ): Promise<ExercisesSearchResponse> {
   try {
     const result = await apiRequest<ExercisesSearchResponse>(
-      `/search/exercises?query=${encodeURIComponent(query)}`
+      `/search/exercises?query=${encodeURIComponent(query)}`,
+      { signal }
     );
     return result;
   } catch (error) {
-    console.error("Search exercises error:", error);
+    if (!isCancelledError(error)) {
+      console.error("Search exercises error:", error);
+    }
     return {
       success: false,
       data: [],
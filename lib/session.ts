@@ -0,0 +1,95 @@
+import { logger } from "./logger";
+
+/**
+ * Tracks whether the stored auth token is still usable. apiRequest reports
+ * expiry here (from the token's `exp` claim or a 401 response); AuthContext
+ * listens and sends the user back through login without discarding their data.
+ */
+
+// Treat tokens as expired slightly early so requests don't race the deadline
+const EXPIRY_LEEWAY_MS = 30 * 1000;
+
+const sessionExpiredListeners: Array<() => void> = [];
+let sessionExpired = false;
+let postLoginRedirect: string | null = null;
+
+function decodeBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padding = (4 - (base64.length % 4)) % 4;
+  return atob(base64 + "=".repeat(padding));
+}
+
+/**
+ * Read the `exp` claim of a JWT, in milliseconds since the epoch.
+ * Returns null when the token cannot be decoded or has no expiry.
+ */
+export function getTokenExpiry(token: string): number | null {
+  try {
+    const [, payload] = token.split(".");
+    if (!payload) return null;
+    const claims = JSON.parse(decodeBase64Url(payload));
+    return typeof claims.exp === "number" ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isTokenExpired(token: string): boolean {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - EXPIRY_LEEWAY_MS <= Date.now();
+}
+
+export function isSessionExpired(): boolean {
+  return sessionExpired;
+}
+
+/**
+ * Mark the session as expired and notify listeners (once per expiry)
+ */
+export function notifySessionExpired(reason: string): void {
+  if (sessionExpired) return;
+  sessionExpired = true;
+  logger.warn("Session expired", { reason });
+
+  sessionExpiredListeners.forEach((listener) => {
+    try {
+      listener();
+    } catch (error) {
+      console.error("Error in session expired listener:", error);
+    }
+  });
+}
+
+/**
+ * Clear the expired flag after the user has signed in again (or logged out)
+ */
+export function resetSessionExpiry(): void {
+  sessionExpired = false;
+}
+
+export function subscribeToSessionExpired(listener: () => void): () => void {
+  sessionExpiredListeners.push(listener);
+
+  return () => {
+    const index = sessionExpiredListeners.indexOf(listener);
+    if (index > -1) {
+      sessionExpiredListeners.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Remember where the user was so verification can take them back there
+ */
+export function setPostLoginRedirect(path: string | null): void {
+  postLoginRedirect = path;
+}
+
+/**
+ * Return and forget the remembered location
+ */
+export function takePostLoginRedirect(): string | null {
+  const path = postLoginRedirect;
+  postLoginRedirect = null;
+  return path;
+}
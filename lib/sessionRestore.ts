@@ -0,0 +1,190 @@
+import { getCompletedExercises, getExerciseLogs } from "./workouts";
+import { getNextPendingExerciseId, getPlanOrder } from "./exerciseQueue";
+import { getCurrentLogs } from "./logCorrections";
+import { getExtraExerciseLogs, isExtraExercise } from "./extraExercises";
+import { getWorkingSets } from "./warmup";
+import { isCircuitBlock } from "@/utils/circuitUtils";
+import { ExerciseLog, ExerciseSet, PlanDayWithBlocks } from "@/types/api";
+
+/**
+ * A plan day session rebuilt from the logs already on the server, for when a
+ * workout was started and left part way (possibly on another device). Unlike
+ * the workout snapshot, which holds sets not yet submitted, this only knows
+ * what was sent: each exercise's logged sets, what was skipped and how many
+ * circuit rounds every exercise in the block has logged. Exercises added on
+ * top of the plan are restored from what the device kept for them.
+ */
+
+export interface RestoredExercise {
+  sets: ExerciseSet[];
+  setsCompleted: number;
+  repsCompleted: number;
+  /** Heaviest working set, or 0 when none was logged */
+  weightUsed: number;
+  /** Only set for exercises in a circuit block */
+  roundsCompleted?: number;
+  notes: string;
+}
+
+export interface RestoredSession {
+  /** Logged progress by plan day exercise id, for exercises with logs */
+  exercises: Record<number, RestoredExercise>;
+  /** Plan day exercise ids finished with sets, not skipped */
+  completedExerciseIds: number[];
+  /** Plan day exercise ids, including those in skipped blocks */
+  skippedExercises: number[];
+  skippedBlocks: number[];
+  /** First exercise still to do in plan order, or null if none are left */
+  nextExerciseId: number | null;
+}
+
+function toSessionSets(logs: ExerciseLog[]): ExerciseSet[] {
+  return logs.flatMap((log) =>
+    (log.sets ?? []).map((set) => ({
+      roundNumber: set.roundNumber,
+      setNumber: set.setNumber,
+      weight: set.weight ?? 0,
+      reps: set.reps ?? 0,
+      ...(set.restAfter != null ? { restAfter: set.restAfter } : {}),
+      ...(typeof set.rpe === "number" ? { rpe: set.rpe } : {}),
+      ...(typeof set.rir === "number" ? { rir: set.rir } : {}),
+      ...(set.isWarmup ? { isWarmup: true } : {}),
+    }))
+  );
+}
+
+const getLoggedSets = (logs: ExerciseLog[], isCircuit: boolean) =>
+  toSessionSets(
+    getCurrentLogs(logs, isCircuit).filter((log) => !log.isSkipped)
+  );
+
+const toRestoredExercise = (
+  sets: ExerciseSet[],
+  notes: string
+): RestoredExercise => {
+  const workingSets = getWorkingSets(sets);
+  return {
+    sets,
+    setsCompleted: workingSets.length,
+    repsCompleted: workingSets.reduce((total, set) => total + set.reps, 0),
+    weightUsed: Math.max(0, ...workingSets.map((set) => set.weight)),
+    notes,
+  };
+};
+
+const getRoundNumbers = (logs: ExerciseLog[]) =>
+  new Set(
+    logs
+      .filter((log) => !log.isSkipped)
+      .flatMap((log) => (log.sets ?? []).map((set) => set.roundNumber))
+  );
+
+/**
+ * Work out where a plan day's session got to from its exercise logs and the
+ * workout log's finished exercises, which count even when their log has no
+ * sets (e.g. timed exercises)
+ */
+export async function restoreSessionFromLogs(
+  planDay: PlanDayWithBlocks
+): Promise<RestoredSession> {
+  const blocks = planDay.blocks ?? [];
+  const [{ completedExercises }, exerciseLogs, extraLogs] = await Promise.all([
+    getCompletedExercises(planDay.workoutId),
+    Promise.all(
+      blocks.flatMap((block) =>
+        block.exercises
+          .filter((exercise) => !isExtraExercise(exercise.id))
+          .map(
+            async (exercise): Promise<[number, ExerciseLog[]]> => [
+              exercise.id,
+              await getExerciseLogs(exercise.id),
+            ]
+          )
+      )
+    ),
+    getExtraExerciseLogs(planDay.id),
+  ]);
+  const logsByExercise = new Map<number, ExerciseLog[]>(exerciseLogs);
+
+  const exercises: Record<number, RestoredExercise> = {};
+  const completedExerciseIds: number[] = [];
+  const skippedExercises: number[] = [];
+  const skippedBlocks: number[] = [];
+
+  blocks.forEach((block) => {
+    const isCircuit = isCircuitBlock(block.blockType);
+    const skipped = block.exercises.filter((exercise) => {
+      if (isExtraExercise(exercise.id)) {
+        return !!extraLogs[exercise.id]?.isSkipped;
+      }
+      const logs = logsByExercise.get(exercise.id) ?? [];
+      return logs.length > 0 && logs[logs.length - 1].isSkipped;
+    });
+    skippedExercises.push(...skipped.map((exercise) => exercise.id));
+    if (
+      block.exercises.length > 0 &&
+      skipped.length === block.exercises.length
+    ) {
+      skippedBlocks.push(block.id);
+    }
+
+    // A circuit round counts once every exercise in the block has logged it
+    let roundsCompleted: number | undefined;
+    if (isCircuit && block.exercises.length > 0) {
+      const [first, ...rest] = block.exercises.map((exercise) =>
+        getRoundNumbers(logsByExercise.get(exercise.id) ?? [])
+      );
+      roundsCompleted = [...first].filter((round) =>
+        rest.every((rounds) => rounds.has(round))
+      ).length;
+    }
+
+    block.exercises.forEach((exercise) => {
+      const isSkipped = skippedExercises.includes(exercise.id);
+      if (isExtraExercise(exercise.id)) {
+        const extraLog = extraLogs[exercise.id];
+        if (extraLog && !isSkipped) {
+          completedExerciseIds.push(exercise.id);
+          exercises[exercise.id] = toRestoredExercise(extraLog.sets, "");
+        }
+        return;
+      }
+
+      const logs = logsByExercise.get(exercise.id) ?? [];
+      const submitted = logs.filter((log) => !log.isSkipped);
+      const latest = submitted[submitted.length - 1];
+
+      // The workout log counts skipped exercises as finished too
+      if (
+        !isSkipped &&
+        (completedExercises.includes(exercise.id) ||
+          (!isCircuit && !!latest?.isComplete))
+      ) {
+        completedExerciseIds.push(exercise.id);
+      }
+      if (submitted.length === 0) return;
+
+      exercises[exercise.id] = {
+        ...toRestoredExercise(
+          getLoggedSets(logs, isCircuit),
+          latest?.notes ?? ""
+        ),
+        ...(roundsCompleted !== undefined ? { roundsCompleted } : {}),
+      };
+    });
+  });
+
+  const nextExerciseId = getNextPendingExerciseId(
+    getPlanOrder(blocks),
+    undefined,
+    [...completedExerciseIds, ...skippedExercises]
+  );
+
+  return {
+    exercises,
+    completedExerciseIds,
+    skippedExercises,
+    skippedBlocks,
+    nextExerciseId,
+  };
+}
@@ -0,0 +1,219 @@
+import { fetchExercises } from "./exercises";
+import { searchExercisesAPI } from "./search";
+import { ExerciseFromLib, SearchExercise } from "@/types/api";
+
+/**
+ * Mid-workout exercise substitution. Ranks catalog exercises as stand-ins for
+ * the current one: they have to work at least one of the same muscles, use
+ * only equipment the user has, and steer clear of the movements their
+ * limitations rule out.
+ */
+
+export interface SubstituteCandidate {
+  id: number;
+  name: string;
+  description?: string;
+  muscleGroups: string[];
+  equipment: string[];
+}
+
+export interface ExerciseAlternative {
+  exercise: SubstituteCandidate;
+  // Muscles the alternative shares with the exercise it replaces
+  sharedMuscles: string[];
+}
+
+interface SubstitutionProfile {
+  equipment?: string[] | null;
+  limitations?: string[] | null;
+}
+
+// Movements to steer away from for each physical limitation, matched against
+// the muscles an exercise targets and words in its name
+const LIMITATION_AVOIDANCE: Record<
+  string,
+  { muscles?: string[]; keywords?: string[] }
+> = {
+  knee_pain: { keywords: ["lunge", "jump", "step-up", "squat"] },
+  shoulder_pain: { keywords: ["overhead", "press", "push-up", "dip"] },
+  lower_back_pain: {
+    muscles: ["lower back"],
+    keywords: ["deadlift", "good morning", "swing"],
+  },
+  sciatica: {
+    muscles: ["lower back"],
+    keywords: ["deadlift", "good morning", "swing"],
+  },
+  neck_pain: { keywords: ["shrug", "overhead"] },
+  hip_pain: { keywords: ["lunge", "swing", "squat"] },
+  ankle_instability: { keywords: ["jump", "lunge", "step-up", "hop"] },
+  balance_issues: { keywords: ["lunge", "step-up", "single-leg", "walking"] },
+  wrist_pain: { keywords: ["push-up", "plank", "burpee"] },
+  elbow_pain: { keywords: ["dip", "skull crusher", "push-up"] },
+  osteoporosis: { keywords: ["jump", "swing", "twist"] },
+};
+
+// Equipment that never needs to be available
+const NO_EQUIPMENT = ["none", "bodyweight", "body_weight", ""];
+
+// "Resistance Bands", "resistance_bands" and "resistance band" are the same
+const normalizeEquipment = (equipment: string) =>
+  equipment
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_")
+    .replace(/s$/, "");
+
+const normalizeMuscle = (muscle: string) => muscle.trim().toLowerCase();
+
+/**
+ * Read a catalog entry from /exercises into a candidate
+ */
+export function fromCatalogExercise(
+  exercise: ExerciseFromLib
+): SubstituteCandidate {
+  return {
+    id: exercise.id,
+    name: exercise.name,
+    description: exercise.description,
+    muscleGroups: exercise.muscleGroups ?? [],
+    equipment: exercise.equipment ?? [],
+  };
+}
+
+/**
+ * Read an exercise search result into a candidate
+ */
+export function fromSearchExercise(
+  exercise: SearchExercise
+): SubstituteCandidate {
+  return {
+    id: exercise.id,
+    name: exercise.name,
+    description: exercise.description,
+    muscleGroups: exercise.muscleGroups ?? exercise.targetMuscles ?? [],
+    equipment: exercise.equipment ? exercise.equipment.split(",") : [],
+  };
+}
+
+/**
+ * Whether the user has everything the exercise needs. Users who haven't told
+ * us their equipment aren't filtered.
+ */
+export function fitsEquipment(
+  candidate: SubstituteCandidate,
+  available?: string[] | null
+): boolean {
+  if (!available || available.length === 0) return true;
+
+  const owned = new Set(available.map(normalizeEquipment));
+  return candidate.equipment
+    .map(normalizeEquipment)
+    .every((item) => NO_EQUIPMENT.includes(item) || owned.has(item));
+}
+
+/**
+ * Whether any of the user's limitations rules the exercise out
+ */
+export function conflictsWithLimitations(
+  candidate: SubstituteCandidate,
+  limitations?: string[] | null
+): boolean {
+  const name = candidate.name.toLowerCase();
+  const muscles = candidate.muscleGroups.map(normalizeMuscle);
+
+  return (limitations ?? []).some((limitation) => {
+    const avoid = LIMITATION_AVOIDANCE[limitation];
+    if (!avoid) return false;
+    return (
+      (avoid.muscles ?? []).some((muscle) => muscles.includes(muscle)) ||
+      (avoid.keywords ?? []).some((keyword) => name.includes(keyword))
+    );
+  });
+}
+
+/**
+ * Rank candidates as replacements for an exercise, most shared muscles first.
+ * Exercises in `excludeIds` (e.g. the rest of today's plan) are left out.
+ */
+export function rankAlternatives(
+  current: { id: number; muscleGroups: string[] },
+  candidates: SubstituteCandidate[],
+  profile?: SubstitutionProfile | null,
+  excludeIds: number[] = []
+): ExerciseAlternative[] {
+  const targetMuscles = current.muscleGroups.map(normalizeMuscle);
+  const seen = new Set([current.id, ...excludeIds]);
+
+  return candidates
+    .filter((candidate) => {
+      if (seen.has(candidate.id)) return false;
+      seen.add(candidate.id);
+      return (
+        fitsEquipment(candidate, profile?.equipment) &&
+        !conflictsWithLimitations(candidate, profile?.limitations)
+      );
+    })
+    .map((candidate) => ({
+      exercise: candidate,
+      sharedMuscles: candidate.muscleGroups.filter((muscle) =>
+        targetMuscles.includes(normalizeMuscle(muscle))
+      ),
+    }))
+    .filter((alternative) => alternative.sharedMuscles.length > 0)
+    .sort(
+      (a, b) =>
+        b.sharedMuscles.length - a.sharedMuscles.length ||
+        a.exercise.name.localeCompare(b.exercise.name)
+    );
+}
+
+/**
+ * Alternatives for an exercise from the catalog. With a query, the catalog is
+ * narrowed by the exercise search instead; the same equipment and limitation
+ * rules apply, but results don't have to share a muscle group.
+ */
+export async function fetchExerciseAlternatives(
+  current: { id: number; muscleGroups: string[] },
+  profile?: SubstitutionProfile | null,
+  {
+    query = "",
+    excludeIds = [],
+    signal,
+  }: { query?: string; excludeIds?: number[]; signal?: AbortSignal } = {}
+): Promise<ExerciseAlternative[]> {
+  try {
+    if (query.trim()) {
+      const result = await searchExercisesAPI(query.trim(), signal);
+      const candidates = (result.exercises ?? result.data ?? []).map(
+        fromSearchExercise
+      );
+      const matches = candidates.filter(
+        (candidate) =>
+          candidate.id !== current.id &&
+          !excludeIds.includes(candidate.id) &&
+          fitsEquipment(candidate, profile?.equipment) &&
+          !conflictsWithLimitations(candidate, profile?.limitations)
+      );
+      const ranked = rankAlternatives(current, matches);
+      const rankedIds = new Set(ranked.map((entry) => entry.exercise.id));
+      return [
+        ...ranked,
+        ...matches
+          .filter((candidate) => !rankedIds.has(candidate.id))
+          .map((candidate) => ({ exercise: candidate, sharedMuscles: [] })),
+      ];
+    }
+
+    const catalog = await fetchExercises();
+    return rankAlternatives(
+      current,
+      catalog.map(fromCatalogExercise),
+      profile,
+      excludeIds
+    );
+  } catch (error) {
+    console.error("Error fetching exercise alternatives:", error);
+    return [];
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Superset execution. The exercises in a superset block are done back to back
+ * one set at a time (A1 → B1 → rest → A2 → B2 → ...) and the block only rests
+ * after each pass through the pair. An exercise prescribed fewer sets than its
+ * partner drops out once it has done them.
+ */
+
+interface SupersetBlock {
+  blockType?: string;
+  rounds?: number | null;
+  exercises: {
+    id: number;
+    sets?: number | null;
+    restTime?: number | null;
+  }[];
+}
+
+export interface SupersetStep {
+  // Plan day exercise to do next
+  exerciseId: number;
+  // Its working set number, which is also the pass through the pair
+  setNumber: number;
+}
+
+export function isSupersetBlock(blockType?: string): boolean {
+  return blockType === "superset";
+}
+
+/**
+ * Working sets prescribed for an exercise in a superset
+ */
+export function getSupersetTargetSets(
+  block: SupersetBlock,
+  exerciseId: number
+): number {
+  const exercise = block.exercises.find((entry) => entry.id === exerciseId);
+  return exercise?.sets || block.rounds || 3;
+}
+
+/**
+ * The next set to do given how many working sets each exercise has logged,
+ * or null once they have all done theirs. The exercise furthest behind goes
+ * next, ties going to the one listed first.
+ */
+export function getNextSupersetStep(
+  block: SupersetBlock,
+  loggedSets: Record<number, number>
+): SupersetStep | null {
+  let next: SupersetStep | null = null;
+  for (const exercise of block.exercises) {
+    const logged = loggedSets[exercise.id] ?? 0;
+    if (logged >= getSupersetTargetSets(block, exercise.id)) continue;
+    if (!next || logged + 1 < next.setNumber) {
+      next = { exerciseId: exercise.id, setNumber: logged + 1 };
+    }
+  }
+  return next;
+}
+
+/**
+ * Whether rest is due after finishing `setNumber`: the pass through the pair
+ * is over once the next set belongs to a later pass, or nothing is left
+ */
+export function isSupersetRestDue(
+  next: SupersetStep | null,
+  setNumber: number
+): boolean {
+  return !next || next.setNumber > setNumber;
+}
+
+/**
+ * Rest after each pass: the longest rest prescribed on any of the exercises
+ */
+export function getSupersetRestTime(block: SupersetBlock): number {
+  return Math.max(0, ...block.exercises.map((entry) => entry.restTime || 0));
+}
+
+/**
+ * Letter for an exercise's place in the superset, "A" for the first
+ */
+export function getSupersetLetter(
+  block: SupersetBlock,
+  exerciseId: number
+): string {
+  const index = block.exercises.findIndex((entry) => entry.id === exerciseId);
+  return String.fromCharCode(65 + Math.max(0, index));
+}
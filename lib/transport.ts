@@ -0,0 +1,33 @@
+import { USE_MOCK_API } from "../config";
+
+/**
+ * Sends one HTTP request for apiRequest. Swapping the transport changes where
+ * requests go without touching any of the retry, timeout or error handling
+ * built on top of it.
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+export const fetchTransport: Transport = (url, init) => fetch(url, init);
+
+// The mock backend is only loaded in development builds, so it stays out of
+// release bundles
+let activeTransport: Transport =
+  __DEV__ && USE_MOCK_API
+    ? require("./mockBackend").mockTransport
+    : fetchTransport;
+
+export function getTransport(): Transport {
+  return activeTransport;
+}
+
+/**
+ * Route all API requests through `transport` (e.g. the mock backend in a
+ * development build). Returns a function that restores the previous one.
+ */
+export function setTransport(transport: Transport): () => void {
+  const previous = activeTransport;
+  activeTransport = transport;
+  return () => {
+    activeTransport = previous;
+  };
+}
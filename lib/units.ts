@@ -0,0 +1,189 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { logger } from "./logger";
+import { UnitSystem } from "@/types/api";
+
+/**
+ * Unit conversion for the user's preferred measurement system.
+ *
+ * The API always speaks pounds for weights (body weight, set weights, volume)
+ * and centimetres for height. Values stay in those units everywhere in the
+ * app and are only converted where they are shown or typed in. The profile
+ * has no place for the preference, so it is kept on the device.
+ */
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = "imperial";
+
+const KG_PER_LB = 0.45359237;
+const CM_PER_INCH = 2.54;
+
+const STORAGE_KEY = "unit_system";
+
+let savedUnitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM;
+let loadPromise: Promise<void> | null = null;
+const listeners: Array<(unitSystem: UnitSystem) => void> = [];
+
+export function getUnitSystem(
+  preference?: { unitSystem?: UnitSystem | null } | null
+): UnitSystem {
+  return preference?.unitSystem === "metric" ? "metric" : DEFAULT_UNIT_SYSTEM;
+}
+
+/**
+ * The unit system chosen on this device, or the default until it has loaded
+ */
+export function getSavedUnitSystem(): UnitSystem {
+  return savedUnitSystem;
+}
+
+export const subscribeToUnitSystem = (
+  listener: (unitSystem: UnitSystem) => void
+) => {
+  listeners.push(listener);
+
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+};
+
+const notifyUnitSystemChanged = () => {
+  listeners.forEach((listener) => {
+    try {
+      listener(savedUnitSystem);
+    } catch (error) {
+      console.error("Error in unit system listener:", error);
+    }
+  });
+};
+
+/**
+ * Load the unit system from storage. Safe to call multiple times.
+ */
+export function initializeUnitSystem(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (stored) {
+          savedUnitSystem = getUnitSystem({ unitSystem: stored as UnitSystem });
+        }
+      } catch (error) {
+        logger.error("Error loading unit system", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        notifyUnitSystemChanged();
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Choose the unit system for this device. Resolves to false if it couldn't be
+ * saved; it still applies until the app restarts.
+ */
+export async function saveUnitSystem(unitSystem: UnitSystem): Promise<boolean> {
+  await initializeUnitSystem();
+
+  savedUnitSystem = unitSystem;
+  notifyUnitSystemChanged();
+
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, unitSystem);
+    return true;
+  } catch (error) {
+    logger.error("Error saving unit system", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+export function getWeightUnit(unitSystem: UnitSystem): "lbs" | "kg" {
+  return unitSystem === "metric" ? "kg" : "lbs";
+}
+
+export function getHeightUnit(unitSystem: UnitSystem): "in" | "cm" {
+  return unitSystem === "metric" ? "cm" : "in";
+}
+
+const roundTo = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Convert a weight in pounds to the user's unit, rounded to one decimal
+ */
+export function toDisplayWeight(lbs: number, unitSystem: UnitSystem): number {
+  return roundTo(unitSystem === "metric" ? lbs * KG_PER_LB : lbs, 1);
+}
+
+/**
+ * Convert a weight typed in the user's unit back to pounds
+ */
+export function fromDisplayWeight(
+  value: number,
+  unitSystem: UnitSystem
+): number {
+  return roundTo(unitSystem === "metric" ? value / KG_PER_LB : value, 2);
+}
+
+/**
+ * Convert a height in centimetres to the user's unit (whole inches or cm)
+ */
+export function toDisplayHeight(cm: number, unitSystem: UnitSystem): number {
+  return Math.round(unitSystem === "metric" ? cm : cm / CM_PER_INCH);
+}
+
+/**
+ * Convert a height in the user's unit back to centimetres
+ */
+export function fromDisplayHeight(
+  value: number,
+  unitSystem: UnitSystem
+): number {
+  return Math.round(unitSystem === "metric" ? value : value * CM_PER_INCH);
+}
+
+/**
+ * Convert a weight between pounds and kilograms without rounding
+ */
+export function convertWeight(
+  value: number,
+  from: "lbs" | "kg",
+  to: "lbs" | "kg"
+): number {
+  if (from === to) return value;
+  return from === "lbs" ? value * KG_PER_LB : value / KG_PER_LB;
+}
+
+/**
+ * Format a weight in pounds for display, e.g. "135 lbs" or "61.2 kg"
+ */
+export function formatWeight(lbs: number, unitSystem: UnitSystem): string {
+  return `${toDisplayWeight(lbs, unitSystem)} ${getWeightUnit(unitSystem)}`;
+}
+
+/**
+ * Format a height in centimetres for display, e.g. `5'9"` or "175 cm"
+ */
+export function formatHeightForUnit(
+  cm: number,
+  unitSystem: UnitSystem
+): string {
+  if (unitSystem === "metric") return `${Math.round(cm)} cm`;
+
+  const totalInches = toDisplayHeight(cm, unitSystem);
+  return `${Math.floor(totalInches / 12)}'${totalInches % 12}"`;
+}
+
+/**
+ * The +/- steps offered by weight inputs, in the user's unit
+ */
+export function getWeightSteps(unitSystem: UnitSystem): [number, number] {
+  return unitSystem === "metric" ? [2.5, 5] : [5, 10];
+}
@@ -0,0 +1,87 @@
+import { UnitSystem } from "@/types/api";
+import { WorkoutBlockWithExercise } from "@/types/api/workout.types";
+import { getExerciseLoggingType } from "@/utils/exerciseHelpers";
+import {
+  DEFAULT_UNIT_SYSTEM,
+  toDisplayWeight,
+  fromDisplayWeight,
+} from "./units";
+
+/**
+ * Warm-up ramps for heavy strength work. Exercises in traditional blocks that
+ * are prescribed at or above a working weight threshold get lighter sets
+ * prepended: 40/60/80% of the working weight with descending reps.
+ *
+ * Warm-up sets are logged with `isWarmup` so they can be left out of volume,
+ * progression and personal records.
+ */
+
+// Working weight (in pounds) from which a warm-up ramp is suggested
+export const WARMUP_MIN_WEIGHT_LBS = 65;
+
+export const WARMUP_RAMP = [
+  { percent: 0.4, reps: 8 },
+  { percent: 0.6, reps: 5 },
+  { percent: 0.8, reps: 3 },
+] as const;
+
+// Blocks that are already lighter work or are timed don't get a ramp
+const WARMUP_BLOCK_TYPES = ["traditional", undefined];
+
+export interface WarmupSet {
+  weight: number;
+  reps: number;
+  isWarmup: true;
+}
+
+/**
+ * Whether the exercise is heavy enough strength work to warm up for
+ */
+export function needsWarmup(
+  exercise: WorkoutBlockWithExercise,
+  blockType?: string
+): boolean {
+  return (
+    WARMUP_BLOCK_TYPES.includes(blockType) &&
+    getExerciseLoggingType(exercise) === "sets_reps" &&
+    (exercise.weight ?? 0) >= WARMUP_MIN_WEIGHT_LBS
+  );
+}
+
+/**
+ * The warm-up ramp for a working weight in pounds. Weights are rounded to
+ * loadable jumps in the user's unit (5 lb or 2.5 kg); steps that round to the
+ * same weight as the previous one are dropped.
+ */
+export function buildWarmupSets(
+  workingWeight: number,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
+): WarmupSet[] {
+  const jump = unitSystem === "metric" ? 2.5 : 5;
+  const working = toDisplayWeight(workingWeight, unitSystem);
+
+  const sets: WarmupSet[] = [];
+  WARMUP_RAMP.forEach(({ percent, reps }) => {
+    const weight = Math.round((working * percent) / jump) * jump;
+    const previous = sets[sets.length - 1];
+    if (weight <= 0 || weight >= working) return;
+    if (previous && toDisplayWeight(previous.weight, unitSystem) === weight) {
+      return;
+    }
+    sets.push({
+      weight: fromDisplayWeight(weight, unitSystem),
+      reps,
+      isWarmup: true,
+    });
+  });
+  return sets;
+}
+
+/**
+ * Sets that count as work, i.e. everything except warm-ups
+ */
+export function getWorkingSets<T extends { isWarmup?: boolean | null }>(
+  sets: T[]
+): T[] {
+  return sets.filter((set) => !set.isWarmup);
+}
@@ -0,0 +1,145 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { logger } from "./logger";
+import { TIMEOUTS } from "@/constants";
+
+/**
+ * Crash-safe copy of the live workout session. The workout screen writes it
+ * on every change so that a session the OS killed can be offered for
+ * resumption on the next launch.
+ *
+ * Timers are stored as start timestamps rather than elapsed seconds, so time
+ * spent while the app was dead still counts towards the workout.
+ */
+
+export interface RestTimerSnapshot {
+  startedAt: number | null;
+  remaining: number;
+  isPaused: boolean;
+  /** Full rest period in seconds, which may belong to an earlier exercise */
+  duration?: number;
+}
+
+export interface WorkoutSnapshot<TProgress = unknown> {
+  planDayId: number;
+  currentExerciseIndex: number;
+  /** Per-exercise progress, including logged sets not yet submitted */
+  exerciseProgress: TProgress[];
+  skippedExercises: number[];
+  skippedBlocks: number[];
+  /** Plan day exercise ids in the order the session works through them */
+  exerciseOrder?: number[];
+  /** Plan day exercises finished in this session */
+  completedExercises?: number[];
+  isPaused: boolean;
+  /** Elapsed seconds at save time, used while the session is paused */
+  workoutTimer: number;
+  exerciseTimer: number;
+  workoutStartedAt: number | null;
+  exerciseStartedAt: number | null;
+  restTimer: RestTimerSnapshot | null;
+  savedAt: number;
+}
+
+const STORAGE_KEY = "workout_session_snapshot";
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "number");
+
+const isTimestamp = (value: unknown): value is number | null =>
+  value === null || typeof value === "number";
+
+// Type guard to check if an object is a valid WorkoutSnapshot
+function isWorkoutSnapshot(obj: any): obj is WorkoutSnapshot {
+  return (
+    obj &&
+    typeof obj.planDayId === "number" &&
+    typeof obj.currentExerciseIndex === "number" &&
+    Array.isArray(obj.exerciseProgress) &&
+    isNumberArray(obj.skippedExercises) &&
+    isNumberArray(obj.skippedBlocks) &&
+    (obj.exerciseOrder === undefined || isNumberArray(obj.exerciseOrder)) &&
+    (obj.completedExercises === undefined ||
+      isNumberArray(obj.completedExercises)) &&
+    typeof obj.isPaused === "boolean" &&
+    typeof obj.workoutTimer === "number" &&
+    typeof obj.exerciseTimer === "number" &&
+    isTimestamp(obj.workoutStartedAt) &&
+    isTimestamp(obj.exerciseStartedAt) &&
+    (obj.restTimer === null ||
+      (typeof obj.restTimer === "object" &&
+        isTimestamp(obj.restTimer.startedAt) &&
+        typeof obj.restTimer.remaining === "number" &&
+        typeof obj.restTimer.isPaused === "boolean" &&
+        (obj.restTimer.duration === undefined ||
+          typeof obj.restTimer.duration === "number"))) &&
+    typeof obj.savedAt === "number"
+  );
+}
+
+/**
+ * Persist the current session, replacing any previous snapshot
+ */
+export async function saveWorkoutSnapshot<TProgress>(
+  snapshot: Omit<WorkoutSnapshot<TProgress>, "savedAt">
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ ...snapshot, savedAt: Date.now() })
+    );
+  } catch (error) {
+    logger.error("Failed to save workout snapshot", {
+      error: error instanceof Error ? error.message : String(error),
+      planDayId: snapshot.planDayId,
+    });
+  }
+}
+
+/**
+ * Load the saved session, or null when there is none or it is too old to
+ * resume. Pass `planDayId` to only accept a snapshot of that plan day.
+ */
+export async function loadWorkoutSnapshot<TProgress = unknown>(
+  planDayId?: number
+): Promise<WorkoutSnapshot<TProgress> | null> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+
+    const parsed = JSON.parse(stored);
+    if (!isWorkoutSnapshot(parsed)) {
+      console.warn("Discarding invalid workout snapshot");
+      await clearWorkoutSnapshot();
+      return null;
+    }
+
+    if (Date.now() - parsed.savedAt > TIMEOUTS.WORKOUT_SNAPSHOT_MAX_AGE) {
+      await clearWorkoutSnapshot();
+      return null;
+    }
+
+    if (planDayId !== undefined && parsed.planDayId !== planDayId) {
+      return null;
+    }
+
+    return parsed as WorkoutSnapshot<TProgress>;
+  } catch (error) {
+    logger.error("Failed to load workout snapshot", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Forget the saved session (finished, abandoned or declined)
+ */
+export async function clearWorkoutSnapshot(): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    logger.error("Failed to clear workout snapshot", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,339 @@
+import { isCancelledError } from "./apiErrors";
+import { getCurrentUser } from "./auth";
+import {
+  ExtraExerciseLog,
+  applyExtraExercises,
+  getExtraExerciseLogs,
+  isExtraExercise,
+} from "./extraExercises";
+import { getCurrentLogs } from "./logCorrections";
+import { PersonalRecordEntry, fetchPlanDayRecords } from "./personalRecords";
+import { query } from "./queryCache";
+import { getWorkingSets } from "./warmup";
+import {
+  fetchActiveWorkout,
+  fetchWorkoutHistory,
+  getExerciseLogs,
+  getPlanDayLog,
+} from "./workouts";
+import {
+  calculateCircuitScore,
+  getCircuitTargetRounds,
+  isCircuitBlock,
+} from "@/utils/circuitUtils";
+import { formatDateAsString } from "../utils";
+import { QUERY_TAGS } from "@/constants";
+import {
+  CircuitMetrics,
+  ExerciseLog,
+  ExerciseSet,
+  ExerciseSetLog,
+  PlanDayWithBlocks,
+  WorkoutBlockWithExercises,
+} from "@/types/api";
+
+/**
+ * What a finished plan day added up to. It is rebuilt from the day's exercise
+ * logs rather than kept from the session, so the same summary can be opened
+ * straight after the workout and again later from the calendar.
+ *
+ * Weights and volume are in pounds; warm-up sets are left out of everything.
+ */
+
+export interface SummaryTotals {
+  /** Workout length in seconds, when the plan day log has it */
+  totalTimeSeconds: number | null;
+  totalVolume: number;
+  totalSets: number;
+  totalReps: number;
+}
+
+export interface ExerciseSummary {
+  planDayExerciseId: number;
+  exerciseId: number;
+  name: string;
+  sets: number;
+  reps: number;
+  /** Heaviest working set */
+  topWeight: number;
+  /** Most reps in a single set */
+  topReps: number;
+  volume: number;
+}
+
+export interface BlockSummary {
+  blockId: number;
+  name: string;
+  blockType?: string;
+  sets: number;
+  reps: number;
+  volume: number;
+  exercises: ExerciseSummary[];
+  /** Rounds and score, for circuit-style blocks */
+  circuit: CircuitMetrics | null;
+}
+
+export interface PreviousSummary extends SummaryTotals {
+  planDayId: number;
+  /** Plan day date (YYYY-MM-DD) */
+  date: string;
+}
+
+export interface WorkoutSummary extends SummaryTotals {
+  planDayId: number;
+  name: string;
+  /** Plan day date (YYYY-MM-DD) */
+  date: string;
+  isComplete: boolean;
+  blocks: BlockSummary[];
+  /** The last completed plan day with the same name, if there is one */
+  previous: PreviousSummary | null;
+  /** Records beaten while the plan day's sets were logged */
+  personalRecords: PersonalRecordEntry[];
+}
+
+interface LoggedSet {
+  roundNumber: number;
+  weight: number;
+  reps: number;
+}
+
+// Warm-ups and empty sets aren't part of what was done
+function toLoggedSets(sets: (ExerciseSetLog | ExerciseSet)[]): LoggedSet[] {
+  return getWorkingSets(sets)
+    .filter((set) => (set.reps ?? 0) > 0 || (set.weight ?? 0) > 0)
+    .map((set) => ({
+      roundNumber: set.roundNumber,
+      weight: set.weight ?? 0,
+      reps: set.reps ?? 0,
+    }));
+}
+
+const volumeOf = (sets: LoggedSet[]) =>
+  sets.reduce((total, set) => total + set.weight * set.reps, 0);
+
+const repsOf = (sets: LoggedSet[]) =>
+  sets.reduce((total, set) => total + set.reps, 0);
+
+const normalizeName = (name?: string) => (name ?? "").trim().toLowerCase();
+
+// Circuits log one entry per round; other blocks log the exercise once. A
+// correction is a newer log for the exercise (or round) that replaces it.
+const getExerciseSets = (logs: ExerciseLog[], isCircuit: boolean) =>
+  getCurrentLogs(logs, isCircuit).flatMap((log) =>
+    toLoggedSets(log.sets ?? [])
+  );
+
+// Extras are kept on the device rather than logged
+const getExtraSets = (log?: ExtraExerciseLog) =>
+  log && !log.isSkipped ? toLoggedSets(log.sets) : [];
+
+// Rebuild the circuit session's metrics from its per-round logs
+function getCircuitMetrics(
+  block: WorkoutBlockWithExercises,
+  logsByExercise: ExerciseLog[][]
+): CircuitMetrics | null {
+  const rounds = new Map<
+    number,
+    { totalReps: number; timeSeconds: number; completedExercises: number }
+  >();
+
+  logsByExercise.forEach((logs) => {
+    logs.forEach((log) => {
+      toLoggedSets(log.sets ?? []).forEach((set) => {
+        const round = rounds.get(set.roundNumber) ?? {
+          totalReps: 0,
+          timeSeconds: 0,
+          completedExercises: 0,
+        };
+        round.totalReps += set.reps;
+        round.completedExercises += 1;
+        // Every exercise in a round is logged with the round's time
+        round.timeSeconds = Math.max(round.timeSeconds, log.timeTaken ?? 0);
+        rounds.set(set.roundNumber, round);
+      });
+    });
+  });
+  if (rounds.size === 0) return null;
+
+  const roundBreakdown = [...rounds.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([roundNumber, round]) => ({ roundNumber, ...round }));
+  const totalReps = roundBreakdown.reduce((sum, r) => sum + r.totalReps, 0);
+  const totalSeconds = roundBreakdown.reduce(
+    (sum, r) => sum + r.timeSeconds,
+    0
+  );
+
+  return {
+    roundsCompleted: roundBreakdown.length,
+    totalReps,
+    totalTimeMinutes: totalSeconds / 60,
+    averageRoundTime: totalSeconds / roundBreakdown.length,
+    score: calculateCircuitScore(block.blockType || "circuit", {
+      roundsCompleted: roundBreakdown.length,
+      totalReps,
+      timeMinutes: totalSeconds / 60,
+      targetRounds: getCircuitTargetRounds(block),
+    }),
+    roundBreakdown,
+  };
+}
+
+async function summarizeBlocks(
+  planDay: PlanDayWithBlocks
+): Promise<BlockSummary[]> {
+  const [{ blocks: withExtras }, extraLogs] = await Promise.all([
+    applyExtraExercises(planDay),
+    getExtraExerciseLogs(planDay.id),
+  ]);
+  const blocks = [...withExtras].sort(
+    (a, b) => (a.order || 0) - (b.order || 0)
+  );
+
+  return Promise.all(
+    blocks.map(async (block) => {
+      const isCircuit = isCircuitBlock(block.blockType);
+      const logsByExercise = await Promise.all(
+        block.exercises.map(async (exercise) =>
+          isExtraExercise(exercise.id)
+            ? []
+            : getCurrentLogs(await getExerciseLogs(exercise.id), isCircuit)
+        )
+      );
+
+      const exercises = block.exercises
+        .map((exercise, index): ExerciseSummary => {
+          const sets = isExtraExercise(exercise.id)
+            ? getExtraSets(extraLogs[exercise.id])
+            : getExerciseSets(logsByExercise[index], isCircuit);
+          return {
+            planDayExerciseId: exercise.id,
+            exerciseId: exercise.exerciseId,
+            name: exercise.exercise.name,
+            sets: sets.length,
+            reps: repsOf(sets),
+            topWeight: Math.max(0, ...sets.map((set) => set.weight)),
+            topReps: Math.max(0, ...sets.map((set) => set.reps)),
+            volume: volumeOf(sets),
+          };
+        })
+        .filter((exercise) => exercise.sets > 0);
+
+      return {
+        blockId: block.id,
+        name: block.blockName || "",
+        blockType: block.blockType,
+        sets: exercises.reduce((sum, exercise) => sum + exercise.sets, 0),
+        reps: exercises.reduce((sum, exercise) => sum + exercise.reps, 0),
+        volume: exercises.reduce((sum, exercise) => sum + exercise.volume, 0),
+        exercises,
+        circuit: isCircuit ? getCircuitMetrics(block, logsByExercise) : null,
+      };
+    })
+  );
+}
+
+async function getTotals(
+  planDay: PlanDayWithBlocks,
+  blocks: BlockSummary[]
+): Promise<SummaryTotals> {
+  const log = await getPlanDayLog(planDay.id);
+  return {
+    totalTimeSeconds:
+      log?.totalTimeMinutes != null ? log.totalTimeMinutes * 60 : null,
+    totalVolume: blocks.reduce((sum, block) => sum + block.volume, 0),
+    totalSets: blocks.reduce((sum, block) => sum + block.sets, 0),
+    totalReps: blocks.reduce((sum, block) => sum + block.reps, 0),
+  };
+}
+
+async function loadWorkoutSummary(
+  userId: number,
+  planDayId: number,
+  signal: AbortSignal
+): Promise<WorkoutSummary | null> {
+  const [activeWorkout, history] = await Promise.all([
+    fetchActiveWorkout(false, signal),
+    fetchWorkoutHistory(userId, signal),
+  ]);
+  const planDays = [
+    ...(activeWorkout ? [activeWorkout] : []),
+    ...(history ?? []),
+  ].flatMap((workout) => workout.planDays);
+
+  const planDay = planDays.find((day) => day.id === planDayId);
+  if (!planDay) return null;
+  const date = formatDateAsString(planDay.date);
+
+  const previousDay = planDays
+    .filter(
+      (day) =>
+        day.id !== planDayId &&
+        day.isComplete &&
+        normalizeName(day.name) === normalizeName(planDay.name) &&
+        formatDateAsString(day.date) < date
+    )
+    .sort((a, b) =>
+      formatDateAsString(b.date).localeCompare(formatDateAsString(a.date))
+    )[0];
+
+  const blocks = await summarizeBlocks(planDay);
+  const [totals, personalRecords, previous] = await Promise.all([
+    getTotals(planDay, blocks),
+    fetchPlanDayRecords(
+      blocks.flatMap((block) =>
+        block.exercises.map((exercise) => exercise.planDayExerciseId)
+      ),
+      date
+    ),
+    previousDay
+      ? summarizeBlocks(previousDay).then(
+          async (previousBlocks): Promise<PreviousSummary> => ({
+            planDayId: previousDay.id,
+            date: formatDateAsString(previousDay.date),
+            ...(await getTotals(previousDay, previousBlocks)),
+          })
+        )
+      : null,
+  ]);
+
+  return {
+    planDayId,
+    name: planDay.name,
+    date,
+    isComplete: planDay.isComplete,
+    ...totals,
+    blocks,
+    previous,
+    personalRecords,
+  };
+}
+
+/**
+ * Summary of a plan day's logged work, or null if the plan day can't be found
+ */
+export async function fetchWorkoutSummary(
+  planDayId: number,
+  options: { forceRefresh?: boolean; signal?: AbortSignal } = {}
+): Promise<WorkoutSummary | null> {
+  try {
+    const user = await getCurrentUser();
+    if (!user) return null;
+
+    return await query<WorkoutSummary | null>(
+      `workoutSummary:${user.id}:${planDayId}`,
+      (signal) => loadWorkoutSummary(user.id, planDayId, signal),
+      {
+        tags: [QUERY_TAGS.WORKOUT],
+        forceRefresh: options.forceRefresh,
+        signal: options.signal,
+      }
+    );
+  } catch (error) {
+    if (!isCancelledError(error)) {
+      console.error("Error fetching workout summary:", error);
+    }
+    return null;
+  }
+}
@@ -1,12 +1,30 @@
 import { apiRequest } from "./api";
+import {
+  isCancelledError,
+  isContractViolationError,
+  isNotFoundError,
+} from "./apiErrors";
+import { validateWorkoutWithDetails } from "./responseValidators";
+import {
+  query,
+  invalidateQueries,
+  subscribeToQueryInvalidation,
+} from "./queryCache";
+import { logger } from "./logger";
 import { getCurrentUser } from "./auth";
+import {
+  QueuedRequest,
+  isQueuedRequest,
+  queueableRequest,
+} from "./offlineQueue";
 import { formatDateAsString, getTodayString } from "../utils";
-import { TIMEOUTS, LIMITS } from "@/constants";
+import { LIMITS, QUERY_TAGS } from "@/constants";
 import {
   Workout,
   CreateWorkoutParams,
   UpdateWorkoutParams,
   CreateExerciseLogParams,
+  UpdateExerciseLogParams,
   CreateWorkoutLogParams,
   ExerciseLog,
   PlanDayWithBlocks,
@@ -21,13 +39,6 @@ import {
   ActiveWorkoutResponse,
 } from "@/types/api";
 
-// Simple cache for active workout
-let activeWorkoutCache: {
-  timestamp: number;
-  workout: PlanDayWithBlocks | null;
-} | null = null;
-
-
 // Simple event system for workout data updates
 const workoutUpdateListeners: Array<() => void> = [];
 
@@ -66,10 +77,8 @@ export const notifyWorkoutUpdated = () => {
   });
 };
 
-export const invalidateActiveWorkoutCache = () => {
-  activeWorkoutCache = null;
-  notifyWorkoutUpdated();
-};
+// Screens reload whenever cached workout data is invalidated
+subscribeToQueryInvalidation(QUERY_TAGS.WORKOUT, notifyWorkoutUpdated);
 
 /**
  * Fetch all workouts for the current user
@@ -92,6 +101,7 @@ export async function fetchWorkoutById(id: number): Promise<Workout | null> {
     const workout = await apiRequest<Workout>(`/api/workouts/${id}`);
     return workout;
   } catch (error) {
+    if (isNotFoundError(error)) return null;
     console.error(`Error fetching workout with id ${id}:`, error);
     return null;
   }
@@ -226,7 +236,7 @@ export async function generateWorkoutPlan(
 
     if (response?.success) {
       // Invalidate cache to force fresh data fetch
-      invalidateActiveWorkoutCache();
+      invalidateQueries(QUERY_TAGS.WORKOUT);
       return response;
     } else {
       throw new Error(response?.message || "Failed to generate workout plan");
@@ -273,7 +283,7 @@ export async function regenerateWorkoutPlan(
 
     if (response?.success) {
       // Invalidate cache to force fresh data fetch
-      invalidateActiveWorkoutCache();
+      invalidateQueries(QUERY_TAGS.WORKOUT);
       return response;
     } else {
       throw new Error(response?.message || "Failed to regenerate workout plan");
@@ -292,14 +302,18 @@ export async function getPlanDayLog(
 ): Promise<PlanDayLog | null> {
   try {
     // First try to get the latest plan day log
-    const response = await apiRequest<{ success: boolean; log: PlanDayLog }>(
-      `/logs/plan-day/plan-day/${planDayId}/latest`
-    );
-    if (response?.log) {
-      return response.log;
+    try {
+      const response = await apiRequest<{ success: boolean; log: PlanDayLog }>(
+        `/logs/plan-day/plan-day/${planDayId}/latest`
+      );
+      if (response?.log) {
+        return response.log;
+      }
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error;
     }
 
-    // If that fails, try getting all logs for the plan day and take the first one
+    // If there is no latest log, try getting all logs for the plan day and take the first one
     const allLogsResponse = await apiRequest<{
       success: boolean;
       logs: PlanDayLog[];
@@ -307,13 +321,15 @@ export async function getPlanDayLog(
     const logs = allLogsResponse?.logs || [];
     return logs.length > 0 ? logs[0] : null;
   } catch (error) {
+    if (isNotFoundError(error)) return null;
     console.error(`Error fetching plan day log for ${planDayId}:`, error);
     return null;
   }
 }
 
 /**
- * Mark a plan day as complete
+ * Mark a plan day as complete. Resolves to `{ queued: true }` when it will be
+ * sent once the device is back online, and null when it failed.
  */
 export async function markPlanDayAsComplete(
   planDayId: number,
@@ -322,10 +338,14 @@ export async function markPlanDayAsComplete(
     exercisesCompleted?: number;
     blocksCompleted?: number;
     notes?: string;
+    // Post-workout check-in
+    mood?: string;
+    difficulty?: string;
+    rating?: number;
   }
-): Promise<ApiResponse | null> {
+): Promise<ApiResponse | QueuedRequest | null> {
   try {
-    const response = await apiRequest<ApiResponse>(
+    const response = await queueableRequest<ApiResponse>(
       `/logs/workout/day/${planDayId}/complete`,
       {
         method: "POST",
@@ -334,7 +354,7 @@ export async function markPlanDayAsComplete(
     );
     // When a plan day is completed, the active workout cache should be invalidated
     // to reflect this change on next load.
-    invalidateActiveWorkoutCache();
+    invalidateQueries(QUERY_TAGS.WORKOUT);
     return response;
   } catch (error) {
     console.error(`Error marking plan day ${planDayId} as complete:`, error);
@@ -346,54 +366,83 @@ export async function markPlanDayAsComplete(
  * Fetch active workout
  */
 export async function fetchActiveWorkout(
-  forceRefresh = false
+  forceRefresh = false,
+  signal?: AbortSignal
 ): Promise<WorkoutWithDetails | null> {
-  const now = Date.now();
-
-  if (
-    !forceRefresh &&
-    activeWorkoutCache &&
-    now - activeWorkoutCache.timestamp < TIMEOUTS.CACHE_DURATION_MS
-  ) {
-    return activeWorkoutCache.workout;
-  }
-
   try {
     const user = await getCurrentUser();
     if (!user) {
       return null;
     }
-    const response = await apiRequest<ActiveWorkoutResponse>(
-      `/workouts/${user.id}/active-workout`
-    );
-
-    // Check if response indicates no active workout (this is normal, not an error)
-    if (!response?.workout) {
-      // Update cache with null workout
-      activeWorkoutCache = {
-        timestamp: now,
-        workout: null,
-      };
-      return null;
-    }
 
-    // Update cache with workout data
-    activeWorkoutCache = {
-      timestamp: now,
-      workout: response.workout,
-    };
-
-    return response.workout;
+    return await query<WorkoutWithDetails | null>(
+      `activeWorkout:${user.id}`,
+      async (querySignal) => {
+        try {
+          const response = await apiRequest<ActiveWorkoutResponse>(
+            `/workouts/${user.id}/active-workout`,
+            { signal: querySignal }
+          );
+
+          // No active workout is a normal state, cache it like any other
+          if (!response?.workout) return null;
+
+          return validateWorkoutWithDetails(response.workout, "activeWorkout");
+        } catch (error) {
+          if (isNotFoundError(error)) return null;
+          throw error;
+        }
+      },
+      {
+        tags: [QUERY_TAGS.WORKOUT],
+        persist: true,
+        forceRefresh,
+        signal,
+        // Persisted plans come back from JSON with string dates
+        revive: (data) =>
+          data ? validateWorkoutWithDetails(data, "activeWorkout") : null,
+        onRevalidate: notifyWorkoutUpdated,
+      }
+    );
   } catch (error) {
     // Only log actual network/API errors, not expected "no workout" states
-    if (error instanceof Error && error.message.includes("404")) {
+    if (isCancelledError(error)) {
       return null;
     }
+    // A malformed plan must not look like "no workout"; let screens report it
+    if (isContractViolationError(error)) {
+      logger.error("Active workout response failed validation", {
+        path: error.path,
+        error: error.message,
+      });
+      throw error;
+    }
     console.error("Actual error fetching active workout:", error);
     return null;
   }
 }
 
+/**
+ * Today's plan day in the active workout, if there is one
+ */
+export async function fetchTodaysPlanDay(
+  forceRefresh = false,
+  signal?: AbortSignal
+): Promise<PlanDayWithBlocks | null> {
+  try {
+    const workout = await fetchActiveWorkout(forceRefresh, signal);
+    const today = getTodayString();
+    return (
+      workout?.planDays?.find(
+        (day: PlanDayWithBlocks) => formatDateAsString(day.date) === today
+      ) ?? null
+    );
+  } catch (error) {
+    console.error("Error fetching today's plan day:", error);
+    return null;
+  }
+}
+
 /**
  * Get the next upcoming workout
  */
@@ -419,13 +468,14 @@ export function getNextWorkout(workouts: Workout[]): Workout | null {
 // New API functions for workout session functionality
 
 /**
- * Create an exercise log
+ * Create an exercise log. Resolves to `{ queued: true }` when it will be sent
+ * once the device is back online, and null when it failed.
  */
 export async function createExerciseLog(
   params: CreateExerciseLogParams
-): Promise<ExerciseLog | null> {
+): Promise<ExerciseLog | QueuedRequest | null> {
   try {
-    const response = await apiRequest<ExerciseLog>("/logs/exercise", {
+    const response = await queueableRequest<ExerciseLog>("/logs/exercise", {
       method: "POST",
       body: JSON.stringify({
         planDayExerciseId: params.planDayExerciseId,
@@ -446,6 +496,30 @@ export async function createExerciseLog(
   }
 }
 
+/**
+ * Correct a submitted exercise log in place, e.g. a typo in a set or a skip
+ * that should have been logged
+ */
+export async function updateExerciseLog(
+  logId: number,
+  params: UpdateExerciseLogParams
+): Promise<ExerciseLog | null> {
+  try {
+    const response = await apiRequest<{ success: boolean; log: ExerciseLog }>(
+      `/logs/exercise/${logId}`,
+      {
+        method: "PUT",
+        body: JSON.stringify(params),
+      }
+    );
+    invalidateQueries(QUERY_TAGS.WORKOUT, QUERY_TAGS.DASHBOARD);
+    return response.log || null;
+  } catch (error) {
+    console.error(`Error updating exercise log ${logId}:`, error);
+    return null;
+  }
+}
+
 /**
  * Create a workout log
  */
@@ -468,7 +542,17 @@ export async function createWorkoutLog(
 }
 
 /**
- * Get exercise logs for a specific plan day exercise
+ * Logs in the order they were made, whatever order the server sent them in
+ */
+export const orderLogs = (logs: ExerciseLog[]) =>
+  [...logs].sort(
+    (a, b) =>
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() ||
+      a.id - b.id
+  );
+
+/**
+ * Get exercise logs for a specific plan day exercise, oldest first
  */
 export async function getExerciseLogs(
   planDayExerciseId: number
@@ -478,7 +562,7 @@ export async function getExerciseLogs(
       success: boolean;
       logs: ExerciseLog[];
     }>(`/logs/exercise/${planDayExerciseId}`);
-    return response.logs || [];
+    return orderLogs(response.logs || []);
   } catch (error) {
     console.error("Error fetching exercise logs:", error);
     return [];
@@ -513,6 +597,8 @@ export async function getExistingWorkoutLog(
     }>(`/logs/workout/${workoutId}/existing`);
     return response.log || null;
   } catch (error) {
+    // No log yet is the normal state for a workout that hasn't been started
+    if (isNotFoundError(error)) return null;
     console.error("Error fetching existing workout log:", error);
     return null;
   }
@@ -593,15 +679,15 @@ export async function markExerciseCompleted(
   workoutId: number,
   planDayExerciseId: number
 ): Promise<WorkoutLog | null> {
-  invalidateActiveWorkoutCache();
+  invalidateQueries(QUERY_TAGS.WORKOUT);
   try {
-    const response = await apiRequest<{ success: boolean; log: WorkoutLog }>(
-      `/logs/workout/${workoutId}/exercise/${planDayExerciseId}`,
-      {
-        method: "POST",
-      }
-    );
-    return response.log || null;
+    const response = await queueableRequest<{
+      success: boolean;
+      log: WorkoutLog;
+    }>(`/logs/workout/${workoutId}/exercise/${planDayExerciseId}`, {
+      method: "POST",
+    });
+    return isQueuedRequest(response) ? null : response.log || null;
   } catch (error) {
     console.error("Error marking exercise as completed:", error);
     return null;
@@ -638,7 +724,7 @@ export async function regenerateDailyWorkout(
   planDayId: number,
   regenerationReason: string
 ): Promise<{ success: boolean; planDay: PlanDayWithBlocks } | null> {
-  invalidateActiveWorkoutCache();
+  invalidateQueries(QUERY_TAGS.WORKOUT);
   try {
     const response = await apiRequest<{
       success: boolean;
@@ -668,7 +754,7 @@ export async function skipExercise(
         method: "POST",
       }
     );
-    invalidateActiveWorkoutCache();
+    invalidateQueries(QUERY_TAGS.WORKOUT);
     return response.log || null;
   } catch (error) {
     console.error("Error skipping exercise:", error);
@@ -690,7 +776,7 @@ export async function skipWorkoutBlock(
         method: "POST",
       }
     );
-    invalidateActiveWorkoutCache();
+    invalidateQueries(QUERY_TAGS.WORKOUT);
     return response.log || null;
   } catch (error) {
     console.error("Error skipping workout block:", error);
@@ -717,7 +803,7 @@ export async function repeatPreviousWeekWorkout(
 
     if (response?.success) {
       // Invalidate cache to force fresh data fetch
-      invalidateActiveWorkoutCache();
+      invalidateQueries(QUERY_TAGS.WORKOUT);
       return response;
     } else {
       throw new Error(response?.message || "Failed to repeat workout");
@@ -732,19 +818,24 @@ export async function repeatPreviousWeekWorkout(
  * Fetch workout history for a user
  */
 export async function fetchWorkoutHistory(
-  userId: number
+  userId: number,
+  signal?: AbortSignal
 ): Promise<WorkoutWithDetails[] | null> {
   try {
     const response = await apiRequest<WorkoutsResponse>(
-      `/workouts/${userId}/history`
+      `/workouts/${userId}/history`,
+      { signal }
     );
 
     if (response?.success) {
-      return response.workouts || [];
+      return (response.workouts || []).map((workout, index) =>
+        validateWorkoutWithDetails(workout, `history[${index}]`)
+      );
     } else {
       return [];
     }
   } catch (error) {
+    if (isCancelledError(error)) return [];
     console.error("Error fetching workout history:", error);
     return [];
   }
@@ -953,7 +1044,7 @@ export async function regenerateWorkoutPlanAsync(
     });
 
     if (response?.success) {
-      invalidateActiveWorkoutCache();
+      invalidateQueries(QUERY_TAGS.WORKOUT);
       return response;
     } else {
       throw new Error("Failed to start async workout regeneration");
@@ -987,7 +1078,7 @@ export async function regenerateDailyWorkoutAsync(
     });
 
     if (response?.success) {
-      invalidateActiveWorkoutCache();
+      invalidateQueries(QUERY_TAGS.WORKOUT);
       return response;
     } else {
       throw new Error("Failed to start async daily workout regeneration");
@@ -1027,7 +1118,7 @@ export async function generateRestDayWorkoutAsync(
     console.log("Rest day workout API response:", response);
     
     if (response?.success) {
-      invalidateActiveWorkoutCache();
+      invalidateQueries(QUERY_TAGS.WORKOUT);
       return response;
     } else {
       throw new Error("Failed to start rest day workout generation");
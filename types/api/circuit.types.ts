@@ -223,6 +223,8 @@ export interface CircuitSessionConfig {
   showExerciseInstructions?: boolean;
   /** Custom rep targets (overrides exercise defaults) */
   customRepTargets?: Record<number, number>;
+  /** Rounds already logged, e.g. by a session picked up part way */
+  roundsCompleted?: number;
 }
 
 /**
@@ -52,6 +52,26 @@ export interface TotalVolumeMetrics {
   label: string;
 }
 
+/** Average effort of a workout day, worked out on the device */
+export interface EffortMetrics {
+  date: string;
+  // Average RPE of the sets logged with an effort (RIR converted to RPE)
+  averageRpe: number;
+  setCount: number;
+  label: string;
+}
+
+/** A plan day check-in, kept on the device */
+export interface CheckInMetrics {
+  date: string;
+  planDayId: number;
+  // Post-workout check-in; each part is optional
+  mood: string | null;
+  rating: number | null;
+  difficulty: string | null;
+  label: string;
+}
+
 export interface WorkoutTypeDistribution {
   tag: string;
   label: string;
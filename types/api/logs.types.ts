@@ -21,6 +21,10 @@ export interface ExerciseSetLog {
   weight: number | null;
   reps: number | null;
   restAfter: number | null;
+  rpe?: number | null;
+  rir?: number | null;
+  // Warm-up sets don't count towards volume or personal records
+  isWarmup?: boolean | null;
   createdAt: string;
 }
 
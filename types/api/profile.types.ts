@@ -1,3 +1,16 @@
+// Measurement system the user enters and reads values in. The API itself
+// always stores weights in pounds and height in centimetres.
+export type UnitSystem = "imperial" | "metric";
+
+// Barbell and plates the user owns. Plates are stamped in one unit, so the
+// inventory keeps weights in that unit rather than converting to pounds.
+export interface PlateInventory {
+  unit: "lbs" | "kg";
+  barWeight: number;
+  // Plates owned per denomination, counting both sides of the bar
+  plates: { weight: number; count: number }[];
+}
+
 export interface Profile {
   id: number;
   userId: number;
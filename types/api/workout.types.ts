@@ -42,6 +42,9 @@ export interface CreateExerciseLogParams {
     weight: number;
     reps: number;
     restAfter?: number;
+    rpe?: number;
+    rir?: number;
+    isWarmup?: boolean;
   }>;
   durationCompleted?: number;
   isComplete: boolean;
@@ -51,6 +54,14 @@ export interface CreateExerciseLogParams {
   rating?: number;
 }
 
+// A correction to a submitted exercise log. Sets, when given, replace the
+// log's sets.
+export interface UpdateExerciseLogParams {
+  sets?: CreateExerciseLogParams["sets"];
+  isComplete?: boolean;
+  isSkipped?: boolean;
+}
+
 export interface ExerciseProgress {
   setsCompleted: number;
   repsCompleted: number;
@@ -116,6 +127,8 @@ export interface WorkoutBlockExercise {
   id: number;
   workoutBlockId: number;
   exerciseId: number;
+  // Set on the device when the user swapped the planned exercise out for today
+  originalExerciseId?: number | null;
   sets?: number;
   reps?: number;
   weight?: number;
@@ -159,6 +172,9 @@ export interface ExerciseSet {
   weight: number;
   reps: number;
   restAfter?: number;
+  rpe?: number;
+  rir?: number;
+  isWarmup?: boolean;
 }
 
 export interface ExerciseSessionData {
@@ -214,6 +230,10 @@ export interface ExerciseSetLog {
   weight: number | null;
   reps: number | null;
   restAfter: number | null;
+  rpe?: number | null;
+  rir?: number | null;
+  // Warm-up sets don't count towards volume or personal records
+  isWarmup?: boolean | null;
   createdAt: Date;
 }
 
@@ -9,12 +9,15 @@ import {
   AvailableEquipment,
   PreferredStyles,
 } from "../enums/fitness.enums";
+import { UnitSystem } from "../api/profile.types";
 
 export interface FormData {
   email: string;
   age: number;
+  // Always centimetres and pounds; unitSystem only changes how they're shown
   height: number;
   weight: number;
+  unitSystem?: UnitSystem;
   gender: Gender;
   goals: FitnessGoals[];
   limitations?: PhysicalLimitations[];
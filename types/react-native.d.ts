@@ -29,6 +29,7 @@ declare module "expo-router" {
     replace: (route: string) => void;
     push: (route: string) => void;
     back: () => void;
+    dismissTo: (route: string) => void;
   };
 
   export function usePathname(): string;
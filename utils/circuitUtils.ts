@@ -107,6 +107,24 @@ export function getCircuitTimerConfig(blockType: string) {
   return configs[blockType as keyof typeof configs] || configs.circuit;
 }
 
+/**
+ * Gets the number of rounds a circuit block is meant to run
+ * @param block The circuit block
+ * @returns Target rounds, if the block has a fixed number
+ */
+export function getCircuitTargetRounds(block: {
+  blockType?: string;
+  rounds?: number;
+  timeCapMinutes?: number;
+}): number | undefined {
+  if (block.blockType === 'emom' && block.timeCapMinutes) {
+    return block.timeCapMinutes;
+  } else if (block.blockType === 'tabata') {
+    return 8; // Tabata always has 8 intervals
+  }
+  return block.rounds;
+}
+
 /**
  * Calculates circuit score based on type and performance
  * @param blockType The circuit block type
@@ -74,4 +74,20 @@ export function getDefaultRestTime(exercise: WorkoutBlockWithExercise): number {
     default:
       return 60;
   }
-}
\ No newline at end of file
+}
+// Equipment that means the lift is loaded onto a barbell
+const BARBELL_EQUIPMENT = ["barbell", "barbells", "squat_rack"];
+
+// Helper to determine if the plate calculator applies to an exercise
+export function isBarbellExercise(
+  equipment: string | string[] | null | undefined
+): boolean {
+  if (!equipment) return false;
+
+  const items = Array.isArray(equipment) ? equipment : equipment.split(",");
+  return items.some((item) =>
+    BARBELL_EQUIPMENT.includes(
+      item.trim().toLowerCase().replace(/\s+/g, "_")
+    )
+  );
+}
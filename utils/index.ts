@@ -319,6 +319,16 @@ export function getDayOfMonth(date: Date): number {
   return date.getDate();
 }
 
+/**
+ * Format a timestamp as a 24-hour clock time (e.g. "14:32")
+ */
+export function formatClockTime(timestamp: number | Date): string {
+  const date = typeof timestamp === "number" ? new Date(timestamp) : timestamp;
+  const hours = date.getHours().toString().padStart(2, "0");
+  const minutes = date.getMinutes().toString().padStart(2, "0");
+  return `${hours}:${minutes}`;
+}
+
 /**
  * Generate a unique ID
  */